@@ -8,31 +8,37 @@ import "../src/interfaces/IMorpho.sol";
 contract DeployMorphoFlashLoan is Script {
     // Base network addresses
     address constant MORPHO_BLUE = 0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb;
-    bytes32 constant MARKET_ID = 0x3a4048c64ba1b375330d376b1ce40e4047d03b47ab4d48af484edec9fec801ba;
-    address constant WETH = 0x4200000000000000000000000000000000000006;
-    address constant WSTETH = 0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452;
+    // Default market: wstETH/WETH. Override MARKET_ID, UNI_POOL and POOL_FEE to deploy for
+    // another pair, e.g. a stablecoin carry market such as sUSDe/USDC
+    bytes32 constant DEFAULT_MARKET_ID = 0x3a4048c64ba1b375330d376b1ce40e4047d03b47ab4d48af484edec9fec801ba;
     // Uniswap V3 Router on Base
     address constant SWAP_ROUTER = 0x2626664c2603336E57B271c5C0b26F421741e481;
     // Uniswap V3 wstETH/WETH pool on Base (0.01% fee)
-    address constant UNI_POOL = 0x20E068D76f9E90b90604500B84c7e19dCB923e7e;
-    uint24 constant POOL_FEE = 100;
+    address constant DEFAULT_UNI_POOL = 0x20E068D76f9E90b90604500B84c7e19dCB923e7e;
+    uint24 constant DEFAULT_POOL_FEE = 100;
+    // Routers allowed for the *WithSwap entry points
+    address constant AERODROME_ROUTER = 0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43;
+    address constant LIFI_DIAMOND = 0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE;
 
     function run() external {
         uint256 deployerPrivateKey = vm.envUint("STAGENET_PRIVATE_KEY");
         address deployer = vm.addr(deployerPrivateKey);
+        bytes32 marketId = vm.envOr("MARKET_ID", DEFAULT_MARKET_ID);
+        address uniPool = vm.envOr("UNI_POOL", DEFAULT_UNI_POOL);
+        uint24 poolFee = uint24(vm.envOr("POOL_FEE", uint256(DEFAULT_POOL_FEE)));
 
         console.log("=== Deploying MorphoFlashLoanLeverageHelper on Base ===");
         console.log("Deployer:", deployer);
         console.log("Morpho Blue:", MORPHO_BLUE);
-        console.log("Market ID:", vm.toString(MARKET_ID));
-        console.log("WETH:", WETH);
-        console.log("wstETH:", WSTETH);
+        console.log("Market ID:", vm.toString(marketId));
+        console.log("Uniswap V3 pool:", uniPool);
+        console.log("Pool fee:", poolFee);
 
         // Fetch market params from Morpho
         IMorpho morpho = IMorpho(MORPHO_BLUE);
 
         console.log("\n=== Fetching Market Parameters ===");
-        IMorpho.MarketParams memory params = morpho.idToMarketParams(MARKET_ID);
+        IMorpho.MarketParams memory params = morpho.idToMarketParams(marketId);
 
         console.log("Loan Token:", params.loanToken);
         console.log("Collateral Token:", params.collateralToken);
@@ -41,9 +47,16 @@ contract DeployMorphoFlashLoan is Script {
         console.log("LLTV:", params.lltv);
 
         // Verify market params
-        require(params.loanToken == WETH, "Market loan token must be WETH");
-        require(params.collateralToken == WSTETH, "Market collateral token must be wstETH");
+        require(params.loanToken != address(0), "Market not found");
         require(params.lltv > 0, "Market LLTV must be set");
+        // The helper swaps between exactly these two tokens
+        address token0 = IUniV3Pool(uniPool).token0();
+        address token1 = IUniV3Pool(uniPool).token1();
+        require(
+            (token0 == params.loanToken && token1 == params.collateralToken) ||
+            (token0 == params.collateralToken && token1 == params.loanToken),
+            "Pool must pair the market's loan and collateral tokens"
+        );
 
         console.log("\n=== Deploying Contract ===");
 
@@ -51,14 +64,14 @@ contract DeployMorphoFlashLoan is Script {
 
         MorphoFlashLoanLeverageHelper helper = new MorphoFlashLoanLeverageHelper(
             MORPHO_BLUE,
-            MARKET_ID,
+            marketId,
             params,
-            WETH,
-            WSTETH,
             SWAP_ROUTER,
-            UNI_POOL,
-            POOL_FEE
+            uniPool,
+            poolFee
         );
+        helper.setSwapRouter(AERODROME_ROUTER, true);
+        helper.setSwapRouter(LIFI_DIAMOND, true);
 
         vm.stopBroadcast();
 
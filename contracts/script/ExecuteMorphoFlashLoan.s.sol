@@ -91,7 +91,8 @@ contract ExecuteMorphoFlashLoan is Script {
         leverageHelper.executeLeverage(
             targetLeverage,
             depositAmount,
-            50 // 0.5% slippage
+            50, // 0.5% slippage
+            0 // min-out from the pool spot price
         );
         console.log("Leverage executed successfully!");
 
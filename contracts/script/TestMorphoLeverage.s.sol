@@ -90,7 +90,7 @@ contract TestMorphoLeverage is Script {
 
         // ── Step 4: Execute 2x Leverage ──────────────────────────────────────
         console.log("\n[3] Executing 2x Leverage (1 wstETH deposit)...");
-        try helper.executeLeverage(2e18, 1e18, 50) {
+        try helper.executeLeverage(2e18, 1e18, 50, 0) {
             console.log("    Leverage SUCCESS");
             _logPosition(user, "\n--- After Leverage ---");
         } catch Error(string memory reason) {
@@ -2,6 +2,7 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 
@@ -13,10 +14,15 @@ import "./interfaces/IUniV3Pool.sol";
 
 /**
  * @title MorphoFlashLoanLeverageHelper
- * @notice Cross-asset leveraged staking: wstETH collateral / WETH debt via Morpho Blue flash loans
+ * @notice Cross-asset leveraged carry on one Morpho Blue market via flash loans — wstETH/WETH, or a
+ *         yield-bearing stablecoin vault against its base asset (sUSDe/USDC, sDAI/USDC, syrupUSDC/USDC)
+ * @dev The flows below are written for wstETH/WETH; any loan/collateral pair with a Uniswap V3 pool works,
+ *      at any token decimals (LOAN_UNIT / COLLATERAL_UNIT are read at deploy)
  * @dev
  *   Leverage:  deposit wstETH -> flash-loan WETH (free) -> swap WETH->wstETH via Uniswap V3 -> supply collateral -> borrow WETH -> repay flash loan
  *   Deleverage: flash-loan WETH -> repay debt -> withdraw wstETH collateral -> swap wstETH->WETH via Uniswap V3 -> repay flash loan -> return remaining wstETH
+ *   Partial deleverage: same as deleverage, but repays part of the debt and withdraws part of the collateral; the position stays open
+ *   *WithSwap variants: same flows, but the swap runs caller-supplied calldata on an owner-approved router (Aerodrome, LiFi)
  * @dev Morpho Blue specifics:
  *   - Flash loans have NO premium (free)
  *   - Uses authorization (not credit delegation)
@@ -36,11 +42,12 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
     address public immutable ORACLE;
     address public immutable IRM;
     uint256 public immutable LLTV;
-    address public immutable WETH;
-    address public immutable WSTETH;
+    uint256 public immutable LOAN_UNIT;          // 10 ** loan token decimals
+    uint256 public immutable COLLATERAL_UNIT;    // 10 ** collateral token decimals
     address public immutable SWAP_ROUTER;        // Uniswap V3 Router
-    address public immutable UNI_POOL;           // Uniswap V3 wstETH/WETH pool
+    address public immutable UNI_POOL;           // Uniswap V3 loan/collateral pool
     uint24  public immutable POOL_FEE;           // Pool fee tier (100 = 0.01%)
+    bool    public immutable LOAN_IS_TOKEN0;     // Pool orientation
     address public immutable owner;
 
     // Constants
@@ -51,6 +58,7 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
 
     // State
     bool public paused;
+    mapping(address => bool) public swapRouters; // Routers the *WithSwap entry points may call
 
     // Events
     event LeverageExecuted(
@@ -69,8 +77,17 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         uint256 returnedToUserWsteth
     );
 
+    event PositionReduced(
+        address indexed user,
+        uint256 debtRepaidWeth,
+        uint256 collateralWithdrawnWsteth,
+        uint256 returnedToUserWsteth,
+        uint256 healthFactor
+    );
+
     event EmergencyPause(bool paused);
     event EmergencyWithdraw(address indexed token, uint256 amount);
+    event SwapRouterSet(address indexed router, bool allowed);
 
     // Errors
     error Unauthorized();
@@ -83,6 +100,7 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
     error AuthorizationNotGranted();
     error NoDebtPosition();
     error InsufficientSwapOutput();
+    error RouterNotAllowed();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert Unauthorized();
@@ -109,26 +127,19 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         address _morpho,
         bytes32 _marketId,
         IMorpho.MarketParams memory params,
-        address _weth,
-        address _wsteth,
         address _swapRouter,
         address _uniPool,
         uint24 _poolFee
     ) {
         if (
             _morpho == address(0) || _marketId == bytes32(0) ||
-            _weth == address(0) || _wsteth == address(0)
+            params.loanToken == address(0) || params.collateralToken == address(0)
         ) revert InvalidParameters();
 
         // Verify market params match the market ID
         bytes32 computedId = keccak256(abi.encode(params));
         if (computedId != _marketId) revert InvalidParameters();
 
-        // Verify market uses WETH as loan token and wstETH as collateral
-        if (params.loanToken != _weth || params.collateralToken != _wsteth) {
-            revert InvalidParameters();
-        }
-
         MORPHO = _morpho;
         MARKET_ID = _marketId;
         LOAN_TOKEN = params.loanToken;
@@ -136,22 +147,24 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         ORACLE = params.oracle;
         IRM = params.irm;
         LLTV = params.lltv;
-        WETH = _weth;
-        WSTETH = _wsteth;
+        LOAN_UNIT = 10 ** IERC20Metadata(params.loanToken).decimals();
+        COLLATERAL_UNIT = 10 ** IERC20Metadata(params.collateralToken).decimals();
         SWAP_ROUTER = _swapRouter;
         UNI_POOL = _uniPool;
         POOL_FEE = _poolFee;
+        // Uniswap orders pool tokens by address
+        LOAN_IS_TOKEN0 = params.loanToken < params.collateralToken;
 
         // Approve Uniswap V3 Router for swaps
         if (_swapRouter != address(0)) {
-            IERC20(_weth).forceApprove(_swapRouter, type(uint256).max);
-            IERC20(_wsteth).forceApprove(_swapRouter, type(uint256).max);
+            IERC20(params.loanToken).forceApprove(_swapRouter, type(uint256).max);
+            IERC20(params.collateralToken).forceApprove(_swapRouter, type(uint256).max);
         }
         owner = msg.sender;
 
-        // Max approve WETH and wstETH to Morpho
-        IERC20(_weth).forceApprove(_morpho, type(uint256).max);
-        IERC20(_wsteth).forceApprove(_morpho, type(uint256).max);
+        // Max approve loan and collateral tokens to Morpho
+        IERC20(params.loanToken).forceApprove(_morpho, type(uint256).max);
+        IERC20(params.collateralToken).forceApprove(_morpho, type(uint256).max);
     }
 
     /**
@@ -160,11 +173,14 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
      * @param targetLeverage Desired leverage in 18 decimals (e.g. 2e18 = 2x)
      * @param userDeposit Amount of wstETH user wants to deposit
      * @param maxSlippageBps Maximum slippage in basis points (e.g. 50 = 0.5%)
+     * @param minCollateralOut Minimum wstETH the swap must return, from an off-chain quote of the flash
+     *        amount (e.g. QuoterV2); 0 = pool spot price less maxSlippageBps
      */
     function executeLeverage(
         uint256 targetLeverage,
         uint256 userDeposit,
-        uint256 maxSlippageBps
+        uint256 maxSlippageBps,
+        uint256 minCollateralOut
     ) external whenNotPaused nonReentrant {
         if (targetLeverage <= PRECISION) revert InvalidParameters();
         if (userDeposit == 0) revert InsufficientDeposit();
@@ -176,28 +192,156 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         }
 
         // Pull wstETH from user
-        IERC20(WSTETH).safeTransferFrom(msg.sender, address(this), userDeposit);
+        IERC20(COLLATERAL_TOKEN).safeTransferFrom(msg.sender, address(this), userDeposit);
 
         // Calculate how much additional wstETH we need for target leverage,
         // then convert to WETH using pool price (what the swap will actually give).
         // additionalWsteth = userDeposit * (leverage - 1)
         // flashWeth = additionalWsteth * poolRate (WETH per wstETH)
         uint256 additionalWsteth = (userDeposit * (targetLeverage - PRECISION)) / PRECISION;
-        uint256 poolWethPerWsteth = _getPoolAmountOut(1e18, false); // 1 wstETH → ? WETH
-        uint256 flashWeth = (additionalWsteth * poolWethPerWsteth) / 1e18;
+        uint256 flashWeth = _getPoolAmountOut(additionalWsteth, false);
 
         if (flashWeth == 0) revert InvalidParameters();
+        _checkMinCollateralOut(flashWeth, minCollateralOut);
 
         // Encode params for callback (includes slippage for swap protection)
         bytes memory params = abi.encode(
             uint8(0), // operation type: 0 = leverage
             msg.sender,
             userDeposit,
-            maxSlippageBps
+            maxSlippageBps,
+            minCollateralOut
         );
 
         // Execute flash loan (Morpho flash loans are FREE - no premium)
-        IMorpho(MORPHO).flashLoan(WETH, flashWeth, params);
+        IMorpho(MORPHO).flashLoan(LOAN_TOKEN, flashWeth, params);
+    }
+
+    /**
+     * @notice Increase leverage on an existing position without closing it
+     * @dev User must authorize this contract via Morpho.setAuthorization() before calling.
+     *      Flash loan size is derived from the current collateral and debt so the position
+     *      ends at `targetLeverage`; the callback is the same as executeLeverage.
+     * @param targetLeverage Desired leverage in 18 decimals (must exceed the current leverage)
+     * @param extraDeposit Optional wstETH to add to the position (0 = lever up on existing equity)
+     * @param maxSlippageBps Maximum slippage in basis points (e.g. 50 = 0.5%)
+     * @param minCollateralOut Minimum wstETH the swap must return; 0 = pool spot price less maxSlippageBps
+     */
+    function executeLeverUp(
+        uint256 targetLeverage,
+        uint256 extraDeposit,
+        uint256 maxSlippageBps,
+        uint256 minCollateralOut
+    ) external whenNotPaused nonReentrant {
+        if (targetLeverage <= PRECISION) revert InvalidParameters();
+        if (maxSlippageBps > MAX_SLIPPAGE_BPS) revert InvalidParameters();
+
+        // Check user has authorized this contract
+        if (!IMorpho(MORPHO).isAuthorized(msg.sender, address(this))) {
+            revert AuthorizationNotGranted();
+        }
+
+        (,, uint128 collateral) = IMorpho(MORPHO).position(MARKET_ID, msg.sender);
+        if (collateral == 0) revert NoDebtPosition();
+
+        uint256 flashWeth = _leverUpFlashAmount(msg.sender, targetLeverage, extraDeposit);
+        if (flashWeth == 0) revert InvalidParameters();
+        _checkMinCollateralOut(flashWeth, minCollateralOut);
+
+        if (extraDeposit > 0) {
+            IERC20(COLLATERAL_TOKEN).safeTransferFrom(msg.sender, address(this), extraDeposit);
+        }
+
+        bytes memory params = abi.encode(
+            uint8(0), // operation type: 0 = leverage (supplies extraDeposit + swap output)
+            msg.sender,
+            extraDeposit,
+            maxSlippageBps,
+            minCollateralOut
+        );
+
+        IMorpho(MORPHO).flashLoan(LOAN_TOKEN, flashWeth, params);
+    }
+
+    /**
+     * @notice Open or lever up a position, swapping the flash loan through an approved router
+     * @dev User must authorize this contract via Morpho.setAuthorization() before calling.
+     *      The caller sizes the flash loan and supplies a route quoted off-chain for exactly
+     *      `flashAmount` (e.g. Aerodrome or LiFi). Only the WETH the route spends is borrowed.
+     * @param userDeposit wstETH to add from the wallet (0 = lever up on existing equity)
+     * @param flashAmount WETH to flash-borrow and swap
+     * @param minCollateralOut Minimum wstETH the route must return; at most MAX_SLIPPAGE_BPS below the pool price
+     * @param swapData abi.encode(address router, bytes data)
+     */
+    function executeLeverageWithSwap(
+        uint256 userDeposit,
+        uint256 flashAmount,
+        uint256 minCollateralOut,
+        bytes calldata swapData
+    ) external whenNotPaused nonReentrant {
+        if (flashAmount == 0) revert InvalidParameters();
+
+        // Check user has authorized this contract
+        if (!IMorpho(MORPHO).isAuthorized(msg.sender, address(this))) {
+            revert AuthorizationNotGranted();
+        }
+
+        if (userDeposit == 0) {
+            (,, uint128 collateral) = IMorpho(MORPHO).position(MARKET_ID, msg.sender);
+            if (collateral == 0) revert InsufficientDeposit();
+        }
+
+        uint256 slippageBps = _slippageBps(_getPoolAmountOut(flashAmount, true), minCollateralOut);
+        if (slippageBps > MAX_SLIPPAGE_BPS) revert InvalidParameters();
+
+        if (userDeposit > 0) {
+            IERC20(COLLATERAL_TOKEN).safeTransferFrom(msg.sender, address(this), userDeposit);
+        }
+
+        bytes memory params = abi.encode(
+            uint8(3), // operation type: 3 = leverage via router
+            msg.sender,
+            userDeposit,
+            minCollateralOut,
+            slippageBps,
+            swapData
+        );
+
+        IMorpho(MORPHO).flashLoan(LOAN_TOKEN, flashAmount, params);
+    }
+
+    /**
+     * @notice WETH to flash-borrow so `user`'s position reaches `targetLeverage` after adding `extraDeposit`
+     * @dev equity = (collateral + extraDeposit) × oracle − debt; the position needs
+     *      equity × targetLeverage of collateral value, and the shortfall is bought with WETH
+     *      at the pool rate. Returns 0 if the target is at or below the current leverage.
+     */
+    function _leverUpFlashAmount(address user, uint256 targetLeverage, uint256 extraDeposit)
+        internal
+        view
+        returns (uint256)
+    {
+        (, uint128 borrowShares, uint128 collateral) = IMorpho(MORPHO).position(MARKET_ID, user);
+
+        // Round debt UP so the target is never overshot
+        uint256 debtAssets;
+        if (borrowShares > 0) {
+            (,, uint128 totalBorrowAssets, uint128 totalBorrowShares,,) = IMorpho(MORPHO).market(MARKET_ID);
+            if (totalBorrowShares > 0) {
+                debtAssets = (uint256(borrowShares) * uint256(totalBorrowAssets) + uint256(totalBorrowShares) - 1)
+                    / uint256(totalBorrowShares);
+            }
+        }
+
+        uint256 oraclePrice = IOracle(ORACLE).price();
+        uint256 collateralValueEth = ((uint256(collateral) + extraDeposit) * oraclePrice) / 1e36;
+        if (collateralValueEth <= debtAssets) return 0;
+
+        uint256 targetValueEth = ((collateralValueEth - debtAssets) * targetLeverage) / PRECISION;
+        if (targetValueEth <= collateralValueEth) return 0;
+
+        uint256 additionalWsteth = ((targetValueEth - collateralValueEth) * 1e36) / oraclePrice;
+        return _getPoolAmountOut(additionalWsteth, false);
     }
 
     /**
@@ -218,6 +362,12 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
             _handleLeverage(assets, data);
         } else if (opType == 1) {
             _handleDeleverage(assets, data);
+        } else if (opType == 2) {
+            _handlePartialDeleverage(assets, data);
+        } else if (opType == 3) {
+            _handleLeverageWithSwap(assets, data);
+        } else if (opType == 4) {
+            _handleDeleverageWithSwap(assets, data);
         } else {
             revert InvalidParameters();
         }
@@ -246,25 +396,77 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         );
     }
 
+    /**
+     * @notice Internal helper that runs caller-supplied swap calldata on an approved router
+     * @dev The router is approved for exactly `amountIn` and the approval is cleared afterwards.
+     *      Output and spend are measured from balances, so the calldata's recipient must be this contract.
+     * @param swapData abi.encode(address router, bytes data)
+     * @return amountOut tokenOut received
+     * @return spent tokenIn the router pulled (at most `amountIn`)
+     */
+    function _routerSwap(
+        bytes memory swapData,
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 amountOutMinimum
+    ) internal returns (uint256 amountOut, uint256 spent) {
+        (address router, bytes memory data) = abi.decode(swapData, (address, bytes));
+        if (!swapRouters[router]) revert RouterNotAllowed();
+
+        uint256 inBefore = IERC20(tokenIn).balanceOf(address(this));
+        uint256 outBefore = IERC20(tokenOut).balanceOf(address(this));
+
+        IERC20(tokenIn).forceApprove(router, amountIn);
+        (bool ok, bytes memory result) = router.call(data);
+        if (!ok) {
+            // Bubble up the router's revert reason
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        IERC20(tokenIn).forceApprove(router, 0);
+
+        spent = inBefore - IERC20(tokenIn).balanceOf(address(this));
+        amountOut = IERC20(tokenOut).balanceOf(address(this)) - outBefore;
+        if (spent > amountIn || amountOut < amountOutMinimum) revert InsufficientSwapOutput();
+    }
+
+    /// @notice A quoted minimum may sit at most MAX_SLIPPAGE_BPS below the pool price; 0 defers to the spot price
+    function _checkMinCollateralOut(uint256 flashWeth, uint256 minCollateralOut) internal view {
+        if (minCollateralOut == 0) return;
+        if (_slippageBps(_getPoolAmountOut(flashWeth, true), minCollateralOut) > MAX_SLIPPAGE_BPS) revert InvalidParameters();
+    }
+
+    /// @notice How far `minOut` sits below `expectedOut`, in basis points
+    function _slippageBps(uint256 expectedOut, uint256 minOut) internal pure returns (uint256) {
+        if (expectedOut == 0) return type(uint256).max;
+        return minOut >= expectedOut ? 0 : ((expectedOut - minOut) * 10000) / expectedOut;
+    }
+
     /**
      * @notice Internal handler for leverage operation
      * @param flashWeth Amount of WETH flash loaned
      * @param params Encoded parameters
      */
     function _handleLeverage(uint256 flashWeth, bytes calldata params) internal {
-        (, address user, uint256 userDeposit, uint256 maxSlippageBps) =
-            abi.decode(params, (uint8, address, uint256, uint256));
+        (, address user, uint256 userDeposit, uint256 maxSlippageBps, uint256 minCollateralOut) =
+            abi.decode(params, (uint8, address, uint256, uint256, uint256));
 
         // 1. Swap WETH -> wstETH via Uniswap V3 with slippage protection
-        uint256 wstethBefore = IERC20(WSTETH).balanceOf(address(this));
-
-        // Calculate minimum output: estimate from pool price minus slippage tolerance
-        uint256 expectedWsteth = _getPoolAmountOut(flashWeth, true); // WETH → wstETH estimate
-        uint256 amountOutMinimum = (expectedWsteth * (10000 - maxSlippageBps)) / 10000;
+        uint256 wstethBefore = IERC20(COLLATERAL_TOKEN).balanceOf(address(this));
+
+        // Minimum output: the caller's quote when given (it includes price impact),
+        // otherwise the pool's spot price minus the slippage tolerance
+        uint256 amountOutMinimum = minCollateralOut;
+        if (amountOutMinimum == 0) {
+            uint256 expectedWsteth = _getPoolAmountOut(flashWeth, true); // WETH → wstETH estimate
+            amountOutMinimum = (expectedWsteth * (10000 - maxSlippageBps)) / 10000;
+        }
 
-        _uniV3Swap(WETH, WSTETH, flashWeth, amountOutMinimum);
+        _uniV3Swap(LOAN_TOKEN, COLLATERAL_TOKEN, flashWeth, amountOutMinimum);
 
-        uint256 wstethAfter = IERC20(WSTETH).balanceOf(address(this));
+        uint256 wstethAfter = IERC20(COLLATERAL_TOKEN).balanceOf(address(this));
         uint256 wstethFromSwap = wstethAfter - wstethBefore;
 
         uint256 totalWsteth = userDeposit + wstethFromSwap;
@@ -292,7 +494,30 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         if (borrowedAssets < flashWeth) revert TransferFailed();
 
         // Validate final position and emit event with correct values
-        _validatePosition(user, totalWsteth, flashWeth, maxSlippageBps);
+        _validatePosition(user, maxSlippageBps);
+    }
+
+    /**
+     * @notice Internal handler for leverage via an approved router
+     * @dev Same as _handleLeverage, but WETH the route didn't spend stays here to
+     *      repay part of the flash loan, so only the spent amount is borrowed.
+     */
+    function _handleLeverageWithSwap(uint256 flashWeth, bytes calldata params) internal {
+        (, address user, uint256 userDeposit, uint256 minCollateralOut, uint256 slippageBps, bytes memory swapData) =
+            abi.decode(params, (uint8, address, uint256, uint256, uint256, bytes));
+
+        // 1. Swap WETH -> wstETH on the chosen route
+        (uint256 wstethFromSwap, uint256 wethSpent) = _routerSwap(swapData, LOAN_TOKEN, COLLATERAL_TOKEN, flashWeth, minCollateralOut);
+        if (wethSpent == 0) revert InsufficientSwapOutput();
+
+        // 2. Supply deposit + swap output as collateral on behalf of user
+        IMorpho(MORPHO).supplyCollateral(_marketParams(), userDeposit + wstethFromSwap, user, "");
+
+        // 3. Borrow what the swap spent; with the unspent WETH this covers the flash loan
+        (uint256 borrowedAssets,) = IMorpho(MORPHO).borrow(_marketParams(), wethSpent, 0, user, address(this));
+        if (borrowedAssets < wethSpent) revert TransferFailed();
+
+        _validatePosition(user, slippageBps);
     }
 
     /**
@@ -338,7 +563,7 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
             maxSlippageBps
         );
 
-        IMorpho(MORPHO).flashLoan(WETH, flashAmount, params);
+        IMorpho(MORPHO).flashLoan(LOAN_TOKEN, flashAmount, params);
     }
 
     /**
@@ -370,82 +595,278 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         // 3. Swap the minimum wstETH→WETH needed to repay the flash loan
         //    wethBalance after repay = flashWeth - assetsRepaid (what's left after debt payment)
         //    deficit = assetsRepaid (we must swap exactly the debt amount worth of wstETH)
-        uint256 wethBalance = IERC20(WETH).balanceOf(address(this));
+        uint256 wethBalance = IERC20(LOAN_TOKEN).balanceOf(address(this));
         uint256 wethDeficit = flashWeth > wethBalance ? flashWeth - wethBalance : 0;
 
         if (wethDeficit > 0) {
             // Use pool price (not oracle) to calculate swap amount — oracle may differ.
             // Apply 2% buffer + ceiling division so we never under-swap.
-            uint256 poolWethPerWsteth = _getPoolAmountOut(1e18, false); // 1 wstETH → ? WETH
-            uint256 wstethToSwap = (wethDeficit * 1e18 * 102 + poolWethPerWsteth * 100 - 1) / (poolWethPerWsteth * 100);
-            uint256 availableWsteth = IERC20(WSTETH).balanceOf(address(this));
+            uint256 wstethToSwap = _collateralToCover(wethDeficit);
+            uint256 availableWsteth = IERC20(COLLATERAL_TOKEN).balanceOf(address(this));
             if (wstethToSwap > availableWsteth) wstethToSwap = availableWsteth;
 
             // Calculate slippage-protected minimum: we expect ~wethDeficit from the swap
             uint256 minWethOut = (wethDeficit * (10000 - maxSlippageBps)) / 10000;
-            _uniV3Swap(WSTETH, WETH, wstethToSwap, minWethOut);
+            _uniV3Swap(COLLATERAL_TOKEN, LOAN_TOKEN, wstethToSwap, minWethOut);
 
             // If first swap didn't cover the deficit, revert rather than swapping at zero slippage
-            uint256 wethAfterFirst = IERC20(WETH).balanceOf(address(this));
+            uint256 wethAfterFirst = IERC20(LOAN_TOKEN).balanceOf(address(this));
             if (wethAfterFirst < flashWeth) revert InsufficientSwapOutput();
         }
 
         // Verify flash loan is fully covered before Morpho pulls repayment
-        uint256 wethFinal = IERC20(WETH).balanceOf(address(this));
+        uint256 wethFinal = IERC20(LOAN_TOKEN).balanceOf(address(this));
         if (wethFinal < flashWeth) revert InsufficientSwapOutput();
 
         // 4. Return remaining wstETH to user (equity)
-        uint256 remainingWsteth = IERC20(WSTETH).balanceOf(address(this));
+        uint256 remainingWsteth = IERC20(COLLATERAL_TOKEN).balanceOf(address(this));
         if (remainingWsteth > 0) {
-            IERC20(WSTETH).safeTransfer(user, remainingWsteth);
+            IERC20(COLLATERAL_TOKEN).safeTransfer(user, remainingWsteth);
         }
 
         // 5. Return any surplus WETH to user
         // Re-read balance since Morpho hasn't pulled yet; compute surplus
         uint256 surplusWeth = wethFinal > flashWeth ? wethFinal - flashWeth : 0;
         if (surplusWeth > 0) {
-            IERC20(WETH).safeTransfer(user, surplusWeth);
+            IERC20(LOAN_TOKEN).safeTransfer(user, surplusWeth);
+        }
+
+        emit PositionUnwound(user, assetsRepaid, collateralAmount, remainingWsteth);
+    }
+
+    /**
+     * @notice Close the position, selling collateral through an approved router
+     * @dev User must have authorized this contract via Morpho.setAuthorization()
+     *      Same flow as executeDeleverage; the caller quotes the route off-chain for exactly
+     *      `collateralToSwap`, sized to cover the debt. Surplus WETH is returned to the user.
+     * @param collateralToSwap wstETH to sell for WETH (at most the position's collateral)
+     * @param minWethOut Minimum WETH the route must return; at most MAX_SLIPPAGE_BPS below the pool price
+     * @param swapData abi.encode(address router, bytes data)
+     */
+    function executeDeleverageWithSwap(
+        uint256 collateralToSwap,
+        uint256 minWethOut,
+        bytes calldata swapData
+    ) external whenNotPaused nonReentrant {
+        // Check user has authorized this contract
+        if (!IMorpho(MORPHO).isAuthorized(msg.sender, address(this))) {
+            revert AuthorizationNotGranted();
+        }
+
+        (, uint128 borrowShares, uint128 collateral) = IMorpho(MORPHO).position(MARKET_ID, msg.sender);
+        if (borrowShares == 0) revert NoDebtPosition();
+        if (collateralToSwap == 0 || collateralToSwap > collateral) revert InvalidParameters();
+        if (_slippageBps(_getPoolAmountOut(collateralToSwap, false), minWethOut) > MAX_SLIPPAGE_BPS) {
+            revert InvalidParameters();
+        }
+
+        // Round UP, plus the same 5% interest buffer as executeDeleverage
+        (,, uint128 totalBorrowAssets, uint128 totalBorrowShares,,) = IMorpho(MORPHO).market(MARKET_ID);
+        uint256 debtAmount = (uint256(borrowShares) * uint256(totalBorrowAssets) + uint256(totalBorrowShares) - 1)
+            / uint256(totalBorrowShares);
+        uint256 flashAmount = debtAmount + debtAmount / 20 + 1;
+
+        bytes memory params = abi.encode(
+            uint8(4), // operation type: 4 = deleverage via router
+            msg.sender,
+            uint256(collateral),
+            borrowShares,
+            collateralToSwap,
+            minWethOut,
+            swapData
+        );
+
+        IMorpho(MORPHO).flashLoan(LOAN_TOKEN, flashAmount, params);
+    }
+
+    /**
+     * @notice Internal handler for deleverage via an approved router
+     * @dev Repays exact debt via shares, withdraws all collateral, sells `collateralToSwap`
+     *      on the chosen route and returns the remaining wstETH and surplus WETH to the user.
+     */
+    function _handleDeleverageWithSwap(uint256 flashWeth, bytes calldata params) internal {
+        (
+            ,
+            address user,
+            uint256 collateralAmount,
+            uint128 borrowShares,
+            uint256 collateralToSwap,
+            uint256 minWethOut,
+            bytes memory swapData
+        ) = abi.decode(params, (uint8, address, uint256, uint128, uint256, uint256, bytes));
+
+        // 1. Repay exact debt using shares
+        (uint256 assetsRepaid,) = IMorpho(MORPHO).repay(_marketParams(), 0, borrowShares, user, "");
+
+        // 2. Withdraw ALL wstETH collateral
+        IMorpho(MORPHO).withdrawCollateral(_marketParams(), collateralAmount, user, address(this));
+
+        // 3. Sell the quoted amount of wstETH on the chosen route
+        _routerSwap(swapData, COLLATERAL_TOKEN, LOAN_TOKEN, collateralToSwap, minWethOut);
+
+        // Verify flash loan is fully covered before Morpho pulls repayment
+        uint256 wethFinal = IERC20(LOAN_TOKEN).balanceOf(address(this));
+        if (wethFinal < flashWeth) revert InsufficientSwapOutput();
+
+        // 4. Return remaining wstETH and surplus WETH to user
+        uint256 remainingWsteth = IERC20(COLLATERAL_TOKEN).balanceOf(address(this));
+        if (remainingWsteth > 0) {
+            IERC20(COLLATERAL_TOKEN).safeTransfer(user, remainingWsteth);
+        }
+        uint256 surplusWeth = wethFinal - flashWeth;
+        if (surplusWeth > 0) {
+            IERC20(LOAN_TOKEN).safeTransfer(user, surplusWeth);
         }
 
         emit PositionUnwound(user, assetsRepaid, collateralAmount, remainingWsteth);
     }
 
+    /**
+     * @notice Reduce a position without closing it
+     * @dev User must have authorized this contract via Morpho.setAuthorization()
+     *      Flash-loans `repayAssets` WETH to repay part of the debt, withdraws `collateralToWithdraw`
+     *      wstETH, swaps just enough of it to cover the flash loan and returns the rest to the user.
+     *      Use executeDeleverage to close the whole position.
+     * @param repayAssets WETH debt to repay (must be less than the current debt; 0 = withdraw only)
+     * @param collateralToWithdraw wstETH collateral to withdraw (must be less than the current collateral)
+     * @param maxSlippageBps Maximum slippage in basis points (e.g. 50 = 0.5%)
+     */
+    function executePartialDeleverage(
+        uint256 repayAssets,
+        uint256 collateralToWithdraw,
+        uint256 maxSlippageBps
+    ) external whenNotPaused nonReentrant {
+        if (maxSlippageBps > MAX_SLIPPAGE_BPS) revert InvalidParameters();
+        if (repayAssets == 0 && collateralToWithdraw == 0) revert InvalidParameters();
+
+        // Check user has authorized this contract
+        if (!IMorpho(MORPHO).isAuthorized(msg.sender, address(this))) {
+            revert AuthorizationNotGranted();
+        }
+
+        (, uint128 borrowShares, uint128 collateral) = IMorpho(MORPHO).position(MARKET_ID, msg.sender);
+        if (borrowShares == 0) revert NoDebtPosition();
+        if (collateralToWithdraw >= collateral) revert InvalidParameters();
+
+        // Convert shares to assets (round DOWN) — repaying the full debt is executeDeleverage's job
+        (,, uint128 totalBorrowAssets, uint128 totalBorrowShares,,) = IMorpho(MORPHO).market(MARKET_ID);
+        uint256 debtAmount = (uint256(borrowShares) * uint256(totalBorrowAssets)) / uint256(totalBorrowShares);
+        if (repayAssets >= debtAmount) revert InvalidParameters();
+
+        if (repayAssets == 0) {
+            // Withdraw only — no debt to repay, so no flash loan or swap
+            IMorpho(MORPHO).withdrawCollateral(_marketParams(), collateralToWithdraw, msg.sender, msg.sender);
+            uint256 hf = _calculateHealthFactor(msg.sender);
+            if (hf < MIN_HEALTH_FACTOR) revert UnsafeLeverage();
+            emit PositionReduced(msg.sender, 0, collateralToWithdraw, collateralToWithdraw, hf);
+            return;
+        }
+
+        bytes memory params = abi.encode(
+            uint8(2), // operation type: 2 = partial deleverage
+            msg.sender,
+            collateralToWithdraw,
+            maxSlippageBps
+        );
+
+        IMorpho(MORPHO).flashLoan(LOAN_TOKEN, repayAssets, params);
+    }
+
+    /**
+     * @notice Internal handler for partial deleverage operation
+     * @dev Repays `flashWeth` of debt by assets, withdraws the requested collateral, swaps
+     *      the wstETH needed to repay the flash loan and returns the remainder to the user.
+     */
+    function _handlePartialDeleverage(uint256 flashWeth, bytes calldata params) internal {
+        (, address user, uint256 collateralToWithdraw, uint256 maxSlippageBps) =
+            abi.decode(params, (uint8, address, uint256, uint256));
+
+        // 1. Repay part of the debt by assets — the position stays open
+        (uint256 assetsRepaid,) = IMorpho(MORPHO).repay(_marketParams(), flashWeth, 0, user, "");
+
+        // 2. Withdraw the requested wstETH collateral
+        IMorpho(MORPHO).withdrawCollateral(_marketParams(), collateralToWithdraw, user, address(this));
+
+        // 3. Swap wstETH→WETH to cover the flash loan (same 2% buffer as full deleverage)
+        uint256 wethBalance = IERC20(LOAN_TOKEN).balanceOf(address(this));
+        uint256 wethDeficit = flashWeth > wethBalance ? flashWeth - wethBalance : 0;
+
+        if (wethDeficit > 0) {
+            uint256 wstethToSwap = _collateralToCover(wethDeficit);
+            if (wstethToSwap > collateralToWithdraw) revert InsufficientSwapOutput();
+
+            uint256 minWethOut = (wethDeficit * (10000 - maxSlippageBps)) / 10000;
+            _uniV3Swap(COLLATERAL_TOKEN, LOAN_TOKEN, wstethToSwap, minWethOut);
+        }
+
+        // Verify flash loan is fully covered before Morpho pulls repayment
+        uint256 wethFinal = IERC20(LOAN_TOKEN).balanceOf(address(this));
+        if (wethFinal < flashWeth) revert InsufficientSwapOutput();
+
+        // 4. Return remaining wstETH and any surplus WETH to user
+        uint256 remainingWsteth = IERC20(COLLATERAL_TOKEN).balanceOf(address(this));
+        if (remainingWsteth > 0) {
+            IERC20(COLLATERAL_TOKEN).safeTransfer(user, remainingWsteth);
+        }
+        uint256 surplusWeth = wethFinal - flashWeth;
+        if (surplusWeth > 0) {
+            IERC20(LOAN_TOKEN).safeTransfer(user, surplusWeth);
+        }
+
+        // 5. The reduced position must still be healthy
+        uint256 healthFactor = _calculateHealthFactor(user);
+        if (healthFactor < MIN_HEALTH_FACTOR) revert UnsafeLeverage();
+
+        emit PositionReduced(user, assetsRepaid, collateralToWithdraw, remainingWsteth, healthFactor);
+    }
+
     /**
      * @notice Estimate swap output from CL pool using slot0 sqrtPriceX96
-     * @param amountIn Input amount (18 decimals)
-     * @param wethToWsteth True = WETH→wstETH, False = wstETH→WETH
-     * @return Estimated output amount (18 decimals)
-     * @dev token0 = WETH (lower address), token1 = wstETH
-     *      slot0.sqrtPriceX96 encodes price of token0 in token1 = wstETH per WETH
+     * @param amountIn Input amount (input token's base units)
+     * @param loanToCollateral True = loan→collateral (e.g. WETH→wstETH), False = collateral→loan
+     * @return Estimated output amount (output token's base units)
+     * @dev slot0.sqrtPriceX96 encodes token1 per token0 in base units, so decimals are already
+     *      accounted for; LOAN_IS_TOKEN0 picks the direction.
      * @dev WARNING: slot0 is the instantaneous price and can be manipulated within a block.
      *      This is used only for estimating swap amounts and setting slippage bounds.
      *      The actual slippage protection is enforced by amountOutMinimum in the swap.
      */
-    function _getPoolAmountOut(uint256 amountIn, bool wethToWsteth) internal view returns (uint256) {
+    function _getPoolAmountOut(uint256 amountIn, bool loanToCollateral) internal view returns (uint256) {
         (uint160 sqrtPriceX96,,,,,, ) = IUniV3Pool(UNI_POOL).slot0();
-        // price = sqrtPriceX96^2 / 2^192 = wstETH per WETH (token1 per token0)
+        // price = sqrtPriceX96^2 / 2^192 = token1 per token0
         // To avoid overflow: split into two divisions by 2^96
         uint256 sqrtPrice = uint256(sqrtPriceX96);
-        if (wethToWsteth) {
-            // WETH → wstETH: output = amountIn * price = amountIn * sqrtPrice^2 / 2^192
+        if (loanToCollateral == LOAN_IS_TOKEN0) {
+            // token0 → token1: output = amountIn * price = amountIn * sqrtPrice^2 / 2^192
             return (amountIn * sqrtPrice / (1 << 96)) * sqrtPrice / (1 << 96);
         } else {
-            // wstETH → WETH: output = amountIn / price = amountIn * 2^192 / sqrtPrice^2
+            // token1 → token0: output = amountIn / price = amountIn * 2^192 / sqrtPrice^2
             return (amountIn * (1 << 96) / sqrtPrice) * (1 << 96) / sqrtPrice;
         }
     }
 
+    /**
+     * @notice Collateral to sell so the swap covers `loanAmount`, at the pool price plus a 2% buffer
+     * @dev Ceiling division so the swap is never undersized
+     */
+    function _collateralToCover(uint256 loanAmount) internal view returns (uint256) {
+        uint256 loanPerCollateral = _getPoolAmountOut(COLLATERAL_UNIT, false); // 1 collateral → ? loan
+        return (loanAmount * COLLATERAL_UNIT * 102 + loanPerCollateral * 100 - 1) / (loanPerCollateral * 100);
+    }
+
     /**
      * @notice Validate user's position health factor and emit event
+     * @dev Reads totals from Morpho so the event is correct when levering up an existing position
      * @param user User address
-     * @param totalCollateral Total wstETH collateral supplied
-     * @param totalDebt Total WETH debt borrowed
      */
-    function _validatePosition(address user, uint256 totalCollateral, uint256 totalDebt, uint256 slippageBps) internal {
+    function _validatePosition(address user, uint256 slippageBps) internal {
         (, uint128 borrowShares, uint128 collateral) = IMorpho(MORPHO).position(MARKET_ID, user);
 
         if (collateral == 0 || borrowShares == 0) revert UnsafeLeverage();
 
+        (,, uint128 totalBorrowAssets, uint128 totalBorrowShares,,) = IMorpho(MORPHO).market(MARKET_ID);
+        uint256 totalDebt = (uint256(borrowShares) * uint256(totalBorrowAssets)) / uint256(totalBorrowShares);
+
         // Calculate health factor
         uint256 healthFactor = _calculateHealthFactor(user);
 
@@ -457,7 +878,7 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         uint256 equity = collateralValueEth > totalDebt ? collateralValueEth - totalDebt : 0;
         uint256 actualLeverage = equity > 0 ? (collateralValueEth * PRECISION) / equity : 0;
 
-        emit LeverageExecuted(user, totalCollateral, totalDebt, actualLeverage, healthFactor, slippageBps);
+        emit LeverageExecuted(user, collateral, totalDebt, actualLeverage, healthFactor, slippageBps);
     }
 
     /**
@@ -519,16 +940,10 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
 
         // Flash loan: additional wstETH needed * pool rate
         uint256 additionalWsteth = (userDeposit * (targetLeverage - PRECISION)) / PRECISION;
-        uint256 poolWethPerWsteth = _getPoolAmountOut(1e18, false);
-        flashWethAmount = (additionalWsteth * poolWethPerWsteth) / 1e18;
+        flashWethAmount = _getPoolAmountOut(additionalWsteth, false);
 
         // Use pool price to estimate wstETH received from swap
-        uint256 estimatedWstethFromSwap;
-        if (UNI_POOL != address(0) && flashWethAmount > 0) {
-            estimatedWstethFromSwap = _getPoolAmountOut(flashWethAmount, true);
-        } else {
-            estimatedWstethFromSwap = (flashWethAmount * 1e18) / poolWethPerWsteth;
-        }
+        uint256 estimatedWstethFromSwap = flashWethAmount > 0 ? _getPoolAmountOut(flashWethAmount, true) : 0;
 
         totalCollateralWsteth = userDeposit + estimatedWstethFromSwap;
         totalDebtWeth = flashWethAmount;
@@ -545,11 +960,107 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         return (flashWethAmount, totalCollateralWsteth, totalDebtWeth, estimatedHealthFactor);
     }
 
+    /**
+     * @notice Simulate levering up `user`'s existing position
+     * @param user Position owner
+     * @param targetLeverage Desired leverage in 18 decimals
+     * @param extraDeposit Optional wstETH added to the position
+     * @return flashWethAmount WETH flash loaned (= debt added)
+     * @return totalCollateralWsteth Collateral after the lever-up
+     * @return totalDebtWeth Debt after the lever-up
+     * @return estimatedHealthFactor Health factor after the lever-up (oracle price)
+     */
+    function simulateLeverUp(address user, uint256 targetLeverage, uint256 extraDeposit)
+        external
+        view
+        returns (
+            uint256 flashWethAmount,
+            uint256 totalCollateralWsteth,
+            uint256 totalDebtWeth,
+            uint256 estimatedHealthFactor
+        )
+    {
+        (, uint128 borrowShares, uint128 collateral) = IMorpho(MORPHO).position(MARKET_ID, user);
+        if (targetLeverage <= PRECISION || collateral == 0) {
+            return (0, 0, 0, 0);
+        }
+
+        uint256 debtAssets;
+        if (borrowShares > 0) {
+            (,, uint128 totalBorrowAssets, uint128 totalBorrowShares,,) = IMorpho(MORPHO).market(MARKET_ID);
+            if (totalBorrowShares > 0) {
+                debtAssets = (uint256(borrowShares) * uint256(totalBorrowAssets)) / uint256(totalBorrowShares);
+            }
+        }
+
+        flashWethAmount = _leverUpFlashAmount(user, targetLeverage, extraDeposit);
+        uint256 estimatedWstethFromSwap = flashWethAmount > 0 ? _getPoolAmountOut(flashWethAmount, true) : 0;
+
+        totalCollateralWsteth = uint256(collateral) + extraDeposit + estimatedWstethFromSwap;
+        totalDebtWeth = debtAssets + flashWethAmount;
+
+        if (totalDebtWeth == 0) {
+            estimatedHealthFactor = type(uint256).max;
+        } else {
+            uint256 collateralValueEth = (totalCollateralWsteth * IOracle(ORACLE).price()) / 1e36;
+            estimatedHealthFactor = (collateralValueEth * LLTV) / totalDebtWeth;
+        }
+    }
+
+    /**
+     * @notice Simulate a partial deleverage for `user`
+     * @param user Position owner
+     * @param repayAssets WETH debt to repay (= flash loan size)
+     * @param collateralToWithdraw wstETH collateral to withdraw
+     * @return wstethToSwap wstETH sold to repay the flash loan (pool price + 2% buffer)
+     * @return wstethReturned wstETH sent back to the user
+     * @return remainingCollateral Collateral left in the position
+     * @return remainingDebt Debt left in the position
+     * @return estimatedHealthFactor Health factor of the reduced position (oracle price)
+     */
+    function simulatePartialDeleverage(address user, uint256 repayAssets, uint256 collateralToWithdraw)
+        external
+        view
+        returns (
+            uint256 wstethToSwap,
+            uint256 wstethReturned,
+            uint256 remainingCollateral,
+            uint256 remainingDebt,
+            uint256 estimatedHealthFactor
+        )
+    {
+        (, uint128 borrowShares, uint128 collateral) = IMorpho(MORPHO).position(MARKET_ID, user);
+
+        uint256 debtAssets;
+        if (borrowShares > 0) {
+            (,, uint128 totalBorrowAssets, uint128 totalBorrowShares,,) = IMorpho(MORPHO).market(MARKET_ID);
+            if (totalBorrowShares > 0) {
+                debtAssets = (uint256(borrowShares) * uint256(totalBorrowAssets)) / uint256(totalBorrowShares);
+            }
+        }
+
+        remainingDebt = repayAssets < debtAssets ? debtAssets - repayAssets : 0;
+        remainingCollateral = collateralToWithdraw < collateral ? uint256(collateral) - collateralToWithdraw : 0;
+
+        if (repayAssets > 0) {
+            wstethToSwap = _collateralToCover(repayAssets);
+        }
+        wstethReturned = collateralToWithdraw > wstethToSwap ? collateralToWithdraw - wstethToSwap : 0;
+
+        if (remainingDebt == 0) {
+            estimatedHealthFactor = type(uint256).max;
+        } else {
+            uint256 collateralValueEth = (remainingCollateral * IOracle(ORACLE).price()) / 1e36;
+            estimatedHealthFactor = (collateralValueEth * LLTV) / remainingDebt;
+        }
+    }
+
     /**
      * @notice Get current pool exchange rates vs oracle
-     * @return poolWstethPerWeth  How much wstETH you get for 1 WETH in the pool (18 decimals)
-     * @return poolWethPerWsteth  How much WETH you get for 1 wstETH in the pool (18 decimals)
-     * @return oracleWethPerWsteth Oracle price of wstETH in WETH (18 decimals)
+     * @dev Whole-token rates scaled to 18 decimals whatever the tokens' own decimals
+     * @return poolWstethPerWeth  How much collateral you get for 1 loan token in the pool (18 decimals)
+     * @return poolWethPerWsteth  How much loan token you get for 1 collateral token in the pool (18 decimals)
+     * @return oracleWethPerWsteth Oracle price of the collateral in loan token (18 decimals)
      */
     function getExchangeRates()
         external
@@ -560,10 +1071,11 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
             uint256 oracleWethPerWsteth
         )
     {
-        oracleWethPerWsteth = IOracle(ORACLE).price() / 1e18; // Scale from 1e36 to 1e18
+        // Oracle price is scaled by 1e36 * LOAN_UNIT / COLLATERAL_UNIT
+        oracleWethPerWsteth = (IOracle(ORACLE).price() * COLLATERAL_UNIT) / (1e18 * LOAN_UNIT);
         if (UNI_POOL != address(0)) {
-            poolWstethPerWeth = _getPoolAmountOut(1e18, true);   // 1 WETH → ? wstETH
-            poolWethPerWsteth = _getPoolAmountOut(1e18, false);  // 1 wstETH → ? WETH
+            poolWstethPerWeth = (_getPoolAmountOut(LOAN_UNIT, true) * PRECISION) / COLLATERAL_UNIT;
+            poolWethPerWsteth = (_getPoolAmountOut(COLLATERAL_UNIT, false) * PRECISION) / LOAN_UNIT;
         }
     }
 
@@ -624,6 +1136,20 @@ contract MorphoFlashLoanLeverageHelper is IMorphoFlashLoanCallback, ReentrancyGu
         emit EmergencyPause(_paused);
     }
 
+    /**
+     * @notice Allow or disallow a router for the *WithSwap entry points
+     * @dev Tokens and Morpho are rejected since the swap calldata is arbitrary. SWAP_ROUTER is
+     *      rejected too: it keeps a standing max approval that _routerSwap would clear.
+     */
+    function setSwapRouter(address router, bool allowed) external onlyOwner {
+        if (
+            router == address(0) || router == MORPHO || router == LOAN_TOKEN ||
+            router == COLLATERAL_TOKEN || router == SWAP_ROUTER
+        ) revert InvalidParameters();
+        swapRouters[router] = allowed;
+        emit SwapRouterSet(router, allowed);
+    }
+
     function emergencyWithdraw(address token) external onlyOwner {
         uint256 balance = IERC20(token).balanceOf(address(this));
         if (balance > 0) {
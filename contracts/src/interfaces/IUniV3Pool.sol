@@ -15,4 +15,7 @@ interface IUniV3Pool {
             uint8 feeProtocol,
             bool unlocked
         );
+
+    function token0() external view returns (address);
+    function token1() external view returns (address);
 }
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCron } from '@/lib/cron';
+import { loadTokenRegistry } from '@/lib/tokenRegistry';
+import { parseRegisterInput, registerToken } from '@/lib/tokenAdmin';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * GET /api/admin/tokens
+ *
+ * The token registry the refreshers use: tokens.json merged with
+ * token_registry rows.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const registry = await loadTokenRegistry();
+  return NextResponse.json({ tokens: registry.tokens });
+}
+
+/**
+ * POST /api/admin/tokens
+ *
+ * Body: { address, chain, asset, type, source, symbol?, helper?, method?,
+ * fallback?, max?, aliases?, bridged?, dryRun? }. Probes every rate method against
+ * the token and registers the first sane one; responds with the entry and
+ * every probe so a rejected token shows why.
+ */
+export async function POST(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let input;
+  try {
+    input = parseRegisterInput(await request.json());
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Invalid body';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const result = await registerToken(input);
+    return NextResponse.json(result, { status: result.error ? 422 : 200 });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCron, runIndexOracles } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/index-oracles
+ *
+ * Indexes new Chainlink AnswerUpdated rounds for every feed in
+ * INDEXED_FEEDS into oracle_rounds, resuming from each feed's checkpoint.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const run = await runIndexOracles();
+  return NextResponse.json(run, { status: run.ok ? 200 : 500 });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCron, runPipeline } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 800;
+
+/**
+ * GET /api/cron/pipeline
+ *
+ * Runs every refresher in dependency order: markets, token rates, oracle
+ * rounds, then analysis (skipped if the market refresh failed).
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const runs = await runPipeline();
+  const ok = runs.every(r => r.ok);
+  return NextResponse.json({ ok, runs }, { status: ok ? 200 : 500 });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCron, runRefreshAnalysis } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/refresh-analysis
+ *
+ * Samples oracle vs intrinsic prices, upserts oracle_depeg_history and
+ * stores eth_pairs_analysis / stable_pairs_analysis. Needs markets_all_chains.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const run = await runRefreshAnalysis();
+  return NextResponse.json(run, { status: run.ok ? 200 : 500 });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCron, runRefreshMarkets } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/refresh-markets
+ *
+ * Fetches Morpho markets for every supported chain and stores them under
+ * morpho_data.markets_all_chains.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const run = await runRefreshMarkets();
+  return NextResponse.json(run, { status: run.ok ? 200 : 500 });
+}
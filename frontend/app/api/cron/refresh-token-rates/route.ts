@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { isAuthorizedCron, runRefreshTokenRates } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/refresh-token-rates
+ *
+ * Reads on-chain exchange rates for LST/LRT/yield tokens and stores the
+ * derived APYs under morpho_data.token_rates.
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const run = await runRefreshTokenRates();
+  return NextResponse.json(run, { status: run.ok ? 200 : 500 });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { fetchDepegHistory, findMaxDepegRow } from '@/lib/depegHistory';
+import { isValidChainSlug } from '@/lib/chains';
+
+/**
+ * GET /api/markets/[marketId]/depeg?chain=base
+ *
+ * Returns the stored oracle_price / intrinsic_price / depeg_pct series for a market,
+ * plus the sample with the deepest depeg.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ marketId: string }> }
+) {
+  try {
+    const { marketId } = await params;
+    const { searchParams } = new URL(request.url);
+    const chain = searchParams.get('chain');
+
+    if (!/^0x[0-9a-fA-F]{64}$/.test(marketId)) {
+      return NextResponse.json({ error: `Invalid market id: ${marketId}` }, { status: 400 });
+    }
+    if (chain && !isValidChainSlug(chain)) {
+      return NextResponse.json({ error: `Unknown chain: ${chain}` }, { status: 400 });
+    }
+
+    const points = await fetchDepegHistory(marketId, chain ?? undefined);
+    const maxDepeg = findMaxDepegRow(points);
+
+    return NextResponse.json({ points, maxDepeg }, {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[depeg] Failed to load depeg history:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { fetchRateHistory, summarizeRates, RATE_WINDOWS } from '@/lib/rateHistory';
+import { isValidChainSlug } from '@/lib/chains';
+
+const DAY_MS = 86_400_000;
+
+/**
+ * GET /api/markets/[marketId]/rates?chain=base
+ *
+ * Returns the stored supply/borrow APY and utilization series for a market
+ * over the longest averaging window, plus its 7d/30d/90d averages.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ marketId: string }> }
+) {
+  try {
+    const { marketId } = await params;
+    const { searchParams } = new URL(request.url);
+    const chain = searchParams.get('chain');
+
+    if (!/^0x[0-9a-fA-F]{64}$/.test(marketId)) {
+      return NextResponse.json({ error: `Invalid market id: ${marketId}` }, { status: 400 });
+    }
+    if (chain && !isValidChainSlug(chain)) {
+      return NextResponse.json({ error: `Unknown chain: ${chain}` }, { status: 400 });
+    }
+
+    const now = Date.now();
+    const since = now - Math.max(...RATE_WINDOWS) * DAY_MS;
+    const points = await fetchRateHistory(marketId, chain ?? undefined, since);
+    const averages = summarizeRates(points, now);
+
+    return NextResponse.json({ points, averages }, {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[rates] Failed to load rate history:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { loadData } from '@/lib/loadData';
+import { enrichMarkets, getMarketsForChain } from '@/lib/dataEnrichment';
+import { isValidChainSlug } from '@/lib/chains';
+
+/**
+ * GET /api/markets?chain=base
+ *
+ * Enriched markets for the client-side trading UI.
+ * loadData reads from Supabase/fs, so the client can't call it directly.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const chain = searchParams.get('chain');
+
+    if (chain && !isValidChainSlug(chain)) {
+      return NextResponse.json({ error: `Unknown chain: ${chain}` }, { status: 400 });
+    }
+
+    const { marketsRaw, ratesRaw, ethAnalysis, stableAnalysis, freshness } = await loadData();
+    const all = enrichMarkets(marketsRaw, ratesRaw, ethAnalysis, stableAnalysis);
+    const markets = chain && isValidChainSlug(chain) ? getMarketsForChain(all, chain) : all;
+
+    return NextResponse.json({ markets, freshness }, {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (err: unknown) {
+    console.error('[markets] Failed to load markets:', err);
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { findOracleFeed, type OracleConfig } from '@/lib/oracleMap';
+import { readOracleRounds, type OracleRoundPoint } from '@/lib/oracleIndexer';
+import { readVaultRateHistory } from '@/lib/vaultRateHistory';
+import type { OracleDataPoint } from '@/lib/oracleDataCache';
+
+export const maxDuration = 60;
+
+const VAULT_CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours
+
+// Vault histories are read from chain, so they're cached in memory per address
+const vaultCache = new Map<string, { points: OracleRoundPoint[]; ts: number }>();
+
+async function vaultPoints(config: OracleConfig, forceRefresh: boolean): Promise<OracleRoundPoint[]> {
+  const key = config.address.toLowerCase();
+  const cached = vaultCache.get(key);
+  if (!forceRefresh && cached && Date.now() - cached.ts < VAULT_CACHE_TTL) return cached.points;
+
+  try {
+    const points = await readVaultRateHistory(config);
+    vaultCache.set(key, { points, ts: Date.now() });
+    return points;
+  } catch (err) {
+    if (!cached) throw err;
+    console.warn(`Vault read failed for ${config.pair}, returning stale cache`);
+    return cached.points;
+  }
+}
+
+/**
+ * GET /api/oracle-data/[address]
+ *
+ * Rate history for any feed in oracleMap, ordered by time: indexed rounds
+ * from oracle_rounds, or the vault's sampled share price for oracles that
+ * emit no AnswerUpdated (cached 6 hours, bypass with ?refresh=1).
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+  const config = findOracleFeed(address);
+  if (!config) {
+    return NextResponse.json({ error: `Unknown oracle address: ${address}` }, { status: 404 });
+  }
+
+  try {
+    const forceRefresh = new URL(request.url).searchParams.get('refresh') === '1';
+    const rounds = config.vault ? await vaultPoints(config, forceRefresh) : await readOracleRounds(config.address);
+    if (rounds.length === 0) {
+      return NextResponse.json({ error: `No ${config.pair} rounds indexed yet` }, { status: 404 });
+    }
+
+    const points: OracleDataPoint[] = rounds
+      .filter(p => Number.isFinite(p.rate) && p.rate > 0)
+      .map(({ roundId, rate, timestamp, block }) => ({ roundId, rate, timestamp, block }));
+    return NextResponse.json({ points, pair: config.pair }, {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getDataStatus } from '@/lib/dataStatus';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/status
+ *
+ * Last successful run of each refresher, age of each morpho_data key,
+ * and whether pages are being served Supabase or static fallback data.
+ */
+export async function GET() {
+  try {
+    const status = await getDataStatus();
+    return NextResponse.json(status, {
+      headers: { 'Cache-Control': 'public, max-age=60' },
+    });
+  } catch (err: unknown) {
+    console.error('[status] Failed to build status:', err);
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
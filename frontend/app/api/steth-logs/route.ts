@@ -1,77 +1,25 @@
 import { NextResponse } from 'next/server';
-
-const DUNE_API_KEY = process.env.DUNE_API_KEY;
-const DUNE_QUERY_ID = 6797086;
-const CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours
-
-// Server-side in-memory cache
-let cachedData: { points: { roundId: number; price: number; timestamp: number; block: number }[]; ts: number } | null = null;
+import { STETH_ETH_FEED } from '@/lib/oracleMap';
+import { readOracleRounds } from '@/lib/oracleIndexer';
 
 /**
  * GET /api/steth-logs
  *
- * Fetches stETH/ETH depeg rounds directly from Dune Analytics.
- * Server-side cached for 6 hours.
+ * Chainlink stETH/ETH rounds from the oracle_rounds index, oldest first.
+ * Kept current by /api/cron/index-oracles.
  */
-export async function GET(request: Request) {
+export async function GET() {
   try {
-    const { searchParams } = new URL(request.url);
-    const forceRefresh = searchParams.get('refresh') === '1';
-
-    // Return cached data if fresh (unless force refresh)
-    if (!forceRefresh && cachedData && Date.now() - cachedData.ts < CACHE_TTL) {
-      return NextResponse.json({ points: cachedData.points }, {
-        headers: { 'Cache-Control': 'public, max-age=300' },
-      });
-    }
-
-    if (!DUNE_API_KEY) {
-      return NextResponse.json({ error: 'DUNE_API_KEY not set' }, { status: 500 });
+    const rounds = await readOracleRounds(STETH_ETH_FEED.address);
+    if (rounds.length === 0) {
+      return NextResponse.json({ error: `No ${STETH_ETH_FEED.pair} rounds indexed yet` }, { status: 404 });
     }
 
-    console.log(`Fetching stETH/ETH data from Dune (query ${DUNE_QUERY_ID})...`);
-
-    const res = await fetch(`https://api.dune.com/api/v1/query/${DUNE_QUERY_ID}/results`, {
-      headers: { 'X-Dune-API-Key': DUNE_API_KEY },
-    });
-
-    if (!res.ok) {
-      throw new Error(`Dune API error: ${res.status}`);
-    }
-
-    const json = await res.json();
-    const rows = json?.result?.rows;
-
-    if (!rows || rows.length === 0) {
-      throw new Error('No data from Dune query');
-    }
-
-    // Map Dune columns to our schema
-    const points = rows
-      .map((row: Record<string, unknown>) => ({
-        roundId: Number(row.round_id),
-        price: Number(row.steth_eth_price),
-        timestamp: Math.floor(new Date(String(row.timestamp)).getTime() / 1000),
-        block: Number(row.block_number),
-      }))
-      .sort((a: { roundId: number }, b: { roundId: number }) => a.roundId - b.roundId);
-
-    console.log(`Fetched ${points.length} stETH/ETH rounds from Dune`);
-
-    // Cache in memory
-    cachedData = { points, ts: Date.now() };
-
+    const points = rounds.map(({ roundId, rate, timestamp, block }) => ({ roundId, price: rate, timestamp, block }));
     return NextResponse.json({ points }, {
       headers: { 'Cache-Control': 'public, max-age=300' },
     });
   } catch (err: unknown) {
-    // Return stale cache if available
-    if (cachedData) {
-      console.warn('Dune fetch failed, returning stale cache');
-      return NextResponse.json({ points: cachedData.points }, {
-        headers: { 'Cache-Control': 'public, max-age=60' },
-      });
-    }
     const message = err instanceof Error ? err.message : 'Unknown error';
     return NextResponse.json({ error: message }, { status: 500 });
   }
@@ -0,0 +1,18 @@
+import SiteHeader from '@/components/SiteHeader';
+
+export default function BacktestLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return (
+    <div className="min-h-screen bg-grid-pattern overflow-x-hidden">
+      <div className="aurora-bg" />
+      <div className="ambient-orb-1" />
+      <div className="ambient-orb-2" />
+      <div className="ambient-orb-3" />
+
+      <SiteHeader subtitle="Backtest" />
+
+      <main className="max-w-[1400px] mx-auto px-4 sm:px-6 py-6 relative z-10">
+        {children}
+      </main>
+    </div>
+  );
+}
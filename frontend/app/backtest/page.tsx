@@ -0,0 +1,39 @@
+import type { Metadata } from 'next';
+import { loadData } from '@/lib/loadData';
+import { enrichMarkets } from '@/lib/dataEnrichment';
+import { isBacktestable, backtestDateBounds } from '@/lib/backtest';
+import BacktestPanel from '@/components/BacktestPanel';
+import FreshnessBadge from '@/components/FreshnessBadge';
+
+export const revalidate = 300;
+
+export const metadata: Metadata = {
+  title: 'Backtest | VOLT',
+  description: 'Replay a leveraged wstETH position over the last year: equity curve, realized yield, worst health factor and liquidations',
+};
+
+export default async function BacktestPage() {
+  const { marketsRaw, ratesRaw, ethAnalysis, stableAnalysis, freshness } = await loadData();
+  const markets = enrichMarkets(marketsRaw, ratesRaw, ethAnalysis, stableAnalysis).filter(isBacktestable);
+
+  // Date bounds come from the server so the client form stays pure
+  const { min, max } = backtestDateBounds();
+
+  return (
+    <>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="section-label flex-1">
+          <span>Leverage Backtest</span>
+        </div>
+        <FreshnessBadge source={freshness.source} updatedAt={freshness.updatedAt} ageSeconds={freshness.ageSeconds} />
+      </div>
+      {markets.length === 0 ? (
+        <div className="card-glow p-10 text-center">
+          <p className="text-sm text-(--text-secondary) font-medium">No wstETH/WETH markets available to backtest</p>
+        </div>
+      ) : (
+        <BacktestPanel markets={markets} defaultStart={min} minStart={min} maxStart={max} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,110 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { loadData } from '@/lib/loadData';
+import { enrichMarkets, getMarketsForChain } from '@/lib/dataEnrichment';
+import { fetchDepegHistory } from '@/lib/depegHistory';
+import { CHAIN_CONFIG, isValidChainSlug } from '@/lib/chains';
+import type { DepegHistoryRow } from '@/lib/refreshAnalysis';
+import type { DataFreshness } from '@/lib/loadData';
+import type { ChainSlug, EnrichedMarket } from '@/lib/types';
+import MarketDepegChart from '@/components/MarketDepegChart';
+import LeverageTiersCard from '@/components/LeverageTiersCard';
+import FreshnessBadge from '@/components/FreshnessBadge';
+
+export const revalidate = 300;
+
+interface MarketPageProps {
+  params: Promise<{ chain: string; marketId: string }>;
+}
+
+async function findMarket(
+  chain: ChainSlug,
+  marketId: string,
+): Promise<{ market: EnrichedMarket | undefined; freshness: DataFreshness }> {
+  const { marketsRaw, ratesRaw, ethAnalysis, stableAnalysis, freshness } = await loadData();
+  const markets = getMarketsForChain(enrichMarkets(marketsRaw, ratesRaw, ethAnalysis, stableAnalysis), chain);
+  return { market: markets.find(m => m.marketId.toLowerCase() === marketId.toLowerCase()), freshness };
+}
+
+export async function generateMetadata({ params }: MarketPageProps): Promise<Metadata> {
+  const { chain, marketId } = await params;
+  if (!isValidChainSlug(chain)) return { title: 'Market | VOLT' };
+  const { market } = await findMarket(chain, marketId);
+  return { title: market ? `${market.pair} on ${CHAIN_CONFIG[chain].name} | VOLT` : 'Market | VOLT' };
+}
+
+export default async function MarketDetailPage({ params }: MarketPageProps) {
+  const { chain, marketId } = await params;
+  if (!isValidChainSlug(chain)) notFound();
+
+  const { market, freshness } = await findMarket(chain, marketId);
+  if (!market) notFound();
+
+  let history: DepegHistoryRow[] = [];
+  try {
+    history = await fetchDepegHistory(market.marketId, chain);
+  } catch (err) {
+    console.error('[market] Failed to load depeg history:', err);
+  }
+
+  const stats = [
+    { label: 'LLTV', value: `${market.lltv.toFixed(1)}%` },
+    { label: 'Collateral Yield', value: `${market.collateralYield.toFixed(2)}%`, color: 'var(--accent-primary)' },
+    { label: 'Borrow APY', value: `${market.borrowAPY.toFixed(2)}%`, color: 'var(--accent-warning)' },
+    { label: 'Utilization', value: `${market.utilization.toFixed(1)}%` },
+    {
+      label: 'Liquidity',
+      value: `${parseFloat(market.availableLiquidity || '0').toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 2 })} ${market.loanSymbol}`,
+    },
+    { label: 'Oracle', value: market.oracleCategory.replace('_', ' '), color: 'var(--accent-info)' },
+  ];
+
+  return (
+    <>
+      <div className="flex items-center gap-2 text-[10px] font-mono mb-3" style={{ color: 'var(--text-muted)' }}>
+        <Link href="/markets" className="hover:opacity-80">Markets</Link>
+        <span>/</span>
+        <Link href={`/markets/${chain}`} className="hover:opacity-80">{CHAIN_CONFIG[chain].name}</Link>
+        <span>/</span>
+        <span style={{ color: 'var(--text-secondary)' }}>{market.pair}</span>
+      </div>
+
+      <div className="flex items-end justify-between gap-4 mb-5">
+        <div>
+          <h2 className="text-3xl font-black gradient-text tracking-tight">{market.pair}</h2>
+          <p className="text-[10px] font-mono mt-1 break-all" style={{ color: 'var(--text-muted)' }}>
+            {market.marketId}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <FreshnessBadge source={freshness.source} updatedAt={freshness.updatedAt} ageSeconds={freshness.ageSeconds} />
+          <a
+            href={`${CHAIN_CONFIG[chain].blockExplorer}/address/${market.oracleAddress}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="stat-chip shrink-0"
+          >
+            <span className="stat-label">{market.oracleType}</span>
+          </a>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-6">
+        {stats.map((s) => (
+          <div key={s.label} className="metric-card">
+            <p className="text-[9px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold mb-2">{s.label}</p>
+            <p className="text-lg font-black font-mono" style={{ color: s.color || 'var(--text-primary)' }}>{s.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
+        <div className="lg:col-span-2">
+          <MarketDepegChart points={history} maxDepegPct={market.maxDepeg} pair={market.pair} />
+        </div>
+        <LeverageTiersCard market={market} />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,42 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { loadData } from '@/lib/loadData';
+import { enrichMarkets, buildChainSummaries, getMarketsForChain } from '@/lib/dataEnrichment';
+import { CHAIN_CONFIG, isValidChainSlug } from '@/lib/chains';
+import ChainSummaryHeader from '@/components/ChainSummaryHeader';
+import MarketsTable from '@/components/MarketsTable';
+import FreshnessBadge from '@/components/FreshnessBadge';
+
+export const revalidate = 300;
+
+interface ChainPageProps {
+  params: Promise<{ chain: string }>;
+}
+
+export async function generateMetadata({ params }: ChainPageProps): Promise<Metadata> {
+  const { chain } = await params;
+  if (!isValidChainSlug(chain)) return { title: 'Markets | VOLT' };
+  return { title: `${CHAIN_CONFIG[chain].name} Markets | VOLT` };
+}
+
+export default async function ChainMarketsPage({ params }: ChainPageProps) {
+  const { chain } = await params;
+  if (!isValidChainSlug(chain)) notFound();
+
+  const { marketsRaw, ratesRaw, ethAnalysis, stableAnalysis, freshness } = await loadData();
+  const markets = enrichMarkets(marketsRaw, ratesRaw, ethAnalysis, stableAnalysis);
+  const summaries = buildChainSummaries(markets);
+
+  return (
+    <>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="section-label flex-1">
+          <span>{CHAIN_CONFIG[chain].name}</span>
+        </div>
+        <FreshnessBadge source={freshness.source} updatedAt={freshness.updatedAt} ageSeconds={freshness.ageSeconds} />
+      </div>
+      <ChainSummaryHeader summaries={summaries} activeChain={chain} />
+      <MarketsTable markets={getMarketsForChain(markets, chain)} />
+    </>
+  );
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next';
+import { loadData } from '@/lib/loadData';
+import { enrichMarkets, buildChainSummaries } from '@/lib/dataEnrichment';
+import ChainSummaryHeader from '@/components/ChainSummaryHeader';
+import MarketsTable from '@/components/MarketsTable';
+import FreshnessBadge from '@/components/FreshnessBadge';
+
+export const revalidate = 300;
+
+export const metadata: Metadata = {
+  title: 'Markets | VOLT',
+  description: 'Leverage yield, depeg risk and liquidity across Morpho Blue markets on every supported chain',
+};
+
+export default async function MarketsPage() {
+  const { marketsRaw, ratesRaw, ethAnalysis, stableAnalysis, freshness } = await loadData();
+  const markets = enrichMarkets(marketsRaw, ratesRaw, ethAnalysis, stableAnalysis);
+  const summaries = buildChainSummaries(markets);
+
+  return (
+    <>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="section-label flex-1">
+          <span>All Chains</span>
+        </div>
+        <FreshnessBadge source={freshness.source} updatedAt={freshness.updatedAt} ageSeconds={freshness.ageSeconds} />
+      </div>
+      <ChainSummaryHeader summaries={summaries} />
+      <MarketsTable markets={markets} showChain />
+    </>
+  );
+}
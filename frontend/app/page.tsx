@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
-import { formatEther } from 'viem';
+import { formatUnits } from 'viem';
 import { WalletConnect } from '@/components/WalletConnect';
 import LeveragePanel from '@/components/LeveragePanel';
 import UnwindPanel from '@/components/UnwindPanel';
@@ -11,34 +12,53 @@ import PositionDashboard from '@/components/PositionDashboard';
 import YieldBreakdown from '@/components/YieldBreakdown';
 import DepegChart from '@/components/DepegChart';
 import YieldLeverageChart from '@/components/YieldLeverageChart';
+import RateSpreadChart from '@/components/RateSpreadChart';
+import MarketSelector from '@/components/MarketSelector';
+import ChainSwitcher from '@/components/ChainSwitcher';
+import VoltIcon from '@/components/VoltIcon';
+import FreshnessBadge from '@/components/FreshnessBadge';
+import TxTracker from '@/components/TxTracker';
+import WatchList from '@/components/WatchList';
 import { useLeverageContract } from '@/hooks/useLeverageContract';
 import { PageLoader } from '@/components/Loader';
 import { useAppStore } from '@/store/useAppStore';
-
-function VoltIcon() {
-  return (
-    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-      <path
-        d="M13 2L4.09 12.37A1 1 0 0 0 5 14H11L11 22L19.91 11.63A1 1 0 0 0 19 10H13L13 2Z"
-        fill="#030711"
-        stroke="#030711"
-        strokeWidth="1"
-        strokeLinecap="round"
-        strokeLinejoin="round"
-      />
-    </svg>
-  );
-}
+import { useTxStore } from '@/store/useTxStore';
+import { MORPHO_MARKET_ID, debtInCollateral, getLeverageHelper } from '@/lib/leverageContract';
+import type { PartialDeleveragePreview } from '@/lib/leverageContract';
+import { computePositionRisk } from '@/lib/positionMath';
+import { activeTxStep, TxStillPendingError } from '@/lib/txFlow';
+import type { EnrichedMarket } from '@/lib/types';
+import type { DataFreshness } from '@/lib/loadData';
+import type { RateHistory } from '@/lib/rateHistory';
+import type { RouteComparison } from '@/lib/swapRoutes';
+
+// The unwind has no slippage input; matches the helper's default
+const UNWIND_SLIPPAGE_BPS = 50;
 
 export default function Home() {
+  const selectedChain = useAppStore((s) => s.selectedChain);
+  const selectChain = useAppStore((s) => s.selectChain);
+  const markets = useAppStore((s) => s.markets);
+  const selectedMarket = useAppStore((s) => s.selectedMarket);
+  const setMarkets = useAppStore((s) => s.setMarkets);
+  const selectMarket = useAppStore((s) => s.selectMarket);
+
   const {
+    address,
     isConnected,
+    market,
+    canTrade,
     getUserPosition,
     getReserveInfo,
     getExchangeRate,
-    getWstethBalance,
+    getCollateralBalance,
     executeDeleverage,
-  } = useLeverageContract();
+    compareUnwindRoutes,
+    previewPartialDeleverage,
+    executePartialDeleverage,
+    resumeTxFlows,
+    getWatchedPositions,
+  } = useLeverageContract(selectedMarket);
 
   const {
     collateralBalance,
@@ -67,12 +87,52 @@ export default function Home() {
   const [unwindExecuting, setUnwindExecuting] = useState(false);
   const [unwindTxStatus, setUnwindTxStatus] = useState('');
   const [unwindIsError, setUnwindIsError] = useState(false);
-
-  const fnRef = useRef({ getReserveInfo, getExchangeRate, getUserPosition, getWstethBalance });
+  // Set when the modal confirms a partial deleverage rather than a full close
+  const [pendingReduce, setPendingReduce] = useState<PartialDeleveragePreview | null>(null);
+  const [unwindRoutes, setUnwindRoutes] = useState<{ comparison: RouteComparison | null; loading: boolean }>({ comparison: null, loading: false });
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null);
+  const [rateHistory, setRateHistory] = useState<(RateHistory & { marketId: string }) | null>(null);
+  const runningFlow = useTxStore((s) => s.flows.find((f) => f.status === 'running' && f.account === address));
+  const runningStep = runningFlow ? activeTxStep(runningFlow) : undefined;
+
+  // Load the selected chain's markets, starting on one with a leverage helper where there is one
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/markets?chain=${selectedChain}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then(({ markets: list, freshness: meta }: { markets: EnrichedMarket[]; freshness: DataFreshness }) => {
+        if (cancelled) return;
+        setFreshness(meta);
+        setMarkets(list);
+        if (list.length === 0) return;
+        const initial = list.find((m) => m.marketId.toLowerCase() === MORPHO_MARKET_ID)
+          ?? list.find((m) => getLeverageHelper(m.chainSlug, m.marketId))
+          ?? list[0];
+        if (!useAppStore.getState().selectedMarket) selectMarket(initial);
+      })
+      .catch((err) => console.error('Error fetching markets:', err));
+    return () => { cancelled = true; };
+  }, [selectedChain, setMarkets, selectMarket]);
+
+  // Rate history for the selected market; a stale entry is ignored until the new one lands
+  const rateChain = selectedMarket?.chainSlug ?? 'base';
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/markets/${market.marketId}/rates?chain=${rateChain}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((history: RateHistory) => {
+        if (!cancelled) setRateHistory({ ...history, marketId: market.marketId });
+      })
+      .catch((err) => console.error('Error fetching rate history:', err));
+    return () => { cancelled = true; };
+  }, [market.marketId, rateChain]);
+  const rates = rateHistory?.marketId === market.marketId ? rateHistory : null;
+
+  const fnRef = useRef({ getReserveInfo, getExchangeRate, getUserPosition, getCollateralBalance });
   const connectedRef = useRef(isConnected);
   useEffect(() => {
-    fnRef.current = { getReserveInfo, getExchangeRate, getUserPosition, getWstethBalance };
-  }, [getReserveInfo, getExchangeRate, getUserPosition, getWstethBalance]);
+    fnRef.current = { getReserveInfo, getExchangeRate, getUserPosition, getCollateralBalance };
+  }, [getReserveInfo, getExchangeRate, getUserPosition, getCollateralBalance]);
   useEffect(() => { connectedRef.current = isConnected; }, [isConnected]);
 
   const refreshData = useCallback(async (showLoading = false) => {
@@ -83,7 +143,7 @@ export default function Home() {
       setMarketData({ reserveInfo: reserve ?? null, exchangeRate: rate });
 
       if (connectedRef.current) {
-        const [position, wBal] = await Promise.all([fns.getUserPosition(), fns.getWstethBalance()]);
+        const [position, wBal] = await Promise.all([fns.getUserPosition(), fns.getCollateralBalance()]);
         if (position) {
           setPositionData({
             collateralBalance: position.totalCollateralBase,
@@ -104,23 +164,39 @@ export default function Home() {
     }
   }, [setMarketData, setPositionData, clearPositionData, setInitialLoadDone, startRefresh]);
 
+  // Open the close confirmation and quote the collateral sale on every venue
+  const requestClose = useCallback(() => {
+    setPendingReduce(null);
+    setShowUnwindModal(true);
+    setUnwindRoutes({ comparison: null, loading: true });
+    compareUnwindRoutes(UNWIND_SLIPPAGE_BPS / 10_000)
+      .then(comparison => setUnwindRoutes({ comparison, loading: false }))
+      .catch(() => setUnwindRoutes({ comparison: null, loading: false }));
+  }, [compareUnwindRoutes]);
+
   const handleUnwindConfirm = useCallback(async () => {
+    const reduce = pendingReduce;
     setShowUnwindModal(false);
+    setPendingReduce(null);
     setUnwindExecuting(true);
     setUnwindIsError(false);
-    setUnwindTxStatus('Executing flash loan unwind...');
+    setUnwindTxStatus(reduce ? 'Executing partial deleverage...' : 'Executing flash loan unwind...');
     try {
-      await executeDeleverage();
-      setUnwindTxStatus('Position closed successfully!');
+      if (reduce) {
+        await executePartialDeleverage(reduce);
+      } else {
+        await executeDeleverage(UNWIND_SLIPPAGE_BPS, unwindRoutes.comparison?.best ?? null);
+      }
+      setUnwindTxStatus(reduce ? 'Position reduced successfully!' : 'Position closed successfully!');
       refreshData();
       setTimeout(() => setUnwindTxStatus(''), 4000);
     } catch (err: any) {
       const errorMsg = err.message || err.toString();
       setUnwindTxStatus(errorMsg.slice(0, 80));
-      setUnwindIsError(true);
+      setUnwindIsError(!(err instanceof TxStillPendingError));
     }
     setUnwindExecuting(false);
-  }, [executeDeleverage, refreshData]);
+  }, [pendingReduce, unwindRoutes, executeDeleverage, executePartialDeleverage, refreshData]);
 
   useEffect(() => {
     let cancelled = false;
@@ -130,20 +206,42 @@ export default function Home() {
     return () => { cancelled = true; clearInterval(interval); };
   }, [refreshData]);
 
-  useEffect(() => { refreshData(true); }, [isConnected, refreshData]);
+  useEffect(() => { refreshData(true); }, [isConnected, market.marketId, refreshData]);
 
-  const collateralEth = Number(formatEther(collateralBalance)) * exchangeRate;
-  const debtEth = Number(formatEther(debtBalance));
-  const currentLeverage = debtBalance > 0n && collateralEth > debtEth
-    ? collateralEth / (collateralEth - debtEth) : 1;
-  const debtInWsteth = exchangeRate > 0 ? BigInt(Math.floor(Number(debtBalance) / exchangeRate)) : 0n;
-  const unwindEquity = collateralBalance > debtInWsteth ? collateralBalance - debtInWsteth : 0n;
+  // Keep waiting on receipts a reload interrupted, then refresh if any settled
+  useEffect(() => {
+    resumeTxFlows()
+      .then((settled) => { if (settled) refreshData(); })
+      .catch((err) => console.error('Error resuming transactions:', err));
+  }, [resumeTxFlows, refreshData]);
+
+  // Leverage, unwind equity and risk need the oracle price; they stay null while it's unavailable
+  const collateralEth = exchangeRate !== null
+    ? Number(formatUnits(collateralBalance, market.collateralDecimals)) * exchangeRate
+    : null;
+  const debtEth = Number(formatUnits(debtBalance, market.loanDecimals));
+  const currentLeverage = collateralEth === null ? null
+    : debtBalance > 0n && collateralEth > debtEth ? collateralEth / (collateralEth - debtEth) : 1;
+  const debtInColl = exchangeRate !== null
+    ? debtInCollateral(debtBalance, exchangeRate, market.collateralDecimals, market.loanDecimals)
+    : null;
+  const unwindEquity = debtInColl === null ? null : collateralBalance > debtInColl ? collateralBalance - debtInColl : 0n;
+  const positionRisk = debtBalance > 0n && exchangeRate !== null
+    ? computePositionRisk({
+        collateral: collateralBalance,
+        debt: debtBalance,
+        collateralDecimals: market.collateralDecimals,
+        loanDecimals: market.loanDecimals,
+        lltv: market.lltv / 100,
+        oraclePrice: exchangeRate,
+      })
+    : null;
 
   // Net APY calculation for hero
   const stakingYield = reserveInfo?.stakingYield || 0;
   const supplyAPY = reserveInfo?.supplyAPY || 0;
   const borrowAPY = reserveInfo?.borrowAPY || 0;
-  const lev = debtBalance > 0n ? currentLeverage : 2.0;
+  const lev = debtBalance > 0n && currentLeverage !== null ? currentLeverage : 2.0;
   const netAPY = (stakingYield + supplyAPY) * lev - borrowAPY * (lev - 1);
 
   if (isInitialLoad) {
@@ -249,7 +347,22 @@ export default function Home() {
             )}
           </div>
 
-          <WalletConnect />
+          <div className="flex items-center gap-3 shrink-0">
+            <Link href="/markets" className="stat-chip hidden md:flex">
+              <span className="stat-label">Markets</span>
+            </Link>
+            <Link href="/backtest" className="stat-chip hidden md:flex">
+              <span className="stat-label">Backtest</span>
+            </Link>
+            {freshness && (
+              <span className="hidden lg:flex">
+                <FreshnessBadge source={freshness.source} updatedAt={freshness.updatedAt} ageSeconds={freshness.ageSeconds} />
+              </span>
+            )}
+            <ChainSwitcher selected={selectedChain} onSelect={selectChain} />
+            <MarketSelector markets={markets} selected={selectedMarket} onSelect={selectMarket} />
+            <WalletConnect />
+          </div>
         </div>
       </header>
 
@@ -308,24 +421,24 @@ export default function Home() {
                 </svg>
               </div>
               <p className="text-[9px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold">
-                wstETH Rate
+                {market.collateralSymbol} Rate
               </p>
             </div>
             {isMarketLoading ? (
               <div className="skeleton h-8 w-24 rounded-lg" />
             ) : (
               <motion.p
-                key={exchangeRate.toFixed(4)}
+                key={exchangeRate?.toFixed(4) ?? 'unavailable'}
                 initial={{ opacity: 0, y: 6 }}
                 animate={{ opacity: 1, y: 0 }}
                 className="text-2xl font-black font-mono"
-                style={{ color: 'var(--accent-info)' }}
+                style={{ color: exchangeRate !== null ? 'var(--accent-info)' : 'var(--text-muted)' }}
               >
-                {exchangeRate.toFixed(4)}
+                {exchangeRate !== null ? exchangeRate.toFixed(4) : '—'}
               </motion.p>
             )}
             <p className="text-[9px] font-mono mt-1" style={{ color: 'var(--text-muted)' }}>
-              ETH per wstETH
+              {exchangeRate !== null ? `${market.loanSymbol} per ${market.collateralSymbol}` : 'Price unavailable'}
             </p>
           </div>
 
@@ -353,12 +466,12 @@ export default function Home() {
                 className="text-2xl font-black font-mono"
                 style={{ color: 'var(--text-primary)' }}
               >
-                {walletBalance > 0n ? Number(formatEther(walletBalance)).toFixed(4) : '0.0000'}
+                {walletBalance > 0n ? Number(formatUnits(walletBalance, market.collateralDecimals)).toFixed(4) : '0.0000'}
               </motion.p>
             ) : (
               <p className="text-2xl font-black font-mono" style={{ color: 'var(--text-muted)' }}>--</p>
             )}
-            <p className="text-[9px] font-mono mt-1 gradient-text">wstETH</p>
+            <p className="text-[9px] font-mono mt-1 gradient-text">{market.collateralSymbol}</p>
           </div>
 
           {/* Active Position */}
@@ -379,12 +492,12 @@ export default function Home() {
               <div className="skeleton h-8 w-24 rounded-lg" />
             ) : debtBalance > 0n ? (
               <motion.p
-                key={currentLeverage.toFixed(1)}
+                key={currentLeverage?.toFixed(1) ?? 'unknown'}
                 initial={{ opacity: 0, y: 6 }}
                 animate={{ opacity: 1, y: 0 }}
                 className="text-2xl font-black font-mono gradient-text"
               >
-                {currentLeverage.toFixed(1)}x
+                {currentLeverage !== null ? `${currentLeverage.toFixed(1)}x` : '—'}
               </motion.p>
             ) : (
               <p className="text-2xl font-black font-mono" style={{ color: 'var(--text-muted)' }}>None</p>
@@ -405,27 +518,41 @@ export default function Home() {
             transition={{ duration: 0.4, delay: 0.1 }}
           >
             <PositionDashboard
+              market={market}
               collateralBalance={collateralBalance}
               debtBalance={debtBalance}
               healthFactor={healthFactor}
               reserveInfo={reserveInfo}
               exchangeRate={exchangeRate}
+              risk={positionRisk}
               isLoading={isPositionLoading}
             />
 
             <YieldLeverageChart
               reserveInfo={reserveInfo}
-              leverage={debtBalance > 0n ? currentLeverage : 2.0}
+              leverage={lev}
               maxLeverage={reserveInfo?.maxLeverage || 18.18}
               hasPosition={debtBalance > 0n}
+              rateAverages={rates?.averages}
             />
 
+            {rates && rates.points.length >= 2 && (
+              <RateSpreadChart
+                points={rates.points}
+                stakingYield={reserveInfo?.stakingYield ?? 0}
+                collateralSymbol={market.collateralSymbol}
+                loanSymbol={market.loanSymbol}
+              />
+            )}
+
             {/* Analytics section label */}
             <div className="section-label">
               <span>Analytics</span>
             </div>
 
-            <DepegChart reserveInfo={reserveInfo} exchangeRate={exchangeRate} />
+            <DepegChart reserveInfo={reserveInfo} exchangeRate={exchangeRate} position={positionRisk} />
+
+            <WatchList market={market} getPositions={getWatchedPositions} />
 
           </motion.div>
 
@@ -482,6 +609,8 @@ export default function Home() {
                   transition={{ duration: 0.2 }}
                 >
                   <LeveragePanel
+                    key={market.marketId}
+                    market={selectedMarket}
                     onSuccess={refreshData}
                     reserveInfo={reserveInfo}
                     exchangeRate={exchangeRate}
@@ -496,24 +625,31 @@ export default function Home() {
                   transition={{ duration: 0.2 }}
                 >
                   <UnwindPanel
+                    market={market}
+                    canTrade={canTrade}
                     debtBalance={debtBalance}
                     collateralBalance={collateralBalance}
                     healthFactor={healthFactor}
                     exchangeRate={exchangeRate}
                     isConnected={isConnected}
                     executing={unwindExecuting}
-                    txStatus={unwindTxStatus}
+                    txStatus={unwindExecuting && runningStep ? `${runningStep.label}...` : unwindTxStatus}
                     isError={unwindIsError}
-                    onRequestClose={() => setShowUnwindModal(true)}
+                    onRequestClose={requestClose}
+                    onPreviewReduce={previewPartialDeleverage}
+                    onRequestReduce={(preview) => { setPendingReduce(preview); setShowUnwindModal(true); }}
                   />
                 </motion.div>
               )}
             </AnimatePresence>
 
+            <TxTracker account={address} />
+
             <YieldBreakdown
               reserveInfo={reserveInfo}
-              leverage={debtBalance > 0n ? currentLeverage : 2.0}
+              leverage={lev}
               exchangeRate={exchangeRate}
+              rateAverages={rates?.averages}
               isLoading={isMarketLoading}
             />
           </motion.div>
@@ -538,9 +674,13 @@ export default function Home() {
 
       {/* Unwind confirmation modal — rendered at page root */}
       <UnwindConfirmModal
+        market={market}
         open={showUnwindModal}
-        onClose={() => setShowUnwindModal(false)}
+        onClose={() => { setShowUnwindModal(false); setPendingReduce(null); }}
         onConfirm={handleUnwindConfirm}
+        reduce={pendingReduce}
+        routes={pendingReduce ? null : unwindRoutes.comparison}
+        routesLoading={unwindRoutes.loading}
         collateralBalance={collateralBalance}
         debtBalance={debtBalance}
         equity={unwindEquity}
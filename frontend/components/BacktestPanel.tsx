@@ -0,0 +1,329 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { getHistoricalPrices, type PriceData } from '@/lib/supabasePriceCache';
+import { getOracleData, type OracleDataPoint } from '@/lib/oracleCache';
+import { buildWstethSeries, runBacktest, type RebalancePolicy } from '@/lib/backtest';
+import { computeROE, computeHealthFactor } from '@/lib/dataEnrichment';
+import { CHAIN_CONFIG } from '@/lib/chains';
+import type { EnrichedMarket } from '@/lib/types';
+import EquityCurveChart from '@/components/EquityCurveChart';
+import Tooltip from '@/components/Tooltip';
+
+interface BacktestPanelProps {
+  markets: EnrichedMarket[];
+  /** YYYY-MM-DD bounds, computed on the server */
+  defaultStart: string;
+  minStart: string;
+  maxStart: string;
+}
+
+type PolicyKind = RebalancePolicy['kind'];
+
+const POLICY_OPTIONS: { kind: PolicyKind; label: string }[] = [
+  { kind: 'none', label: 'Hold' },
+  { kind: 'periodic', label: 'Periodic' },
+  { kind: 'band', label: 'Drift Band' },
+];
+
+function fmtDate(ts: number): string {
+  return new Date(ts).toLocaleDateString('default', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function Stat({ label, value, color, sub }: { label: string; value: string; color?: string; sub?: string }) {
+  return (
+    <div className="glass-inner p-4">
+      <p className="text-[9px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold mb-2">{label}</p>
+      <p className="text-xl font-black font-mono" style={{ color: color ?? 'var(--text-primary)' }}>{value}</p>
+      {sub && <p className="text-[10px] font-mono mt-1" style={{ color: 'var(--text-muted)' }}>{sub}</p>}
+    </div>
+  );
+}
+
+export default function BacktestPanel({ markets, defaultStart, minStart, maxStart }: BacktestPanelProps) {
+  const [marketId, setMarketId] = useState(markets[0].marketId);
+  const market = markets.find((m) => m.marketId === marketId) ?? markets[0];
+
+  const [startDate, setStartDate] = useState(defaultStart);
+  const [leverage, setLeverage] = useState(Math.min(5, Math.floor(market.maxLeverage * 10) / 10));
+  const [policyKind, setPolicyKind] = useState<PolicyKind>('none');
+  const [intervalDays, setIntervalDays] = useState('30');
+  const [tolerance, setTolerance] = useState('0.5');
+  const [borrowApy, setBorrowApy] = useState(market.borrowAPY.toFixed(2));
+  const [swapCostBps, setSwapCostBps] = useState('5');
+
+  const [prices, setPrices] = useState<PriceData | null>(null);
+  const [rounds, setRounds] = useState<OracleDataPoint[] | null>(null);
+  const [loadError, setLoadError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      getHistoricalPrices(),
+      // Oracle rounds are optional — without them the market ratio stands in for the oracle
+      getOracleData().then((d) => d.points).catch(() => null),
+    ])
+      .then(([priceData, oraclePoints]) => {
+        if (cancelled) return;
+        setPrices(priceData);
+        setRounds(oraclePoints);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load price history');
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const maxLeverage = Math.floor(market.maxLeverage * 10) / 10;
+  const lev = Math.min(leverage, maxLeverage);
+  const useOracleRounds = market.oracleCategory === 'EXCHANGE_RATE';
+
+  const policy = useMemo((): RebalancePolicy => {
+    if (policyKind === 'periodic') return { kind: 'periodic', intervalDays: Math.max(1, parseFloat(intervalDays) || 30) };
+    if (policyKind === 'band') return { kind: 'band', tolerance: Math.max(0.05, parseFloat(tolerance) || 0.5) };
+    return { kind: 'none' };
+  }, [policyKind, intervalDays, tolerance]);
+
+  const series = useMemo(() => {
+    if (!prices) return [];
+    return buildWstethSeries(prices, useOracleRounds ? rounds : null, Date.parse(startDate));
+  }, [prices, rounds, useOracleRounds, startDate]);
+
+  const result = useMemo(() => runBacktest({
+    series,
+    leverage: lev,
+    lltv: market.lltv / 100,
+    borrowApy: parseFloat(borrowApy) || 0,
+    policy,
+    swapCostBps: parseFloat(swapCostBps) || 0,
+  }), [series, lev, market.lltv, borrowApy, policy, swapCostBps]);
+
+  const expectedRoe = computeROE(market.collateralYield, market.supplyAPY, parseFloat(borrowApy) || 0, lev);
+  const startHf = computeHealthFactor(lev, market.lltv);
+
+  const selectMarket = (id: string) => {
+    const next = markets.find((m) => m.marketId === id);
+    if (!next) return;
+    setMarketId(id);
+    setBorrowApy(next.borrowAPY.toFixed(2));
+    setLeverage((l) => Math.min(l, Math.floor(next.maxLeverage * 10) / 10));
+  };
+
+  const labelClass = 'text-[10px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
+      {/* ── Inputs ───────────────────────────────────────────── */}
+      <div className="card-glow p-6 space-y-5">
+        <h2 className="text-base font-black gradient-text tracking-tight">Parameters</h2>
+
+        <div>
+          <p className={`${labelClass} mb-2`}>Market</p>
+          <div className="stat-chip w-full">
+            <select
+              value={market.marketId}
+              onChange={(e) => selectMarket(e.target.value)}
+              className="stat-value bg-transparent outline-none cursor-pointer font-mono w-full"
+              style={{ color: 'var(--text-primary)' }}
+            >
+              {markets.map((m) => (
+                <option key={m.marketId} value={m.marketId} style={{ background: '#030711' }}>
+                  {m.pair} · {CHAIN_CONFIG[m.chainSlug].name} · {m.lltv.toFixed(1)}%
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <p className={`${labelClass} mb-2`}>Start Date</p>
+          <input
+            type="date"
+            value={startDate}
+            min={minStart}
+            max={maxStart}
+            onChange={(e) => e.target.value && setStartDate(e.target.value)}
+          />
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-3">
+            <span className={labelClass}>Leverage</span>
+            <span className="text-2xl font-black font-mono" style={{ color: 'var(--accent-primary)' }}>{lev.toFixed(1)}×</span>
+          </div>
+          <input
+            type="range"
+            min="1.1"
+            max={maxLeverage}
+            step="0.1"
+            value={lev}
+            onChange={(e) => setLeverage(parseFloat(e.target.value))}
+            className="slider-fill"
+            style={{ '--slider-pct': `${((lev - 1.1) / (maxLeverage - 1.1)) * 100}%` } as React.CSSProperties}
+          />
+          <div className="flex justify-between text-[10px] font-mono mt-1.5">
+            <span style={{ color: 'var(--text-muted)' }}>Start HF {startHf.toFixed(3)}</span>
+            <span style={{ color: 'var(--accent-primary)' }}>{maxLeverage.toFixed(1)}× Max</span>
+          </div>
+        </div>
+
+        <div>
+          <Tooltip
+            label="Rebalancing"
+            tip="Hold never trades after opening. Periodic resets to the target leverage on a schedule. Drift Band resets once leverage moves outside target ± band."
+            className={labelClass}
+          />
+          <div className="flex items-center gap-2 mt-2">
+            {POLICY_OPTIONS.map(({ kind, label }) => (
+              <button
+                key={kind}
+                onClick={() => setPolicyKind(kind)}
+                className="flex-1 text-[10px] font-mono font-bold px-3 py-1.5 rounded-lg transition-all"
+                style={{
+                  background: policyKind === kind ? 'rgba(0,255,209,0.15)' : 'rgba(255,255,255,0.03)',
+                  border: `1px solid ${policyKind === kind ? 'rgba(0,255,209,0.4)' : 'rgba(255,255,255,0.06)'}`,
+                  color: policyKind === kind ? 'var(--accent-primary)' : 'var(--text-muted)',
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {policyKind === 'periodic' && (
+            <div className="flex items-center gap-2 mt-2">
+              <span className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>Every</span>
+              <input type="number" min="1" step="1" value={intervalDays} onChange={(e) => setIntervalDays(e.target.value)}
+                style={{ fontSize: '12px', padding: '6px 10px' }} />
+              <span className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>days</span>
+            </div>
+          )}
+          {policyKind === 'band' && (
+            <div className="flex items-center gap-2 mt-2">
+              <span className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>±</span>
+              <input type="number" min="0.05" step="0.05" value={tolerance} onChange={(e) => setTolerance(e.target.value)}
+                style={{ fontSize: '12px', padding: '6px 10px' }} />
+              <span className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>× leverage</span>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Tooltip label="Borrow APY %" tip="Applied for the whole period. Defaults to the market's current rate." className={labelClass} />
+            <input type="number" step="0.1" min="0" value={borrowApy} onChange={(e) => setBorrowApy(e.target.value)}
+              className="mt-2" style={{ fontSize: '12px', padding: '6px 10px' }} />
+          </div>
+          <div>
+            <Tooltip label="Swap Cost bps" tip="Fee + slippage charged on the notional of every rebalance." className={labelClass} />
+            <input type="number" step="1" min="0" value={swapCostBps} onChange={(e) => setSwapCostBps(e.target.value)}
+              className="mt-2" style={{ fontSize: '12px', padding: '6px 10px' }} />
+          </div>
+        </div>
+
+        <p className="text-[10px] font-mono leading-relaxed" style={{ color: 'var(--text-muted)' }}>
+          Market price from DeFiLlama wstETH/ETH.{' '}
+          {useOracleRounds
+            ? rounds ? `Health factor uses ${rounds.length} Chainlink exchange-rate rounds.` : 'Oracle rounds unavailable — health factor uses the market price.'
+            : 'Market-price oracle — health factor uses the market price.'}
+        </p>
+      </div>
+
+      {/* ── Results ──────────────────────────────────────────── */}
+      <div className="lg:col-span-2 space-y-5">
+        {loadError ? (
+          <div className="card-glow p-10 text-center">
+            <p className="text-sm font-mono" style={{ color: 'var(--accent-secondary)' }}>{loadError}</p>
+          </div>
+        ) : !prices ? (
+          <div className="card-glow p-10 flex items-center justify-center gap-3">
+            <div className="loader-bars"><span/><span/><span/><span/></div>
+            <span className="text-xs font-mono" style={{ color: 'var(--text-muted)' }}>Loading price history...</span>
+          </div>
+        ) : !result ? (
+          <div className="card-glow p-10 text-center">
+            <p className="text-sm text-(--text-secondary) font-medium">Not enough price history after {startDate}</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Stat
+                label="Realized APY"
+                value={`${result.realizedApy >= 0 ? '+' : ''}${result.realizedApy.toFixed(2)}%`}
+                color={result.realizedApy >= 0 ? 'var(--accent-primary)' : 'var(--accent-secondary)'}
+                sub={`${result.totalReturnPct >= 0 ? '+' : ''}${result.totalReturnPct.toFixed(2)}% over ${Math.round(result.days)}d`}
+              />
+              <Stat
+                label="Expected ROE"
+                value={`${expectedRoe >= 0 ? '+' : ''}${expectedRoe.toFixed(2)}%`}
+                color="var(--accent-info)"
+                sub="Current rates"
+              />
+              <Stat
+                label="Worst HF"
+                value={result.worstHealthFactor ? result.worstHealthFactor.value.toFixed(3) : '∞'}
+                color={!result.worstHealthFactor || result.worstHealthFactor.value >= 1.1 ? 'var(--accent-primary)'
+                  : result.worstHealthFactor.value >= 1 ? 'var(--accent-warning)' : 'var(--accent-secondary)'}
+                sub={result.worstHealthFactor ? fmtDate(result.worstHealthFactor.timestamp) : undefined}
+              />
+              <Stat
+                label="Liquidations"
+                value={String(result.liquidations.length)}
+                color={result.liquidations.length > 0 ? 'var(--accent-secondary)' : 'var(--accent-primary)'}
+                sub={`${result.rebalances} rebalance${result.rebalances === 1 ? '' : 's'}`}
+              />
+            </div>
+
+            <EquityCurveChart result={result} loanSymbol={market.loanSymbol} />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Stat
+                label="Borrow Cost Paid"
+                value={`${result.borrowCost.toFixed(4)} ${market.loanSymbol}`}
+                color="var(--accent-warning)"
+                sub={`${((result.borrowCost / result.startEquity) * 100).toFixed(2)}% of starting equity`}
+              />
+              <Stat
+                label="Unlevered Hold"
+                value={`${result.holdApy >= 0 ? '+' : ''}${result.holdApy.toFixed(2)}%`}
+                sub="wstETH/ETH, annualized"
+              />
+              <Stat
+                label="Ending Equity"
+                value={`${result.endEquity.toFixed(4)} ${market.loanSymbol}`}
+                sub={`from ${result.startEquity.toFixed(4)} (1 ${market.collateralSymbol})`}
+              />
+            </div>
+
+            {result.liquidations.length > 0 && (
+              <div className="card-glow p-6">
+                <h2 className="text-base font-black gradient-text tracking-tight mb-4">Liquidation Events</h2>
+                <div className="glass-inner overflow-x-auto">
+                  <table className="w-full text-xs font-mono">
+                    <thead>
+                      <tr style={{ color: 'var(--text-muted)' }}>
+                        {['Date', 'HF', `Debt Repaid (${market.loanSymbol})`, `Seized (${market.collateralSymbol})`, `Penalty (${market.loanSymbol})`].map((h) => (
+                          <th key={h} className="text-left px-4 py-3 text-[9px] uppercase tracking-[0.15em] font-bold">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.liquidations.map((ev) => (
+                        <tr key={ev.timestamp} className="border-t" style={{ borderColor: 'var(--border)' }}>
+                          <td className="px-4 py-2.5" style={{ color: 'var(--text-secondary)' }}>{fmtDate(ev.timestamp)}</td>
+                          <td className="px-4 py-2.5" style={{ color: 'var(--accent-secondary)' }}>{ev.healthFactor.toFixed(3)}</td>
+                          <td className="px-4 py-2.5">{ev.debtRepaid.toFixed(4)}</td>
+                          <td className="px-4 py-2.5">{ev.collateralSeized.toFixed(4)}</td>
+                          <td className="px-4 py-2.5" style={{ color: 'var(--accent-secondary)' }}>{ev.penalty.toFixed(4)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
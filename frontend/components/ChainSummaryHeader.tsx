@@ -0,0 +1,45 @@
+import Link from 'next/link';
+import type { ChainSummary } from '@/lib/types';
+
+interface ChainSummaryHeaderProps {
+  summaries: ChainSummary[];
+  activeChain?: string;
+}
+
+function formatCompact(value: number): string {
+  return value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+}
+
+export default function ChainSummaryHeader({ summaries, activeChain }: ChainSummaryHeaderProps) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+      {summaries.map((chain) => {
+        const active = chain.slug === activeChain;
+        return (
+          <Link
+            key={chain.slug}
+            href={`/markets/${chain.slug}`}
+            className="metric-card block"
+            style={active ? { borderColor: `${chain.color}66` } : undefined}
+          >
+            <div className="flex items-center gap-2 mb-2">
+              <div className="w-2 h-2 rounded-full" style={{ background: chain.color }} />
+              <p className="text-[9px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold">
+                {chain.name}
+              </p>
+              <span className="text-[9px] font-mono ml-auto" style={{ color: 'var(--text-muted)' }}>
+                {chain.marketCount} markets
+              </span>
+            </div>
+            <p className="text-2xl font-black font-mono gradient-text">
+              {chain.topROE.toFixed(2)}%
+            </p>
+            <p className="text-[9px] font-mono mt-1" style={{ color: 'var(--text-muted)' }}>
+              top ROE · avg supply {chain.avgAPY.toFixed(2)}% · {formatCompact(chain.totalLiquidity)} liquidity
+            </p>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useAccount, useSwitchChain } from 'wagmi';
+import { CHAIN_CONFIG, CHAIN_SLUGS } from '@/lib/chains';
+import { CHAIN_CONTRACTS, hasLeverageHelpers } from '@/lib/contracts';
+import type { ChainSlug } from '@/lib/types';
+
+interface ChainSwitcherProps {
+  selected: ChainSlug;
+  onSelect: (chain: ChainSlug) => void;
+}
+
+/**
+ * Picks the chain whose markets the app shows. A connected wallet follows to
+ * the chain's execution chain; chains without a helper stay read-only.
+ */
+export default function ChainSwitcher({ selected, onSelect }: ChainSwitcherProps) {
+  const { isConnected, chainId } = useAccount();
+  const { switchChain } = useSwitchChain();
+
+  const handleSelect = (slug: ChainSlug) => {
+    onSelect(slug);
+    const target = CHAIN_CONTRACTS[slug].executionChainId;
+    if (isConnected && chainId !== target) switchChain({ chainId: target });
+  };
+
+  return (
+    <div className="stat-chip gap-2">
+      <span
+        className="w-2 h-2 rounded-full shrink-0"
+        style={{ background: CHAIN_CONFIG[selected].color }}
+      />
+      <select
+        value={selected}
+        onChange={(e) => handleSelect(e.target.value as ChainSlug)}
+        className="stat-value bg-transparent outline-none cursor-pointer font-mono"
+        style={{ color: 'var(--text-primary)' }}
+      >
+        {CHAIN_SLUGS.map((slug) => (
+          <option key={slug} value={slug} style={{ background: '#030711' }}>
+            {CHAIN_CONFIG[slug].name}{hasLeverageHelpers(slug) ? '' : ' (read-only)'}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
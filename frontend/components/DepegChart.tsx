@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { CardLoader } from '@/components/Loader';
 import { getOracleData, clearOracleCache, OracleDataPoint } from '@/lib/oracleCache';
+import { maxDepegAtLeverage, type PositionRisk } from '@/lib/positionMath';
 
 const DEFAULT_LLTV = 0.81;
 const SAFETY_BUFFER = 0.20;
@@ -15,12 +16,6 @@ const TIME_RANGES = [
   { label: 'All', days: 0 },
 ] as const;
 
-function maxDepegAtLeverage(leverage: number, lltv: number): number {
-  if (leverage <= 1) return 100;
-  const initialLtv = (leverage - 1) / leverage;
-  return (1 - initialLtv / lltv) * 100;
-}
-
 function maxLeverageFromDepeg(maxDepegPct: number, safetyBuffer: number, lltv: number): number {
   const safeThreshold = (maxDepegPct / 100) * (1 + safetyBuffer);
   const denom = 1 - lltv * (1 - safeThreshold);
@@ -30,10 +25,13 @@ function maxLeverageFromDepeg(maxDepegPct: number, safetyBuffer: number, lltv: n
 
 interface DepegChartProps {
   reserveInfo: { liquidationThreshold: number; maxLeverage: number } | null;
-  exchangeRate: number;
+  /** null when the oracle price is unavailable; the latest charted round stands in */
+  exchangeRate: number | null;
+  /** The connected wallet's position; draws its liquidation line when set */
+  position?: PositionRisk | null;
 }
 
-export default function DepegChart({ reserveInfo, exchangeRate }: DepegChartProps) {
+export default function DepegChart({ reserveInfo, exchangeRate, position }: DepegChartProps) {
   const [allPoints, setAllPoints] = useState<OracleDataPoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -55,7 +53,7 @@ export default function DepegChart({ reserveInfo, exchangeRate }: DepegChartProp
     ? reserveInfo.liquidationThreshold / 100
     : DEFAULT_LLTV;
 
-  const currentRate = exchangeRate || 1.2286;
+  const currentRate = exchangeRate ?? allPoints[allPoints.length - 1]?.rate ?? 0;
 
   const fetchData = useCallback(async () => {
     setLoading(true);
@@ -133,7 +131,14 @@ export default function DepegChart({ reserveInfo, exchangeRate }: DepegChartProp
   const rateMin = rates.length > 0 ? Math.min(...rates) : 1.13;
   const rateMax = rates.length > 0 ? Math.max(...rates) : 1.23;
   const rateRange = rateMax - rateMin || 0.01;
-  const yMin = rateMin - rateRange * 0.05;
+
+  // The position's liquidation rate, as a drop from the current rate like the leverage lines.
+  // Stretch the axis to show it if it sits within one range below the history.
+  const positionLiqRate = position?.dropToLiquidationPct != null
+    ? currentRate * (1 - position.dropToLiquidationPct / 100)
+    : null;
+  const showPositionLine = positionLiqRate !== null && positionLiqRate >= rateMin - rateRange;
+  const yMin = Math.min(rateMin, showPositionLine ? positionLiqRate : Infinity) - rateRange * 0.05;
   const yMax = rateMax + rateRange * 0.05;
 
   const toX = (i: number) => PAD.left + (i / Math.max(oraclePoints.length - 1, 1)) * chartW;
@@ -254,7 +259,7 @@ export default function DepegChart({ reserveInfo, exchangeRate }: DepegChartProp
           <button
             onClick={handleForceRefresh}
             disabled={loading}
-            title="Force refresh from Dune"
+            title="Force refresh from the oracle index"
             className="p-1.5 rounded-lg transition-all hover:opacity-80 disabled:opacity-30"
             style={{ background: 'rgba(255,255,255,0.05)', border: '1px solid var(--border)' }}
           >
@@ -358,6 +363,28 @@ export default function DepegChart({ reserveInfo, exchangeRate }: DepegChartProp
                 </g>
               ))}
 
+              {/* Position liquidation line */}
+              {positionLiqRate !== null && position?.dropToLiquidationPct != null && (
+                showPositionLine ? (
+                  <g>
+                    <line
+                      x1={PAD.left} y1={toY(positionLiqRate)} x2={W - PAD.right} y2={toY(positionLiqRate)}
+                      stroke="#FF3366" strokeWidth="2"
+                    />
+                    <text x={W - PAD.right + 4} y={toY(positionLiqRate) + 3} fill="#FF3366" fontSize="9" fontWeight="bold">
+                      Your liq
+                    </text>
+                    <text x={W - PAD.right + 4} y={toY(positionLiqRate) + 13} fill="#64748b" fontSize="8">
+                      {positionLiqRate.toFixed(3)}
+                    </text>
+                  </g>
+                ) : (
+                  <text x={W - PAD.right - 4} y={PAD.top + chartH - 6} textAnchor="end" fill="#FF3366" fontSize="9" fontWeight="bold">
+                    ▼ Your liq {positionLiqRate.toFixed(3)} (-{position.dropToLiquidationPct.toFixed(1)}%)
+                  </text>
+                )
+              )}
+
               {/* X-axis date labels */}
               {xLabels.map(({ idx, label }) => (
                 <text key={idx} x={toX(idx)} y={H - 5} textAnchor="middle" fill="#64748b" fontSize="8">
@@ -448,6 +475,14 @@ export default function DepegChart({ reserveInfo, exchangeRate }: DepegChartProp
                     <div className="w-3 h-0.5 rounded bg-[#f59e0b]" style={{ borderTop: '1px dashed #f59e0b' }} />
                     <span className="text-[10px] font-mono" style={{ color: '#f59e0b' }}>Dashed lines = Liquidation rates per leverage</span>
                   </div>
+                  {positionLiqRate !== null && position?.dropToLiquidationPct != null && (
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-0.5 rounded bg-[#FF3366]" />
+                      <span className="text-[10px] font-mono" style={{ color: '#FF3366' }}>
+                        Red line = Your position liquidates at {positionLiqRate.toFixed(4)} (-{position.dropToLiquidationPct.toFixed(2)}%)
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,219 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { BacktestResult } from '@/lib/backtest';
+
+interface EquityCurveChartProps {
+  result: BacktestResult;
+  loanSymbol: string;
+}
+
+const W = 650;
+const H = 360;
+const PAD = { top: 20, right: 55, bottom: 35, left: 60 };
+const GAP = 24;
+const chartW = W - PAD.left - PAD.right;
+const totalH = H - PAD.top - PAD.bottom - GAP;
+const equityH = totalH * 0.62;
+const hfH = totalH - equityH;
+const hfTop = PAD.top + equityH + GAP;
+/** HF axis is capped so a near-unlevered stretch doesn't flatten the interesting part */
+const HF_CAP = 3;
+
+export default function EquityCurveChart({ result, loanSymbol }: EquityCurveChartProps) {
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const points = result.equityCurve;
+  const n = points.length;
+
+  // ── Scales ─────────────────────────────────────────────────────────────
+  const equities = points.map(p => p.equity);
+  const eMin = Math.min(...equities, result.startEquity);
+  const eMax = Math.max(...equities, result.startEquity);
+  const eRange = eMax - eMin || eMax * 0.01 || 0.01;
+  const eyMin = eMin - eRange * 0.05;
+  const eyMax = eMax + eRange * 0.05;
+
+  const hfs = points.map(p => Math.min(p.healthFactor, HF_CAP));
+  const hyMin = Math.min(0.9, ...hfs);
+  const hyMax = Math.max(1.1, ...hfs) + 0.05;
+
+  const toX = (i: number) => PAD.left + (i / (n - 1)) * chartW;
+  const toEquityY = (v: number) => PAD.top + (1 - (v - eyMin) / (eyMax - eyMin)) * equityH;
+  const toHfY = (v: number) => hfTop + (1 - (Math.min(v, HF_CAP) - hyMin) / (hyMax - hyMin)) * hfH;
+
+  const linePath = (values: number[], toY: (v: number) => number) =>
+    values.map((v, i) => `${i === 0 ? 'M' : 'L'} ${toX(i)} ${toY(v)}`).join(' ');
+
+  const equityPath = linePath(equities, toEquityY);
+  const hfPath = linePath(hfs, toHfY);
+
+  const equityTicks = Array.from({ length: 4 }, (_, i) => eyMin + ((eyMax - eyMin) * i) / 3);
+  const hfTicks = [1, (hyMin + hyMax) / 2, hyMax - 0.05].filter((v, i, arr) => arr.indexOf(v) === i);
+
+  const xLabels = Array.from({ length: 6 }, (_, k) => {
+    const idx = Math.round((k / 5) * (n - 1));
+    const d = new Date(points[idx].timestamp);
+    return { idx, label: d.toLocaleString('default', { month: 'short', day: 'numeric' }) };
+  });
+
+  const liquidationIdx = result.liquidations
+    .map(ev => points.findIndex(p => p.timestamp === ev.timestamp))
+    .filter(i => i >= 0);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const pt = new DOMPoint(e.clientX, e.clientY);
+    const svgPt = pt.matrixTransform(svg.getScreenCTM()!.inverse());
+    const clampedX = Math.max(PAD.left, Math.min(svgPt.x, PAD.left + chartW));
+    setHoverIdx(Math.round(((clampedX - PAD.left) / chartW) * (n - 1)));
+  };
+
+  const hover = hoverIdx !== null ? points[hoverIdx] : null;
+  const up = result.endEquity >= result.startEquity;
+
+  return (
+    <div className="card-glow p-6">
+      <div className="flex items-start justify-between mb-4 gap-3">
+        <div>
+          <h2 className="text-base font-black gradient-text tracking-tight">Equity Curve</h2>
+          <p className="text-[10px] text-(--text-muted) font-mono mt-0.5">
+            Position equity in {loanSymbol} and health factor, {n} daily samples.
+          </p>
+        </div>
+        <div
+          className="px-2.5 py-1 rounded-full text-[9px] font-bold font-mono shrink-0"
+          style={{
+            background: up ? 'rgba(0,255,209,0.1)' : 'rgba(255,51,102,0.1)',
+            color: up ? 'var(--accent-primary)' : 'var(--accent-secondary)',
+            border: `1px solid ${up ? 'rgba(0,255,209,0.2)' : 'rgba(255,51,102,0.2)'}`,
+          }}
+        >
+          {up ? '+' : ''}{result.totalReturnPct.toFixed(2)}%
+        </div>
+      </div>
+
+      <div className="glass-inner p-4">
+        <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} className="w-full" preserveAspectRatio="xMidYMid meet">
+          {/* Equity panel grid */}
+          {equityTicks.map((val, i) => (
+            <g key={`e${i}`}>
+              <line
+                x1={PAD.left} y1={toEquityY(val)} x2={W - PAD.right} y2={toEquityY(val)}
+                stroke="rgba(255,255,255,0.06)" strokeWidth="0.5" strokeDasharray="4 4"
+              />
+              <text x={PAD.left - 5} y={toEquityY(val) + 4} textAnchor="end" fill="#64748b" fontSize="9">
+                {val.toFixed(3)}
+              </text>
+            </g>
+          ))}
+
+          {/* Starting equity */}
+          <line
+            x1={PAD.left} y1={toEquityY(result.startEquity)} x2={W - PAD.right} y2={toEquityY(result.startEquity)}
+            stroke="rgba(255,255,255,0.2)" strokeWidth="1" strokeDasharray="6 4"
+          />
+          <text x={W - PAD.right + 4} y={toEquityY(result.startEquity) + 3} fill="#94a3b8" fontSize="9">
+            start
+          </text>
+
+          {/* HF panel grid */}
+          {hfTicks.map((val, i) => (
+            <g key={`h${i}`}>
+              <line
+                x1={PAD.left} y1={toHfY(val)} x2={W - PAD.right} y2={toHfY(val)}
+                stroke={val === 1 ? '#FF3366' : 'rgba(255,255,255,0.06)'}
+                strokeWidth={val === 1 ? 1.5 : 0.5} strokeDasharray={val === 1 ? '8 4' : '4 4'} opacity={val === 1 ? 0.6 : 1}
+              />
+              <text x={PAD.left - 5} y={toHfY(val) + 4} textAnchor="end" fill={val === 1 ? '#FF3366' : '#64748b'} fontSize="9">
+                {val.toFixed(2)}
+              </text>
+            </g>
+          ))}
+
+          {/* X-axis labels */}
+          {xLabels.map(({ idx, label }) => (
+            <text key={idx} x={toX(idx)} y={H - 5} textAnchor="middle" fill="#64748b" fontSize="8">
+              {label}
+            </text>
+          ))}
+
+          {/* Series */}
+          <path d={equityPath} fill="none" stroke="#00FFD1" strokeWidth="2" />
+          <path d={hfPath} fill="none" stroke="#F59E0B" strokeWidth="1.5" />
+
+          {/* Liquidation markers */}
+          {liquidationIdx.map(i => (
+            <g key={`l${i}`}>
+              <line x1={toX(i)} y1={PAD.top} x2={toX(i)} y2={H - PAD.bottom} stroke="#FF3366" strokeWidth="1" opacity="0.4" />
+              <circle cx={toX(i)} cy={toEquityY(points[i].equity)} r="5" fill="#FF3366" stroke="#05080F" strokeWidth="2" />
+            </g>
+          ))}
+
+          {/* Panel labels */}
+          <text x={PAD.left + 5} y={PAD.top + 12} fill="#00FFD1" fontSize="10" fontWeight="600" opacity="0.7">
+            Equity ({loanSymbol})
+          </text>
+          <text x={PAD.left + 5} y={hfTop + 12} fill="#F59E0B" fontSize="10" fontWeight="600" opacity="0.7">
+            Health Factor
+          </text>
+
+          {/* Hover overlay */}
+          <rect
+            x={PAD.left} y={PAD.top} width={chartW} height={H - PAD.top - PAD.bottom}
+            fill="transparent"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHoverIdx(null)}
+            style={{ cursor: 'crosshair' }}
+          />
+
+          {hover && hoverIdx !== null && (() => {
+            const x = toX(hoverIdx);
+            const flipLeft = x > PAD.left + chartW * 0.7;
+            const tooltipW = 150;
+            const tx = flipLeft ? x - tooltipW - 10 : x + 10;
+            return (
+              <g>
+                <line
+                  x1={x} y1={PAD.top} x2={x} y2={H - PAD.bottom}
+                  stroke="rgba(255,255,255,0.25)" strokeWidth="1" strokeDasharray="4 3"
+                />
+                <circle cx={x} cy={toEquityY(hover.equity)} r="4" fill="#00FFD1" stroke="#05080F" strokeWidth="2" />
+                <circle cx={x} cy={toHfY(hover.healthFactor)} r="4" fill="#F59E0B" stroke="#05080F" strokeWidth="2" />
+                <rect x={tx} y={PAD.top} width={tooltipW} height={62} rx="4" fill="rgba(10,18,36,0.95)" stroke="#00FFD1" strokeWidth="1" />
+                <text x={tx + 8} y={PAD.top + 14} fill="#94a3b8" fontSize="9" fontFamily="monospace">
+                  {new Date(hover.timestamp).toLocaleDateString('default', { month: 'short', day: 'numeric', year: 'numeric' })}
+                </text>
+                <text x={tx + 8} y={PAD.top + 28} fill="#00FFD1" fontSize="10" fontFamily="monospace">
+                  Equity: {hover.equity.toFixed(4)}
+                </text>
+                <text x={tx + 8} y={PAD.top + 42} fill="#00C2FF" fontSize="10" fontFamily="monospace">
+                  Leverage: {hover.leverage.toFixed(2)}×
+                </text>
+                <text x={tx + 8} y={PAD.top + 56} fill="#F59E0B" fontSize="10" fontWeight="bold" fontFamily="monospace">
+                  HF: {Number.isFinite(hover.healthFactor) ? hover.healthFactor.toFixed(3) : '∞'}
+                </text>
+              </g>
+            );
+          })()}
+        </svg>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-4 mt-3">
+          {[
+            { label: 'Equity', color: '#00FFD1' },
+            { label: 'Health factor', color: '#F59E0B' },
+            { label: 'Liquidation', color: '#FF3366' },
+          ].map(item => (
+            <div key={item.label} className="flex items-center gap-1.5">
+              <div className="w-3 h-0.5 rounded" style={{ background: item.color }} />
+              <span className="text-[10px] font-mono" style={{ color: item.color }}>{item.label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
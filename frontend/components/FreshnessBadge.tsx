@@ -0,0 +1,48 @@
+import type { DataFreshness } from '@/lib/loadData';
+
+const FRESH_HOURS = 12;
+const STALE_HOURS = 48;
+
+interface FreshnessBadgeProps {
+  source: DataFreshness['source'];
+  updatedAt: string | null;
+  ageSeconds: number | null;
+}
+
+function formatAge(seconds: number): string {
+  const minutes = Math.max(0, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+/**
+ * Shows how old the market data is. The static JSON fallback has no
+ * timestamp, so it's always flagged as a snapshot.
+ */
+export default function FreshnessBadge({ source, updatedAt, ageSeconds }: FreshnessBadgeProps) {
+  let color: string;
+  let label: string;
+  if (source === 'fallback' || ageSeconds === null) {
+    color = 'var(--accent-secondary)';
+    label = 'Static snapshot';
+  } else {
+    const hours = ageSeconds / 3600;
+    color = hours < FRESH_HOURS ? 'var(--accent-primary)' : hours < STALE_HOURS ? 'var(--accent-warning)' : 'var(--accent-secondary)';
+    label = `Updated ${formatAge(ageSeconds)} ago${source === 'mixed' ? ' · partial' : ''}`;
+  }
+
+  const title = source === 'supabase'
+    ? `Live data, oldest dataset refreshed ${updatedAt}`
+    : source === 'mixed'
+      ? 'Some datasets are served from the static fallback'
+      : 'Supabase unavailable — showing bundled data';
+
+  return (
+    <span className="stat-chip shrink-0" title={title}>
+      <span className="w-1.5 h-1.5 rounded-full" style={{ background: color, boxShadow: `0 0 6px ${color}` }} />
+      <span className="stat-label" style={{ color }}>{label}</span>
+    </span>
+  );
+}
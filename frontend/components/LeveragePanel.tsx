@@ -2,25 +2,67 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { formatEther } from 'viem';
+import { formatUnits } from 'viem';
 import { useLeverageContract } from '@/hooks/useLeverageContract';
 import { useAppStore } from '@/store/useAppStore';
-import type { ReserveInfo } from '@/lib/types';
+import { useTxStore } from '@/store/useTxStore';
+import { activeTxStep, TxStillPendingError } from '@/lib/txFlow';
+import { simulateBorrowImpact, type IrmState } from '@/lib/adaptiveCurveIrm';
+import { maxDeployableSize, SIZE_CONSTRAINT_LABELS } from '@/lib/positionSize';
+import { HELPER_MAX_SLIPPAGE_BPS } from '@/lib/leverageContract';
+import { maxAmountInForImpact, minAmountOut, type SwapQuote, type UniswapV3PoolState } from '@/lib/uniswapV3';
+import type { RouteComparison } from '@/lib/swapRoutes';
+import { CHAIN_CONFIG } from '@/lib/chains';
+import type { ReserveInfo, EnrichedMarket } from '@/lib/types';
 import Tooltip from '@/components/Tooltip';
+import SwapRouteComparison from '@/components/SwapRouteComparison';
+import PriceImpactChart, { type ImpactCurvePoint } from '@/components/PriceImpactChart';
+import { buildLeverageTiers } from '@/components/LeverageTiersCard';
+
+type PanelMode = 'open' | 'leverUp';
+
+/** Leverage levels quoted for the price-impact curve */
+const CURVE_POINTS = 10;
 
 interface LeveragePanelProps {
+  market: EnrichedMarket | null;
   onSuccess: () => void;
   reserveInfo: ReserveInfo | null;
-  exchangeRate: number;
+  /** Oracle price of the collateral in loan tokens; null when unavailable, which disables execution */
+  exchangeRate: number | null;
 }
 
-export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }: LeveragePanelProps) {
-  const { isConnected, simulateLeverage, getMaxSafeLeverage, executeLeverage, address, getMorphoExchangeRates } = useLeverageContract();
+export default function LeveragePanel({ market, onSuccess, reserveInfo, exchangeRate }: LeveragePanelProps) {
+  const {
+    isConnected, simulateLeverage, simulateLeverUp, getMaxSafeLeverage, executeLeverage, executeLeverUp,
+    address, getMorphoExchangeRates, getIrmState, getSwapPoolState, quoteFlashSwaps, compareRoutes, market: trade, canTrade,
+  } = useLeverageContract(market);
+  const { collateralSymbol, loanSymbol, collateralDecimals, loanDecimals } = trade;
+  const fmtCollateral = (v: bigint) => Number(formatUnits(v, collateralDecimals));
+  const fmtLoan = (v: bigint) => Number(formatUnits(v, loanDecimals));
 
   const walletBalance = useAppStore((s) => s.walletBalance);
   const isPositionLoading = useAppStore((s) => s.isPositionLoading);
-  const balance = Number(formatEther(walletBalance)).toFixed(4);
+  const collateralBalance = useAppStore((s) => s.collateralBalance);
+  const debtBalance = useAppStore((s) => s.debtBalance);
+  const currentHealthFactor = useAppStore((s) => s.healthFactor);
+  const balance = fmtCollateral(walletBalance).toFixed(4);
+  const runningFlow = useTxStore((s) => s.flows.find((f) => f.status === 'running' && f.account === address));
+  const runningStep = runningFlow ? activeTxStep(runningFlow) : undefined;
+
+  // Values below are priced at the oracle rate; without it they read as zero and execution is disabled
+  const priceUnavailable = exchangeRate === null;
+  const rate = exchangeRate ?? 0;
+
+  // Existing position — lever-up starts from here
+  const hasPosition = canTrade && collateralBalance > 0n;
+  const currentCollateralValue = fmtCollateral(collateralBalance) * rate;
+  const currentDebt = fmtLoan(debtBalance);
+  const currentLeverage = currentCollateralValue > currentDebt && currentCollateralValue > 0
+    ? currentCollateralValue / (currentCollateralValue - currentDebt)
+    : 1;
 
+  const [mode, setMode] = useState<PanelMode>('open');
   const [deposit, setDeposit] = useState('1');
   const [leverage, setLeverage] = useState(2.0);
   const [maxLeverage, setMaxLeverage] = useState(18.18);
@@ -44,43 +86,144 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
     oracleWethPerWsteth: number;
     premiumPct: number;
   } | null>(null);
+  const [irm, setIrm] = useState<{ marketId: string; state: IrmState } | null>(null);
+  const [swapPool, setSwapPool] = useState<{ marketId: string; state: UniswapV3PoolState } | null>(null);
+  const [flashQuote, setFlashQuote] = useState<{ flash: bigint; quote: SwapQuote } | null>(null);
+  const [routes, setRoutes] = useState<{ flash: bigint; comparison: RouteComparison | null } | null>(null);
+  const [impactCurve, setImpactCurve] = useState<{
+    marketId: string;
+    equity: number;
+    levels: number[];
+    amounts: number[];
+    quotes: SwapQuote[];
+  } | null>(null);
+
+  const maxMarketLeverage = Math.floor((reserveInfo?.maxLeverage ?? 18.18) * 100) / 100;
+  const leverUp = mode === 'leverUp' && hasPosition;
+  const minLeverage = leverUp ? Math.ceil((currentLeverage + 0.05) * 10) / 10 : 1.1;
+  const depositAmount = parseFloat(deposit) || 0;
+  // Tiers sized against the market's historical depeg; only when the pair has been analysed
+  const depegTiers = market && market.maxDepeg > 0 ? buildLeverageTiers(market) : [];
 
   const loadMaxLeverage = useCallback(async () => {
-    if (!isConnected) return;
+    if (!isConnected || !canTrade) {
+      setMaxLeverage(maxMarketLeverage);
+      return;
+    }
     try {
       const maxLev = await getMaxSafeLeverage();
       // Use theoretical max (not the 95% safe version from contract)
       // Contract returns maxTheoretical * 0.95, so reverse: maxLev / 0.95
       const theoreticalMax = maxLev / 0.95;
-      setMaxLeverage(Math.min(Math.floor(theoreticalMax * 10) / 10, 18.18));
+      setMaxLeverage(Math.min(Math.floor(theoreticalMax * 10) / 10, maxMarketLeverage));
     } catch {
-      setMaxLeverage(18.18);
+      setMaxLeverage(maxMarketLeverage);
     }
-  }, [isConnected, getMaxSafeLeverage]);
+  }, [isConnected, canTrade, getMaxSafeLeverage, maxMarketLeverage]);
 
   useEffect(() => { loadMaxLeverage(); }, [loadMaxLeverage]);
   useEffect(() => { if (leverage > maxLeverage) setLeverage(maxLeverage); }, [maxLeverage]);
 
   // Fetch Morpho pool exchange rates
   useEffect(() => {
-    if (!isConnected) return;
+    if (!isConnected || !canTrade) return;
     getMorphoExchangeRates().then(r => r && setMorphoRates(r)).catch(() => {});
-  }, [isConnected, getMorphoExchangeRates]);
+  }, [isConnected, canTrade, getMorphoExchangeRates]);
+
+  // IRM state for post-trade borrow rate; ignored once the market changes
+  useEffect(() => {
+    let cancelled = false;
+    getIrmState()
+      .then(state => { if (!cancelled && state) setIrm({ marketId: trade.marketId, state }); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [getIrmState, trade.marketId]);
+  const irmState = irm?.marketId === trade.marketId ? irm.state : null;
+
+  useEffect(() => {
+    if (!canTrade) return;
+    let cancelled = false;
+    getSwapPoolState()
+      .then(state => { if (!cancelled && state) setSwapPool({ marketId: trade.marketId, state }); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [canTrade, getSwapPoolState, trade.marketId]);
+  const swapPoolState = swapPool?.marketId === trade.marketId ? swapPool.state : null;
+
+  // Flash loan at leverage L is equity × L less the collateral already held,
+  // valued at the oracle rate like the extraBorrow estimate below
+  const depositValue = depositAmount * rate;
+  const equityAfter = (leverUp ? currentCollateralValue - currentDebt : 0) + depositValue;
+  const collateralBefore = (leverUp ? currentCollateralValue : 0) + depositValue;
+
+  // Quote the swap across leverage levels; debounced since it's one QuoterV2 call per level
+  useEffect(() => {
+    if (!canTrade || !swapPoolState || equityAfter <= 0 || maxLeverage <= minLeverage) return;
+    const levels = Array.from({ length: CURVE_POINTS }, (_, i) => minLeverage + ((maxLeverage - minLeverage) * i) / (CURVE_POINTS - 1));
+    const amounts = levels.map(L => Math.max(0, equityAfter * L - collateralBefore));
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      quoteFlashSwaps(swapPoolState, amounts)
+        .then(quotes => { if (!cancelled) setImpactCurve({ marketId: trade.marketId, equity: equityAfter, levels, amounts, quotes }); })
+        .catch(() => {});
+    }, 500);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [canTrade, swapPoolState, equityAfter, collateralBefore, minLeverage, maxLeverage, quoteFlashSwaps, trade.marketId]);
+
+  // Exact quote for the simulated flash loan
+  useEffect(() => {
+    if (!swapPoolState || !simulation) return;
+    let cancelled = false;
+    const flash = simulation.flashWethAmount;
+    quoteFlashSwaps(swapPoolState, [Number(formatUnits(flash, loanDecimals))])
+      .then(([quote]) => { if (!cancelled) setFlashQuote({ flash, quote }); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [swapPoolState, simulation, quoteFlashSwaps, loanDecimals]);
+
+  // Compare swap venues for the simulated flash loan; the best allowed route is what executes
+  useEffect(() => {
+    if (!simulation) return;
+    let cancelled = false;
+    const flash = simulation.flashWethAmount;
+    compareRoutes('leverage', flash, (parseFloat(slippage) || 0.5) / 100)
+      .then(comparison => { if (!cancelled) setRoutes({ flash, comparison }); })
+      .catch(() => { if (!cancelled) setRoutes({ flash, comparison: null }); });
+    return () => { cancelled = true; };
+  }, [simulation, compareRoutes, slippage]);
 
   const runSimulation = useCallback(async () => {
-    if (!isConnected || !deposit || parseFloat(deposit) <= 0 || leverage <= 1) {
+    const ready = leverUp
+      ? depositAmount >= 0 && leverage > currentLeverage
+      : depositAmount > 0 && leverage > 1;
+    if (!isConnected || !canTrade || !ready) {
       setSimulation(null);
       return;
     }
     setLoading(true);
     try {
-      const result = await simulateLeverage(leverage, parseFloat(deposit));
-      setSimulation(result);
+      const result = leverUp
+        ? await simulateLeverUp(leverage, depositAmount)
+        : await simulateLeverage(leverage, depositAmount);
+      setSimulation(result.flashWethAmount > 0n ? result : null);
     } catch {
       setSimulation(null);
     }
     setLoading(false);
-  }, [isConnected, deposit, leverage, simulateLeverage]);
+  }, [isConnected, canTrade, leverUp, depositAmount, leverage, currentLeverage, simulateLeverage, simulateLeverUp]);
+
+  const switchMode = (next: PanelMode) => {
+    setMode(next);
+    setSimulation(null);
+    setTxStatus('');
+    if (next === 'leverUp') {
+      const start = Math.ceil((currentLeverage + 0.05) * 10) / 10;
+      setDeposit('0');
+      setLeverage(Math.min(Math.max(leverage, start + 0.5), maxLeverage));
+    } else {
+      setDeposit('1');
+    }
+  };
 
   useEffect(() => {
     const timer = setTimeout(runSimulation, 300);
@@ -88,23 +231,38 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
   }, [runSimulation]);
 
   const handleExecute = async () => {
-    if (!simulation || !address) return;
+    if (!simulation || !address || priceUnavailable) return;
     setExecuting(true);
     setShowError(false);
-    setTxStatus('Approving wstETH...');
+    setTxStatus('Preparing...');
     try {
-      setTxStatus('Authorizing Morpho...');
       const slippageBps = Math.round(parseFloat(slippage || '0.5') * 100);
-      await executeLeverage(leverage, parseFloat(deposit), slippageBps);
-      setTxStatus('Position opened!');
+      const route = routes?.flash === simulation.flashWethAmount ? routes.comparison?.best ?? null : null;
+      if (leverUp) {
+        await executeLeverUp(leverage, depositAmount, slippageBps, route);
+        setTxStatus('Position levered up!');
+      } else {
+        await executeLeverage(leverage, depositAmount, slippageBps, route);
+        setTxStatus('Position opened!');
+      }
       onSuccess();
       setTimeout(() => { setTxStatus(''); setShowError(false); }, 4000);
     } catch (err: any) {
+      if (err instanceof TxStillPendingError) {
+        setTxStatus(err.message);
+        setExecuting(false);
+        return;
+      }
       const msg = err.message || err.toString();
       let display = 'Transaction failed';
-      if (msg.includes('Insufficient wstETH balance')) display = msg;
+      if (msg.includes(`Insufficient ${collateralSymbol} balance`)) display = msg;
       else if (msg.includes('InsufficientDeposit')) display = 'Deposit amount too small';
       else if (msg.includes('UnsafeLeverage')) display = 'Leverage too high — unsafe position';
+      else if (msg.includes('NoDebtPosition')) display = 'No open position to lever up';
+      else if (msg.includes('RouterNotAllowed')) display = 'Swap router is not enabled on the helper';
+      else if (msg.includes('InsufficientSwapOutput')) display = 'Swap returned less than the minimum — try again';
+      else if (msg.includes('Could not refresh the')) display = msg;
+      else if (leverUp && msg.includes('InvalidParameters')) display = 'Target must be above current leverage';
       else if (msg.includes('User rejected') || msg.includes('rejected')) display = 'Transaction rejected';
       else if (msg.includes('insufficient funds')) display = 'Insufficient ETH for gas';
       else display = msg.slice(0, 150);
@@ -144,21 +302,91 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
     : 'var(--accent-secondary)'
     : 'var(--text-muted)';
 
+  // Loan tokens this trade adds to the market's borrows: the simulated debt when
+  // available, otherwise the oracle-priced estimate for the slider position
+  const extraBorrow = simulation
+    ? fmtLoan(simulation.totalDebt) - (leverUp ? currentDebt : 0)
+    : Math.max(0, equityAfter * leverage - collateralBefore);
+  const borrowImpact = irmState && extraBorrow > 0 ? simulateBorrowImpact(irmState, extraBorrow) : null;
+
+  // Capacity: the utilization ceiling and swap depth within the slippage budget.
+  // Lever-up borrows on top of debt already counted in the market totals, so the check is on extraBorrow.
+  const sizeLimit = irmState
+    ? maxDeployableSize(leverage, {
+        totalSupply: irmState.totalSupply,
+        totalBorrow: irmState.totalBorrow,
+        maxSwapIn: swapPoolState
+          ? maxAmountInForImpact(swapPoolState, (parseFloat(slippage) || 0.5) / 100) / 10 ** loanDecimals
+          : null,
+      })
+    : null;
+  const overCapacity = sizeLimit !== null && extraBorrow > sizeLimit.maxBorrow;
+  const maxDepositCollateral = sizeLimit?.maxEquity != null && rate > 0
+    ? sizeLimit.maxEquity / rate
+    : null;
+
   const calculateYield = () => {
     if (!reserveInfo) return null;
-    const { stakingYield, supplyAPY, borrowAPY } = reserveInfo;
+    const { stakingYield, supplyAPY } = reserveInfo;
+    // Shift the quoted (reward-adjusted) APY by the modelled IRM move
+    const shifted = (modelled: number) => borrowImpact
+      ? Math.max(0, reserveInfo.borrowAPY + modelled - borrowImpact.borrowApyBefore)
+      : reserveInfo.borrowAPY;
+    const borrowAPY = shifted(borrowImpact?.borrowApyAfter ?? 0);
+    const projectedBorrowAPY = shifted(borrowImpact?.borrowApyProjected ?? 0);
     const collateralAPY = stakingYield + supplyAPY;
     const totalEarnings = collateralAPY * leverage;
     const totalCosts = borrowAPY * (leverage - 1);
-    return { stakingYield, supplyAPY, collateralAPY, borrowAPY, totalEarnings, totalCosts, netAPY: totalEarnings - totalCosts };
+    return { stakingYield, supplyAPY, collateralAPY, borrowAPY, projectedBorrowAPY, totalEarnings, totalCosts, netAPY: totalEarnings - totalCosts };
   };
   const yieldData = calculateYield();
 
-  const isOverBalance = isConnected && !isPositionLoading && parseFloat(deposit) > parseFloat(balance);
+  const slippagePct = parseFloat(slippage) || 0.5;
+  const swapQuote = simulation && flashQuote?.flash === simulation.flashWethAmount ? flashQuote.quote : null;
+  const routeComparison = simulation && routes?.flash === simulation.flashWethAmount ? routes.comparison : null;
+  const routesLoading = simulation !== null && routes?.flash !== simulation.flashWethAmount;
+  const viaUniswap = !routeComparison?.best?.call;
+  // The built-in path takes min-out from the QuoterV2 quote, but the helper rejects a minimum
+  // more than HELPER_MAX_SLIPPAGE_BPS below the pool's spot price
+  const impactExceedsLimit = viaUniswap && swapQuote !== null
+    && swapQuote.priceImpactPct + slippagePct > HELPER_MAX_SLIPPAGE_BPS / 100;
+
+  const impactPoints: ImpactCurvePoint[] | null = impactCurve?.marketId === trade.marketId && reserveInfo
+    ? impactCurve.levels.map((L, i) => {
+        const netApy = (reserveInfo.stakingYield + reserveInfo.supplyAPY) * L - reserveInfo.borrowAPY * (L - 1);
+        const impactPct = impactCurve.quotes[i].priceImpactPct;
+        return { leverage: L, impactPct, netApy, netAfterImpact: netApy - (impactPct * impactCurve.amounts[i]) / impactCurve.equity };
+      })
+    : null;
+
+  const isOverBalance = isConnected && !isPositionLoading && depositAmount > parseFloat(balance);
+  const depositMissing = !leverUp && depositAmount <= 0;
 
   return (
     <div className="card-glow p-6">
-      <h2 className="text-base font-black gradient-text tracking-tight mb-4">Open Position</h2>
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h2 className="text-base font-black gradient-text tracking-tight">
+          {leverUp ? 'Lever Up Position' : 'Open Position'}
+        </h2>
+        {hasPosition && (
+          <div className="flex items-center gap-1">
+            {([['open', 'Open'], ['leverUp', 'Lever Up']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => switchMode(value)}
+                className="text-[10px] font-mono font-bold px-3 py-1.5 rounded-lg transition-all"
+                style={{
+                  background: mode === value ? 'rgba(0,255,209,0.15)' : 'rgba(255,255,255,0.03)',
+                  border: `1px solid ${mode === value ? 'rgba(0,255,209,0.4)' : 'rgba(255,255,255,0.06)'}`,
+                  color: mode === value ? 'var(--accent-primary)' : 'var(--text-muted)',
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
 
       {/* Info banner */}
       <div
@@ -170,15 +398,32 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
           <path d="M12 16v-4M12 8h.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
         </svg>
         <p className="text-[10px] leading-relaxed font-mono" style={{ color: 'var(--text-secondary)' }}>
-          Deposits wstETH as collateral, borrows WETH via flash loan, swaps for amplified staking exposure.
+          {leverUp
+            ? `Flash-borrows more ${loanSymbol} against your ${currentLeverage.toFixed(2)}× position and swaps it into ${collateralSymbol}. Adding a deposit is optional.`
+            : `Deposits ${collateralSymbol} as collateral, borrows ${loanSymbol} via flash loan, swaps for amplified yield exposure.`}
         </p>
       </div>
 
+      {/* Read-only banner */}
+      {!canTrade && (
+        <div
+          className="rounded-xl p-3 mb-5"
+          style={{ background: 'rgba(245,158,11,0.07)', border: '1px solid rgba(245,158,11,0.2)' }}
+        >
+          <p className="text-xs font-bold font-mono" style={{ color: 'var(--accent-warning)' }}>
+            Read-only market
+          </p>
+          <p className="text-[10px] font-mono mt-1" style={{ color: 'var(--text-secondary)' }}>
+            No leverage helper is deployed for {trade.pair} on {CHAIN_CONFIG[trade.chainSlug].name} yet. Market data is live, execution is disabled.
+          </p>
+        </div>
+      )}
+
       {/* Deposit input */}
       <div className="mb-5">
         <div className="flex justify-between items-center mb-2">
           <label className="text-[10px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold">
-            Deposit (wstETH)
+            {leverUp ? `Extra Deposit (${collateralSymbol}, optional)` : `Deposit (${collateralSymbol})`}
           </label>
           <button
             onClick={() => setDeposit(balance)}
@@ -202,8 +447,28 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
             Exceeds wallet balance
           </p>
         )}
-        {/* Faucet */}
-        {isConnected && (
+        {priceUnavailable && (
+          <p className="text-[10px] font-mono mt-1.5" style={{ color: 'var(--accent-secondary)' }}>
+            Oracle price unavailable — sizing and execution are disabled until it loads
+          </p>
+        )}
+        {sizeLimit && !leverUp && maxDepositCollateral !== null && (
+          <p
+            className="text-[10px] font-mono mt-1.5"
+            style={{ color: overCapacity ? 'var(--accent-secondary)' : 'var(--text-muted)' }}
+          >
+            Max size at {leverage.toFixed(1)}×: {maxDepositCollateral.toFixed(4)} {collateralSymbol}
+            {' '}— limited by {SIZE_CONSTRAINT_LABELS[sizeLimit.binding]}
+          </p>
+        )}
+        {sizeLimit && leverUp && overCapacity && (
+          <p className="text-[10px] font-mono mt-1.5" style={{ color: 'var(--accent-secondary)' }}>
+            Needs {extraBorrow.toFixed(4)} {loanSymbol} more debt; only {sizeLimit.maxBorrow.toFixed(4)} available
+            {' '}— limited by {SIZE_CONSTRAINT_LABELS[sizeLimit.binding]}
+          </p>
+        )}
+        {/* Faucet — dev fork only funds wstETH */}
+        {isConnected && collateralSymbol === 'wstETH' && (
           <div className="mt-2 flex items-center gap-2">
             <button
               onClick={handleFaucet}
@@ -231,7 +496,7 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
         <div className="flex justify-between items-center mb-3">
           <Tooltip
             label="Leverage"
-            tip="Multiplier on your wstETH exposure. Higher = more yield but closer to liquidation."
+            tip={`Multiplier on your ${collateralSymbol} exposure. Higher = more yield but closer to liquidation.`}
             className="text-[10px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold"
           />
           <motion.span
@@ -246,18 +511,42 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
         </div>
         <input
           type="range"
-          min="1.1"
+          min={minLeverage}
           max={maxLeverage}
-          step="0.5"
+          step={leverUp ? 0.1 : 0.5}
           value={leverage}
           onChange={(e) => setLeverage(parseFloat(e.target.value))}
           className="slider-fill"
-          style={{ '--slider-pct': `${((leverage - 1.1) / (maxLeverage - 1.1)) * 100}%` } as React.CSSProperties}
+          style={{ '--slider-pct': `${((leverage - minLeverage) / (maxLeverage - minLeverage)) * 100}%` } as React.CSSProperties}
         />
         <div className="flex justify-between text-[10px] font-mono mt-1.5">
-          <span style={{ color: 'var(--text-muted)' }}>1.1× Safe</span>
+          <span style={{ color: 'var(--text-muted)' }}>
+            {leverUp ? `${currentLeverage.toFixed(2)}× Current` : '1.1× Safe'}
+          </span>
           <span style={{ color: 'var(--accent-primary)' }}>{maxLeverage.toFixed(1)}× Max</span>
         </div>
+        {depegTiers.length > 0 && (
+          <div className="grid grid-cols-3 gap-2 mt-3">
+            {depegTiers.map(tier => {
+              const target = Math.min(Math.floor(tier.leverage * 10) / 10, maxLeverage);
+              const selected = Math.abs(leverage - target) < 0.05;
+              return (
+                <button
+                  key={tier.label}
+                  onClick={() => setLeverage(target)}
+                  disabled={target < minLeverage}
+                  title={`Survives a ${market?.maxDepeg.toFixed(4)}% depeg · HF ${tier.healthFactor.toFixed(3)}`}
+                  className="glass-inner px-2 py-1.5 text-left transition-opacity disabled:opacity-30 disabled:cursor-not-allowed"
+                  style={{ borderColor: selected ? tier.color : undefined }}
+                >
+                  <span className="block text-[9px] uppercase tracking-[0.2em] font-mono" style={{ color: tier.color }}>{tier.label}</span>
+                  <span className="text-xs font-bold font-mono" style={{ color: 'var(--text-primary)' }}>{target.toFixed(1)}×</span>
+                  <span className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}> · {tier.roe.toFixed(1)}%</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       {/* Slippage tolerance */}
@@ -340,33 +629,108 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
             <p className="text-[9px] text-(--text-muted) uppercase tracking-[0.2em] font-mono font-bold">
               Position Preview
             </p>
-            <div className="flex justify-between">
-              <span className="text-xs text-(--text-secondary) font-mono">Total Collateral</span>
-              <span className="text-xs font-bold font-mono" style={{ color: 'var(--accent-primary)' }}>
-                {Number(formatEther(simulation.totalCollateral)).toFixed(4)} wstETH
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-xs text-(--text-secondary) font-mono">Total Debt</span>
-              <span className="text-xs font-bold font-mono" style={{ color: 'var(--accent-warning)' }}>
-                {Number(formatEther(simulation.totalDebt)).toFixed(4)} WETH
-              </span>
-            </div>
+            {leverUp ? (
+              <>
+                <ChangeRow
+                  label="Collateral"
+                  before={`${fmtCollateral(collateralBalance).toFixed(4)}`}
+                  after={`${fmtCollateral(simulation.totalCollateral).toFixed(4)} ${collateralSymbol}`}
+                  color="var(--accent-primary)"
+                />
+                <ChangeRow
+                  label="Debt"
+                  before={`${currentDebt.toFixed(4)}`}
+                  after={`${fmtLoan(simulation.totalDebt).toFixed(4)} ${loanSymbol}`}
+                  color="var(--accent-warning)"
+                />
+                <div className="flex justify-between">
+                  <span className="text-xs text-(--text-secondary) font-mono">Flash Loan</span>
+                  <span className="text-xs font-mono" style={{ color: 'var(--text-muted)' }}>
+                    {fmtLoan(simulation.flashWethAmount).toFixed(4)} {loanSymbol}
+                  </span>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-xs text-(--text-secondary) font-mono">Total Collateral</span>
+                  <span className="text-xs font-bold font-mono" style={{ color: 'var(--accent-primary)' }}>
+                    {fmtCollateral(simulation.totalCollateral).toFixed(4)} {collateralSymbol}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-xs text-(--text-secondary) font-mono">Total Debt</span>
+                  <span className="text-xs font-bold font-mono" style={{ color: 'var(--accent-warning)' }}>
+                    {fmtLoan(simulation.totalDebt).toFixed(4)} {loanSymbol}
+                  </span>
+                </div>
+              </>
+            )}
             {/* Financial leverage computed from simulation + oracle price */}
             {(() => {
-              const collateralWeth = Number(formatEther(simulation.totalCollateral)) * exchangeRate;
-              const debtWeth = Number(formatEther(simulation.totalDebt));
+              const collateralWeth = fmtCollateral(simulation.totalCollateral) * rate;
+              const debtWeth = fmtLoan(simulation.totalDebt);
               const equity = collateralWeth - debtWeth;
               const finLev = equity > 0 ? collateralWeth / equity : 0;
               return (
                 <div className="flex justify-between">
                   <span className="text-xs text-(--text-secondary) font-mono">Financial Leverage</span>
                   <span className="text-xs font-bold font-mono" style={{ color: 'var(--accent-info)' }}>
-                    {finLev.toFixed(2)}×
+                    {priceUnavailable ? '—' : `${finLev.toFixed(2)}×`}
                   </span>
                 </div>
               );
             })()}
+            {/* Quoted swap of the flash loan */}
+            {swapQuote && (
+              <>
+                <div className="flex justify-between">
+                  <Tooltip
+                    label="Swap Output"
+                    tip={swapQuote.source === 'quoter'
+                      ? 'Quoted by Uniswap QuoterV2 for the exact flash-loan size'
+                      : 'Estimated from the pool\'s active liquidity (quoter unavailable)'}
+                    className="text-xs text-(--text-secondary) font-mono"
+                  />
+                  <span className="text-xs font-mono" style={{ color: 'var(--text-primary)' }}>
+                    {fmtCollateral(swapQuote.amountOut).toFixed(4)} {collateralSymbol}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-xs text-(--text-secondary) font-mono">Price Impact</span>
+                  <span
+                    className="text-xs font-bold font-mono"
+                    style={{ color: impactExceedsLimit ? 'var(--accent-secondary)' : swapQuote.priceImpactPct > slippagePct / 2 ? 'var(--accent-warning)' : 'var(--accent-primary)' }}
+                  >
+                    {swapQuote.priceImpactPct.toFixed(3)}%
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-xs text-(--text-secondary) font-mono">Min Received ({slippagePct}%)</span>
+                  <span className="text-xs font-mono" style={{ color: 'var(--text-muted)' }}>
+                    {fmtCollateral(minAmountOut(routeComparison?.best?.amountOut ?? swapQuote.amountOut, slippagePct / 100)).toFixed(4)} {collateralSymbol}
+                  </span>
+                </div>
+                {impactExceedsLimit && (
+                  <p className="text-[10px] font-mono" style={{ color: 'var(--accent-secondary)' }}>
+                    Price impact plus your slippage tolerance is over the helper&apos;s {HELPER_MAX_SLIPPAGE_BPS / 100}% limit — the trade would revert. Lower the leverage or the tolerance.
+                  </p>
+                )}
+              </>
+            )}
+            {/* Venue comparison for the swap leg */}
+            <div className="divider" />
+            <Tooltip
+              label="Swap Route"
+              tip="The flash loan's swap quoted on each venue; the best output net of gas among routers the helper allows is used"
+              className="text-[9px] text-(--text-muted) uppercase tracking-[0.2em] font-mono font-bold"
+            />
+            <SwapRouteComparison
+              comparison={routeComparison}
+              loading={routesLoading}
+              symbolOut={collateralSymbol}
+              decimalsOut={collateralDecimals}
+            />
             {/* Uniswap V3 exchange rate */}
             {morphoRates && (
               <>
@@ -375,15 +739,15 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
                   Uniswap V3 Pool Rate
                 </p>
                 <div className="flex justify-between">
-                  <span className="text-xs text-(--text-secondary) font-mono">1 wstETH → WETH</span>
+                  <span className="text-xs text-(--text-secondary) font-mono">1 {collateralSymbol} → {loanSymbol}</span>
                   <span className="text-xs font-bold font-mono" style={{ color: 'var(--text-primary)' }}>
-                    {morphoRates.poolWethPerWsteth.toFixed(4)} WETH
+                    {morphoRates.poolWethPerWsteth.toFixed(4)} {loanSymbol}
                   </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-xs text-(--text-secondary) font-mono">Oracle price</span>
                   <span className="text-xs font-mono" style={{ color: 'var(--text-muted)' }}>
-                    {morphoRates.oracleWethPerWsteth.toFixed(4)} WETH
+                    {morphoRates.oracleWethPerWsteth.toFixed(4)} {loanSymbol}
                   </span>
                 </div>
                 <div className="flex justify-between">
@@ -401,6 +765,11 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
             <div className="flex justify-between items-center">
               <Tooltip label="Health Factor" tip="Below 1.0 triggers liquidation. Keep above 1.5 for safety." className="text-xs text-(--text-secondary) font-mono" />
               <div className="flex items-center gap-2">
+                {leverUp && (
+                  <span className="text-xs font-mono" style={{ color: 'var(--text-muted)' }}>
+                    {debtBalance > 0n ? currentHealthFactor.toFixed(3) : '∞'} →
+                  </span>
+                )}
                 <div
                   className={`w-2 h-2 rounded-full ${simulation.estimatedHealthFactor > 1.5 ? 'pulse-safe' : 'pulse-danger'}`}
                   style={{ background: healthColor }}
@@ -443,7 +812,7 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
             </div>
             <div className="space-y-2">
               <div className="flex justify-between text-[10px] font-mono">
-                <span style={{ color: 'var(--text-muted)' }}>Staking yield ({leverage.toFixed(1)}×)</span>
+                <span style={{ color: 'var(--text-muted)' }}>{collateralSymbol} yield ({leverage.toFixed(1)}×)</span>
                 <span style={{ color: 'var(--accent-primary)' }}>+{(yieldData.stakingYield * leverage).toFixed(2)}%</span>
               </div>
               <div className="flex justify-between text-[10px] font-mono">
@@ -457,10 +826,62 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
                 </div>
               )}
             </div>
+            {borrowImpact && leverage > 1 && (
+              <>
+                <div className="divider my-3" />
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[10px] font-mono">
+                    <Tooltip
+                      label="Utilization"
+                      tip="Your borrow adds to the market's total borrows, pushing utilization and the rate up."
+                      className="text-[10px] font-mono text-(--text-muted)"
+                    />
+                    <span>
+                      <span style={{ color: 'var(--text-muted)' }}>{borrowImpact.utilizationBefore.toFixed(1)}% → </span>
+                      <span style={{ color: borrowImpact.utilizationAfter > 90 ? 'var(--accent-warning)' : 'var(--text-primary)' }}>
+                        {borrowImpact.utilizationAfter.toFixed(1)}%
+                      </span>
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-[10px] font-mono">
+                    <span style={{ color: 'var(--text-muted)' }}>Borrow APY after trade</span>
+                    <span>
+                      <span style={{ color: 'var(--text-muted)' }}>{reserveInfo?.borrowAPY.toFixed(2)}% → </span>
+                      <span style={{ color: 'var(--accent-secondary)' }}>{yieldData.borrowAPY.toFixed(2)}%</span>
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-[10px] font-mono">
+                    <Tooltip
+                      label={`${borrowImpact.horizonDays}d avg if held`}
+                      tip="AdaptiveCurveIrm keeps moving the rate while utilization is off its 90% target."
+                      className="text-[10px] font-mono text-(--text-muted)"
+                    />
+                    <span style={{ color: 'var(--text-secondary)' }}>{yieldData.projectedBorrowAPY.toFixed(2)}%</span>
+                  </div>
+                </div>
+              </>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
 
+      {/* Price impact across leverage */}
+      {impactPoints && impactPoints.length > 1 && (
+        <div className="glass-inner p-4 mb-4">
+          <div className="flex justify-between items-center mb-2">
+            <Tooltip
+              label="Price Impact vs Leverage"
+              tip="The entry swap's impact is a one-off cost on your equity; where the dashed line drops below the solid one, slippage is eating the first year's yield."
+              className="text-[9px] text-(--text-muted) uppercase tracking-[0.2em] font-mono font-bold"
+            />
+            <span className="text-[9px] font-mono" style={{ color: 'var(--text-muted)' }}>
+              {impactCurve?.quotes[0]?.source === 'inRange' ? 'in-range estimate' : 'QuoterV2'}
+            </span>
+          </div>
+          <PriceImpactChart points={impactPoints} leverage={leverage} slippagePct={slippagePct} />
+        </div>
+      )}
+
       {/* Low HF warning */}
       {simulation && simulation.estimatedHealthFactor < 1.2 && simulation.estimatedHealthFactor > 0 && (
         <div
@@ -479,13 +900,17 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
       {/* CTA */}
       <button
         className="btn-primary"
-        disabled={!isConnected || !simulation || executing || isOverBalance || parseFloat(deposit) <= 0}
+        disabled={!isConnected || !canTrade || priceUnavailable || !simulation || executing || isOverBalance || depositMissing || overCapacity}
         onClick={handleExecute}
       >
         {!isConnected ? 'Connect Wallet'
-          : executing ? txStatus
+          : !canTrade ? 'Read-only Market'
+          : executing ? (runningStep ? `${runningStep.label}...` : txStatus)
+          : priceUnavailable ? 'Price Unavailable'
           : isOverBalance ? 'Insufficient Balance'
-          : parseFloat(deposit) <= 0 ? 'Enter Deposit Amount'
+          : depositMissing ? 'Enter Deposit Amount'
+          : overCapacity ? 'Exceeds Market Capacity'
+          : leverUp ? `Lever Up to ${leverage.toFixed(1)}×`
           : `Open ${leverage.toFixed(1)}× Position`}
       </button>
 
@@ -507,7 +932,7 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
             </p>
             {showError && (
               <ul className="text-[10px] font-mono mt-2 text-(--text-muted) space-y-0.5 text-left list-disc list-inside">
-                <li>Ensure sufficient wstETH in wallet</li>
+                <li>Ensure sufficient {collateralSymbol} in wallet</li>
                 <li>Ensure sufficient ETH for gas</li>
                 <li>Check wallet for pending transactions</li>
               </ul>
@@ -518,3 +943,15 @@ export default function LeveragePanel({ onSuccess, reserveInfo, exchangeRate }:
     </div>
   );
 }
+
+function ChangeRow({ label, before, after, color }: { label: string; before: string; after: string; color: string }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-xs text-(--text-secondary) font-mono">{label}</span>
+      <span className="text-xs font-mono">
+        <span style={{ color: 'var(--text-muted)' }}>{before} → </span>
+        <span className="font-bold" style={{ color }}>{after}</span>
+      </span>
+    </div>
+  );
+}
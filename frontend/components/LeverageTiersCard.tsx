@@ -0,0 +1,62 @@
+import type { EnrichedMarket, LeverageTier } from '@/lib/types';
+
+interface LeverageTiersCardProps {
+  market: EnrichedMarket;
+}
+
+export function buildLeverageTiers(market: EnrichedMarket): LeverageTier[] {
+  return [
+    { label: 'Conservative', ...market.roe.conservative, color: '#00FFD1' },
+    { label: 'Moderate', ...market.roe.moderate, color: '#F59E0B' },
+    { label: 'Aggressive', ...market.roe.aggressive, color: '#FF3366' },
+  ];
+}
+
+export default function LeverageTiersCard({ market }: LeverageTiersCardProps) {
+  const tiers = buildLeverageTiers(market);
+
+  return (
+    <div className="card-glow p-6">
+      <h2 className="text-base font-black gradient-text tracking-tight mb-1">Leverage Tiers</h2>
+      <p className="text-[10px] text-(--text-muted) font-mono mb-4">
+        Sized against a {market.maxDepeg.toFixed(4)}% historical depeg at {market.lltv.toFixed(1)}% LLTV
+        (max {market.maxLeverage.toFixed(2)}×). Max size is the deposit value the market&apos;s free liquidity can lever.
+      </p>
+      <div className="space-y-3">
+        {tiers.map((tier) => (
+          <div key={tier.label} className="glass-inner p-4">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 rounded-full" style={{ background: tier.color }} />
+                <span className="text-[10px] uppercase tracking-[0.15em] font-mono font-bold" style={{ color: tier.color }}>
+                  {tier.label}
+                </span>
+              </div>
+              <span className="text-lg font-black font-mono" style={{ color: 'var(--text-primary)' }}>
+                {tier.leverage.toFixed(2)}×
+              </span>
+            </div>
+            <div className="flex justify-between text-[10px] font-mono">
+              <span style={{ color: 'var(--text-muted)' }}>ROE</span>
+              <span style={{ color: tier.roe > 0 ? 'var(--accent-primary)' : 'var(--accent-secondary)' }}>
+                {tier.roe.toFixed(2)}%
+              </span>
+            </div>
+            <div className="flex justify-between text-[10px] font-mono mt-1">
+              <span style={{ color: 'var(--text-muted)' }}>Health Factor</span>
+              <span style={{ color: 'var(--text-secondary)' }}>{tier.healthFactor.toFixed(3)}</span>
+            </div>
+            {tier.maxDeposit !== null && (
+              <div className="flex justify-between text-[10px] font-mono mt-1">
+                <span style={{ color: 'var(--text-muted)' }}>Max Size</span>
+                <span style={{ color: 'var(--text-secondary)' }}>
+                  {tier.maxDeposit.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 2 })} {market.loanSymbol}
+                </span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import type { DepegHistoryRow } from '@/lib/refreshAnalysis';
+
+interface MarketDepegChartProps {
+  points: DepegHistoryRow[];
+  /** max_depeg_percentage from the leverage analysis (positive %) */
+  maxDepegPct: number;
+  pair: string;
+}
+
+const W = 650;
+const H = 360;
+const PAD = { top: 20, right: 55, bottom: 35, left: 60 };
+const GAP = 24;
+const chartW = W - PAD.left - PAD.right;
+const totalH = H - PAD.top - PAD.bottom - GAP;
+const priceH = totalH * 0.62;
+const depegH = totalH - priceH;
+const depegTop = PAD.top + priceH + GAP;
+
+export default function MarketDepegChart({ points, maxDepegPct, pair }: MarketDepegChartProps) {
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const worstIdx = useMemo(() => {
+    let idx = -1;
+    for (let i = 0; i < points.length; i++) {
+      if (points[i].depeg_pct < 0 && (idx < 0 || points[i].depeg_pct < points[idx].depeg_pct)) idx = i;
+    }
+    return idx;
+  }, [points]);
+
+  if (points.length < 2) {
+    return (
+      <div className="card-glow p-6">
+        <h2 className="text-base font-black gradient-text tracking-tight mb-4">Depeg History</h2>
+        <div className="glass-inner p-10 text-center">
+          <p className="text-sm text-(--text-secondary) font-medium">No depeg history recorded for this market yet</p>
+        </div>
+      </div>
+    );
+  }
+
+  // ── Scales ─────────────────────────────────────────────────────────────
+  const prices = points.flatMap(p => [p.oracle_price, p.intrinsic_price]).filter(v => v > 0);
+  const pMin = Math.min(...prices);
+  const pMax = Math.max(...prices);
+  const pRange = pMax - pMin || pMax * 0.01 || 0.01;
+  const pyMin = pMin - pRange * 0.05;
+  const pyMax = pMax + pRange * 0.05;
+
+  const depegs = points.map(p => p.depeg_pct);
+  const dMin = Math.min(...depegs, -maxDepegPct, 0);
+  const dMax = Math.max(...depegs, 0);
+  const dRange = dMax - dMin || 0.01;
+  const dyMin = dMin - dRange * 0.1;
+  const dyMax = dMax + dRange * 0.1;
+
+  const toX = (i: number) => PAD.left + (i / (points.length - 1)) * chartW;
+  const toPriceY = (v: number) => PAD.top + (1 - (v - pyMin) / (pyMax - pyMin)) * priceH;
+  const toDepegY = (v: number) => depegTop + (1 - (v - dyMin) / (dyMax - dyMin)) * depegH;
+
+  const linePath = (values: number[], toY: (v: number) => number) =>
+    values.map((v, i) => `${i === 0 ? 'M' : 'L'} ${toX(i)} ${toY(v)}`).join(' ');
+
+  const oraclePath = linePath(points.map(p => p.oracle_price), toPriceY);
+  const intrinsicPath = linePath(points.map(p => p.intrinsic_price), toPriceY);
+  const depegPath = linePath(depegs, toDepegY);
+
+  const priceTicks = Array.from({ length: 4 }, (_, i) => pyMin + ((pyMax - pyMin) * i) / 3);
+  const depegTicks = [dyMin + (dyMax - dyMin) * 0.1, 0, dyMax - (dyMax - dyMin) * 0.1];
+
+  const xLabels = Array.from({ length: 6 }, (_, n) => {
+    const idx = Math.round((n / 5) * (points.length - 1));
+    const d = new Date(points[idx].timestamp_ms);
+    return { idx, label: d.toLocaleString('default', { month: 'short', day: 'numeric' }) };
+  });
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const pt = new DOMPoint(e.clientX, e.clientY);
+    const svgPt = pt.matrixTransform(svg.getScreenCTM()!.inverse());
+    const clampedX = Math.max(PAD.left, Math.min(svgPt.x, PAD.left + chartW));
+    setHoverIdx(Math.round(((clampedX - PAD.left) / chartW) * (points.length - 1)));
+  };
+
+  const hover = hoverIdx !== null ? points[hoverIdx] : null;
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="card-glow p-6">
+      <div className="flex items-start justify-between mb-4 gap-3">
+        <div>
+          <h2 className="text-base font-black gradient-text tracking-tight">Depeg History</h2>
+          <p className="text-[10px] text-(--text-muted) font-mono mt-0.5">
+            {pair} oracle price vs intrinsic value across {points.length} samples.
+          </p>
+        </div>
+        <div
+          className="px-2.5 py-1 rounded-full text-[9px] font-bold font-mono shrink-0"
+          style={{ background: 'rgba(255,51,102,0.1)', color: 'var(--accent-secondary)', border: '1px solid rgba(255,51,102,0.2)' }}
+        >
+          MAX DEPEG -{maxDepegPct.toFixed(4)}%
+        </div>
+      </div>
+
+      <div className="glass-inner p-4">
+        <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} className="w-full" preserveAspectRatio="xMidYMid meet">
+          {/* Price panel grid */}
+          {priceTicks.map((val, i) => (
+            <g key={`p${i}`}>
+              <line
+                x1={PAD.left} y1={toPriceY(val)} x2={W - PAD.right} y2={toPriceY(val)}
+                stroke="rgba(255,255,255,0.06)" strokeWidth="0.5" strokeDasharray="4 4"
+              />
+              <text x={PAD.left - 5} y={toPriceY(val) + 4} textAnchor="end" fill="#64748b" fontSize="9">
+                {val.toFixed(4)}
+              </text>
+            </g>
+          ))}
+
+          {/* Depeg panel grid */}
+          {depegTicks.map((val, i) => (
+            <g key={`d${i}`}>
+              <line
+                x1={PAD.left} y1={toDepegY(val)} x2={W - PAD.right} y2={toDepegY(val)}
+                stroke={val === 0 ? 'rgba(255,255,255,0.15)' : 'rgba(255,255,255,0.06)'}
+                strokeWidth="0.5" strokeDasharray={val === 0 ? undefined : '4 4'}
+              />
+              <text x={PAD.left - 5} y={toDepegY(val) + 4} textAnchor="end" fill="#64748b" fontSize="9">
+                {val.toFixed(3)}%
+              </text>
+            </g>
+          ))}
+
+          {/* Computed max depeg line */}
+          {maxDepegPct > 0 && (
+            <g>
+              <line
+                x1={PAD.left} y1={toDepegY(-maxDepegPct)} x2={W - PAD.right} y2={toDepegY(-maxDepegPct)}
+                stroke="#FF3366" strokeWidth="1.5" strokeDasharray="8 4" opacity="0.6"
+              />
+              <text x={W - PAD.right + 4} y={toDepegY(-maxDepegPct) + 3} fill="#FF3366" fontSize="9" fontWeight="bold">
+                max
+              </text>
+            </g>
+          )}
+
+          {/* X-axis labels */}
+          {xLabels.map(({ idx, label }) => (
+            <text key={idx} x={toX(idx)} y={H - 5} textAnchor="middle" fill="#64748b" fontSize="8">
+              {label}
+            </text>
+          ))}
+
+          {/* Series */}
+          <path d={intrinsicPath} fill="none" stroke="#00C2FF" strokeWidth="1.5" opacity="0.8" />
+          <path d={oraclePath} fill="none" stroke="#8b5cf6" strokeWidth="2" />
+          <path d={depegPath} fill="none" stroke="#F59E0B" strokeWidth="1.5" />
+
+          {/* Worst sample marker */}
+          {worstIdx >= 0 && (
+            <>
+              <circle cx={toX(worstIdx)} cy={toDepegY(points[worstIdx].depeg_pct)} r="5" fill="#FF3366" stroke="#05080F" strokeWidth="2" />
+              <text
+                x={toX(worstIdx)} y={toDepegY(points[worstIdx].depeg_pct) + 16}
+                textAnchor="middle" fill="#fca5a5" fontSize="9" fontWeight="bold"
+              >
+                {points[worstIdx].depeg_pct.toFixed(4)}%
+              </text>
+            </>
+          )}
+
+          {/* Panel labels */}
+          <text x={PAD.left + 5} y={PAD.top + 12} fill="#a78bfa" fontSize="10" fontWeight="600" opacity="0.7">
+            Oracle vs Intrinsic Price
+          </text>
+          <text x={PAD.left + 5} y={depegTop + 12} fill="#F59E0B" fontSize="10" fontWeight="600" opacity="0.7">
+            Depeg %
+          </text>
+
+          {/* Hover overlay */}
+          <rect
+            x={PAD.left} y={PAD.top} width={chartW} height={H - PAD.top - PAD.bottom}
+            fill="transparent"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHoverIdx(null)}
+            style={{ cursor: 'crosshair' }}
+          />
+
+          {hover && hoverIdx !== null && (() => {
+            const x = toX(hoverIdx);
+            const flipLeft = x > PAD.left + chartW * 0.7;
+            const tooltipW = 150;
+            const tx = flipLeft ? x - tooltipW - 10 : x + 10;
+            return (
+              <g>
+                <line
+                  x1={x} y1={PAD.top} x2={x} y2={H - PAD.bottom}
+                  stroke="rgba(255,255,255,0.25)" strokeWidth="1" strokeDasharray="4 3"
+                />
+                <circle cx={x} cy={toPriceY(hover.oracle_price)} r="4" fill="#8b5cf6" stroke="#05080F" strokeWidth="2" />
+                <circle cx={x} cy={toDepegY(hover.depeg_pct)} r="4" fill="#F59E0B" stroke="#05080F" strokeWidth="2" />
+                <rect x={tx} y={PAD.top} width={tooltipW} height={62} rx="4" fill="rgba(10,18,36,0.95)" stroke="#00FFD1" strokeWidth="1" />
+                <text x={tx + 8} y={PAD.top + 14} fill="#94a3b8" fontSize="9" fontFamily="monospace">
+                  {new Date(hover.timestamp_ms).toLocaleString('default', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                </text>
+                <text x={tx + 8} y={PAD.top + 28} fill="#a78bfa" fontSize="10" fontFamily="monospace">
+                  Oracle: {hover.oracle_price.toFixed(6)}
+                </text>
+                <text x={tx + 8} y={PAD.top + 42} fill="#00C2FF" fontSize="10" fontFamily="monospace">
+                  Intrinsic: {hover.intrinsic_price.toFixed(6)}
+                </text>
+                <text x={tx + 8} y={PAD.top + 56} fill="#F59E0B" fontSize="10" fontWeight="bold" fontFamily="monospace">
+                  Depeg: {hover.depeg_pct.toFixed(4)}%
+                </text>
+              </g>
+            );
+          })()}
+        </svg>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-4 mt-3">
+          {[
+            { label: 'Oracle price', color: '#8b5cf6' },
+            { label: 'Intrinsic price', color: '#00C2FF' },
+            { label: 'Depeg %', color: '#F59E0B' },
+            { label: 'Max depeg', color: '#FF3366' },
+          ].map(item => (
+            <div key={item.label} className="flex items-center gap-1.5">
+              <div className="w-3 h-0.5 rounded" style={{ background: item.color }} />
+              <span className="text-[10px] font-mono" style={{ color: item.color }}>{item.label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+        <div className="glass-inner p-4">
+          <p className="text-[9px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold mb-2">Latest Depeg</p>
+          <p className="text-2xl font-black font-mono" style={{ color: latest.depeg_pct >= 0 ? 'var(--accent-primary)' : 'var(--accent-secondary)' }}>
+            {latest.depeg_pct >= 0 ? '+' : ''}{latest.depeg_pct.toFixed(4)}%
+          </p>
+        </div>
+        <div className="glass-inner p-4">
+          <p className="text-[9px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold mb-2">Worst Sample</p>
+          <p className="text-2xl font-black font-mono" style={{ color: 'var(--accent-secondary)' }}>
+            {worstIdx >= 0 ? `${points[worstIdx].depeg_pct.toFixed(4)}%` : 'None'}
+          </p>
+          {worstIdx >= 0 && (
+            <p className="text-[10px] font-mono mt-1" style={{ color: 'var(--text-muted)' }}>{points[worstIdx].date}</p>
+          )}
+        </div>
+        <div className="glass-inner p-4">
+          <p className="text-[9px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold mb-2">Samples Below Peg</p>
+          <p className="text-2xl font-black font-mono" style={{ color: 'var(--accent-warning)' }}>
+            {depegs.filter(d => d < 0).length}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import type { EnrichedMarket } from '@/lib/types';
+import { getLeverageHelper } from '@/lib/leverageContract';
+
+interface MarketSelectorProps {
+  markets: EnrichedMarket[];
+  selected: EnrichedMarket | null;
+  onSelect: (market: EnrichedMarket) => void;
+}
+
+export default function MarketSelector({ markets, selected, onSelect }: MarketSelectorProps) {
+  if (markets.length === 0) return null;
+
+  return (
+    <div className="stat-chip gap-2">
+      <span className="stat-label">Market</span>
+      <select
+        value={selected?.marketId ?? ''}
+        onChange={(e) => {
+          const next = markets.find((m) => m.marketId === e.target.value);
+          if (next) onSelect(next);
+        }}
+        className="stat-value bg-transparent outline-none cursor-pointer font-mono"
+        style={{ color: 'var(--text-primary)' }}
+      >
+        {markets.map((m) => (
+          <option key={m.marketId} value={m.marketId} style={{ background: '#030711' }}>
+            {m.pair} · {m.lltv.toFixed(1)}%{getLeverageHelper(m.chainSlug, m.marketId) ? '' : ' (read-only)'}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { EnrichedMarket, OracleCategory } from '@/lib/types';
+import { CHAIN_CONFIG } from '@/lib/chains';
+import { computeROE } from '@/lib/dataEnrichment';
+import { irmStateFromMarket, simulateBorrowImpact, type BorrowImpact } from '@/lib/adaptiveCurveIrm';
+import Tooltip from '@/components/Tooltip';
+
+type SortKey =
+  | 'pair'
+  | 'conservative'
+  | 'moderate'
+  | 'aggressive'
+  | 'maxDepeg'
+  | 'utilization'
+  | 'liquidity'
+  | 'maxSize'
+  | 'oracleCategory'
+  | 'postTrade';
+
+interface Column {
+  key: SortKey;
+  label: string;
+  tip?: string;
+  align: 'left' | 'right';
+}
+
+const COLUMNS: Column[] = [
+  { key: 'pair', label: 'Market', align: 'left' },
+  { key: 'conservative', label: 'Conservative', tip: 'ROE at the conservative leverage tier', align: 'right' },
+  { key: 'moderate', label: 'Moderate', tip: 'ROE at the moderate leverage tier', align: 'right' },
+  { key: 'aggressive', label: 'Aggressive', tip: 'ROE at the aggressive leverage tier', align: 'right' },
+  { key: 'maxDepeg', label: 'Max Depeg', tip: 'Largest historical oracle depeg observed for this market', align: 'right' },
+  { key: 'utilization', label: 'Util.', align: 'right' },
+  { key: 'liquidity', label: 'Liquidity', tip: 'Available liquidity in loan-token units', align: 'right' },
+  { key: 'maxSize', label: 'Max Size', tip: 'Largest deposit (loan-token value) the market can lever at the moderate tier, capped by a 95% utilization ceiling (swap price impact is checked in the trade panel)', align: 'right' },
+  { key: 'oracleCategory', label: 'Oracle', align: 'left' },
+];
+
+const POST_TRADE_COLUMN: Column = {
+  key: 'postTrade',
+  label: 'After Trade',
+  tip: 'Utilization, borrow APY and net ROE once the simulated position is opened, from the AdaptiveCurveIrm model',
+  align: 'right',
+};
+
+interface PostTrade {
+  leverage: number;
+  /** Deposit is above what the market can lever at this leverage */
+  oversized: boolean;
+  impact: BorrowImpact;
+  borrowApy: number;
+  roe: number;
+}
+
+/** Same-asset markets, so the deposit is taken 1:1 in loan-token terms */
+function simulatePostTrade(m: EnrichedMarket, deposit: number, targetLeverage: number): PostTrade {
+  const leverage = Math.max(1, Math.min(targetLeverage, m.maxLeverage));
+  const borrow = deposit * (leverage - 1);
+  const impact = simulateBorrowImpact(irmStateFromMarket(m), borrow);
+  // Shift the quoted (reward-adjusted) APY by the modelled IRM move
+  const borrowApy = Math.max(0, m.borrowAPY + impact.borrowApyAfter - impact.borrowApyBefore);
+  return {
+    leverage,
+    oversized: borrow > m.maxBorrowable,
+    impact,
+    borrowApy,
+    roe: computeROE(m.collateralYield, m.supplyAPY, borrowApy, leverage),
+  };
+}
+
+const ORACLE_COLORS: Record<OracleCategory, string> = {
+  EXCHANGE_RATE: 'var(--accent-primary)',
+  VAULT: 'var(--accent-info)',
+  MARKET_PRICE: 'var(--accent-warning)',
+  STATIC: 'var(--accent-purple)',
+};
+
+function sortValue(m: EnrichedMarket, key: SortKey): number | string {
+  switch (key) {
+    case 'pair': return m.pair;
+    case 'conservative': return m.roe.conservative.roe;
+    case 'moderate': return m.roe.moderate.roe;
+    case 'aggressive': return m.roe.aggressive.roe;
+    case 'maxDepeg': return m.maxDepeg;
+    case 'utilization': return m.utilization;
+    case 'liquidity': return parseFloat(m.availableLiquidity || '0');
+    case 'maxSize': return m.roe.moderate.maxDeposit ?? Infinity;
+    case 'oracleCategory': return m.oracleCategory;
+    case 'postTrade': return m.roe.moderate.roe;
+  }
+}
+
+function formatCompact(value: number): string {
+  return value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+}
+
+function roeColor(roe: number): string {
+  return roe > 0 ? 'var(--accent-primary)' : 'var(--accent-secondary)';
+}
+
+interface MarketsTableProps {
+  markets: EnrichedMarket[];
+  showChain?: boolean;
+}
+
+export default function MarketsTable({ markets, showChain = false }: MarketsTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('moderate');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [simDeposit, setSimDeposit] = useState('');
+  const [simLeverage, setSimLeverage] = useState('5');
+
+  const depositAmount = parseFloat(simDeposit) || 0;
+  const targetLeverage = parseFloat(simLeverage) || 1;
+  const simulating = depositAmount > 0 && targetLeverage > 1;
+
+  const postTrade = useMemo(() => {
+    const byId = new Map<string, PostTrade>();
+    if (!simulating) return byId;
+    for (const m of markets) byId.set(`${m.chainSlug}-${m.marketId}`, simulatePostTrade(m, depositAmount, targetLeverage));
+    return byId;
+  }, [markets, simulating, depositAmount, targetLeverage]);
+
+  const columns = simulating ? [...COLUMNS.slice(0, -1), POST_TRADE_COLUMN, COLUMNS[COLUMNS.length - 1]] : COLUMNS;
+  const activeSort = !simulating && sortKey === 'postTrade' ? 'moderate' : sortKey;
+
+  const sorted = useMemo(() => {
+    const dir = sortDesc ? -1 : 1;
+    const value = (m: EnrichedMarket) => activeSort === 'postTrade'
+      ? postTrade.get(`${m.chainSlug}-${m.marketId}`)?.roe ?? -Infinity
+      : sortValue(m, activeSort);
+    return [...markets].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      if (typeof va === 'string' || typeof vb === 'string') {
+        return String(va).localeCompare(String(vb)) * dir;
+      }
+      return (va - vb) * dir;
+    });
+  }, [markets, activeSort, sortDesc, postTrade]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      // Text columns read naturally A→Z, numeric columns best-first
+      setSortDesc(key !== 'pair' && key !== 'oracleCategory');
+    }
+  };
+
+  if (markets.length === 0) {
+    return (
+      <div className="card-glow p-10 text-center">
+        <p className="text-sm text-(--text-secondary) font-medium">No markets found</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card-glow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-base font-black gradient-text tracking-tight">Markets</h2>
+        <span className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>
+          {markets.length} markets
+        </span>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <Tooltip
+          label="Simulate"
+          tip="Deposit (in loan-token units) and leverage to preview how your own borrow moves each market's rate"
+          className="text-[9px] uppercase tracking-[0.15em] font-mono font-bold text-(--text-muted)"
+        />
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={simDeposit}
+          onChange={(e) => setSimDeposit(e.target.value)}
+          placeholder="Deposit"
+          className="w-28"
+          style={{ fontSize: '11px', padding: '6px 10px' }}
+        />
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min="1"
+            step="0.5"
+            value={simLeverage}
+            onChange={(e) => setSimLeverage(e.target.value)}
+            className="w-20"
+            style={{ fontSize: '11px', padding: '6px 10px' }}
+          />
+          <span className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>×</span>
+        </div>
+        {simulating && (
+          <span className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>
+            Capped at each market&apos;s max leverage
+          </span>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="border-b" style={{ borderColor: 'var(--border)' }}>
+              {columns.map((col) => (
+                <th
+                  key={col.key}
+                  onClick={() => handleSort(col.key)}
+                  className={`py-2.5 px-2 cursor-pointer select-none whitespace-nowrap text-[9px] uppercase tracking-[0.12em] font-bold ${col.align === 'right' ? 'text-right' : 'text-left'}`}
+                  style={{ color: activeSort === col.key ? 'var(--accent-primary)' : 'var(--text-muted)' }}
+                >
+                  {col.tip ? <Tooltip label={col.label} tip={col.tip} /> : col.label}
+                  {activeSort === col.key && <span className="ml-1">{sortDesc ? '↓' : '↑'}</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((m) => (
+              <tr
+                key={`${m.chainSlug}-${m.marketId}`}
+                className="border-b transition-colors hover:bg-white/[0.02]"
+                style={{ borderColor: 'var(--border)' }}
+              >
+                <td className="py-2.5 px-2 whitespace-nowrap">
+                  <div className="flex items-center gap-2">
+                    {showChain && (
+                      <span
+                        className="w-1.5 h-1.5 rounded-full shrink-0"
+                        style={{ background: CHAIN_CONFIG[m.chainSlug].color }}
+                        title={CHAIN_CONFIG[m.chainSlug].name}
+                      />
+                    )}
+                    <Link
+                      href={`/markets/${m.chainSlug}/${m.marketId}`}
+                      className="font-bold hover:opacity-80"
+                      style={{ color: 'var(--text-primary)' }}
+                    >
+                      {m.pair}
+                    </Link>
+                    <span className="text-[10px]" style={{ color: 'var(--text-muted)' }}>{m.lltv.toFixed(1)}%</span>
+                  </div>
+                </td>
+                {(['conservative', 'moderate', 'aggressive'] as const).map((tier) => (
+                  <td key={tier} className="py-2.5 px-2 text-right whitespace-nowrap">
+                    <span className="font-bold" style={{ color: roeColor(m.roe[tier].roe) }}>
+                      {m.roe[tier].roe.toFixed(2)}%
+                    </span>
+                    <span className="text-[10px] ml-1" style={{ color: 'var(--text-muted)' }}>
+                      @{m.roe[tier].leverage.toFixed(1)}×
+                    </span>
+                  </td>
+                ))}
+                <td className="py-2.5 px-2 text-right" style={{ color: 'var(--text-secondary)' }}>
+                  {m.maxDepeg.toFixed(2)}%
+                </td>
+                <td className="py-2.5 px-2 text-right" style={{ color: 'var(--text-secondary)' }}>
+                  {m.utilization.toFixed(1)}%
+                </td>
+                <td className="py-2.5 px-2 text-right whitespace-nowrap" style={{ color: 'var(--text-secondary)' }}>
+                  {formatCompact(parseFloat(m.availableLiquidity || '0'))} {m.loanSymbol}
+                </td>
+                <td className="py-2.5 px-2 text-right whitespace-nowrap" style={{ color: 'var(--text-secondary)' }}>
+                  {m.roe.moderate.maxDeposit !== null ? `${formatCompact(m.roe.moderate.maxDeposit)} ${m.loanSymbol}` : '—'}
+                </td>
+                {simulating && (() => {
+                  const sim = postTrade.get(`${m.chainSlug}-${m.marketId}`);
+                  if (!sim) return <td />;
+                  return (
+                    <td className="py-2.5 px-2 text-right whitespace-nowrap">
+                      {!sim.oversized ? (
+                        <>
+                          <span className="font-bold" style={{ color: roeColor(sim.roe) }}>{sim.roe.toFixed(2)}%</span>
+                          <span className="text-[10px] ml-1" style={{ color: 'var(--text-muted)' }}>@{sim.leverage.toFixed(1)}×</span>
+                          <div className="text-[10px]" style={{ color: 'var(--text-muted)' }}>
+                            {sim.impact.utilizationAfter.toFixed(1)}% util · {sim.borrowApy.toFixed(2)}% borrow
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-[10px]" style={{ color: 'var(--accent-secondary)' }}>Above max size</span>
+                      )}
+                    </td>
+                  );
+                })()}
+                <td className="py-2.5 px-2 whitespace-nowrap">
+                  <span
+                    className="text-[9px] font-bold tracking-widest px-2 py-0.5 rounded-full"
+                    style={{ color: ORACLE_COLORS[m.oracleCategory] ?? 'var(--text-muted)', border: '1px solid var(--border)' }}
+                  >
+                    {m.oracleCategory.replace('_', ' ')}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
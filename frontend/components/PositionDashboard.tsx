@@ -1,16 +1,21 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import { formatEther } from 'viem';
+import { formatUnits } from 'viem';
 import type { ReserveInfo } from '@/lib/types';
+import type { TradeMarket } from '@/lib/leverageContract';
+import type { PositionRisk } from '@/lib/positionMath';
 import Tooltip from '@/components/Tooltip';
 
 interface PositionDashboardProps {
+  market: TradeMarket;
   collateralBalance: bigint;
   debtBalance: bigint;
   healthFactor: number;
   reserveInfo: ReserveInfo | null;
-  exchangeRate: number;
+  /** null when the oracle price is unavailable */
+  exchangeRate: number | null;
+  risk: PositionRisk | null;
   isLoading?: boolean;
 }
 
@@ -85,13 +90,15 @@ function StatCard({ label, value, sub, color, delay = 0 }: {
 }
 
 export default function PositionDashboard({
-  collateralBalance, debtBalance, healthFactor, reserveInfo, exchangeRate, isLoading,
+  market, collateralBalance, debtBalance, healthFactor, reserveInfo, exchangeRate, risk, isLoading,
 }: PositionDashboardProps) {
   const hasPosition = debtBalance > 0n;
-  const collateral = Number(formatEther(collateralBalance));
-  const debt = Number(formatEther(debtBalance));
-  // Both Aave and Morpho now return raw wstETH amounts (18 dec) — multiply by exchangeRate to get ETH.
-  const collateralInEth = collateral * exchangeRate;
+  const collateral = Number(formatUnits(collateralBalance, market.collateralDecimals));
+  const debt = Number(formatUnits(debtBalance, market.loanDecimals));
+  // Collateral is in collateral-token units — multiply by exchangeRate to get loan-token terms.
+  // Without a price, value-based stats show as unavailable.
+  const priced = exchangeRate !== null;
+  const collateralInEth = collateral * (exchangeRate ?? 0);
   const equity = collateralInEth - debt;
   const currentLeverage = equity > 0 ? collateralInEth / equity : 0;
 
@@ -171,10 +178,10 @@ export default function PositionDashboard({
           {/* Stats grid + HF arc */}
           <div className="grid grid-cols-3 gap-3 mb-4">
             <div className="col-span-2 grid grid-cols-2 gap-3">
-              <StatCard label="Collateral" value={`${collateral.toFixed(4)}`} sub="wstETH on Morpho" color="var(--accent-primary)" delay={0.05} />
-              <StatCard label="Debt" value={`${debt.toFixed(4)}`} sub="WETH borrowed" color="var(--accent-warning)" delay={0.1} />
-              <StatCard label="Net Equity" value={`${equity.toFixed(4)}`} sub="in ETH terms" color="var(--text-primary)" delay={0.15} />
-              <StatCard label="Leverage" value={`${currentLeverage.toFixed(2)}x`} sub={`${(currentLeverage * 100 - 100).toFixed(0)}% amplified`} color="var(--accent-info)" delay={0.2} />
+              <StatCard label="Collateral" value={`${collateral.toFixed(4)}`} sub={`${market.collateralSymbol} on Morpho`} color="var(--accent-primary)" delay={0.05} />
+              <StatCard label="Debt" value={`${debt.toFixed(4)}`} sub={`${market.loanSymbol} borrowed`} color="var(--accent-warning)" delay={0.1} />
+              <StatCard label="Net Equity" value={priced ? `${equity.toFixed(4)}` : '—'} sub={priced ? `in ${market.loanSymbol} terms` : 'price unavailable'} color="var(--text-primary)" delay={0.15} />
+              <StatCard label="Leverage" value={priced ? `${currentLeverage.toFixed(2)}x` : '—'} sub={priced ? `${(currentLeverage * 100 - 100).toFixed(0)}% amplified` : 'price unavailable'} color="var(--accent-info)" delay={0.2} />
             </div>
 
             <motion.div
@@ -192,7 +199,7 @@ export default function PositionDashboard({
             <div className="flex justify-between text-[10px] font-mono mb-2">
               <Tooltip label="Debt / Collateral" tip="Your loan-to-value ratio. Higher = closer to liquidation. Max LTV varies by market." className="text-(--text-muted)" />
               <span style={{ color: hfColor }}>
-                {collateralInEth > 0 ? ((debt / collateralInEth) * 100).toFixed(1) : '0.0'}%
+                {!priced ? '—' : collateralInEth > 0 ? `${((debt / collateralInEth) * 100).toFixed(1)}%` : '0.0%'}
               </span>
             </div>
             <div className="h-1.5 rounded-full overflow-hidden" style={{ background: 'rgba(255,255,255,0.06)' }}>
@@ -212,6 +219,32 @@ export default function PositionDashboard({
             </div>
           </div>
 
+          {/* Distance to liquidation */}
+          {risk && (
+            <div className="grid grid-cols-3 gap-3 mt-3">
+              <StatCard
+                label="Liq. Price"
+                value={risk.liquidationPrice !== null ? risk.liquidationPrice.toFixed(4) : '—'}
+                sub={exchangeRate !== null ? `oracle now ${exchangeRate.toFixed(4)}` : 'oracle price unavailable'}
+                color="var(--accent-secondary)"
+                delay={0.25}
+              />
+              <StatCard
+                label="To Liquidation"
+                value={risk.dropToLiquidationPct !== null ? `-${risk.dropToLiquidationPct.toFixed(2)}%` : '—'}
+                sub="oracle price drop"
+                color={hfColor}
+                delay={0.3}
+              />
+              <StatCard
+                label="Borrowable"
+                value={risk.maxAdditionalBorrow.toFixed(4)}
+                sub={`more ${market.loanSymbol} to LLTV`}
+                color="var(--accent-info)"
+                delay={0.35}
+              />
+            </div>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,165 @@
+'use client';
+
+import { useRef, useState } from 'react';
+
+export interface ImpactCurvePoint {
+  leverage: number;
+  /** Swap price impact of the flash loan at this leverage, in % */
+  impactPct: number;
+  /** Net APY at spot rates, in % */
+  netApy: number;
+  /** Net APY less the one-off swap impact as a share of equity — the first year's return */
+  netAfterImpact: number;
+}
+
+interface PriceImpactChartProps {
+  points: ImpactCurvePoint[];
+  leverage: number;
+  slippagePct: number;
+}
+
+const W = 600;
+const H = 260;
+const PAD = { top: 16, right: 16, bottom: 30, left: 50 };
+const GAP = 20;
+const chartW = W - PAD.left - PAD.right;
+const totalH = H - PAD.top - PAD.bottom - GAP;
+const apyH = totalH * 0.6;
+const impactH = totalH - apyH;
+const impactTop = PAD.top + apyH + GAP;
+
+/**
+ * Net APY vs leverage with and without the entry swap's price impact, and
+ * the impact itself against the slippage tolerance.
+ */
+export default function PriceImpactChart({ points, leverage, slippagePct }: PriceImpactChartProps) {
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const n = points.length;
+  const xMin = points[0].leverage;
+  const xMax = points[n - 1].leverage;
+
+  const apys = points.flatMap(p => [p.netApy, p.netAfterImpact]);
+  const aMin = Math.min(0, ...apys);
+  const aMax = Math.max(0, ...apys);
+  const aPad = (aMax - aMin || 1) * 0.1;
+  const iMax = Math.max(slippagePct, ...points.map(p => p.impactPct)) * 1.15 || 1;
+
+  const toX = (lev: number) => PAD.left + ((lev - xMin) / (xMax - xMin || 1)) * chartW;
+  const toApyY = (v: number) => PAD.top + (1 - (v - (aMin - aPad)) / (aMax - aMin + 2 * aPad)) * apyH;
+  const toImpactY = (v: number) => impactTop + (1 - v / iMax) * impactH;
+
+  const path = (values: number[], toY: (v: number) => number) =>
+    values.map((v, i) => `${i === 0 ? 'M' : 'L'} ${toX(points[i].leverage).toFixed(1)} ${toY(v).toFixed(1)}`).join(' ');
+
+  const apyTicks = Array.from({ length: 4 }, (_, i) => aMin - aPad + ((aMax - aMin + 2 * aPad) * i) / 3);
+  const clampedLev = Math.min(Math.max(leverage, xMin), xMax);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const pt = new DOMPoint(e.clientX, e.clientY);
+    const svgPt = pt.matrixTransform(svg.getScreenCTM()!.inverse());
+    const lev = xMin + ((Math.max(PAD.left, Math.min(svgPt.x, PAD.left + chartW)) - PAD.left) / chartW) * (xMax - xMin);
+    let nearest = 0;
+    for (let i = 1; i < n; i++) {
+      if (Math.abs(points[i].leverage - lev) < Math.abs(points[nearest].leverage - lev)) nearest = i;
+    }
+    setHoverIdx(nearest);
+  };
+
+  const hover = hoverIdx !== null ? points[hoverIdx] : null;
+
+  return (
+    <div>
+      <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} className="w-full" preserveAspectRatio="xMidYMid meet">
+        {apyTicks.map((val, i) => (
+          <g key={`a${i}`}>
+            <line
+              x1={PAD.left} y1={toApyY(val)} x2={W - PAD.right} y2={toApyY(val)}
+              stroke="rgba(255,255,255,0.05)" strokeWidth="0.5" strokeDasharray="4 4"
+            />
+            <text x={PAD.left - 5} y={toApyY(val) + 4} textAnchor="end" fill="#64748b" fontSize="10">
+              {val.toFixed(1)}%
+            </text>
+          </g>
+        ))}
+        <line x1={PAD.left} y1={toApyY(0)} x2={W - PAD.right} y2={toApyY(0)} stroke="rgba(255,255,255,0.15)" strokeWidth="1" />
+
+        {/* Slippage tolerance: impact above it reverts the swap */}
+        <line
+          x1={PAD.left} y1={toImpactY(slippagePct)} x2={W - PAD.right} y2={toImpactY(slippagePct)}
+          stroke="#FF3366" strokeWidth="1.5" strokeDasharray="8 4" opacity="0.6"
+        />
+        <text x={W - PAD.right - 4} y={toImpactY(slippagePct) - 4} textAnchor="end" fill="#FF3366" fontSize="10">
+          {slippagePct}% slippage
+        </text>
+        <text x={PAD.left - 5} y={toImpactY(0) + 4} textAnchor="end" fill="#64748b" fontSize="10">0%</text>
+
+        {[xMin, (xMin + xMax) / 2, xMax].map(v => (
+          <text key={v} x={toX(v)} y={H - 8} textAnchor="middle" fill="#64748b" fontSize="10">
+            {v.toFixed(1)}×
+          </text>
+        ))}
+
+        <path d={path(points.map(p => p.netApy), toApyY)} fill="none" stroke="#00FFD1" strokeWidth="2" />
+        <path d={path(points.map(p => p.netAfterImpact), toApyY)} fill="none" stroke="#F59E0B" strokeWidth="2" strokeDasharray="5 3" />
+        <path d={path(points.map(p => p.impactPct), toImpactY)} fill="none" stroke="#00C2FF" strokeWidth="1.5" />
+
+        {/* Selected leverage */}
+        <line
+          x1={toX(clampedLev)} y1={PAD.top} x2={toX(clampedLev)} y2={H - PAD.bottom}
+          stroke="#00C2FF" strokeWidth="1" strokeDasharray="4 3" opacity="0.5"
+        />
+
+        <rect
+          x={PAD.left} y={PAD.top} width={chartW} height={H - PAD.top - PAD.bottom}
+          fill="transparent"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIdx(null)}
+          style={{ cursor: 'crosshair' }}
+        />
+
+        {hover && (() => {
+          const x = toX(hover.leverage);
+          const tooltipW = 170;
+          const tx = x > PAD.left + chartW * 0.6 ? x - tooltipW - 10 : x + 10;
+          return (
+            <g>
+              <line x1={x} y1={PAD.top} x2={x} y2={H - PAD.bottom} stroke="rgba(255,255,255,0.25)" strokeWidth="1" strokeDasharray="4 3" />
+              <circle cx={x} cy={toApyY(hover.netAfterImpact)} r="4" fill="#F59E0B" stroke="#05080F" strokeWidth="2" />
+              <circle cx={x} cy={toImpactY(hover.impactPct)} r="4" fill="#00C2FF" stroke="#05080F" strokeWidth="2" />
+              <rect x={tx} y={PAD.top} width={tooltipW} height={62} rx="4" fill="rgba(10,18,36,0.95)" stroke="#00FFD1" strokeWidth="1" />
+              <text x={tx + 8} y={PAD.top + 14} fill="#94a3b8" fontSize="10" fontFamily="monospace">
+                {hover.leverage.toFixed(1)}× Leverage
+              </text>
+              <text x={tx + 8} y={PAD.top + 28} fill="#00FFD1" fontSize="10" fontFamily="monospace">
+                Net APY: {hover.netApy.toFixed(2)}%
+              </text>
+              <text x={tx + 8} y={PAD.top + 42} fill="#F59E0B" fontSize="10" fontFamily="monospace">
+                Year 1 after impact: {hover.netAfterImpact.toFixed(2)}%
+              </text>
+              <text x={tx + 8} y={PAD.top + 56} fill="#00C2FF" fontSize="10" fontFamily="monospace">
+                Price impact: {hover.impactPct.toFixed(3)}%
+              </text>
+            </g>
+          );
+        })()}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-3 mt-2">
+        {[
+          { label: 'Net APY', color: '#00FFD1' },
+          { label: 'Year 1 after impact', color: '#F59E0B' },
+          { label: 'Price impact', color: '#00C2FF' },
+        ].map(item => (
+          <div key={item.label} className="flex items-center gap-1.5">
+            <div className="w-3 h-0.5 rounded" style={{ background: item.color }} />
+            <span className="text-[9px] font-mono" style={{ color: item.color }}>{item.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { RateHistoryRow } from '@/lib/refreshMarkets';
+
+interface RateSpreadChartProps {
+  /** Ascending samples from market_rate_history */
+  points: RateHistoryRow[];
+  /** Current collateral yield in %, held flat — only Morpho rates are recorded over time */
+  stakingYield: number;
+  collateralSymbol: string;
+  loanSymbol: string;
+}
+
+const W = 650;
+const H = 320;
+const PAD = { top: 20, right: 20, bottom: 35, left: 55 };
+const GAP = 24;
+const chartW = W - PAD.left - PAD.right;
+const totalH = H - PAD.top - PAD.bottom - GAP;
+const rateH = totalH * 0.65;
+const utilH = totalH - rateH;
+const utilTop = PAD.top + rateH + GAP;
+
+export default function RateSpreadChart({ points, stakingYield, collateralSymbol, loanSymbol }: RateSpreadChartProps) {
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const n = points.length;
+  const t0 = points[0].timestamp_ms;
+  const tSpan = points[n - 1].timestamp_ms - t0 || 1;
+
+  // Spread per unit of extra leverage: what each borrowed unit earns over its cost
+  const spreads = points.map(p => stakingYield + p.supply_apy - p.borrow_apy);
+  const borrows = points.map(p => p.borrow_apy);
+
+  // ── Scales ─────────────────────────────────────────────────────────────
+  const rMin = Math.min(0, ...spreads, ...borrows);
+  const rMax = Math.max(0, ...spreads, ...borrows);
+  const rPad = (rMax - rMin || 1) * 0.1;
+  const ryMin = rMin - rPad;
+  const ryMax = rMax + rPad;
+
+  const toX = (ts: number) => PAD.left + ((ts - t0) / tSpan) * chartW;
+  const toRateY = (v: number) => PAD.top + (1 - (v - ryMin) / (ryMax - ryMin)) * rateH;
+  const toUtilY = (v: number) => utilTop + (1 - v / 100) * utilH;
+
+  const linePath = (values: number[], toY: (v: number) => number) =>
+    values.map((v, i) => `${i === 0 ? 'M' : 'L'} ${toX(points[i].timestamp_ms).toFixed(1)} ${toY(v).toFixed(1)}`).join(' ');
+
+  const spreadPath = linePath(spreads, toRateY);
+  const borrowPath = linePath(borrows, toRateY);
+  const utilPath = linePath(points.map(p => p.utilization), toUtilY);
+  const zeroY = toRateY(0);
+  const spreadFill = `${spreadPath} L ${toX(points[n - 1].timestamp_ms).toFixed(1)} ${zeroY.toFixed(1)} L ${toX(t0).toFixed(1)} ${zeroY.toFixed(1)} Z`;
+
+  const rateTicks = Array.from({ length: 5 }, (_, i) => ryMin + ((ryMax - ryMin) * i) / 4);
+  const utilTicks = [0, 50, 100];
+
+  const xLabels = Array.from({ length: 5 }, (_, k) => {
+    const ts = t0 + (k / 4) * tSpan;
+    return { ts, label: new Date(ts).toLocaleString('default', { month: 'short', day: 'numeric' }) };
+  });
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const pt = new DOMPoint(e.clientX, e.clientY);
+    const svgPt = pt.matrixTransform(svg.getScreenCTM()!.inverse());
+    const clampedX = Math.max(PAD.left, Math.min(svgPt.x, PAD.left + chartW));
+    const ts = t0 + ((clampedX - PAD.left) / chartW) * tSpan;
+    let nearest = 0;
+    for (let i = 1; i < n; i++) {
+      if (Math.abs(points[i].timestamp_ms - ts) < Math.abs(points[nearest].timestamp_ms - ts)) nearest = i;
+    }
+    setHoverIdx(nearest);
+  };
+
+  const hover = hoverIdx !== null ? points[hoverIdx] : null;
+  const latestSpread = spreads[n - 1];
+  const negativeShare = spreads.filter(s => s < 0).length / n;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.15 }}
+      className="card-glow p-6"
+    >
+      <div className="flex items-start justify-between mb-4 gap-3">
+        <div>
+          <h2 className="text-base font-black gradient-text tracking-tight">Carry Spread</h2>
+          <p className="text-[10px] text-(--text-muted) font-mono mt-0.5">
+            {collateralSymbol} yield ({stakingYield.toFixed(2)}%) + supply APY − {loanSymbol} borrow APY, with utilization.
+          </p>
+        </div>
+        <div
+          className="px-2.5 py-1 rounded-full text-[9px] font-bold font-mono shrink-0"
+          style={{
+            background: latestSpread >= 0 ? 'rgba(0,255,209,0.1)' : 'rgba(255,51,102,0.1)',
+            color: latestSpread >= 0 ? 'var(--accent-primary)' : 'var(--accent-secondary)',
+            border: `1px solid ${latestSpread >= 0 ? 'rgba(0,255,209,0.2)' : 'rgba(255,51,102,0.2)'}`,
+          }}
+        >
+          {negativeShare > 0 ? `Negative ${(negativeShare * 100).toFixed(0)}% of the time` : 'Positive throughout'}
+        </div>
+      </div>
+
+      <div className="glass-inner p-4">
+        <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} className="w-full" preserveAspectRatio="xMidYMid meet">
+          <defs>
+            <linearGradient id="spreadFillGrad" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="0%" stopColor="#00FFD1" stopOpacity="0.2" />
+              <stop offset="100%" stopColor="#00FFD1" stopOpacity="0.02" />
+            </linearGradient>
+          </defs>
+
+          {/* Rate panel grid */}
+          {rateTicks.map((val, i) => (
+            <g key={`r${i}`}>
+              <line
+                x1={PAD.left} y1={toRateY(val)} x2={W - PAD.right} y2={toRateY(val)}
+                stroke="rgba(255,255,255,0.05)" strokeWidth="0.5" strokeDasharray="4 4"
+              />
+              <text x={PAD.left - 5} y={toRateY(val) + 4} textAnchor="end" fill="#64748b" fontSize="9">
+                {val.toFixed(1)}%
+              </text>
+            </g>
+          ))}
+          <line x1={PAD.left} y1={zeroY} x2={W - PAD.right} y2={zeroY} stroke="rgba(255,255,255,0.15)" strokeWidth="1" />
+
+          {/* Utilization panel grid */}
+          {utilTicks.map(val => (
+            <g key={`u${val}`}>
+              <line
+                x1={PAD.left} y1={toUtilY(val)} x2={W - PAD.right} y2={toUtilY(val)}
+                stroke="rgba(255,255,255,0.05)" strokeWidth="0.5" strokeDasharray="4 4"
+              />
+              <text x={PAD.left - 5} y={toUtilY(val) + 4} textAnchor="end" fill="#64748b" fontSize="9">
+                {val}%
+              </text>
+            </g>
+          ))}
+
+          {/* X-axis labels */}
+          {xLabels.map(({ ts, label }) => (
+            <text key={ts} x={toX(ts)} y={H - 5} textAnchor="middle" fill="#64748b" fontSize="8">
+              {label}
+            </text>
+          ))}
+
+          {/* Series */}
+          <path d={spreadFill} fill="url(#spreadFillGrad)" />
+          <path d={borrowPath} fill="none" stroke="#FF3366" strokeWidth="1.5" strokeDasharray="5 3" />
+          <path d={spreadPath} fill="none" stroke="#00FFD1" strokeWidth="2" />
+          <path d={utilPath} fill="none" stroke="#00C2FF" strokeWidth="1.5" />
+
+          {/* Panel labels */}
+          <text x={PAD.left + 5} y={PAD.top + 12} fill="#00FFD1" fontSize="10" fontWeight="600" opacity="0.7">
+            Spread
+          </text>
+          <text x={PAD.left + 5} y={utilTop + 12} fill="#00C2FF" fontSize="10" fontWeight="600" opacity="0.7">
+            Utilization
+          </text>
+
+          {/* Hover overlay */}
+          <rect
+            x={PAD.left} y={PAD.top} width={chartW} height={H - PAD.top - PAD.bottom}
+            fill="transparent"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={() => setHoverIdx(null)}
+            style={{ cursor: 'crosshair' }}
+          />
+
+          {hover && hoverIdx !== null && (() => {
+            const x = toX(hover.timestamp_ms);
+            const flipLeft = x > PAD.left + chartW * 0.7;
+            const tooltipW = 150;
+            const tx = flipLeft ? x - tooltipW - 10 : x + 10;
+            const spread = spreads[hoverIdx];
+            return (
+              <g>
+                <line
+                  x1={x} y1={PAD.top} x2={x} y2={H - PAD.bottom}
+                  stroke="rgba(255,255,255,0.25)" strokeWidth="1" strokeDasharray="4 3"
+                />
+                <circle cx={x} cy={toRateY(spread)} r="4" fill="#00FFD1" stroke="#05080F" strokeWidth="2" />
+                <circle cx={x} cy={toRateY(hover.borrow_apy)} r="4" fill="#FF3366" stroke="#05080F" strokeWidth="2" />
+                <circle cx={x} cy={toUtilY(hover.utilization)} r="4" fill="#00C2FF" stroke="#05080F" strokeWidth="2" />
+                <rect x={tx} y={PAD.top} width={tooltipW} height={62} rx="4" fill="rgba(10,18,36,0.95)" stroke="#00FFD1" strokeWidth="1" />
+                <text x={tx + 8} y={PAD.top + 14} fill="#94a3b8" fontSize="9" fontFamily="monospace">
+                  {new Date(hover.timestamp_ms).toLocaleString('default', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                </text>
+                <text x={tx + 8} y={PAD.top + 28} fill={spread >= 0 ? '#00FFD1' : '#FF3366'} fontSize="10" fontWeight="bold" fontFamily="monospace">
+                  Spread: {spread >= 0 ? '+' : ''}{spread.toFixed(2)}%
+                </text>
+                <text x={tx + 8} y={PAD.top + 42} fill="#FF3366" fontSize="10" fontFamily="monospace">
+                  Borrow: {hover.borrow_apy.toFixed(3)}%
+                </text>
+                <text x={tx + 8} y={PAD.top + 56} fill="#00C2FF" fontSize="10" fontFamily="monospace">
+                  Utilization: {hover.utilization.toFixed(1)}%
+                </text>
+              </g>
+            );
+          })()}
+        </svg>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-4 mt-3">
+          {[
+            { label: 'Spread', color: '#00FFD1' },
+            { label: `${loanSymbol} borrow APY`, color: '#FF3366' },
+            { label: 'Utilization', color: '#00C2FF' },
+          ].map(item => (
+            <div key={item.label} className="flex items-center gap-1.5">
+              <div className="w-3 h-0.5 rounded" style={{ background: item.color }} />
+              <span className="text-[10px] font-mono" style={{ color: item.color }}>{item.label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
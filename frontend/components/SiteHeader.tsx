@@ -0,0 +1,47 @@
+import Link from 'next/link';
+import VoltIcon from '@/components/VoltIcon';
+
+const NAV_LINKS = [
+  { href: '/markets', label: 'All Markets' },
+  { href: '/backtest', label: 'Backtest' },
+  { href: '/', label: 'Trade' },
+];
+
+/** Sticky header shared by the explorer-style pages (markets, backtest) */
+export default function SiteHeader({ subtitle }: { subtitle: string }) {
+  return (
+    <>
+      <header
+        className="sticky top-0 z-50 border-b"
+        style={{
+          borderColor: 'var(--border)',
+          background: 'rgba(3, 7, 17, 0.8)',
+          backdropFilter: 'blur(24px) saturate(1.5)',
+        }}
+      >
+        <div className="max-w-[1400px] mx-auto px-6 py-3 flex items-center justify-between gap-4">
+          <Link href="/" className="flex items-center gap-3 shrink-0">
+            <div className="volt-logo">
+              <VoltIcon />
+            </div>
+            <div>
+              <h1 className="text-lg font-black gradient-text tracking-tight leading-none">VOLT</h1>
+              <p className="text-[9px] text-[var(--text-muted)] uppercase tracking-[0.25em] font-mono mt-0.5">
+                {subtitle}
+              </p>
+            </div>
+          </Link>
+          <nav className="flex items-center gap-1.5">
+            {NAV_LINKS.map(({ href, label }) => (
+              <Link key={href} href={href} className="stat-chip">
+                <span className="stat-label">{label}</span>
+              </Link>
+            ))}
+          </nav>
+        </div>
+      </header>
+
+      <div className="glow-line" />
+    </>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { formatUnits } from 'viem';
+import { SWAP_VENUE_LABELS, type RouteComparison } from '@/lib/swapRoutes';
+
+interface SwapRouteComparisonProps {
+  comparison: RouteComparison | null;
+  loading: boolean;
+  symbolOut: string;
+  decimalsOut: number;
+}
+
+/** Per-venue quotes for the swap leg, best net output (or gross, if gas is unpriced) first; the chosen route is marked */
+export default function SwapRouteComparison({ comparison, loading, symbolOut, decimalsOut }: SwapRouteComparisonProps) {
+  const fmt = (v: bigint) => Number(formatUnits(v, decimalsOut)).toFixed(4);
+
+  if (!comparison) {
+    return (
+      <p className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>
+        {loading ? 'Comparing swap routes...' : 'No route quotes — the built-in Uniswap V3 swap will be used'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-[9px] uppercase tracking-widest font-mono" style={{ color: 'var(--text-muted)' }}>
+        <span>Venue</span>
+        <span className="text-right">Output</span>
+        <span className="text-right">{comparison.gasPriced ? 'Net of gas' : 'Gross'}</span>
+      </div>
+      {comparison.quotes.map(q => {
+        const chosen = comparison.best === q;
+        return (
+          <div
+            key={q.venue}
+            className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-[10px] font-mono"
+            style={{ color: chosen ? 'var(--accent-primary)' : q.allowed ? 'var(--text-secondary)' : 'var(--text-muted)' }}
+          >
+            <span className="truncate">
+              {chosen ? '● ' : ''}{SWAP_VENUE_LABELS[q.venue]}
+              <span style={{ color: 'var(--text-muted)' }}> · {q.allowed ? q.detail : 'router not enabled'}</span>
+            </span>
+            <span className="text-right">{fmt(q.amountOut)}</span>
+            <span className="text-right font-bold">{fmt(q.netAmountOut)} {symbolOut}</span>
+          </div>
+        );
+      })}
+      {comparison.failures.map(f => (
+        <div key={f.venue} className="text-[10px] font-mono truncate" style={{ color: 'var(--text-muted)' }} title={f.error}>
+          {SWAP_VENUE_LABELS[f.venue]} · unavailable
+        </div>
+      ))}
+      {!comparison.gasPriced && (
+        <p className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>
+          Gas could not be priced in {symbolOut} — routes are ranked by gross output
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Address } from 'viem';
+import { useTxStore } from '@/store/useTxStore';
+import { explorerTxUrl, type TxFlow, type TxStepStatus } from '@/lib/txFlow';
+
+/** Flows shown at once; older ones stay in the store until trimmed */
+const VISIBLE_FLOWS = 3;
+
+const STEP_STATUS: Record<TxStepStatus, { label: string; color: string }> = {
+  queued: { label: 'Queued', color: 'var(--text-muted)' },
+  skipped: { label: 'Not needed', color: 'var(--text-muted)' },
+  signing: { label: 'Confirm in wallet', color: 'var(--accent-warning)' },
+  pending: { label: 'Pending', color: 'var(--accent-info)' },
+  confirmed: { label: 'Confirmed', color: 'var(--accent-primary)' },
+  reverted: { label: 'Reverted', color: 'var(--accent-secondary)' },
+  replaced: { label: 'Replaced', color: 'var(--accent-secondary)' },
+  dropped: { label: 'Dropped', color: 'var(--accent-secondary)' },
+  failed: { label: 'Failed', color: 'var(--accent-secondary)' },
+};
+
+const FLOW_COLOR: Record<TxFlow['status'], string> = {
+  running: 'var(--accent-info)',
+  success: 'var(--accent-primary)',
+  failed: 'var(--accent-secondary)',
+};
+
+function TxLink({ chainId, hash }: { chainId: number; hash: `0x${string}` }) {
+  const short = `${hash.slice(0, 6)}…${hash.slice(-4)}`;
+  const url = explorerTxUrl(chainId, hash);
+  if (!url) return <span className="font-mono" style={{ color: 'var(--text-muted)' }}>{short}</span>;
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="font-mono hover:underline" style={{ color: 'var(--accent-info)' }}>
+      {short} ↗
+    </a>
+  );
+}
+
+/**
+ * Recent multi-step transactions for the connected wallet, read from the
+ * persisted tx store — pending hashes stay visible across reloads.
+ */
+export default function TxTracker({ account }: { account?: Address }) {
+  const flows = useTxStore((s) => s.flows);
+  const dismissFlow = useTxStore((s) => s.dismissFlow);
+
+  const visible = account
+    ? flows.filter((f) => f.account.toLowerCase() === account.toLowerCase()).slice(0, VISIBLE_FLOWS)
+    : [];
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="card-glow p-5">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="section-label flex-1">
+          <span>Transactions</span>
+        </div>
+      </div>
+      <div className="space-y-3">
+        <AnimatePresence initial={false}>
+          {visible.map((flow) => (
+            <motion.div
+              key={flow.id}
+              initial={{ opacity: 0, y: 6 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, height: 0 }}
+              className="glass-inner p-3 overflow-hidden"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-bold font-mono" style={{ color: 'var(--text-primary)' }}>{flow.label}</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-[9px] uppercase tracking-[0.15em] font-mono font-bold" style={{ color: FLOW_COLOR[flow.status] }}>
+                    {flow.status}
+                  </span>
+                  {flow.status !== 'running' && (
+                    <button
+                      onClick={() => dismissFlow(flow.id)}
+                      className="text-[10px] font-mono transition-colors hover:opacity-80"
+                      style={{ color: 'var(--text-muted)' }}
+                      aria-label="Dismiss"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              </div>
+              <ul className="space-y-1.5">
+                {flow.steps.map((step) => {
+                  const meta = STEP_STATUS[step.status];
+                  const live = step.status === 'signing' || step.status === 'pending';
+                  return (
+                    <li key={step.kind} className="flex items-center justify-between gap-2 text-[10px] font-mono">
+                      <span className="flex items-center gap-2" style={{ color: 'var(--text-secondary)' }}>
+                        <span
+                          className={`w-1.5 h-1.5 rounded-full ${live ? 'pulse-safe' : ''}`}
+                          style={{ background: meta.color }}
+                        />
+                        {step.label}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        {step.replacedBy
+                          ? <TxLink chainId={flow.chainId} hash={step.replacedBy} />
+                          : step.hash && <TxLink chainId={flow.chainId} hash={step.hash} />}
+                        <span style={{ color: meta.color }}>{meta.label}</span>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+              {flow.status === 'failed' && flow.error && (
+                <p className="text-[10px] font-mono mt-2 truncate" style={{ color: 'var(--accent-secondary)' }} title={flow.error}>
+                  {flow.error}
+                </p>
+              )}
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,35 @@
 'use client';
 
 import { motion, AnimatePresence } from 'framer-motion';
-import { formatEther } from 'viem';
+import { formatUnits } from 'viem';
+import type { TradeMarket, PartialDeleveragePreview } from '@/lib/leverageContract';
+import type { RouteComparison } from '@/lib/swapRoutes';
+import SwapRouteComparison from '@/components/SwapRouteComparison';
 
 interface UnwindConfirmModalProps {
+  market: TradeMarket;
   open: boolean;
   onClose: () => void;
   onConfirm: () => void;
   collateralBalance: bigint;
   debtBalance: bigint;
-  equity: bigint;
-  currentLeverage: number;
+  /** Estimates from the oracle price; null when it's unavailable */
+  equity: bigint | null;
+  currentLeverage: number | null;
+  /** Partial deleverage to confirm; null for a full close */
+  reduce?: PartialDeleveragePreview | null;
+  /** Venue quotes for a full close's collateral sale; partial deleverage always swaps on Uniswap V3 */
+  routes?: RouteComparison | null;
+  routesLoading?: boolean;
 }
 
 export default function UnwindConfirmModal({
-  open, onClose, onConfirm, collateralBalance, debtBalance, equity, currentLeverage,
+  market, open, onClose, onConfirm, collateralBalance, debtBalance, equity, currentLeverage, reduce,
+  routes = null, routesLoading = false,
 }: UnwindConfirmModalProps) {
+  const { collateralSymbol, loanSymbol, collateralDecimals, loanDecimals } = market;
+  const levLabel = currentLeverage !== null ? `${currentLeverage.toFixed(1)}x` : 'current';
+  const received = reduce ? reduce.collateralReturned : equity;
   return (
     <AnimatePresence>
       {open && (
@@ -56,10 +70,12 @@ export default function UnwindConfirmModal({
 
             <div className="text-center">
               <h3 className="text-lg font-black font-mono" style={{ color: 'var(--text-primary)' }}>
-                Close Position?
+                {reduce ? 'Reduce Position?' : 'Close Position?'}
               </h3>
               <p className="text-xs font-mono mt-2" style={{ color: 'var(--text-secondary)' }}>
-                This will close your entire {currentLeverage.toFixed(1)}x leveraged position.
+                {reduce
+                  ? `This will deleverage your ${levLabel} position and keep it open at HF ${reduce.healthFactor.toFixed(2)}.`
+                  : `This will close your entire ${levLabel} leveraged position.`}
               </p>
             </div>
 
@@ -69,20 +85,48 @@ export default function UnwindConfirmModal({
               style={{ background: 'rgba(255,255,255,0.03)', border: '1px solid var(--border)' }}
             >
               <div className="flex justify-between text-[10px] font-mono">
-                <span style={{ color: 'var(--text-muted)' }}>Collateral returned</span>
-                <span style={{ color: 'var(--accent-primary)' }}>{Number(formatEther(collateralBalance)).toFixed(4)} wstETH</span>
+                <span style={{ color: 'var(--text-muted)' }}>Collateral withdrawn</span>
+                <span style={{ color: 'var(--accent-primary)' }}>{Number(formatUnits(reduce ? reduce.collateralToWithdraw : collateralBalance, collateralDecimals)).toFixed(4)} {collateralSymbol}</span>
               </div>
               <div className="flex justify-between text-[10px] font-mono">
                 <span style={{ color: 'var(--text-muted)' }}>Debt repaid</span>
-                <span style={{ color: 'var(--accent-secondary)' }}>{Number(formatEther(debtBalance)).toFixed(4)} WETH</span>
+                <span style={{ color: 'var(--accent-secondary)' }}>{Number(formatUnits(reduce ? reduce.repayAssets : debtBalance, loanDecimals)).toFixed(4)} {loanSymbol}</span>
               </div>
+              {reduce && (
+                <div className="flex justify-between text-[10px] font-mono">
+                  <span style={{ color: 'var(--text-muted)' }}>Remaining position</span>
+                  <span style={{ color: 'var(--text-secondary)' }}>
+                    {Number(formatUnits(reduce.remainingCollateral, collateralDecimals)).toFixed(4)} / {Number(formatUnits(reduce.remainingDebt, loanDecimals)).toFixed(4)}
+                  </span>
+                </div>
+              )}
               <div className="divider" />
               <div className="flex justify-between text-xs font-mono font-bold">
                 <span style={{ color: 'var(--text-secondary)' }}>You receive</span>
-                <span style={{ color: 'var(--text-primary)' }}>~{Number(formatEther(equity)).toFixed(4)} wstETH</span>
+                <span style={{ color: 'var(--text-primary)' }}>
+                  {received !== null ? `~${Number(formatUnits(received, collateralDecimals)).toFixed(4)} ${collateralSymbol}` : 'Price unavailable'}
+                </span>
               </div>
             </div>
 
+            {/* Swap venues for the collateral sale */}
+            {!reduce && (
+              <div
+                className="rounded-xl p-3 space-y-2"
+                style={{ background: 'rgba(255,255,255,0.03)', border: '1px solid var(--border)' }}
+              >
+                <p className="text-[9px] uppercase tracking-[0.2em] font-mono font-bold" style={{ color: 'var(--text-muted)' }}>
+                  Swap Route
+                </p>
+                <SwapRouteComparison
+                  comparison={routes}
+                  loading={routesLoading}
+                  symbolOut={loanSymbol}
+                  decimalsOut={loanDecimals}
+                />
+              </div>
+            )}
+
             {/* Buttons */}
             <div className="flex gap-3">
               <button
@@ -101,7 +145,7 @@ export default function UnwindConfirmModal({
                   boxShadow: '0 4px 20px rgba(255,51,102,0.3)',
                 }}
               >
-                Confirm Close
+                {reduce ? 'Confirm Reduce' : 'Confirm Close'}
               </button>
             </div>
           </motion.div>
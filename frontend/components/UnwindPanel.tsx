@@ -1,28 +1,100 @@
 'use client';
 
+import { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { formatEther } from 'viem';
+import { formatUnits } from 'viem';
+import { debtInCollateral } from '@/lib/leverageContract';
+import type { TradeMarket, PartialDeleveragePreview } from '@/lib/leverageContract';
+import type { DeleverageTarget } from '@/lib/positionMath';
+import Tooltip from '@/components/Tooltip';
+
+type UnwindMode = 'close' | DeleverageTarget['kind'];
+
+const MODES: { key: UnwindMode; label: string }[] = [
+  { key: 'close', label: 'Close' },
+  { key: 'leverage', label: 'Target Lev.' },
+  { key: 'healthFactor', label: 'Target HF' },
+  { key: 'withdrawPct', label: 'Withdraw %' },
+];
+
+function buildTarget(mode: UnwindMode, leverage: number, healthFactor: number, pct: number): DeleverageTarget | null {
+  switch (mode) {
+    case 'leverage': return { kind: 'leverage', leverage };
+    case 'healthFactor': return { kind: 'healthFactor', healthFactor };
+    case 'withdrawPct': return { kind: 'withdrawPct', pct };
+    default: return null;
+  }
+}
 
 interface UnwindPanelProps {
+  market: TradeMarket;
+  canTrade: boolean;
   debtBalance: bigint;
   collateralBalance: bigint;
   healthFactor: number;
-  exchangeRate: number;
+  /** null when the oracle price is unavailable; closing is disabled until it loads */
+  exchangeRate: number | null;
   isConnected: boolean;
   executing: boolean;
   txStatus: string;
   isError: boolean;
   onRequestClose: () => void;
+  onPreviewReduce: (target: DeleverageTarget) => Promise<PartialDeleveragePreview | null>;
+  onRequestReduce: (preview: PartialDeleveragePreview, target: DeleverageTarget) => void;
 }
 
 export default function UnwindPanel({
-  debtBalance, collateralBalance, healthFactor, exchangeRate,
-  isConnected, executing, txStatus, isError, onRequestClose,
+  market, canTrade, debtBalance, collateralBalance, healthFactor, exchangeRate,
+  isConnected, executing, txStatus, isError, onRequestClose, onPreviewReduce, onRequestReduce,
 }: UnwindPanelProps) {
+  const [mode, setMode] = useState<UnwindMode>('close');
+  const [targetLeverage, setTargetLeverage] = useState(2);
+  const [targetHF, setTargetHF] = useState(1.5);
+  const [withdrawPct, setWithdrawPct] = useState(25);
+  const [preview, setPreview] = useState<PartialDeleveragePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
   const hfColor = healthFactor > 1.5 ? 'var(--accent-primary)' : healthFactor > 1.1 ? 'var(--accent-warning)' : 'var(--accent-secondary)';
 
-  const debtInWsteth = exchangeRate > 0 ? BigInt(Math.floor(Number(debtBalance) / exchangeRate)) : 0n;
-  const equity = collateralBalance > debtInWsteth ? collateralBalance - debtInWsteth : 0n;
+  const { collateralSymbol, loanSymbol, collateralDecimals, loanDecimals } = market;
+  // Equity and current leverage need the oracle price; both stay null without it
+  const priceUnavailable = exchangeRate === null;
+  const debtInColl = exchangeRate !== null
+    ? debtInCollateral(debtBalance, exchangeRate, collateralDecimals, loanDecimals)
+    : null;
+  const equity = debtInColl === null ? null : collateralBalance > debtInColl ? collateralBalance - debtInColl : 0n;
+
+  const collateralValue = exchangeRate !== null ? Number(formatUnits(collateralBalance, collateralDecimals)) * exchangeRate : null;
+  const debt = Number(formatUnits(debtBalance, loanDecimals));
+  const currentLeverage = collateralValue === null ? null
+    : collateralValue > debt ? collateralValue / (collateralValue - debt) : 1;
+  const maxTargetLeverage = Math.max(1.1, Math.floor(((currentLeverage ?? 1) - 0.05) * 10) / 10);
+  const minTargetHF = Math.max(1.05, Math.ceil((healthFactor + 0.01) * 100) / 100);
+
+  // Slider values clamped to what's reachable from the current position
+  const leverageValue = Math.min(targetLeverage, maxTargetLeverage);
+  const hfValue = Math.max(targetHF, minTargetHF);
+  const target = buildTarget(mode, leverageValue, hfValue, withdrawPct);
+
+  const runPreview = useCallback(async () => {
+    const t = buildTarget(mode, leverageValue, hfValue, withdrawPct);
+    if (!t || !isConnected || !canTrade || debtBalance === 0n) {
+      setPreview(null);
+      return;
+    }
+    setPreviewLoading(true);
+    try {
+      setPreview(await onPreviewReduce(t));
+    } catch {
+      setPreview(null);
+    }
+    setPreviewLoading(false);
+  }, [mode, leverageValue, hfValue, withdrawPct, isConnected, canTrade, debtBalance, onPreviewReduce]);
+
+  useEffect(() => {
+    const timer = setTimeout(runPreview, 300);
+    return () => clearTimeout(timer);
+  }, [runPreview]);
 
   if (debtBalance === 0n) {
     return (
@@ -45,6 +117,10 @@ export default function UnwindPanel({
     );
   }
 
+  const previewHfColor = preview
+    ? preview.healthFactor > 1.5 ? 'var(--accent-primary)' : preview.healthFactor > 1.1 ? 'var(--accent-warning)' : 'var(--accent-secondary)'
+    : 'var(--text-muted)';
+
   return (
     <div className="card-glow p-6">
       <div className="flex items-center justify-between mb-5">
@@ -63,52 +139,142 @@ export default function UnwindPanel({
         )}
       </div>
 
-      {/* Summary card */}
-      <div className="glass-inner p-4 mb-5 space-y-3">
-        <div className="flex justify-between items-center">
-          <span className="text-xs text-(--text-secondary) font-mono">Collateral</span>
-          <span className="text-sm font-bold font-mono" style={{ color: 'var(--accent-primary)' }}>
-            {Number(formatEther(collateralBalance)).toFixed(4)} wstETH
-          </span>
-        </div>
-        <div className="flex justify-between items-center">
-          <span className="text-xs text-(--text-secondary) font-mono">Debt to Repay</span>
-          <span className="text-sm font-bold font-mono" style={{ color: 'var(--accent-secondary)' }}>
-            {Number(formatEther(debtBalance)).toFixed(4)} WETH
-          </span>
-        </div>
-
-        <div className="divider" />
-
-        <div className="flex justify-between items-center">
-          <span className="text-xs font-bold text-(--text-secondary) font-mono">You Receive (est.)</span>
-          <span className="text-base font-black font-mono" style={{ color: 'var(--text-primary)' }}>
-            ~{Number(formatEther(equity)).toFixed(4)} wstETH
-          </span>
-        </div>
-        <div className="flex justify-between items-center">
-          <span className="text-xs text-(--text-muted) font-mono">Flash Loan Fee</span>
-          <span
-            className="text-xs font-bold font-mono px-2 py-0.5 rounded-full"
+      {/* Mode selector */}
+      <div className="grid grid-cols-4 gap-1.5 mb-4">
+        {MODES.map((m) => (
+          <button
+            key={m.key}
+            onClick={() => setMode(m.key)}
+            className="px-2 py-1.5 rounded-lg text-[10px] font-mono font-bold transition-all"
             style={{
-              background: 'rgba(0,255,209,0.1)',
-              color: 'var(--accent-primary)',
-              border: '1px solid rgba(0,255,209,0.2)',
+              background: mode === m.key ? 'rgba(0,255,209,0.15)' : 'rgba(255,255,255,0.03)',
+              border: `1px solid ${mode === m.key ? 'rgba(0,255,209,0.3)' : 'var(--border)'}`,
+              color: mode === m.key ? 'var(--accent-primary)' : 'var(--text-muted)',
             }}
           >
-            FREE (0%)
-          </span>
-        </div>
+            {m.label}
+          </button>
+        ))}
       </div>
 
-      {/* Unwind button */}
-      <button
-        className="btn-danger"
-        disabled={!isConnected || executing}
-        onClick={onRequestClose}
-      >
-        {executing ? txStatus : 'Close Entire Position'}
-      </button>
+      {mode === 'close' ? (
+        <>
+          {/* Summary card */}
+          <div className="glass-inner p-4 mb-5 space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-(--text-secondary) font-mono">Collateral</span>
+              <span className="text-sm font-bold font-mono" style={{ color: 'var(--accent-primary)' }}>
+                {Number(formatUnits(collateralBalance, collateralDecimals)).toFixed(4)} {collateralSymbol}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-(--text-secondary) font-mono">Debt to Repay</span>
+              <span className="text-sm font-bold font-mono" style={{ color: 'var(--accent-secondary)' }}>
+                {Number(formatUnits(debtBalance, loanDecimals)).toFixed(4)} {loanSymbol}
+              </span>
+            </div>
+
+            <div className="divider" />
+
+            <div className="flex justify-between items-center">
+              <span className="text-xs font-bold text-(--text-secondary) font-mono">You Receive (est.)</span>
+              <span className="text-base font-black font-mono" style={{ color: 'var(--text-primary)' }}>
+                {equity !== null ? `~${Number(formatUnits(equity, collateralDecimals)).toFixed(4)} ${collateralSymbol}` : 'Price unavailable'}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-(--text-muted) font-mono">Flash Loan Fee</span>
+              <span
+                className="text-xs font-bold font-mono px-2 py-0.5 rounded-full"
+                style={{
+                  background: 'rgba(0,255,209,0.1)',
+                  color: 'var(--accent-primary)',
+                  border: '1px solid rgba(0,255,209,0.2)',
+                }}
+              >
+                FREE (0%)
+              </span>
+            </div>
+          </div>
+
+          {/* Unwind button */}
+          <button
+            className="btn-danger"
+            disabled={!isConnected || !canTrade || executing || priceUnavailable}
+            onClick={onRequestClose}
+          >
+            {executing ? txStatus : !canTrade ? 'Read-only Market' : priceUnavailable ? 'Price Unavailable' : 'Close Entire Position'}
+          </button>
+        </>
+      ) : (
+        <>
+          {/* Target input */}
+          <div className="mb-4">
+            {mode === 'leverage' && (
+              <TargetSlider
+                label="Target Leverage"
+                tip={`Sells ${collateralSymbol} to repay debt until leverage reaches the target. Equity stays in the position.`}
+                display={`${leverageValue.toFixed(1)}×`}
+                min={1.1} max={maxTargetLeverage} step={0.1}
+                value={leverageValue}
+                onChange={setTargetLeverage}
+                minLabel="1.1×" maxLabel={currentLeverage !== null ? `${currentLeverage.toFixed(2)}× now` : '— now'}
+              />
+            )}
+            {mode === 'healthFactor' && (
+              <TargetSlider
+                label="Target Health Factor"
+                tip={`Sells ${collateralSymbol} to repay debt until the health factor reaches the target.`}
+                display={hfValue.toFixed(2)}
+                min={minTargetHF} max={Math.max(minTargetHF + 0.01, 5)} step={0.01}
+                value={hfValue}
+                onChange={setTargetHF}
+                minLabel={`${healthFactor.toFixed(2)} now`} maxLabel="5.00"
+              />
+            )}
+            {mode === 'withdrawPct' && (
+              <TargetSlider
+                label="Withdraw Collateral"
+                tip="Repays the same share of debt and returns the freed equity. Leverage and HF stay about the same."
+                display={`${withdrawPct}%`}
+                min={5} max={95} step={5}
+                value={withdrawPct}
+                onChange={setWithdrawPct}
+                minLabel="5%" maxLabel="95%"
+              />
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="glass-inner p-4 mb-5 space-y-2.5">
+            {previewLoading && !preview ? (
+              <p className="text-[10px] font-mono text-center" style={{ color: 'var(--text-muted)' }}>Simulating…</p>
+            ) : !preview ? (
+              <p className="text-[10px] font-mono text-center" style={{ color: 'var(--text-muted)' }}>
+                {!isConnected || !canTrade ? 'Connect to a tradeable market to preview' : 'Target not reachable with a partial unwind — use Close'}
+              </p>
+            ) : (
+              <>
+                <PreviewRow label="Flash Loan" value={`${Number(formatUnits(preview.repayAssets, loanDecimals)).toFixed(4)} ${loanSymbol}`} color="var(--accent-info)" />
+                <PreviewRow label="Swap" value={`${Number(formatUnits(preview.swapAmount, collateralDecimals)).toFixed(4)} ${collateralSymbol}`} />
+                <PreviewRow label="Remaining Collateral" value={`${Number(formatUnits(preview.remainingCollateral, collateralDecimals)).toFixed(4)} ${collateralSymbol}`} color="var(--accent-primary)" />
+                <PreviewRow label="Remaining Debt" value={`${Number(formatUnits(preview.remainingDebt, loanDecimals)).toFixed(4)} ${loanSymbol}`} color="var(--accent-secondary)" />
+                <div className="divider" />
+                <PreviewRow label="Health Factor" value={`${healthFactor.toFixed(2)} → ${preview.healthFactor.toFixed(2)}`} color={previewHfColor} bold />
+                <PreviewRow label="You Receive (est.)" value={`~${Number(formatUnits(preview.collateralReturned, collateralDecimals)).toFixed(4)} ${collateralSymbol}`} bold />
+              </>
+            )}
+          </div>
+
+          <button
+            className="btn-danger"
+            disabled={!isConnected || !canTrade || executing || !preview || previewLoading}
+            onClick={() => preview && target && onRequestReduce(preview, target)}
+          >
+            {executing ? txStatus : !canTrade ? 'Read-only Market' : 'Reduce Position'}
+          </button>
+        </>
+      )}
 
       {/* Status message */}
       <AnimatePresence>
@@ -135,3 +301,49 @@ export default function UnwindPanel({
     </div>
   );
 }
+
+function TargetSlider({ label, tip, display, min, max, step, value, onChange, minLabel, maxLabel }: {
+  label: string; tip: string; display: string;
+  min: number; max: number; step: number; value: number;
+  onChange: (v: number) => void;
+  minLabel: string; maxLabel: string;
+}) {
+  const pct = max > min ? ((value - min) / (max - min)) * 100 : 0;
+  return (
+    <>
+      <div className="flex justify-between items-center mb-3">
+        <Tooltip
+          label={label}
+          tip={tip}
+          className="text-[10px] text-(--text-muted) uppercase tracking-[0.15em] font-mono font-bold"
+        />
+        <span className="text-2xl font-black font-mono" style={{ color: 'var(--text-primary)' }}>{display}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="slider-fill"
+        style={{ '--slider-pct': `${pct}%` } as React.CSSProperties}
+      />
+      <div className="flex justify-between text-[10px] font-mono mt-1.5">
+        <span style={{ color: 'var(--text-muted)' }}>{minLabel}</span>
+        <span style={{ color: 'var(--text-muted)' }}>{maxLabel}</span>
+      </div>
+    </>
+  );
+}
+
+function PreviewRow({ label, value, color, bold }: { label: string; value: string; color?: string; bold?: boolean }) {
+  return (
+    <div className="flex justify-between items-center">
+      <span className={`text-xs font-mono ${bold ? 'font-bold text-(--text-secondary)' : 'text-(--text-muted)'}`}>{label}</span>
+      <span className={`font-mono ${bold ? 'text-sm font-black' : 'text-xs font-bold'}`} style={{ color: color || 'var(--text-primary)' }}>
+        {value}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatUnits, getAddress, isAddress, type Address } from 'viem';
+import type { TradeMarket } from '@/lib/leverageContract';
+import type { MorphoPosition } from '@/lib/morphoPosition';
+import { CHAIN_CONFIG } from '@/lib/chains';
+import { useWatchListStore } from '@/store/useWatchListStore';
+import Tooltip from '@/components/Tooltip';
+
+interface WatchListProps {
+  market: TradeMarket;
+  getPositions: (accounts: Address[]) => Promise<MorphoPosition[]>;
+}
+
+const REFRESH_MS = 30_000;
+
+function hfColor(hf: number): string {
+  return hf > 1.5 ? 'var(--accent-primary)' : hf > 1.1 ? 'var(--accent-warning)' : 'var(--accent-secondary)';
+}
+
+/** Positions of saved addresses on the selected market, read without a wallet */
+export default function WatchList({ market, getPositions }: WatchListProps) {
+  const entries = useWatchListStore((s) => s.entries);
+  const addEntry = useWatchListStore((s) => s.addEntry);
+  const removeEntry = useWatchListStore((s) => s.removeEntry);
+
+  const [addressInput, setAddressInput] = useState('');
+  const [labelInput, setLabelInput] = useState('');
+  const [result, setResult] = useState<{ key: string; positions: MorphoPosition[] | null; error: string | null } | null>(null);
+
+  useEffect(() => { useWatchListStore.persist.rehydrate(); }, []);
+
+  // Re-read whenever the market or the list changes; a stale result is ignored by key
+  const key = `${market.marketId}:${entries.map((e) => e.address).join(',')}`;
+  useEffect(() => {
+    if (entries.length === 0) return;
+    let cancelled = false;
+    const load = () => getPositions(entries.map((e) => e.address))
+      .then((positions) => { if (!cancelled) setResult({ key, positions, error: null }); })
+      .catch((err: unknown) => {
+        if (!cancelled) setResult({ key, positions: null, error: err instanceof Error ? err.message : 'Unknown error' });
+      });
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+    return () => { cancelled = true; clearInterval(interval); };
+  }, [key, entries, getPositions]);
+  const current = result?.key === key ? result : null;
+
+  const valid = isAddress(addressInput.trim());
+  const handleAdd = () => {
+    if (!valid) return;
+    addEntry(getAddress(addressInput.trim()), labelInput.trim());
+    setAddressInput('');
+    setLabelInput('');
+  };
+
+  const fmtCollateral = (v: bigint) => Number(formatUnits(v, market.collateralDecimals)).toFixed(4);
+  const fmtLoan = (v: bigint) => Number(formatUnits(v, market.loanDecimals)).toFixed(4);
+  const explorer = CHAIN_CONFIG[market.chainSlug].blockExplorer;
+
+  return (
+    <div className="card-glow p-6">
+      <div className="flex items-start justify-between mb-4 gap-3">
+        <div>
+          <h2 className="text-base font-black gradient-text tracking-tight">Watch List</h2>
+          <p className="text-[10px] text-(--text-muted) font-mono mt-0.5">
+            Morpho positions on {market.pair}, read directly — no wallet needed.
+          </p>
+        </div>
+        {current?.error && (
+          <span className="text-[10px] font-mono truncate max-w-[40%]" style={{ color: 'var(--accent-secondary)' }} title={current.error}>
+            Read failed
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 mb-4">
+        <input
+          value={addressInput}
+          onChange={(e) => setAddressInput(e.target.value)}
+          placeholder="0x… address"
+          className="glass-inner flex-1 px-3 py-2 text-xs font-mono bg-transparent outline-none"
+          style={{ color: 'var(--text-primary)' }}
+        />
+        <input
+          value={labelInput}
+          onChange={(e) => setLabelInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="Label (optional)"
+          className="glass-inner sm:w-40 px-3 py-2 text-xs font-mono bg-transparent outline-none"
+          style={{ color: 'var(--text-primary)' }}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!valid}
+          className="stat-chip justify-center disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          <span className="stat-label">Watch</span>
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-[10px] font-mono" style={{ color: 'var(--text-muted)' }}>
+          Add a treasury or user address to monitor its health factor.
+        </p>
+      ) : (
+        <div className="glass-inner p-4 space-y-2">
+          <div className="grid grid-cols-[1.5fr_1fr_1fr_auto_auto_auto] gap-x-3 text-[9px] uppercase tracking-[0.2em] font-mono" style={{ color: 'var(--text-muted)' }}>
+            <span>Address</span>
+            <span className="text-right">Collateral</span>
+            <span className="text-right">Debt</span>
+            <span className="text-right">HF</span>
+            <Tooltip label="To Liq." tip="Oracle price drop that would make the position liquidatable" className="text-right" />
+            <span />
+          </div>
+          {entries.map((entry) => {
+            const position = current?.positions?.find((p) => p.address.toLowerCase() === entry.address.toLowerCase());
+            const hasDebt = position !== undefined && position.debt > 0n;
+            return (
+              <div key={entry.address} className="grid grid-cols-[1.5fr_1fr_1fr_auto_auto_auto] gap-x-3 items-center text-[10px] font-mono">
+                <a
+                  href={`${explorer}/address/${entry.address}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="truncate hover:opacity-80"
+                  style={{ color: 'var(--text-secondary)' }}
+                  title={entry.address}
+                >
+                  {entry.label || `${entry.address.slice(0, 6)}…${entry.address.slice(-4)}`}
+                </a>
+                {position ? (
+                  <>
+                    <span className="text-right" style={{ color: 'var(--text-secondary)' }}>
+                      {fmtCollateral(position.collateral)} {market.collateralSymbol}
+                    </span>
+                    <span className="text-right" style={{ color: 'var(--text-secondary)' }}>
+                      {fmtLoan(position.debt)} {market.loanSymbol}
+                    </span>
+                    <span className="text-right font-bold" style={{ color: hasDebt ? hfColor(position.risk.healthFactor) : 'var(--text-muted)' }}>
+                      {hasDebt ? position.risk.healthFactor.toFixed(3) : '∞'}
+                    </span>
+                    <span className="text-right" style={{ color: 'var(--text-secondary)' }}>
+                      {position.risk.dropToLiquidationPct !== null ? `${position.risk.dropToLiquidationPct.toFixed(2)}%` : '—'}
+                    </span>
+                  </>
+                ) : (
+                  <span className="col-span-4 text-right" style={{ color: 'var(--text-muted)' }}>
+                    {current?.error ? '—' : 'Loading...'}
+                  </span>
+                )}
+                <button
+                  onClick={() => removeEntry(entry.address)}
+                  className="hover:opacity-80"
+                  style={{ color: 'var(--text-muted)' }}
+                  aria-label={`Stop watching ${entry.label || entry.address}`}
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
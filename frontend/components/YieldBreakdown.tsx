@@ -2,11 +2,15 @@
 
 import { motion } from 'framer-motion';
 import type { ReserveInfo } from '@/lib/types';
+import type { RateAverage } from '@/lib/rateHistory';
 
 interface YieldBreakdownProps {
   reserveInfo: ReserveInfo | null;
   leverage: number;
-  exchangeRate: number;
+  /** null when the oracle price is unavailable */
+  exchangeRate: number | null;
+  /** 7d/30d/90d averages from market_rate_history; the spot row is always shown */
+  rateAverages?: RateAverage[];
   isLoading?: boolean;
 }
 
@@ -43,7 +47,7 @@ function YieldBar({
   );
 }
 
-export default function YieldBreakdown({ reserveInfo, leverage, exchangeRate, isLoading }: YieldBreakdownProps) {
+export default function YieldBreakdown({ reserveInfo, leverage, exchangeRate, rateAverages = [], isLoading }: YieldBreakdownProps) {
   if (isLoading) {
     return (
       <div className="card-glow p-6">
@@ -78,6 +82,18 @@ export default function YieldBreakdown({ reserveInfo, leverage, exchangeRate, is
   const unleveragedAPY = stakingYield + supplyAPY;
   const boost = leverage > 1 ? netAPY / unleveragedAPY : 1;
 
+  const netAt = (supply: number, borrow: number) => (stakingYield + supply) * leverage - borrow * (leverage - 1);
+  const rateRows = [
+    { label: 'Spot', borrow: borrowAPY, net: netAPY, partial: null as number | null },
+    ...rateAverages.map(a => ({
+      label: `${a.days}d avg`,
+      borrow: a.borrowApy,
+      net: netAt(a.supplyApy, a.borrowApy),
+      // History shorter than the window: flag how much of it is covered
+      partial: a.coveredDays < a.days - 1 ? a.coveredDays : null,
+    })),
+  ];
+
   // For bar widths — normalise against the biggest value
   const maxVal = Math.max(effectiveStaking, effectiveSupply, effectiveBorrowCost, 0.01);
 
@@ -168,6 +184,33 @@ export default function YieldBreakdown({ reserveInfo, leverage, exchangeRate, is
         </span>
       </div>
 
+      {/* Spot vs averaged rates */}
+      {rateAverages.length > 0 && (
+        <div className="glass-inner mt-4 p-3.5" style={{ background: 'rgba(255,255,255,0.02)' }}>
+          <div className="grid grid-cols-3 gap-y-1.5 text-[10px] font-mono">
+            <span className="text-(--text-muted) uppercase tracking-wider">Rate</span>
+            <span className="text-(--text-muted) uppercase tracking-wider text-right">Borrow</span>
+            <span className="text-(--text-muted) uppercase tracking-wider text-right">Net APY</span>
+            {rateRows.map(row => (
+              <div key={row.label} className="contents">
+                <span className="text-(--text-secondary)" title={row.partial !== null ? `Only ${row.partial.toFixed(1)} days of history` : undefined}>
+                  {row.label}{row.partial !== null && '*'}
+                </span>
+                <span className="text-right font-bold" style={{ color: 'var(--accent-secondary)' }}>
+                  {row.borrow.toFixed(3)}%
+                </span>
+                <span className="text-right font-bold" style={{ color: row.net >= 0 ? 'var(--accent-primary)' : 'var(--accent-secondary)' }}>
+                  {row.net >= 0 ? '+' : ''}{row.net.toFixed(2)}%
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-(--text-muted) mt-2 leading-relaxed">
+            Borrow rates move with utilization — averages show what the loop has actually cost, at the current staking yield.
+          </p>
+        </div>
+      )}
+
       {/* wstETH rate */}
       <div
         className="glass-inner mt-4 p-3.5"
@@ -176,7 +219,7 @@ export default function YieldBreakdown({ reserveInfo, leverage, exchangeRate, is
         <div className="flex justify-between items-center">
           <span className="text-[10px] text-(--text-muted) font-mono">wstETH Exchange Rate</span>
           <span className="text-xs font-bold font-mono text-(--text-primary)">
-            1 wstETH = {exchangeRate.toFixed(4)} stETH
+            {exchangeRate !== null ? `1 wstETH = ${exchangeRate.toFixed(4)} stETH` : 'Price unavailable'}
           </span>
         </div>
         <p className="text-[10px] text-(--text-muted) mt-1.5 leading-relaxed">
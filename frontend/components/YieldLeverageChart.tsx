@@ -3,21 +3,27 @@
 import { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
 import type { ReserveInfo } from '@/lib/types';
+import type { RateAverage, RateWindow } from '@/lib/rateHistory';
 
 interface YieldLeverageChartProps {
   reserveInfo: ReserveInfo | null;
   leverage: number;
   maxLeverage: number;
   hasPosition?: boolean;
+  /** When present, the curve can be drawn from a 7d/30d/90d average instead of spot rates */
+  rateAverages?: RateAverage[];
 }
 
-export default function YieldLeverageChart({ reserveInfo, leverage, maxLeverage, hasPosition = false }: YieldLeverageChartProps) {
+export default function YieldLeverageChart({ reserveInfo, leverage, maxLeverage, hasPosition = false, rateAverages = [] }: YieldLeverageChartProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const [hoverInfo, setHoverInfo] = useState<{ svgX: number; svgY: number; leverage: number; apy: number } | null>(null);
+  const [basis, setBasis] = useState<'spot' | RateWindow>('spot');
 
+  // Falls back to spot if the chosen window isn't available for this market
+  const average = basis === 'spot' ? undefined : rateAverages.find(a => a.days === basis);
   const stakingYield = reserveInfo?.stakingYield || 3.2;
-  const supplyAPY = reserveInfo?.supplyAPY || 0;
-  const borrowAPY = reserveInfo?.borrowAPY || 3.0;
+  const supplyAPY = average?.supplyApy ?? (reserveInfo?.supplyAPY || 0);
+  const borrowAPY = average?.borrowApy ?? (reserveInfo?.borrowAPY || 3.0);
 
   const netAPY = (lev: number) => (stakingYield + supplyAPY) * lev - borrowAPY * (lev - 1);
 
@@ -107,7 +113,30 @@ export default function YieldLeverageChart({ reserveInfo, leverage, maxLeverage,
       transition={{ duration: 0.4, delay: 0.1 }}
       className="card-glow p-6"
     >
-      <h2 className="text-base font-black gradient-text tracking-tight mb-4">Yield vs Leverage</h2>
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h2 className="text-base font-black gradient-text tracking-tight">Yield vs Leverage</h2>
+        {rateAverages.length > 0 && (
+          <div className="flex gap-1.5">
+            {(['spot', ...rateAverages.map(a => a.days)] as const).map(key => {
+              const active = (average?.days ?? 'spot') === key;
+              return (
+                <button
+                  key={key}
+                  onClick={() => setBasis(key)}
+                  className="text-[10px] font-mono font-bold px-2.5 py-1 rounded-lg transition-all"
+                  style={{
+                    background: active ? 'rgba(0,255,209,0.15)' : 'rgba(255,255,255,0.03)',
+                    border: `1px solid ${active ? 'rgba(0,255,209,0.4)' : 'rgba(255,255,255,0.06)'}`,
+                    color: active ? 'var(--accent-primary)' : 'var(--text-muted)',
+                  }}
+                >
+                  {key === 'spot' ? 'Spot' : `${key}d`}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
 
       <div className="glass-inner p-4">
         <svg ref={svgRef} viewBox={`0 0 ${W} ${H}`} className="w-full" preserveAspectRatio="xMidYMid meet">
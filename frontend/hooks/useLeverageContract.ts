@@ -1,82 +1,130 @@
 import { useCallback, useMemo } from 'react';
-import { useAccount, useWalletClient } from 'wagmi';
-import { parseEther, formatEther, maxUint256, createPublicClient, http } from 'viem';
+import { useAccount, useSwitchChain, useWalletClient } from 'wagmi';
 import {
-  MORPHO_ADDRESSES, MORPHO_FLASH_LOAN_HELPER_ABI, MORPHO_ABI, ERC20_ABI, MORPHO_MARKET_ID,
+  parseEther, formatEther, parseUnits, formatUnits, maxUint256, createPublicClient,
+  BaseError, BlockNotFoundError, HttpRequestError,
+} from 'viem';
+import type { Address, Hash } from 'viem';
+import {
+  MORPHO_FLASH_LOAN_HELPER_ABI, MORPHO_ABI, MORPHO_ORACLE_ABI, ERC20_ABI,
+  ADAPTIVE_CURVE_IRM_ABI, UNISWAP_V3_POOL_ABI, resolveTradeMarket, oraclePriceToRate,
 } from '@/lib/leverageContract';
-import { contractDevBase } from '@/lib/wagmi';
-import { BASE_RPC_URL } from '@/lib/types';
+import type { PartialDeleveragePreview } from '@/lib/leverageContract';
+import { planPartialDeleverage, type DeleverageTarget } from '@/lib/positionMath';
+import type { IrmState } from '@/lib/adaptiveCurveIrm';
+import { minAmountOut, quoteExactInputSingle, type SwapQuote, type UniswapV3PoolState } from '@/lib/uniswapV3';
+import { readMorphoPositions, type MorphoPosition } from '@/lib/morphoPosition';
+import {
+  SWAP_VENUE_LABELS, compareSwapRoutes, encodeSwapData, type RouteComparison, type RouteQuote, type RouterCall,
+} from '@/lib/swapRoutes';
+import {
+  createTxFlow, trackTransaction, TxStillPendingError,
+  type TrackResult, type TxFlowKind, type TxStepKind, type TxStepStatus,
+} from '@/lib/txFlow';
+import { useTxStore } from '@/store/useTxStore';
+import { chainTransport, executionChain } from '@/lib/wagmi';
+import { CHAIN_CONTRACTS } from '@/lib/contracts';
+import type { EnrichedMarket } from '@/lib/types';
 import { getMorphoAPY } from '@/lib/morphoApi';
+import { liveTokenApy } from '@/lib/refreshTokenRates';
+import { DEFAULT_TOKEN_REGISTRY, RATE_CHAINS } from '@/lib/tokenRegistry';
+
+// Receipt wait before a step is left pending for resumeTxFlows()
+const RECEIPT_TIMEOUT_MS = 60_000;
+
+const STEP_FAILURES: Record<Extract<TxStepStatus, 'reverted' | 'replaced' | 'dropped'>, string> = {
+  reverted: 'Transaction reverted',
+  replaced: 'Transaction was replaced or cancelled in the wallet',
+  dropped: 'Transaction was dropped before being mined',
+};
+
+// Flows this tab is still driving through runFlow; resumeTxFlows leaves them alone
+const activeFlowIds = new Set<string>();
 
-export function useLeverageContract() {
-  const { address, isConnected } = useAccount();
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Fork RPCs answer receipt polls with a 502 or lose the block the tx landed in
+function isForkReceiptError(err: unknown): boolean {
+  if (!(err instanceof BaseError)) return false;
+  return err.walk(e =>
+    (e instanceof HttpRequestError && e.status === 502) ||
+    (e instanceof BlockNotFoundError && e.shortMessage.startsWith('Block at number')),
+  ) !== null;
+}
+
+export function useLeverageContract(market: EnrichedMarket | null = null) {
+  const { address, isConnected, chainId: walletChainId } = useAccount();
   const { data: walletClient } = useWalletClient();
+  const { switchChainAsync } = useSwitchChain();
+
+  const trade = useMemo(() => resolveTradeMarket(market), [market]);
+  const helper = trade.helper;
+  const { morphoBlue } = CHAIN_CONTRACTS[trade.chainSlug];
 
+  // Reads and receipts go to the chain the market's transactions are signed on
+  const chain = useMemo(() => executionChain(trade.chainSlug), [trade.chainSlug]);
   const publicClient = useMemo(() => {
     return createPublicClient({
-      chain: contractDevBase,
-      transport: http(BASE_RPC_URL, { batch: false, retryCount: 3 }),
+      chain,
+      transport: chainTransport(chain),
     });
-  }, []);
+  }, [chain]);
+
+  const requireHelper = useCallback((): Address => {
+    if (!helper) throw new Error(`No leverage helper deployed for ${trade.pair}`);
+    return helper;
+  }, [helper, trade.pair]);
 
-  // Read user's wstETH wallet balance
-  const getWstethBalance = useCallback(async () => {
+  // Read user's collateral token wallet balance
+  const getCollateralBalance = useCallback(async () => {
     if (!publicClient || !address) return 0n;
     try {
       return await publicClient.readContract({
-        address: MORPHO_ADDRESSES.WSTETH,
+        address: trade.collateralToken,
         abi: ERC20_ABI,
         functionName: 'balanceOf',
         args: [address],
       });
     } catch (error) {
-      console.error('Error fetching wstETH balance:', error);
+      console.error(`Error fetching ${trade.collateralSymbol} balance:`, error);
       return 0n;
     }
-  }, [publicClient, address]);
+  }, [publicClient, address, trade]);
+
+  // The connected wallet's position, read from Morpho directly so it shows with or without a helper
+  const readOwnPosition = useCallback(async (): Promise<MorphoPosition | null> => {
+    if (!publicClient || !address) return null;
+    const [position] = await readMorphoPositions(publicClient, { morphoBlue, market: trade, accounts: [address] });
+    return position;
+  }, [publicClient, address, morphoBlue, trade]);
 
   // Read user's collateral balance from Morpho position
   const getATokenBalance = useCallback(async () => {
-    if (!publicClient || !address) return 0n;
-    const result = await publicClient.readContract({
-      address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
-      abi: MORPHO_FLASH_LOAN_HELPER_ABI,
-      functionName: 'getUserPosition',
-      args: [address],
-    });
-    return result[0];
-  }, [publicClient, address]);
+    const position = await readOwnPosition();
+    return position?.collateral ?? 0n;
+  }, [readOwnPosition]);
 
   // Read user's debt balance from Morpho position
   const getDebtBalance = useCallback(async () => {
-    if (!publicClient || !address) return 0n;
-    const result = await publicClient.readContract({
-      address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
-      abi: MORPHO_FLASH_LOAN_HELPER_ABI,
-      functionName: 'getUserPosition',
-      args: [address],
-    });
-    return result[1];
-  }, [publicClient, address]);
+    const position = await readOwnPosition();
+    return position?.debt ?? 0n;
+  }, [readOwnPosition]);
 
   // Read user's full position
   const getUserPosition = useCallback(async () => {
-    if (!publicClient || !address) return null;
-    const result = await publicClient.readContract({
-      address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
-      abi: MORPHO_FLASH_LOAN_HELPER_ABI,
-      functionName: 'getUserPosition',
-      args: [address],
-    });
+    const position = await readOwnPosition();
+    if (!position) return null;
     return {
-      totalCollateralBase: result[0],
-      totalDebtBase: result[1],
+      totalCollateralBase: position.collateral,
+      totalDebtBase: position.debt,
       availableBorrowsBase: 0n,
       currentLiquidationThreshold: 0,
       ltv: 0,
-      healthFactor: Number(formatEther(result[2])),
+      healthFactor: position.risk.healthFactor,
     };
-  }, [publicClient, address]);
+  }, [readOwnPosition]);
 
   // Fetch Lido staking APR
   const getLidoStakingAPR = async (): Promise<number> => {
@@ -86,19 +134,37 @@ export function useLeverageContract() {
     return Math.round(data.data.smaApr * 1000) / 1000;
   };
 
+  // Collateral yield from the enriched market. When the market has none: Lido API for
+  // wstETH, and the vault's 7d share-price growth for ERC4626 collateral (sUSDe, sDAI, syrupUSDC...)
+  const getStakingYield = useCallback(async (): Promise<number> => {
+    if (trade.collateralYield > 0) return trade.collateralYield;
+    const symbol = trade.collateralSymbol.toLowerCase();
+    if (symbol === 'wsteth') return getLidoStakingAPR();
+    const cfg = DEFAULT_TOKEN_REGISTRY.tokens.find(t => t.symbol.toLowerCase() === symbol);
+    if (cfg?.method === 'erc4626') {
+      // Read the market's own vault on its chain
+      const rateChain = RATE_CHAINS.find(c => c === trade.chainSlug) ?? null;
+      const apy = rateChain
+        ? await liveTokenApy({ ...cfg, address: trade.collateralToken, chain: rateChain }, publicClient).catch(() => null)
+        : null;
+      return Math.round((apy ?? cfg.fallback) * 100) / 100;
+    }
+    return 0;
+  }, [publicClient, trade]);
+
   // Get reserve info from Morpho market
   const getReserveInfo = useCallback(async () => {
     if (!publicClient) return null;
     try {
       const [marketParams, stakingYield, morphoAPY] = await Promise.all([
         publicClient.readContract({
-          address: MORPHO_ADDRESSES.MORPHO_BLUE,
+          address: morphoBlue,
           abi: MORPHO_ABI,
           functionName: 'idToMarketParams',
-          args: [MORPHO_MARKET_ID],
+          args: [trade.marketId],
         }),
-        getLidoStakingAPR(),
-        getMorphoAPY(MORPHO_MARKET_ID),
+        getStakingYield(),
+        getMorphoAPY(trade.marketId, trade.chainId),
       ]);
 
       const lltvRaw = marketParams.lltv;
@@ -115,24 +181,30 @@ export function useLeverageContract() {
       };
     } catch (error) {
       console.error('Error fetching Morpho market data:', error);
-      const stakingYield = await getLidoStakingAPR();
+      const stakingYield = await getStakingYield().catch(() => 0);
+      const lltv = trade.lltv;
       return {
-        ltv: 94.5,
-        liquidationThreshold: 94.5,
-        maxLeverage: 18.18,
-        supplyAPY: 5.66,
-        borrowAPY: 6.01,
+        ltv: lltv,
+        liquidationThreshold: lltv,
+        maxLeverage: lltv > 0 && lltv < 100 ? 100 / (100 - lltv) : 1,
+        supplyAPY: market?.supplyAPY ?? 5.66,
+        borrowAPY: market?.borrowAPY ?? 6.01,
         stakingYield,
       };
     }
-  }, [publicClient]);
+  }, [publicClient, morphoBlue, trade, market, getStakingYield]);
+
+  // Morpho positions of any addresses on this market — no wallet needed
+  const getWatchedPositions = useCallback(async (accounts: Address[]): Promise<MorphoPosition[]> => {
+    return readMorphoPositions(publicClient, { morphoBlue, market: trade, accounts });
+  }, [publicClient, morphoBlue, trade]);
 
-  // Get Morpho pool + oracle exchange rates
+  // Get Morpho pool + oracle exchange rates; the helper scales them to 18 decimals per whole token
   const getMorphoExchangeRates = useCallback(async () => {
-    if (!publicClient) return null;
+    if (!publicClient || !helper) return null;
     try {
       const result = await publicClient.readContract({
-        address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
+        address: helper,
         abi: MORPHO_FLASH_LOAN_HELPER_ABI,
         functionName: 'getExchangeRates',
         args: [],
@@ -146,26 +218,152 @@ export function useLeverageContract() {
       console.error('getMorphoExchangeRates error:', err);
       return null;
     }
-  }, [publicClient]);
+  }, [publicClient, helper]);
+
+  // Market totals and the IRM's rateAtTarget, to seed the AdaptiveCurveIrm model
+  const getIrmState = useCallback(async (): Promise<IrmState | null> => {
+    if (!publicClient) return null;
+    try {
+      const [state, params] = await Promise.all([
+        publicClient.readContract({
+          address: morphoBlue,
+          abi: MORPHO_ABI,
+          functionName: 'market',
+          args: [trade.marketId],
+        }),
+        publicClient.readContract({
+          address: morphoBlue,
+          abi: MORPHO_ABI,
+          functionName: 'idToMarketParams',
+          args: [trade.marketId],
+        }),
+      ]);
+      const rateAtTarget = await publicClient.readContract({
+        address: params.irm,
+        abi: ADAPTIVE_CURVE_IRM_ABI,
+        functionName: 'rateAtTarget',
+        args: [trade.marketId],
+      });
+      const [totalSupplyAssets, , totalBorrowAssets, , lastUpdate] = state;
+      return {
+        totalSupply: Number(formatUnits(totalSupplyAssets, trade.loanDecimals)),
+        totalBorrow: Number(formatUnits(totalBorrowAssets, trade.loanDecimals)),
+        rateAtTarget: Number(rateAtTarget) / 1e18,
+        lastUpdate: Number(lastUpdate),
+      };
+    } catch (err) {
+      console.error('getIrmState error:', err);
+      return null;
+    }
+  }, [publicClient, morphoBlue, trade]);
 
-  // Get wstETH exchange rate (oracle-based)
-  const getExchangeRate = useCallback(async () => {
-    if (!publicClient) return 1.228;
+  // State of the helper's swap pool, for sizing the loan → collateral swap
+  const getSwapPoolState = useCallback(async (): Promise<UniswapV3PoolState | null> => {
+    if (!publicClient || !helper) return null;
     try {
-      const rates = await getMorphoExchangeRates();
-      if (rates) return rates.oracleWethPerWsteth;
-    } catch (_) { /* fallthrough */ }
-    return 1.228;
-  }, [publicClient, getMorphoExchangeRates]);
+      const pool = await publicClient.readContract({
+        address: helper,
+        abi: MORPHO_FLASH_LOAN_HELPER_ABI,
+        functionName: 'UNI_POOL',
+        args: [],
+      });
+      const [slot0, liquidity, token0, fee] = await Promise.all([
+        publicClient.readContract({ address: pool, abi: UNISWAP_V3_POOL_ABI, functionName: 'slot0', args: [] }),
+        publicClient.readContract({ address: pool, abi: UNISWAP_V3_POOL_ABI, functionName: 'liquidity', args: [] }),
+        publicClient.readContract({ address: pool, abi: UNISWAP_V3_POOL_ABI, functionName: 'token0', args: [] }),
+        publicClient.readContract({ address: pool, abi: UNISWAP_V3_POOL_ABI, functionName: 'fee', args: [] }),
+      ]);
+      return {
+        sqrtPriceX96: slot0[0],
+        liquidity,
+        zeroForOne: token0.toLowerCase() === trade.loanToken.toLowerCase(),
+        fee,
+      };
+    } catch (err) {
+      console.error('getSwapPoolState error:', err);
+      return null;
+    }
+  }, [publicClient, helper, trade]);
+
+  // Quote the loan → collateral swap of the flash loan for each amount (loan-token units)
+  const quoteFlashSwaps = useCallback(async (pool: UniswapV3PoolState, amounts: number[]): Promise<SwapQuote[]> => {
+    return Promise.all(amounts.map(amount => quoteExactInputSingle(publicClient, pool, {
+      tokenIn: trade.loanToken,
+      tokenOut: trade.collateralToken,
+      amountIn: parseUnits(amount.toFixed(trade.loanDecimals), trade.loanDecimals),
+    })));
+  }, [publicClient, trade]);
+
+  // Quote a swap of `amountIn` on every venue the helper can route through.
+  // 'leverage' sells the flash loan for collateral; 'unwind' sells collateral to repay it.
+  const compareRoutes = useCallback(async (
+    direction: 'leverage' | 'unwind',
+    amountIn: bigint,
+    slippage: number,
+  ): Promise<RouteComparison | null> => {
+    if (!helper || amountIn === 0n) return null;
+    const [pool, gasPrice] = await Promise.all([getSwapPoolState(), publicClient.getGasPrice()]);
+    if (!pool) return null;
+    const leverage = direction === 'leverage';
+    return compareSwapRoutes(publicClient, {
+      tokenIn: leverage ? trade.loanToken : trade.collateralToken,
+      tokenOut: leverage ? trade.collateralToken : trade.loanToken,
+      amountIn,
+      recipient: helper,
+      chainId: trade.chainId,
+      slippage,
+      uniswapPool: leverage ? pool : { ...pool, zeroForOne: !pool.zeroForOne },
+      gasPrice,
+    });
+  }, [publicClient, helper, trade, getSwapPoolState]);
+
+  // Routes for closing the position: collateral covering the debt at the pool
+  // rate, with the same 2% buffer the helper's own unwind swaps
+  const compareUnwindRoutes = useCallback(async (slippage: number): Promise<RouteComparison | null> => {
+    if (!publicClient || !address || !helper) return null;
+    const [position, rates] = await Promise.all([readOwnPosition(), getMorphoExchangeRates()]);
+    if (!position || !rates || position.debt === 0n) return null;
+    const { collateral, debt } = position;
+    const needed = (Number(formatUnits(debt, trade.loanDecimals)) * 1.02) / rates.poolWethPerWsteth;
+    const amountIn = parseUnits(needed.toFixed(trade.collateralDecimals), trade.collateralDecimals);
+    return compareRoutes('unwind', amountIn < collateral ? amountIn : collateral, slippage);
+  }, [publicClient, address, helper, trade, readOwnPosition, getMorphoExchangeRates, compareRoutes]);
+
+  // Get collateral exchange rate (loan token per collateral token) from the market oracle; null if unreadable
+  const getExchangeRate = useCallback(async (): Promise<number | null> => {
+    if (!publicClient) return null;
+    try {
+      let oracle = trade.oracle;
+      if (!oracle) {
+        const params = await publicClient.readContract({
+          address: morphoBlue,
+          abi: MORPHO_ABI,
+          functionName: 'idToMarketParams',
+          args: [trade.marketId],
+        });
+        oracle = params.oracle;
+      }
+      const price = await publicClient.readContract({
+        address: oracle,
+        abi: MORPHO_ORACLE_ABI,
+        functionName: 'price',
+        args: [],
+      });
+      return oraclePriceToRate(price, trade.collateralDecimals, trade.loanDecimals);
+    } catch (err) {
+      console.error('getExchangeRate error:', err);
+    }
+    return null;
+  }, [publicClient, morphoBlue, trade]);
 
   // Simulate leverage position
   const simulateLeverage = useCallback(async (targetLeverage: number, userDeposit: number) => {
     if (!publicClient) throw new Error('Client not available');
     const result = await publicClient.readContract({
-      address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
+      address: requireHelper(),
       abi: MORPHO_FLASH_LOAN_HELPER_ABI,
       functionName: 'simulateLeverage',
-      args: [parseEther(targetLeverage.toString()), parseEther(userDeposit.toString())],
+      args: [parseEther(targetLeverage.toString()), parseUnits(userDeposit.toString(), trade.collateralDecimals)],
     });
     return {
       flashWethAmount: result[0],
@@ -173,149 +371,407 @@ export function useLeverageContract() {
       totalDebt: result[2],
       estimatedHealthFactor: Number(formatEther(result[3])),
     };
-  }, [publicClient]);
+  }, [publicClient, requireHelper, trade.collateralDecimals]);
+
+  // Simulate levering up the connected wallet's existing position
+  const simulateLeverUp = useCallback(async (targetLeverage: number, extraDeposit: number) => {
+    if (!publicClient || !address) throw new Error('Wallet not connected');
+    const result = await publicClient.readContract({
+      address: requireHelper(),
+      abi: MORPHO_FLASH_LOAN_HELPER_ABI,
+      functionName: 'simulateLeverUp',
+      args: [address, parseEther(targetLeverage.toString()), parseUnits(extraDeposit.toString(), trade.collateralDecimals)],
+    });
+    return {
+      flashWethAmount: result[0],
+      totalCollateral: result[1],
+      totalDebt: result[2],
+      estimatedHealthFactor: Number(formatEther(result[3])),
+    };
+  }, [publicClient, address, requireHelper, trade.collateralDecimals]);
+
+  // Plan a partial deleverage towards `target` and simulate it on the helper
+  const previewPartialDeleverage = useCallback(async (target: DeleverageTarget): Promise<PartialDeleveragePreview | null> => {
+    if (!publicClient || !address) return null;
+    const helperAddress = requireHelper();
+    const { collateralDecimals, loanDecimals } = trade;
+
+    const [position, rates, oraclePrice] = await Promise.all([
+      readOwnPosition(),
+      getMorphoExchangeRates(),
+      getExchangeRate(),
+    ]);
+    if (!position || !rates || oraclePrice === null) return null;
+
+    const { collateral, debt } = position;
+    const plan = planPartialDeleverage({
+      collateral: Number(formatUnits(collateral, collateralDecimals)),
+      debt: Number(formatUnits(debt, loanDecimals)),
+      lltv: trade.lltv / 100,
+      oraclePrice,
+      poolPrice: rates.poolWethPerWsteth,
+    }, target);
+    if (!plan) return null;
+
+    const repayAssets = parseUnits(plan.repay.toFixed(loanDecimals), loanDecimals);
+    const collateralToWithdraw = parseUnits(plan.withdraw.toFixed(collateralDecimals), collateralDecimals);
+    if (repayAssets >= debt || collateralToWithdraw >= collateral) return null;
+
+    const result = await publicClient.readContract({
+      address: helperAddress,
+      abi: MORPHO_FLASH_LOAN_HELPER_ABI,
+      functionName: 'simulatePartialDeleverage',
+      args: [address, repayAssets, collateralToWithdraw],
+    });
+    return {
+      repayAssets,
+      collateralToWithdraw,
+      swapAmount: result[0],
+      collateralReturned: result[1],
+      remainingCollateral: result[2],
+      remainingDebt: result[3],
+      healthFactor: Number(formatEther(result[4])),
+    };
+  }, [publicClient, address, requireHelper, trade, readOwnPosition, getMorphoExchangeRates, getExchangeRate]);
 
   // Get max safe leverage
   const getMaxSafeLeverage = useCallback(async () => {
-    if (!publicClient) return 3.0;
+    if (!publicClient || !helper) return 3.0;
     const result = await publicClient.readContract({
-      address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
+      address: helper,
       abi: MORPHO_FLASH_LOAN_HELPER_ABI,
       functionName: 'getMaxSafeLeverage',
       args: [],
     });
     return Number(formatEther(result));
-  }, [publicClient]);
+  }, [publicClient, helper]);
 
-  // Execute leverage
-  const executeLeverage = async (targetLeverage: number, userDeposit: number, slippageBps: number = 50) => {
-    if (!walletClient || !address || !publicClient) throw new Error('Wallet not connected');
+  // ── Transaction flows ──────────────────────────────────────
+  // Each execute* call is a tracked flow in useTxStore: every step's hash and
+  // outcome is recorded, so a reload can resume waiting on whatever was pending.
+
+  // Wait on a submitted step and record the outcome; resolves only if it confirmed
+  const settleStep = useCallback(async (flowId: string, kind: TxStepKind, hash: Hash, nonce?: number) => {
+    if (!publicClient || !address) throw new Error('Wallet not connected');
+    const { updateStep } = useTxStore.getState();
 
+    let result: TrackResult;
     try {
-      const depositWei = parseEther(userDeposit.toString());
-      const leverageWei = parseEther(targetLeverage.toString());
+      result = await trackTransaction(publicClient, hash, { account: address, nonce, timeout: RECEIPT_TIMEOUT_MS });
+    } catch (err: unknown) {
+      // Receipt polling can fail on forks (HTTP 502 / block not found) — tx likely succeeded
+      if (isForkReceiptError(err)) {
+        updateStep(flowId, kind, { status: 'confirmed' });
+        return { transactionHash: hash, status: 'success' as const };
+      }
+      updateStep(flowId, kind, { status: 'failed', error: errorMessage(err) });
+      throw err;
+    }
 
-      // Pre-flight: check balance
-      const balance = await publicClient.readContract({
-        address: MORPHO_ADDRESSES.WSTETH,
-        abi: ERC20_ABI,
-        functionName: 'balanceOf',
-        args: [address],
-      });
-      if (balance < depositWei) {
-        throw new Error(`Insufficient wstETH balance. You have ${formatEther(balance)} wstETH but need ${formatEther(depositWei)} wstETH`);
+    if (result.status === 'pending') throw new TxStillPendingError(hash);
+    updateStep(flowId, kind, { status: result.status, replacedBy: 'replacedBy' in result ? result.replacedBy : undefined });
+    if (result.status === 'confirmed') return result.receipt;
+    throw new Error(STEP_FAILURES[result.status]);
+  }, [publicClient, address]);
+
+  // Have the wallet sign one step, then track it
+  const sendStep = async (flowId: string, kind: TxStepKind, send: () => Promise<Hash>) => {
+    if (!publicClient) throw new Error('Client not available');
+    const { updateStep } = useTxStore.getState();
+    updateStep(flowId, kind, { status: 'signing' });
+
+    let hash: Hash;
+    try {
+      hash = await send();
+    } catch (err: unknown) {
+      updateStep(flowId, kind, { status: 'failed', error: errorMessage(err) });
+      throw err;
+    }
+
+    const nonce = await publicClient.getTransaction({ hash }).then(tx => tx.nonce, () => undefined);
+    updateStep(flowId, kind, { status: 'pending', hash, nonce });
+    return settleStep(flowId, kind, hash, nonce);
+  };
+
+  // Run `steps` as a tracked flow. A step still pending at the timeout leaves
+  // the flow running so resumeTxFlows() can settle it later.
+  const runFlow = async <T,>(kind: TxFlowKind, steps: (flowId: string) => Promise<T>): Promise<T> => {
+    if (!address) throw new Error('Wallet not connected');
+    if (walletChainId !== chain.id) await switchChainAsync({ chainId: chain.id });
+    const flow = createTxFlow(kind, {
+      chainId: trade.chainId,
+      account: address,
+      marketId: trade.marketId,
+      collateralSymbol: trade.collateralSymbol,
+    });
+    const { startFlow, finishFlow } = useTxStore.getState();
+    startFlow(flow);
+    activeFlowIds.add(flow.id);
+    try {
+      const result = await steps(flow.id);
+      finishFlow(flow.id, 'success');
+      return result;
+    } catch (err: unknown) {
+      if (!(err instanceof TxStillPendingError)) finishFlow(flow.id, 'failed', errorMessage(err));
+      throw err;
+    } finally {
+      // A step left pending is now up to resumeTxFlows
+      activeFlowIds.delete(flow.id);
+    }
+  };
+
+  // Pick up flows a reload interrupted. Resolves true if any tx settled, so the caller can refresh.
+  // Only this market's chain is polled — publicClient can't see the others' hashes or nonces —
+  // and flows still being driven in this tab are skipped.
+  const resumeTxFlows = useCallback(async () => {
+    await useTxStore.persist.rehydrate();
+    if (!address) return false;
+
+    const { flows, finishFlow } = useTxStore.getState();
+    const running = flows.filter(f =>
+      f.status === 'running' && f.account === address && f.chainId === trade.chainId && !activeFlowIds.has(f.id));
+    const settled = await Promise.all(running.map(async (flow) => {
+      const step = flow.steps.find(s => s.status === 'pending' && s.hash);
+      if (!step?.hash) {
+        finishFlow(flow.id, 'failed', 'Interrupted before the transaction was sent');
+        return false;
       }
+      try {
+        await settleStep(flow.id, step.kind, step.hash, step.nonce);
+        // Later steps were never sent, so only a settled execute completes the flow
+        if (step.kind === 'execute') finishFlow(flow.id, 'success');
+        else finishFlow(flow.id, 'failed', `${step.label} confirmed — run the action again to finish`);
+        return true;
+      } catch (err: unknown) {
+        if (err instanceof TxStillPendingError) return false;
+        finishFlow(flow.id, 'failed', errorMessage(err));
+        return true;
+      }
+    }));
+    return settled.some(Boolean);
+  }, [address, trade.chainId, settleStep]);
 
-      // Step 1: Approve wstETH
-      const allowance = await publicClient.readContract({
-        address: MORPHO_ADDRESSES.WSTETH,
-        abi: ERC20_ABI,
-        functionName: 'allowance',
-        args: [address, MORPHO_ADDRESSES.LEVERAGE_HELPER],
-      });
-      if (allowance < depositWei) {
-        const hash = await walletClient.writeContract({
-          address: MORPHO_ADDRESSES.WSTETH,
+  // Pre-flight: the helper pulls `amount` of collateral from the wallet
+  const assertCollateralBalance = async (amount: bigint) => {
+    if (!publicClient || !address) throw new Error('Wallet not connected');
+    const { collateralToken, collateralSymbol, collateralDecimals } = trade;
+    const balance = await publicClient.readContract({
+      address: collateralToken,
+      abi: ERC20_ABI,
+      functionName: 'balanceOf',
+      args: [address],
+    });
+    if (balance < amount) {
+      throw new Error(
+        `Insufficient ${collateralSymbol} balance. You have ${formatUnits(balance, collateralDecimals)} ${collateralSymbol} but need ${formatUnits(amount, collateralDecimals)} ${collateralSymbol}`
+      );
+    }
+  };
+
+  // Approve the helper to pull collateral, unless the allowance already covers `amount`
+  const ensureApproval = async (flowId: string, helperAddress: Address, amount: bigint) => {
+    if (!walletClient || !address || !publicClient) throw new Error('Wallet not connected');
+    const allowance = amount > 0n
+      ? await publicClient.readContract({
+          address: trade.collateralToken,
           abi: ERC20_ABI,
-          functionName: 'approve',
-          args: [MORPHO_ADDRESSES.LEVERAGE_HELPER, maxUint256],
-          gas: 100000n,
-        });
-        await publicClient.waitForTransactionReceipt({ hash });
-      }
+          functionName: 'allowance',
+          args: [address, helperAddress],
+        })
+      : 0n;
+    if (amount === 0n || allowance >= amount) {
+      useTxStore.getState().updateStep(flowId, 'approve', { status: 'skipped' });
+      return;
+    }
+    await sendStep(flowId, 'approve', () => walletClient.writeContract({
+      chain,
+      address: trade.collateralToken,
+      abi: ERC20_ABI,
+      functionName: 'approve',
+      args: [helperAddress, maxUint256],
+      gas: 100000n,
+    }));
+  };
 
-      // Step 2: Morpho authorization
-      const isAuthorized = await publicClient.readContract({
-        address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
-        abi: MORPHO_FLASH_LOAN_HELPER_ABI,
-        functionName: 'hasAuthorization',
-        args: [address],
-      });
-      if (!isAuthorized) {
-        const hash = await walletClient.writeContract({
-          address: MORPHO_ADDRESSES.MORPHO_BLUE,
-          abi: MORPHO_ABI,
-          functionName: 'setAuthorization',
-          args: [MORPHO_ADDRESSES.LEVERAGE_HELPER, true],
-          gas: 100000n,
-        });
-        await publicClient.waitForTransactionReceipt({ hash });
-      }
+  // Ensure Morpho authorization for the helper contract
+  const ensureAuthorization = async (flowId: string, helperAddress: Address) => {
+    if (!walletClient || !address || !publicClient) throw new Error('Wallet not connected');
+    const isAuthorized = await publicClient.readContract({
+      address: helperAddress,
+      abi: MORPHO_FLASH_LOAN_HELPER_ABI,
+      functionName: 'hasAuthorization',
+      args: [address],
+    });
+    if (isAuthorized) {
+      useTxStore.getState().updateStep(flowId, 'authorize', { status: 'skipped' });
+      return;
+    }
+    await sendStep(flowId, 'authorize', () => walletClient.writeContract({
+      chain,
+      address: morphoBlue,
+      abi: MORPHO_ABI,
+      functionName: 'setAuthorization',
+      args: [helperAddress, true],
+      gas: 100000n,
+    }));
+  };
+
+  // The panel's quote can be minutes old by the time approvals confirm, and
+  // Aerodrome calldata expires: quote the same venue again just before signing
+  const requoteRoute = async (direction: 'leverage' | 'unwind', route: RouteQuote, slippageBps: number) => {
+    const comparison = await compareRoutes(direction, route.amountIn, slippageBps / 10_000);
+    const fresh = comparison?.quotes.find((q): q is RouteQuote & { call: RouterCall } =>
+      q.venue === route.venue && q.allowed && q.call !== null);
+    if (!fresh) throw new Error(`Could not refresh the ${SWAP_VENUE_LABELS[route.venue]} quote`);
+    return fresh;
+  };
+
+  // Lever through an approved router; the route's amountIn sizes the flash loan
+  const sendLeverageWithSwap = async (flowId: string, helperAddress: Address, depositWei: bigint, route: RouteQuote, slippageBps: number) => {
+    if (!walletClient) throw new Error('Wallet not connected');
+    const fresh = await requoteRoute('leverage', route, slippageBps);
+    return sendStep(flowId, 'execute', () => walletClient.writeContract({
+      chain,
+      address: helperAddress,
+      abi: MORPHO_FLASH_LOAN_HELPER_ABI,
+      functionName: 'executeLeverageWithSwap',
+      args: [depositWei, fresh.amountIn, minAmountOut(fresh.amountOut, slippageBps / 10_000), encodeSwapData(fresh.call)],
+      gas: 3500000n,
+    }));
+  };
+
+  // The helper sizes the built-in swap on-chain exactly as simulate* does; quote that
+  // amount on QuoterV2 right before signing so min-out reflects the real price impact
+  const quoteMinCollateralOut = async (flashWeth: bigint, slippageBps: number) => {
+    const pool = await getSwapPoolState();
+    if (!pool) throw new Error('Uniswap pool unavailable for the swap quote');
+    const [quote] = await quoteFlashSwaps(pool, [Number(formatUnits(flashWeth, trade.loanDecimals))]);
+    return minAmountOut(quote.amountOut, slippageBps / 10_000);
+  };
+
+  // Execute leverage; a route with calldata goes through executeLeverageWithSwap
+  const executeLeverage = async (targetLeverage: number, userDeposit: number, slippageBps: number = 50, route: RouteQuote | null = null) => {
+    if (!walletClient || !address || !publicClient) throw new Error('Wallet not connected');
+    const helperAddress = requireHelper();
+    const depositWei = parseUnits(userDeposit.toString(), trade.collateralDecimals);
+    const leverageWei = parseEther(targetLeverage.toString());
 
-      // Step 3: Execute with slippage protection
-      const hash = await walletClient.writeContract({
-        address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
+    await assertCollateralBalance(depositWei);
+    return runFlow('leverage', async (flowId) => {
+      await ensureApproval(flowId, helperAddress, depositWei);
+      await ensureAuthorization(flowId, helperAddress);
+      if (route?.call) return sendLeverageWithSwap(flowId, helperAddress, depositWei, route, slippageBps);
+      const { flashWethAmount } = await simulateLeverage(targetLeverage, userDeposit);
+      const minCollateralOut = await quoteMinCollateralOut(flashWethAmount, slippageBps);
+      return sendStep(flowId, 'execute', () => walletClient.writeContract({
+        chain,
+        address: helperAddress,
         abi: MORPHO_FLASH_LOAN_HELPER_ABI,
         functionName: 'executeLeverage',
-        args: [leverageWei, depositWei, BigInt(slippageBps)],
+        args: [leverageWei, depositWei, BigInt(slippageBps), minCollateralOut],
         gas: 3000000n,
-      });
-      return await publicClient.waitForTransactionReceipt({ hash, timeout: 30000 });
-    } catch (error: any) {
-      if (error?.message?.includes('Block at number')) {
-        return { transactionHash: 'unknown', status: 'success' } as any;
-      }
-      throw error;
-    }
+      }));
+    });
   };
 
-  // Execute deleverage
-  const executeDeleverage = async (slippageBps: number = 50) => {
+  // Lever up an existing position, optionally adding collateral from the wallet
+  const executeLeverUp = async (targetLeverage: number, extraDeposit: number, slippageBps: number = 50, route: RouteQuote | null = null) => {
     if (!walletClient || !address || !publicClient) throw new Error('Wallet not connected');
+    const helperAddress = requireHelper();
+    const depositWei = parseUnits(extraDeposit.toString(), trade.collateralDecimals);
+    const leverageWei = parseEther(targetLeverage.toString());
 
-    try {
-      // Ensure Morpho authorization for this helper contract
-      const isAuthorized = await publicClient.readContract({
-        address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
+    if (depositWei > 0n) await assertCollateralBalance(depositWei);
+    return runFlow('leverUp', async (flowId) => {
+      await ensureApproval(flowId, helperAddress, depositWei);
+      await ensureAuthorization(flowId, helperAddress);
+      if (route?.call) return sendLeverageWithSwap(flowId, helperAddress, depositWei, route, slippageBps);
+      const { flashWethAmount } = await simulateLeverUp(targetLeverage, extraDeposit);
+      const minCollateralOut = await quoteMinCollateralOut(flashWethAmount, slippageBps);
+      return sendStep(flowId, 'execute', () => walletClient.writeContract({
+        chain,
+        address: helperAddress,
         abi: MORPHO_FLASH_LOAN_HELPER_ABI,
-        functionName: 'hasAuthorization',
-        args: [address],
-      });
-      if (!isAuthorized) {
-        const authHash = await walletClient.writeContract({
-          address: MORPHO_ADDRESSES.MORPHO_BLUE,
-          abi: MORPHO_ABI,
-          functionName: 'setAuthorization',
-          args: [MORPHO_ADDRESSES.LEVERAGE_HELPER, true],
-          gas: 100000n,
-        });
-        await publicClient.waitForTransactionReceipt({ hash: authHash });
-      }
+        functionName: 'executeLeverUp',
+        args: [leverageWei, depositWei, BigInt(slippageBps), minCollateralOut],
+        gas: 3000000n,
+      }));
+    });
+  };
+
+  // Execute deleverage; a route with calldata goes through executeDeleverageWithSwap
+  const executeDeleverage = async (slippageBps: number = 50, route: RouteQuote | null = null) => {
+    if (!walletClient || !address || !publicClient) throw new Error('Wallet not connected');
+    const helperAddress = requireHelper();
 
-      const hash = await walletClient.writeContract({
-        address: MORPHO_ADDRESSES.LEVERAGE_HELPER,
+    return runFlow('deleverage', async (flowId) => {
+      await ensureAuthorization(flowId, helperAddress);
+      if (route?.call) {
+        const fresh = await requoteRoute('unwind', route, slippageBps);
+        return sendStep(flowId, 'execute', () => walletClient.writeContract({
+          chain,
+          address: helperAddress,
+          abi: MORPHO_FLASH_LOAN_HELPER_ABI,
+          functionName: 'executeDeleverageWithSwap',
+          args: [fresh.amountIn, minAmountOut(fresh.amountOut, slippageBps / 10_000), encodeSwapData(fresh.call)],
+          gas: 3500000n,
+        }));
+      }
+      return sendStep(flowId, 'execute', () => walletClient.writeContract({
+        chain,
+        address: helperAddress,
         abi: MORPHO_FLASH_LOAN_HELPER_ABI,
         functionName: 'executeDeleverage',
         args: [BigInt(slippageBps)],
         gas: 3000000n,
-      });
-      try {
-        return await publicClient.waitForTransactionReceipt({ hash, timeout: 30000 });
-      } catch {
-        // Receipt polling can fail on forks (502/Block errors) — tx likely succeeded
-        return { transactionHash: hash, status: 'success' } as any;
-      }
-    } catch (error: any) {
-      if (error?.message?.includes('Block at number') || error?.message?.includes('502')) {
-        return { transactionHash: 'unknown', status: 'success' } as any;
-      }
-      throw error;
-    }
+      }));
+    });
+  };
+
+  // Execute partial deleverage from a preview — the position stays open
+  const executePartialDeleverage = async (preview: PartialDeleveragePreview, slippageBps: number = 50) => {
+    if (!walletClient || !address || !publicClient) throw new Error('Wallet not connected');
+    const helperAddress = requireHelper();
+
+    return runFlow('partialDeleverage', async (flowId) => {
+      await ensureAuthorization(flowId, helperAddress);
+      return sendStep(flowId, 'execute', () => walletClient.writeContract({
+        chain,
+        address: helperAddress,
+        abi: MORPHO_FLASH_LOAN_HELPER_ABI,
+        functionName: 'executePartialDeleverage',
+        args: [preview.repayAssets, preview.collateralToWithdraw, BigInt(slippageBps)],
+        gas: 3000000n,
+      }));
+    });
   };
 
   return {
     address,
     isConnected,
-    getWstethBalance,
+    market: trade,
+    canTrade: helper !== null,
+    getCollateralBalance,
     getATokenBalance,
     getDebtBalance,
     getUserPosition,
     getReserveInfo,
     getExchangeRate,
     getMorphoExchangeRates,
+    getWatchedPositions,
+    getIrmState,
+    getSwapPoolState,
+    quoteFlashSwaps,
+    compareRoutes,
+    compareUnwindRoutes,
     simulateLeverage,
+    simulateLeverUp,
     getMaxSafeLeverage,
     executeLeverage,
+    executeLeverUp,
     executeDeleverage,
+    previewPartialDeleverage,
+    executePartialDeleverage,
+    resumeTxFlows,
   };
 }
@@ -0,0 +1,148 @@
+/**
+ * adaptiveCurveIrm.ts
+ *
+ * Floating-point model of Morpho's AdaptiveCurveIrm. The borrow rate is a
+ * curve around a per-market `rateAtTarget` (the rate at 90% utilization),
+ * and rateAtTarget itself drifts exponentially while utilization stays off
+ * target. Mirrors AdaptiveCurveIrm._borrowRate, including the trapezoidal
+ * average over the elapsed period.
+ */
+
+import type { EnrichedMarket } from './types';
+
+const SECONDS_PER_YEAR = 365 * 86_400;
+
+export const CURVE_STEEPNESS = 4;
+export const TARGET_UTILIZATION = 0.9;
+/** Per second; 50 / year */
+export const ADJUSTMENT_SPEED = 50 / SECONDS_PER_YEAR;
+export const INITIAL_RATE_AT_TARGET = 0.04 / SECONDS_PER_YEAR;
+export const MIN_RATE_AT_TARGET = 0.001 / SECONDS_PER_YEAR;
+export const MAX_RATE_AT_TARGET = 2 / SECONDS_PER_YEAR;
+
+export interface IrmState {
+  /** Loan-token units */
+  totalSupply: number;
+  totalBorrow: number;
+  /** Per-second rate at target utilization; 0 means the market has never accrued */
+  rateAtTarget: number;
+  /** Unix seconds of the market's last accrual */
+  lastUpdate: number;
+}
+
+export interface BorrowImpact {
+  /** Utilization in % */
+  utilizationBefore: number;
+  utilizationAfter: number;
+  /** Borrow APY in % at the current block, before and right after the trade */
+  borrowApyBefore: number;
+  borrowApyAfter: number;
+  /** Average borrow APY over the next `horizonDays` if utilization stays at the post-trade level */
+  borrowApyProjected: number;
+  horizonDays: number;
+  /** False when the extra borrow exceeds the market's available liquidity */
+  fillable: boolean;
+}
+
+export function utilizationOf(totalSupply: number, totalBorrow: number): number {
+  return totalSupply > 0 ? totalBorrow / totalSupply : 0;
+}
+
+/** Normalized distance from target: −1 at 0% utilization, +1 at 100% */
+function errorOf(utilization: number): number {
+  const norm = utilization > TARGET_UTILIZATION ? 1 - TARGET_UTILIZATION : TARGET_UTILIZATION;
+  return (Math.min(utilization, 1) - TARGET_UTILIZATION) / norm;
+}
+
+function curve(rateAtTarget: number, err: number): number {
+  const coeff = err < 0 ? 1 - 1 / CURVE_STEEPNESS : CURVE_STEEPNESS - 1;
+  return (coeff * err + 1) * rateAtTarget;
+}
+
+function newRateAtTarget(start: number, linearAdaptation: number): number {
+  return Math.min(Math.max(start * Math.exp(linearAdaptation), MIN_RATE_AT_TARGET), MAX_RATE_AT_TARGET);
+}
+
+/**
+ * Average per-second borrow rate over `elapsed` seconds at a fixed
+ * utilization, and rateAtTarget at the end of the period.
+ */
+export function borrowRate(
+  utilization: number,
+  startRateAtTarget: number,
+  elapsed: number,
+): { avgRate: number; endRateAtTarget: number } {
+  const err = errorOf(utilization);
+  if (startRateAtTarget === 0) {
+    return { avgRate: curve(INITIAL_RATE_AT_TARGET, err), endRateAtTarget: INITIAL_RATE_AT_TARGET };
+  }
+
+  const linearAdaptation = ADJUSTMENT_SPEED * err * Math.max(elapsed, 0);
+  if (linearAdaptation === 0) {
+    return { avgRate: curve(startRateAtTarget, err), endRateAtTarget: startRateAtTarget };
+  }
+
+  const end = newRateAtTarget(startRateAtTarget, linearAdaptation);
+  const mid = newRateAtTarget(startRateAtTarget, linearAdaptation / 2);
+  const avgRateAtTarget = (startRateAtTarget + end + 2 * mid) / 4;
+  return { avgRate: curve(avgRateAtTarget, err), endRateAtTarget: end };
+}
+
+/** Continuously compounded per-second rate → APY in % */
+export function rateToApy(ratePerSecond: number): number {
+  return (Math.exp(ratePerSecond * SECONDS_PER_YEAR) - 1) * 100;
+}
+
+function apyToRate(apyPct: number): number {
+  return Math.log(1 + apyPct / 100) / SECONDS_PER_YEAR;
+}
+
+/**
+ * How borrowing `extraBorrow` more loan tokens moves utilization and the
+ * borrow rate. The trade lands on rateAtTarget as adapted up to `nowSec`;
+ * from there the projection holds the post-trade utilization for
+ * `horizonDays`.
+ */
+export function simulateBorrowImpact(
+  state: IrmState,
+  extraBorrow: number,
+  { nowSec = Date.now() / 1000, horizonDays = 30 }: { nowSec?: number; horizonDays?: number } = {},
+): BorrowImpact {
+  const before = utilizationOf(state.totalSupply, state.totalBorrow);
+  const after = utilizationOf(state.totalSupply, state.totalBorrow + Math.max(extraBorrow, 0));
+
+  // Accrue to now at the current utilization, as the trade's own accrueInterest would
+  const accrued = borrowRate(before, state.rateAtTarget, nowSec - state.lastUpdate);
+  const currentRate = borrowRate(before, accrued.endRateAtTarget, 0).avgRate;
+  const postTradeRate = borrowRate(after, accrued.endRateAtTarget, 0).avgRate;
+  const projected = borrowRate(after, accrued.endRateAtTarget, horizonDays * 86_400).avgRate;
+
+  return {
+    utilizationBefore: before * 100,
+    utilizationAfter: after * 100,
+    borrowApyBefore: rateToApy(currentRate),
+    borrowApyAfter: rateToApy(postTradeRate),
+    borrowApyProjected: rateToApy(projected),
+    horizonDays,
+    fillable: state.totalBorrow + extraBorrow <= state.totalSupply,
+  };
+}
+
+/**
+ * Seed from the market list. Uses the indexed rateAtTarget when present;
+ * otherwise backs it out of the current borrow APY and utilization by
+ * inverting the curve. The snapshot is treated as freshly accrued.
+ */
+export function irmStateFromMarket(
+  market: Pick<EnrichedMarket, 'totalSupply' | 'totalBorrow' | 'borrowAPY' | 'rateAtTarget'>,
+  nowSec: number = Date.now() / 1000,
+): IrmState {
+  const totalSupply = parseFloat(market.totalSupply) || 0;
+  const totalBorrow = parseFloat(market.totalBorrow) || 0;
+  let rateAtTarget = market.rateAtTarget ?? 0;
+  if (!rateAtTarget && market.borrowAPY > 0) {
+    const factor = curve(1, errorOf(utilizationOf(totalSupply, totalBorrow)));
+    rateAtTarget = factor > 0 ? apyToRate(market.borrowAPY) / factor : 0;
+  }
+  return { totalSupply, totalBorrow, rateAtTarget, lastUpdate: nowSec };
+}
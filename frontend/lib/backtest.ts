@@ -0,0 +1,239 @@
+/**
+ * backtest.ts
+ *
+ * Replays a leveraged Morpho position over historical prices. Two price
+ * series drive it: the oracle price (what Morpho liquidates on) and the
+ * market price (what the position is swapped and marked at). For wstETH
+ * markets the oracle is the Chainlink exchange rate, so staking yield shows
+ * up as oracle growth and is not added separately.
+ */
+
+import type { OracleDataPoint } from './oracleCache';
+import type { PriceData } from './supabasePriceCache';
+import type { EnrichedMarket } from './types';
+
+export type RebalancePolicy =
+  | { kind: 'none' }
+  /** Reset to the target leverage every `intervalDays` */
+  | { kind: 'periodic'; intervalDays: number }
+  /** Reset once leverage drifts more than `tolerance` (in ×) from the target */
+  | { kind: 'band'; tolerance: number };
+
+export interface BacktestPricePoint {
+  timestamp: number;
+  /** Loan-token per collateral-token on the market (swaps, equity) */
+  marketPrice: number;
+  /** Loan-token per collateral-token from the oracle (health factor) */
+  oraclePrice: number;
+}
+
+export interface BacktestInput {
+  /** Ascending, starting at the backtest start date */
+  series: BacktestPricePoint[];
+  leverage: number;
+  /** Liquidation LTV as a fraction, e.g. 0.945 */
+  lltv: number;
+  /** Borrow APY in %, applied continuously */
+  borrowApy: number;
+  policy: RebalancePolicy;
+  /** Cost of each rebalance swap, in bps of the notional traded */
+  swapCostBps: number;
+  /** Starting equity in collateral tokens */
+  deposit?: number;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  /** Position equity in loan tokens */
+  equity: number;
+  healthFactor: number;
+  leverage: number;
+}
+
+export interface LiquidationEvent {
+  timestamp: number;
+  healthFactor: number;
+  debtRepaid: number;
+  collateralSeized: number;
+  /** Equity lost to the liquidation incentive, in loan tokens */
+  penalty: number;
+}
+
+export interface BacktestResult {
+  equityCurve: EquityPoint[];
+  days: number;
+  startEquity: number;
+  endEquity: number;
+  totalReturnPct: number;
+  /** Annualized equity growth, net of borrow cost, swap costs and liquidations */
+  realizedApy: number;
+  /** Annualized return of holding the collateral unlevered, for comparison */
+  holdApy: number;
+  /** Interest paid over the backtest, in loan tokens */
+  borrowCost: number;
+  worstHealthFactor: { value: number; timestamp: number } | null;
+  liquidations: LiquidationEvent[];
+  rebalances: number;
+}
+
+const DAY_MS = 86_400_000;
+
+/** Morpho Blue: LIF = min(1.15, 1 / (1 − 0.3 × (1 − LLTV))) */
+export function liquidationIncentiveFactor(lltv: number): number {
+  return Math.min(1.15, 1 / (1 - 0.3 * (1 - lltv)));
+}
+
+function annualize(growth: number, days: number): number {
+  if (growth <= 0) return -100;
+  if (days <= 0) return 0;
+  return (Math.pow(growth, 365 / days) - 1) * 100;
+}
+
+export function runBacktest({
+  series, leverage, lltv, borrowApy, policy, swapCostBps, deposit = 1,
+}: BacktestInput): BacktestResult | null {
+  if (series.length < 2 || leverage < 1 || lltv <= 0) return null;
+
+  const cost = swapCostBps / 10_000;
+  const rate = borrowApy / 100;
+  const lif = liquidationIncentiveFactor(lltv);
+
+  const first = series[0];
+  const startEquity = deposit * first.marketPrice;
+
+  // Resize to `target` leverage at `price`, paying swap cost on the notional traded
+  const resize = (collateral: number, debt: number, price: number, target: number) => {
+    const equity = collateral * price - debt;
+    if (equity <= 0) return { collateral, debt, traded: 0 };
+    const traded = Math.abs(equity * (target - 1) - debt);
+    const net = equity - traded * cost;
+    return { collateral: (net * target) / price, debt: net * (target - 1), traded };
+  };
+
+  let { collateral, debt } = resize(deposit, 0, first.marketPrice, leverage);
+  let borrowCost = 0;
+  let rebalances = 0;
+  let lastRebalance = first.timestamp;
+  let worst: BacktestResult['worstHealthFactor'] = null;
+  const liquidations: LiquidationEvent[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  for (let i = 0; i < series.length; i++) {
+    const p = series[i];
+
+    if (i > 0) {
+      const dtYears = (p.timestamp - series[i - 1].timestamp) / (365 * DAY_MS);
+      const interest = debt * (Math.exp(rate * dtYears) - 1);
+      debt += interest;
+      borrowCost += interest;
+    }
+
+    let healthFactor = debt > 0 ? (collateral * p.oraclePrice * lltv) / debt : Infinity;
+
+    if (debt > 0 && healthFactor < 1) {
+      // Worst case: the whole debt is liquidated at the oracle price
+      const seized = Math.min(collateral, (debt * lif) / p.oraclePrice);
+      liquidations.push({
+        timestamp: p.timestamp,
+        healthFactor,
+        debtRepaid: debt,
+        collateralSeized: seized,
+        penalty: seized * p.marketPrice - debt,
+      });
+      if (!worst || healthFactor < worst.value) worst = { value: healthFactor, timestamp: p.timestamp };
+      collateral -= seized;
+      debt = 0;
+      healthFactor = Infinity;
+    }
+
+    const equity = collateral * p.marketPrice - debt;
+    const current = equity > 0 ? (collateral * p.marketPrice) / equity : 0;
+
+    const due = policy.kind === 'periodic'
+      ? p.timestamp - lastRebalance >= policy.intervalDays * DAY_MS
+      : policy.kind === 'band'
+        ? Math.abs(current - leverage) > policy.tolerance
+        : false;
+    if (i > 0 && due && equity > 0 && leverage > 1) {
+      ({ collateral, debt } = resize(collateral, debt, p.marketPrice, leverage));
+      healthFactor = debt > 0 ? (collateral * p.oraclePrice * lltv) / debt : Infinity;
+      lastRebalance = p.timestamp;
+      rebalances++;
+    }
+
+    if (debt > 0 && (!worst || healthFactor < worst.value)) worst = { value: healthFactor, timestamp: p.timestamp };
+
+    const marked = collateral * p.marketPrice - debt;
+    equityCurve.push({
+      timestamp: p.timestamp,
+      equity: marked,
+      healthFactor,
+      leverage: marked > 0 ? (collateral * p.marketPrice) / marked : 0,
+    });
+  }
+
+  const last = series[series.length - 1];
+  const days = (last.timestamp - first.timestamp) / DAY_MS;
+  const endEquity = equityCurve[equityCurve.length - 1].equity;
+
+  return {
+    equityCurve,
+    days,
+    startEquity,
+    endEquity,
+    totalReturnPct: (endEquity / startEquity - 1) * 100,
+    realizedApy: annualize(endEquity / startEquity, days),
+    holdApy: annualize(last.marketPrice / first.marketPrice, days),
+    borrowCost,
+    worstHealthFactor: worst,
+    liquidations,
+    rebalances,
+  };
+}
+
+// ── Inputs ─────────────────────────────────────────────────
+
+/** Historical prices are only cached for wstETH and ETH, so only wstETH/WETH markets can be replayed */
+export function isBacktestable(market: Pick<EnrichedMarket, 'collateralSymbol' | 'loanSymbol'>): boolean {
+  return market.collateralSymbol === 'wstETH' && market.loanSymbol === 'WETH';
+}
+
+/** Default one-year window for the backtest form, as YYYY-MM-DD */
+export function backtestDateBounds(now: number = Date.now()): { min: string; max: string } {
+  const day = (ts: number) => new Date(ts).toISOString().slice(0, 10);
+  return { min: day(now - 365 * DAY_MS), max: day(now) };
+}
+
+/** Last value at or before `ts` in an ascending [ts, value][] series */
+function valueAt(points: [number, number][], ts: number, from: { i: number }): number | null {
+  while (from.i + 1 < points.length && points[from.i + 1][0] <= ts) from.i++;
+  return points[from.i] && points[from.i][0] <= ts ? points[from.i][1] : null;
+}
+
+/**
+ * Daily wstETH/ETH series from the DeFiLlama price cache, with the oracle
+ * taken from the Chainlink exchange-rate rounds when available and the
+ * market ratio otherwise (market-price oracles).
+ */
+export function buildWstethSeries(
+  prices: Pick<PriceData, 'wstethPrices' | 'ethPrices'>,
+  oracleRounds: OracleDataPoint[] | null,
+  startTs: number,
+): BacktestPricePoint[] {
+  const eth = { i: 0 };
+  const oracle = { i: 0 };
+  const rounds: [number, number][] = (oracleRounds ?? [])
+    .map(r => [r.timestamp * 1000, r.rate] as [number, number])
+    .sort((a, b) => a[0] - b[0]);
+
+  const series: BacktestPricePoint[] = [];
+  for (const [ts, wstethUsd] of prices.wstethPrices) {
+    if (ts < startTs) continue;
+    const ethUsd = valueAt(prices.ethPrices, ts, eth);
+    if (!ethUsd || !wstethUsd) continue;
+    const marketPrice = wstethUsd / ethUsd;
+    const rate = rounds.length > 0 ? valueAt(rounds, ts, oracle) : null;
+    series.push({ timestamp: ts, marketPrice, oraclePrice: rate ?? marketPrice });
+  }
+  return series;
+}
@@ -0,0 +1,204 @@
+/**
+ * blockResolver.ts
+ *
+ * Exact timestamp → block resolution. Each lookup bisects between block
+ * headers already seen (pivoting on an interpolated guess, falling back to
+ * the midpoint when that stalls) until it finds the last block at or before
+ * the timestamp. Headers seen by one lookup narrow the next, so a run of
+ * nearby timestamps costs a few header reads each. Results are cached in
+ * the Supabase `block_timestamps` table, keyed by chain and target
+ * timestamp, so refreshers that sample on a fixed grid only resolve new
+ * grid points.
+ */
+
+import type { Block } from 'viem';
+import { supabase } from './supabase';
+import type { RpcChain } from './rpcPool';
+
+export interface ResolvedBlock {
+  number: bigint;
+  /** Unix seconds of the block itself — at or before the requested timestamp */
+  timestamp: number;
+}
+
+export interface BlockResolver {
+  chain: RpcChain;
+  /** Last block at or before `ts` (unix seconds); the head for future timestamps */
+  blockAt(ts: number): Promise<ResolvedBlock>;
+  /** `blockAt` for many timestamps, sharing one cache round-trip */
+  blocksAt(timestamps: number[]): Promise<ResolvedBlock[]>;
+}
+
+interface HeaderClient {
+  getBlock(args?: { blockNumber?: bigint }): Promise<Pick<Block, 'number' | 'timestamp'>>;
+}
+
+const CACHE_CHUNK = 500;
+/** Lookups in flight at once */
+const SEARCH_CONCURRENCY = 10;
+
+/** Round down to a grid so repeated runs ask for — and hit the cache on — the same timestamps */
+export function alignTimestamp(ts: number, intervalSecs: number): number {
+  return Math.floor(ts / intervalSecs) * intervalSecs;
+}
+
+/**
+ * Resolver over one chain. `head` seeds the upper bound when the caller
+ * already read it; `cache: false` skips Supabase, e.g. in the browser.
+ */
+export function createBlockResolver(
+  chain: RpcChain,
+  client: HeaderClient,
+  { head, cache = true }: { head?: ResolvedBlock; cache?: boolean } = {},
+): BlockResolver {
+  // Headers seen so far, ascending by number
+  const anchors: ResolvedBlock[] = head ? [head] : [];
+  const memo = new Map<number, Promise<ResolvedBlock>>();
+  let headPromise: Promise<ResolvedBlock> | null = head ? Promise.resolve(head) : null;
+  let genesisPromise: Promise<ResolvedBlock> | null = null;
+
+  const toResolved = (b: Pick<Block, 'number' | 'timestamp'>): ResolvedBlock => ({ number: b.number!, timestamp: Number(b.timestamp) });
+
+  function addAnchor(b: ResolvedBlock) {
+    let lo = 0, hi = anchors.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (anchors[mid].number < b.number) lo = mid + 1; else hi = mid;
+    }
+    if (anchors[lo]?.number !== b.number) anchors.splice(lo, 0, b);
+  }
+
+  async function header(blockNumber?: bigint): Promise<ResolvedBlock> {
+    const b = toResolved(await client.getBlock(blockNumber === undefined ? undefined : { blockNumber }));
+    addAnchor(b);
+    return b;
+  }
+
+  /** Tightest known headers around `ts`: lo.timestamp ≤ ts < hi.timestamp */
+  function bracket(ts: number): { lo: ResolvedBlock | null; hi: ResolvedBlock | null } {
+    let lo: ResolvedBlock | null = null;
+    for (const a of anchors) {
+      if (a.timestamp <= ts) lo = a;
+      else return { lo, hi: a };
+    }
+    return { lo, hi: null };
+  }
+
+  /** The answer plus whether it can't change — false for timestamps past the head */
+  async function search(ts: number): Promise<{ block: ResolvedBlock; final: boolean }> {
+    const head = await (headPromise ??= header().catch(err => { headPromise = null; throw err; }));
+    if (ts >= head.timestamp) return { block: head, final: false };
+    const genesis = await (genesisPromise ??= header(0n).catch(err => { genesisPromise = null; throw err; }));
+    if (ts < genesis.timestamp) return { block: genesis, final: true };
+
+    let { lo, hi } = bracket(ts);
+    let lastSpan = 0n;
+    while (lo && hi && hi.number - lo.number > 1n) {
+      const span = hi.number - lo.number;
+      // Interpolate while it keeps halving the bracket, bisect otherwise
+      let pivot = span * 2n > lastSpan && lastSpan > 0n
+        ? lo.number + span / 2n
+        : lo.number + (span * BigInt(ts - lo.timestamp)) / BigInt(Math.max(hi.timestamp - lo.timestamp, 1));
+      if (pivot <= lo.number) pivot = lo.number + 1n;
+      if (pivot >= hi.number) pivot = hi.number - 1n;
+      lastSpan = span;
+
+      const b = await header(pivot);
+      if (b.timestamp <= ts) lo = b; else hi = b;
+    }
+    return { block: lo!, final: true };
+  }
+
+  async function loadCached(timestamps: number[]): Promise<Map<number, ResolvedBlock>> {
+    const found = new Map<number, ResolvedBlock>();
+    for (let i = 0; i < timestamps.length; i += CACHE_CHUNK) {
+      const { data, error } = await supabase
+        .from('block_timestamps')
+        .select('timestamp, block_number, block_timestamp')
+        .eq('chain', chain)
+        .in('timestamp', timestamps.slice(i, i + CACHE_CHUNK));
+      if (error) {
+        console.warn(`[blockResolver] ${chain}: cache read failed:`, error.message);
+        return found;
+      }
+      for (const row of data ?? []) {
+        found.set(Number(row.timestamp), { number: BigInt(row.block_number), timestamp: Number(row.block_timestamp) });
+      }
+    }
+    return found;
+  }
+
+  // A failed cache write only costs a re-resolve next run
+  async function storeCached(rows: { timestamp: number; block: ResolvedBlock }[]): Promise<void> {
+    for (let i = 0; i < rows.length; i += CACHE_CHUNK) {
+      const { error } = await supabase
+        .from('block_timestamps')
+        .upsert(rows.slice(i, i + CACHE_CHUNK).map(r => ({
+          chain,
+          timestamp: r.timestamp,
+          block_number: Number(r.block.number),
+          block_timestamp: r.block.timestamp,
+        })), { onConflict: 'chain,timestamp' });
+      if (error) {
+        console.warn(`[blockResolver] ${chain}: cache write failed:`, error.message);
+        return;
+      }
+    }
+  }
+
+  type Outcome = { block: ResolvedBlock; final: boolean } | Error;
+
+  // Ascending, a few at a time, so each group starts from the headers the previous one read
+  async function resolveAll(timestamps: number[]): Promise<Map<number, Outcome>> {
+    const outcomes = new Map<number, Outcome>();
+    const sorted = [...timestamps].sort((x, y) => x - y);
+    for (let i = 0; i < sorted.length; i += SEARCH_CONCURRENCY) {
+      const group = sorted.slice(i, i + SEARCH_CONCURRENCY);
+      const settled = await Promise.allSettled(group.map(search));
+      settled.forEach((r, j) => outcomes.set(
+        group[j],
+        r.status === 'fulfilled' ? r.value : r.reason instanceof Error ? r.reason : new Error(String(r.reason)),
+      ));
+    }
+    if (cache) {
+      await storeCached([...outcomes].flatMap(([timestamp, o]) => (o instanceof Error || !o.final ? [] : [{ timestamp, block: o.block }])));
+    }
+    return outcomes;
+  }
+
+  async function blocksAt(timestamps: number[]): Promise<ResolvedBlock[]> {
+    const targets = timestamps.map(Math.floor);
+    const fresh = [...new Set(targets)].filter(ts => !memo.has(ts));
+
+    if (fresh.length > 0) {
+      const cached = cache ? await loadCached(fresh) : new Map<number, ResolvedBlock>();
+      const toSearch: number[] = [];
+      for (const ts of fresh) {
+        if (memo.has(ts)) continue;
+        const hit = cached.get(ts);
+        if (hit) memo.set(ts, Promise.resolve(hit));
+        else toSearch.push(ts);
+      }
+
+      const task = resolveAll(toSearch);
+      for (const ts of toSearch) {
+        memo.set(ts, task.then(outcomes => {
+          const o = outcomes.get(ts)!;
+          if (o instanceof Error) {
+            memo.delete(ts); // retry on the next call
+            throw o;
+          }
+          return o.block;
+        }));
+      }
+    }
+
+    return Promise.all(targets.map(ts => memo.get(ts)!));
+  }
+
+  return {
+    chain,
+    blockAt: async (ts) => (await blocksAt([ts]))[0],
+    blocksAt,
+  };
+}
@@ -6,7 +6,7 @@ export const CHAIN_CONFIG: Record<ChainSlug, ChainMeta> = {
     name: 'Ethereum',
     chainId: 1,
     color: '#627EEA',
-    rpcUrl: 'https://eth.llamarpc.com',
+    rpcUrls: ['https://eth.llamarpc.com', 'https://ethereum-rpc.publicnode.com'],
     blockExplorer: 'https://etherscan.io',
   },
   base: {
@@ -14,7 +14,7 @@ export const CHAIN_CONFIG: Record<ChainSlug, ChainMeta> = {
     name: 'Base',
     chainId: 8453,
     color: '#0052FF',
-    rpcUrl: 'https://mainnet.base.org',
+    rpcUrls: ['https://mainnet.base.org', 'https://base-rpc.publicnode.com'],
     blockExplorer: 'https://basescan.org',
   },
   arbitrum: {
@@ -22,7 +22,7 @@ export const CHAIN_CONFIG: Record<ChainSlug, ChainMeta> = {
     name: 'Arbitrum',
     chainId: 42161,
     color: '#28A0F0',
-    rpcUrl: 'https://arb1.arbitrum.io/rpc',
+    rpcUrls: ['https://arb1.arbitrum.io/rpc', 'https://arbitrum-one-rpc.publicnode.com'],
     blockExplorer: 'https://arbiscan.io',
   },
   polygon: {
@@ -30,7 +30,7 @@ export const CHAIN_CONFIG: Record<ChainSlug, ChainMeta> = {
     name: 'Polygon',
     chainId: 137,
     color: '#8247E5',
-    rpcUrl: 'https://polygon-rpc.com',
+    rpcUrls: ['https://polygon-rpc.com', 'https://polygon-bor-rpc.publicnode.com'],
     blockExplorer: 'https://polygonscan.com',
   },
 };
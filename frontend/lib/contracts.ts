@@ -3,28 +3,52 @@ import type { ChainSlug } from './types';
 
 export interface ChainContracts {
   morphoBlue: Address;
-  leverageHelper: Address | null;
+  /** Wrapped form of the gas token (WETH, WPOL); swap routes price gas through it */
+  wrappedNative: Address;
+  /** Chain the wallet signs on — the contract.dev fork for Base, the chain itself elsewhere */
+  executionChainId: number;
+  /**
+   * Leverage helpers by lowercase market ID. Market params are immutables, so each
+   * tradeable market needs its own deployment; markets without one are read-only.
+   */
+  leverageHelpers: Record<string, Address>;
 }
 
 export const CHAIN_CONTRACTS: Record<ChainSlug, ChainContracts> = {
   ethereum: {
     morphoBlue: '0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb',
-    leverageHelper: null,
+    wrappedNative: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    executionChainId: 1,
+    leverageHelpers: {},
   },
   base: {
     morphoBlue: '0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb',
-    leverageHelper: '0x888D8Eb72c4526427723c0142b29085a02ef4e45',
+    wrappedNative: '0x4200000000000000000000000000000000000006',
+    executionChainId: 18133,
+    leverageHelpers: {
+      // wstETH / WETH
+      '0x3a4048c64ba1b375330d376b1ce40e4047d03b47ab4d48af484edec9fec801ba': '0x3B02FC1f1BC9DAC3894EE0F465b839C6E28D1F46',
+    },
   },
   arbitrum: {
-    morphoBlue: '0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb',
-    leverageHelper: null,
+    morphoBlue: '0x6c247b1F6182318877311737BaC0844bAa518F5e',
+    wrappedNative: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+    executionChainId: 42161,
+    leverageHelpers: {},
   },
   polygon: {
-    morphoBlue: '0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb',
-    leverageHelper: null,
+    morphoBlue: '0x1bF0c2541F820E775182832f06c0B7Fc27A25f67',
+    wrappedNative: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+    executionChainId: 137,
+    leverageHelpers: {},
   },
 };
 
+/** True when at least one market on the chain can be traded */
+export function hasLeverageHelpers(slug: ChainSlug): boolean {
+  return Object.keys(CHAIN_CONTRACTS[slug].leverageHelpers).length > 0;
+}
+
 export {
   ERC20_ABI,
   MORPHO_FLASH_LOAN_HELPER_ABI,
@@ -0,0 +1,251 @@
+/**
+ * cron.ts
+ *
+ * Shared plumbing for the /api/cron/* routes: request auth, morpho_data
+ * persistence and the refresh_runs log. Each job wraps one refresher and
+ * writes its output under the key loadData() reads.
+ */
+
+import { supabase } from './supabase';
+import { refreshAllMarkets, type RateHistoryRow } from './refreshMarkets';
+import { refreshAllTokenRates } from './refreshTokenRates';
+import { refreshAllAnalysis, type AnalysisSummary, type DepegHistoryRow } from './refreshAnalysis';
+import { indexOracleFeeds } from './oracleIndexer';
+import type { RpcProviderUsage } from './rpcPool';
+
+export const CRON_JOBS = ['refresh-markets', 'refresh-token-rates', 'refresh-analysis', 'index-oracles'] as const;
+export type CronJob = typeof CRON_JOBS[number];
+
+export interface CronFailure {
+  chain: string;
+  error: string;
+}
+
+export interface CronRun {
+  job: CronJob;
+  ok: boolean;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  counts: Record<string, number>;
+  failures: CronFailure[];
+  /** RPC providers that served the job; empty for jobs that don't read chain state */
+  providers: RpcProviderUsage[];
+  /** Set when the job threw and nothing was persisted */
+  error?: string;
+}
+
+// ── Auth ─────────────────────────────────────────────────────
+
+/**
+ * Vercel Cron sends `Authorization: Bearer $CRON_SECRET`.
+ * Without a configured secret every request is rejected.
+ */
+export function isAuthorizedCron(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.warn('[cron] CRON_SECRET is not set — rejecting request');
+    return false;
+  }
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+// ── Persistence ──────────────────────────────────────────────
+
+export async function readMorphoData<T>(key: string): Promise<T | null> {
+  const { data, error } = await supabase
+    .from('morpho_data')
+    .select('data')
+    .eq('key', key)
+    .single();
+
+  if (error || !data?.data) return null;
+  return data.data as T;
+}
+
+export async function writeMorphoData(key: string, data: unknown): Promise<void> {
+  const { error } = await supabase
+    .from('morpho_data')
+    .upsert({ key, data, updated_at: new Date().toISOString() }, { onConflict: 'key' });
+
+  if (error) throw new Error(`morpho_data[${key}]: ${error.message}`);
+}
+
+async function upsertDepegRows(rows: DepegHistoryRow[]): Promise<void> {
+  // Batch upsert in chunks of 500
+  for (let i = 0; i < rows.length; i += 500) {
+    const chunk = rows.slice(i, i + 500);
+    const { error } = await supabase
+      .from('oracle_depeg_history')
+      .upsert(chunk, { onConflict: 'market_id,timestamp_ms' });
+    if (error) throw new Error(`oracle_depeg_history: ${error.message}`);
+  }
+}
+
+async function upsertRateRows(rows: RateHistoryRow[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += 500) {
+    const chunk = rows.slice(i, i + 500);
+    const { error } = await supabase
+      .from('market_rate_history')
+      .upsert(chunk, { onConflict: 'market_id,timestamp_ms' });
+    if (error) throw new Error(`market_rate_history: ${error.message}`);
+  }
+}
+
+/**
+ * Incremental analysis runs skip oracle groups that are already up to date,
+ * so their markets are missing from the fresh output. Keep the previous
+ * entry for those, but drop markets that are no longer listed.
+ */
+function mergeAnalysis(
+  previous: Record<string, AnalysisSummary[]> | null,
+  next: Record<string, AnalysisSummary[]>,
+  liveMarketIds: Set<string>,
+): Record<string, AnalysisSummary[]> {
+  const merged: Record<string, AnalysisSummary[]> = {};
+  const chains = new Set([...Object.keys(previous ?? {}), ...Object.keys(next)]);
+
+  for (const chain of chains) {
+    const fresh = next[chain] ?? [];
+    const freshIds = new Set(fresh.map(r => r.market_id));
+    const kept = (previous?.[chain] ?? []).filter(r => !freshIds.has(r.market_id) && liveMarketIds.has(r.market_id));
+    if (fresh.length + kept.length > 0) merged[chain] = [...fresh, ...kept];
+  }
+
+  return merged;
+}
+
+/** Append a run to refresh_runs. A logging failure never fails the job. */
+async function recordRun(run: CronRun): Promise<void> {
+  const { error } = await supabase.from('refresh_runs').insert({
+    job: run.job,
+    ok: run.ok,
+    started_at: run.startedAt,
+    finished_at: run.finishedAt,
+    duration_ms: run.durationMs,
+    counts: run.counts,
+    failures: run.failures,
+    providers: run.providers,
+    error: run.error ?? null,
+  });
+  if (error) console.error(`[cron] Failed to record ${run.job} run:`, error.message);
+}
+
+// ── Jobs ─────────────────────────────────────────────────────
+
+async function runCronJob(
+  job: CronJob,
+  fn: () => Promise<{ counts: Record<string, number>; failures: CronFailure[]; providers?: RpcProviderUsage[] }>,
+): Promise<CronRun> {
+  const started = Date.now();
+  let run: Omit<CronRun, 'finishedAt' | 'durationMs'>;
+
+  try {
+    const { counts, failures, providers = [] } = await fn();
+    run = { job, ok: true, startedAt: new Date(started).toISOString(), counts, failures, providers };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    run = { job, ok: false, startedAt: new Date(started).toISOString(), counts: {}, failures: [], providers: [], error: message };
+  }
+
+  const finished = Date.now();
+  const result: CronRun = { ...run, finishedAt: new Date(finished).toISOString(), durationMs: finished - started };
+  const status = result.ok ? `ok, ${result.failures.length} failures` : `failed: ${result.error}`;
+  console.log(`[cron] ${job} ${status} (${(result.durationMs / 1000).toFixed(1)}s)`);
+  await recordRun(result);
+  return result;
+}
+
+export function runRefreshMarkets(): Promise<CronRun> {
+  return runCronJob('refresh-markets', async () => {
+    const { data, rateRows, summary } = await refreshAllMarkets();
+    const counts: Record<string, number> = {};
+    for (const s of summary) counts[s.chain] = s.count;
+
+    // Refuse to overwrite good data with an empty snapshot
+    if (summary.every(s => s.count === 0)) {
+      throw new Error('No markets returned for any chain');
+    }
+
+    await writeMorphoData('markets_all_chains', data);
+
+    // The market list is the job's output; a failed history write is logged, not fatal
+    const failures = summary.filter(s => s.error).map(s => ({ chain: s.chain, error: s.error! }));
+    try {
+      await upsertRateRows(rateRows);
+      counts.rateSamples = rateRows.length;
+    } catch (err: unknown) {
+      failures.push({ chain: 'all', error: err instanceof Error ? err.message : 'Unknown error' });
+    }
+    return { counts, failures };
+  });
+}
+
+export function runRefreshTokenRates(): Promise<CronRun> {
+  return runCronJob('refresh-token-rates', async () => {
+    const { timestamp, rates, failures, providers } = await refreshAllTokenRates();
+    await writeMorphoData('token_rates', { timestamp, rates });
+    return {
+      counts: { tokens: rates.length, fallbacks: failures.length },
+      failures: failures.map(f => ({ chain: f.chain, error: `${f.token}: ${f.error}` })),
+      providers,
+    };
+  });
+}
+
+export function runRefreshAnalysis(): Promise<CronRun> {
+  return runCronJob('refresh-analysis', async () => {
+    const { ethAnalysis, stableAnalysis, depegRows, skipped, failures, providers } = await refreshAllAnalysis();
+
+    const [markets, prevEth, prevStable] = await Promise.all([
+      readMorphoData<Record<string, { marketId: string }[]>>('markets_all_chains'),
+      readMorphoData<Record<string, AnalysisSummary[]>>('eth_pairs_analysis'),
+      readMorphoData<Record<string, AnalysisSummary[]>>('stable_pairs_analysis'),
+    ]);
+    const liveIds = new Set(Object.values(markets ?? {}).flat().map(m => m.marketId));
+
+    await upsertDepegRows(depegRows);
+    const eth = mergeAnalysis(prevEth, ethAnalysis, liveIds);
+    const stable = mergeAnalysis(prevStable, stableAnalysis, liveIds);
+    await writeMorphoData('eth_pairs_analysis', eth);
+    await writeMorphoData('stable_pairs_analysis', stable);
+
+    return {
+      counts: {
+        ethPairs: Object.values(eth).flat().length,
+        stablePairs: Object.values(stable).flat().length,
+        depegRows: depegRows.length,
+        skippedOracles: skipped,
+      },
+      failures,
+      providers,
+    };
+  });
+}
+
+/** Rounds are written as they're indexed, so a run cut short by its budget still counts */
+export function runIndexOracles(): Promise<CronRun> {
+  return runCronJob('index-oracles', async () => {
+    const { feeds, providers } = await indexOracleFeeds();
+    if (feeds.every(f => f.error)) throw new Error(`No feed indexed: ${feeds[0]?.error ?? 'no feeds configured'}`);
+    return {
+      counts: {
+        rounds: feeds.reduce((n, f) => n + f.rounds, 0),
+        feeds: feeds.length,
+        behind: feeds.filter(f => !f.caughtUp).length,
+      },
+      failures: feeds.filter(f => f.error).map(f => ({ chain: f.chain, error: `${f.pair}: ${f.error}` })),
+      providers,
+    };
+  });
+}
+
+/** Markets feed analysis, so analysis only runs on a fresh market list. */
+export async function runPipeline(): Promise<CronRun[]> {
+  const markets = await runRefreshMarkets();
+  const rates = await runRefreshTokenRates();
+  const oracles = await runIndexOracles();
+  if (!markets.ok) return [markets, rates, oracles];
+  const analysis = await runRefreshAnalysis();
+  return [markets, rates, oracles, analysis];
+}
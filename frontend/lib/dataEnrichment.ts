@@ -1,23 +1,7 @@
 import type { ChainSlug, RawMarket, RawTokenRate, RawLeverageAnalysis, EnrichedMarket, ChainSummary, OracleCategory } from './types';
 import { CHAIN_CONFIG } from './chains';
-
-/**
- * Mapping from wrapped/derivative token symbols to the base symbol
- * used in token_rates_onchain.json
- */
-const WRAPPED_TOKEN_MAP: Record<string, string> = {
-  wstETH: 'wstETH',
-  weETH: 'weETH',
-  cbETH: 'cbETH',
-  rETH: 'rETH',
-  wrsETH: 'wrsETH',
-  wsuperOETHb: 'wsuperOETHb',
-  stMATIC: 'stMATIC',
-  sUSDe: 'sUSDe',
-  sDAI: 'sDAI',
-  USDbC: 'USDbC',
-  // Fallback: exact match is tried first
-};
+import { maxDeployableSize } from './positionSize';
+import { DEFAULT_TOKEN_REGISTRY } from './tokenRegistry';
 
 export function computeROE(
   collateralYield: number,
@@ -38,8 +22,8 @@ function findTokenRate(symbol: string, tokenRates: RawTokenRate[]): RawTokenRate
   const direct = tokenRates.find(r => r.token === symbol);
   if (direct) return direct;
 
-  // Wrapped mapping
-  const mapped = WRAPPED_TOKEN_MAP[symbol];
+  // Registry alias, e.g. a wrapper priced by its underlying
+  const mapped = DEFAULT_TOKEN_REGISTRY.bySymbol(symbol)?.symbol;
   if (mapped && mapped !== symbol) {
     return tokenRates.find(r => r.token === mapped);
   }
@@ -104,6 +88,18 @@ export function enrichMarkets(
       const moderateLev = analysis ? analysis.moderate_leverage : Math.min(maxLeverage * 0.55, 8);
       const aggressiveLev = analysis ? analysis.aggressive_leverage : Math.min(maxLeverage * 0.8, 14);
 
+      // Sized against market liquidity only; the swap venue isn't known per market
+      const sizeLimits = {
+        totalSupply: parseFloat(market.totalSupplyAssets) || 0,
+        totalBorrow: parseFloat(market.totalBorrowAssets) || 0,
+      };
+      const tier = (leverage: number) => ({
+        leverage,
+        roe: computeROE(collateralYield, market.supplyAPY, market.borrowAPY, leverage),
+        healthFactor: computeHealthFactor(leverage, lltv),
+        maxDeposit: maxDeployableSize(leverage, sizeLimits).maxEquity,
+      });
+
       const enriched: EnrichedMarket = {
         marketId: market.marketId,
         chainSlug: chainSlug as ChainSlug,
@@ -113,6 +109,8 @@ export function enrichMarkets(
         loanSymbol: market.loanTokenSymbol,
         collateralAddress: market.marketParams.collateralToken,
         loanAddress: market.marketParams.loanToken,
+        collateralDecimals: market.collateralTokenDecimals ?? 18,
+        loanDecimals: market.loanTokenDecimals ?? 18,
         oracleAddress: market.marketParams.oracle,
         oracleType: market.oracleType,
         oracleCategory: (analysis?.oracle_category || 'EXCHANGE_RATE') as OracleCategory,
@@ -128,23 +126,13 @@ export function enrichMarkets(
         totalBorrow: market.totalBorrowAssets,
         utilization: market.utilizationRate,
         availableLiquidity: market.availableLiquidity,
+        rateAtTarget: market.rateAtTarget ?? null,
         maxDepeg: analysis ? analysis.max_depeg_percentage : 0,
+        maxBorrowable: maxDeployableSize(1, sizeLimits).maxBorrow,
         roe: {
-          conservative: {
-            leverage: conservativeLev,
-            roe: computeROE(collateralYield, market.supplyAPY, market.borrowAPY, conservativeLev),
-            healthFactor: computeHealthFactor(conservativeLev, lltv),
-          },
-          moderate: {
-            leverage: moderateLev,
-            roe: computeROE(collateralYield, market.supplyAPY, market.borrowAPY, moderateLev),
-            healthFactor: computeHealthFactor(moderateLev, lltv),
-          },
-          aggressive: {
-            leverage: aggressiveLev,
-            roe: computeROE(collateralYield, market.supplyAPY, market.borrowAPY, aggressiveLev),
-            healthFactor: computeHealthFactor(aggressiveLev, lltv),
-          },
+          conservative: tier(conservativeLev),
+          moderate: tier(moderateLev),
+          aggressive: tier(aggressiveLev),
         },
       };
 
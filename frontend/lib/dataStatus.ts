@@ -0,0 +1,136 @@
+/**
+ * dataStatus.ts
+ *
+ * Freshness report for /api/status: last run of each refresher from
+ * refresh_runs, age of each morpho_data key, and whether loadData() is
+ * currently serving Supabase or the static JSON fallback.
+ */
+
+import { supabase } from './supabase';
+import { CRON_JOBS, type CronFailure, type CronJob } from './cron';
+import type { RpcProviderUsage } from './rpcPool';
+import { MORPHO_DATA_KEYS, summarizeFreshness, type DataFreshness, type KeyFreshness, type MorphoDataKey } from './loadData';
+
+export interface RefresherStatus {
+  job: CronJob;
+  lastSuccess: {
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    counts: Record<string, number>;
+    failures: CronFailure[];
+    providers: RpcProviderUsage[];
+  } | null;
+  /** Most recent run regardless of outcome, so a failing job is visible */
+  lastRun: { finishedAt: string; ok: boolean; error: string | null } | null;
+}
+
+export interface KeyStatus extends KeyFreshness {
+  key: MorphoDataKey;
+  ageSeconds: number | null;
+}
+
+export interface DataStatus {
+  checkedAt: string;
+  source: DataFreshness['source'];
+  /** Oldest Supabase-served key, as shown by FreshnessBadge */
+  updatedAt: string | null;
+  ageSeconds: number | null;
+  refreshers: RefresherStatus[];
+  keys: KeyStatus[];
+}
+
+async function getRefresherStatus(job: CronJob): Promise<RefresherStatus> {
+  const [success, latest] = await Promise.all([
+    supabase
+      .from('refresh_runs')
+      .select('started_at, finished_at, duration_ms, counts, failures, providers')
+      .eq('job', job)
+      .eq('ok', true)
+      .order('finished_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('refresh_runs')
+      .select('finished_at, ok, error')
+      .eq('job', job)
+      .order('finished_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (success.error) throw new Error(`refresh_runs: ${success.error.message}`);
+  if (latest.error) throw new Error(`refresh_runs: ${latest.error.message}`);
+
+  return {
+    job,
+    lastSuccess: success.data ? {
+      startedAt: success.data.started_at,
+      finishedAt: success.data.finished_at,
+      durationMs: success.data.duration_ms,
+      counts: success.data.counts ?? {},
+      failures: success.data.failures ?? [],
+      providers: success.data.providers ?? [],
+    } : null,
+    lastRun: latest.data ? {
+      finishedAt: latest.data.finished_at,
+      ok: latest.data.ok,
+      error: latest.data.error,
+    } : null,
+  };
+}
+
+/**
+ * Mirrors loadData(): a key is served from Supabase when its row exists,
+ * otherwise from public/data. Only reads updated_at, not the payloads.
+ */
+async function getKeyFreshness(): Promise<Record<MorphoDataKey, KeyFreshness>> {
+  const keys = Object.keys(MORPHO_DATA_KEYS) as MorphoDataKey[];
+  const rows = new Map<string, string | null>();
+
+  try {
+    const { data, error } = await supabase
+      .from('morpho_data')
+      .select('key, updated_at')
+      .in('key', keys)
+      .not('data', 'is', null);
+    if (!error) for (const r of data ?? []) rows.set(r.key, r.updated_at ?? null);
+  } catch {
+    // Supabase unavailable — every key falls back
+  }
+
+  const result = {} as Record<MorphoDataKey, KeyFreshness>;
+  for (const key of keys) {
+    result[key] = rows.has(key)
+      ? { source: 'supabase', updatedAt: rows.get(key) ?? null }
+      : { source: 'fallback', updatedAt: null };
+  }
+  return result;
+}
+
+export async function getDataStatus(): Promise<DataStatus> {
+  const now = Date.now();
+  const [refreshers, keyFreshness] = await Promise.all([
+    Promise.all(CRON_JOBS.map(getRefresherStatus)),
+    getKeyFreshness(),
+  ]);
+
+  const keys = (Object.keys(keyFreshness) as MorphoDataKey[]).map(key => {
+    const meta = keyFreshness[key];
+    return {
+      key,
+      ...meta,
+      ageSeconds: meta.updatedAt ? Math.round((now - Date.parse(meta.updatedAt)) / 1000) : null,
+    };
+  });
+
+  const { source, updatedAt, ageSeconds } = summarizeFreshness(keyFreshness);
+  return {
+    checkedAt: new Date(now).toISOString(),
+    source,
+    updatedAt,
+    ageSeconds,
+    refreshers,
+    keys,
+  };
+}
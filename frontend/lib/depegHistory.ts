@@ -0,0 +1,50 @@
+/**
+ * depegHistory.ts
+ *
+ * Reads the per-market oracle vs intrinsic price series that
+ * refreshAllAnalysis stores in the oracle_depeg_history table.
+ */
+
+import { supabase } from './supabase';
+import type { DepegHistoryRow } from './refreshAnalysis';
+
+const PAGE_SIZE = 1000; // Supabase default max rows per request
+
+/**
+ * Load every stored sample for a market, oldest first.
+ * A 180-day backfill at 12 samples/day exceeds one page, so this paginates.
+ */
+export async function fetchDepegHistory(marketId: string, chain?: string): Promise<DepegHistoryRow[]> {
+  const rows: DepegHistoryRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('oracle_depeg_history')
+      .select('market_id, chain, timestamp_ms, date, block_number, oracle_price, intrinsic_price, depeg_pct')
+      .eq('market_id', marketId);
+    if (chain) query = query.eq('chain', chain);
+
+    const { data, error } = await query
+      .order('timestamp_ms', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`oracle_depeg_history: ${error.message}`);
+    if (!data || data.length === 0) break;
+    rows.push(...(data as DepegHistoryRow[]));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * The sample with the deepest negative depeg — same rule as
+ * computeMaxDepegFromRows in refreshAnalysis (most negative depeg_pct).
+ */
+export function findMaxDepegRow(rows: DepegHistoryRow[]): DepegHistoryRow | null {
+  let worst: DepegHistoryRow | null = null;
+  for (const row of rows) {
+    if (row.depeg_pct < 0 && (!worst || row.depeg_pct < worst.depeg_pct)) worst = row;
+  }
+  return worst;
+}
@@ -1,4 +1,6 @@
 import type { Address } from 'viem';
+import type { ChainSlug, EnrichedMarket } from './types';
+import { CHAIN_CONTRACTS } from './contracts';
 
 // Morpho Blue on Base
 export const MORPHO_ADDRESSES = {
@@ -7,11 +9,121 @@ export const MORPHO_ADDRESSES = {
   WSTETH: '0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452' as Address,
   WETH: '0x4200000000000000000000000000000000000006' as Address,
   UNISWAP_V3_POOL: '0x20E068D76f9E90b90604500B84c7e19dCB923e7e' as Address,
+  AERODROME_ROUTER: '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43' as Address,
+  AERODROME_POOL_FACTORY: '0x420DD381b31aEf6683db6B902084cB0FFECe40Da' as Address,
 } as const;
 
+// MorphoFlashLoan.MAX_SLIPPAGE_BPS: how far a swap's minimum output may sit below the pool's spot price
+export const HELPER_MAX_SLIPPAGE_BPS = 500;
+
 // Morpho Market ID for wstETH/WETH on Base
 export const MORPHO_MARKET_ID = '0x3a4048c64ba1b375330d376b1ce40e4047d03b47ab4d48af484edec9fec801ba' as const;
 
+/** Everything the trading flow needs to know about the selected market */
+export interface TradeMarket {
+  marketId: `0x${string}`;
+  chainSlug: ChainSlug;
+  chainId: number;
+  pair: string;
+  collateralSymbol: string;
+  loanSymbol: string;
+  collateralToken: Address;
+  loanToken: Address;
+  collateralDecimals: number;
+  loanDecimals: number;
+  oracle: Address | null; // null = resolve via idToMarketParams
+  lltv: number; // percentage, e.g. 94.5
+  collateralYield: number;
+  helper: Address | null;
+}
+
+// wstETH/WETH on Base — used until the market list has loaded
+export const DEFAULT_TRADE_MARKET: TradeMarket = {
+  marketId: MORPHO_MARKET_ID,
+  chainSlug: 'base',
+  chainId: 8453,
+  pair: 'wstETH / WETH',
+  collateralSymbol: 'wstETH',
+  loanSymbol: 'WETH',
+  collateralToken: MORPHO_ADDRESSES.WSTETH,
+  loanToken: MORPHO_ADDRESSES.WETH,
+  collateralDecimals: 18,
+  loanDecimals: 18,
+  oracle: null,
+  lltv: 94.5,
+  collateralYield: 0,
+  helper: MORPHO_ADDRESSES.LEVERAGE_HELPER,
+};
+
+/**
+ * Helper deployed for a market, from CHAIN_CONTRACTS. Stablecoin carry markets
+ * (sUSDe/USDC, sDAI/USDC, syrupUSDC/USDC) deploy the same helper with MARKET_ID /
+ * UNI_POOL / POOL_FEE set — see contracts/script/DeployMorphoFlashLoan.s.sol.
+ */
+export function getLeverageHelper(chain: ChainSlug, marketId: string): Address | null {
+  return CHAIN_CONTRACTS[chain].leverageHelpers[marketId.toLowerCase()] ?? null;
+}
+
+/**
+ * Derive the trading config from a selected market.
+ * Falls back to the wstETH/WETH market when nothing is selected yet.
+ */
+export function resolveTradeMarket(market: EnrichedMarket | null): TradeMarket {
+  if (!market) return DEFAULT_TRADE_MARKET;
+  return {
+    marketId: market.marketId as `0x${string}`,
+    chainSlug: market.chainSlug,
+    chainId: market.chainId,
+    pair: market.pair,
+    collateralSymbol: market.collateralSymbol,
+    loanSymbol: market.loanSymbol,
+    collateralToken: market.collateralAddress as Address,
+    loanToken: market.loanAddress as Address,
+    collateralDecimals: market.collateralDecimals,
+    loanDecimals: market.loanDecimals,
+    oracle: market.oracleAddress as Address,
+    lltv: market.lltv,
+    collateralYield: market.collateralYield,
+    helper: getLeverageHelper(market.chainSlug, market.marketId),
+  };
+}
+
+/**
+ * Convert a Morpho oracle price (scaled by 1e36 + loanDecimals - collateralDecimals)
+ * into loan-token units per 1 collateral token.
+ */
+export function oraclePriceToRate(price: bigint, collateralDecimals: number, loanDecimals: number): number {
+  return Number(price) / Math.pow(10, 36 + loanDecimals - collateralDecimals);
+}
+
+/**
+ * Express a loan-token debt amount in collateral-token base units at the given
+ * exchange rate (loan per collateral), accounting for differing decimals.
+ */
+export function debtInCollateral(
+  debt: bigint,
+  exchangeRate: number,
+  collateralDecimals: number,
+  loanDecimals: number
+): bigint {
+  if (exchangeRate <= 0) return 0n;
+  const scaled = (Number(debt) / exchangeRate) * Math.pow(10, collateralDecimals - loanDecimals);
+  return BigInt(Math.floor(scaled));
+}
+
+/** Result of simulatePartialDeleverage, in base units of each token */
+export interface PartialDeleveragePreview {
+  /** Debt repaid — also the flash-loan size */
+  repayAssets: bigint;
+  collateralToWithdraw: bigint;
+  /** Collateral sold to cover the flash loan */
+  swapAmount: bigint;
+  collateralReturned: bigint;
+  remainingCollateral: bigint;
+  remainingDebt: bigint;
+  healthFactor: number;
+}
+
 export const ERC20_ABI = [
   {
     inputs: [{ name: 'account', type: 'address' }],
@@ -82,6 +194,7 @@ export const MORPHO_FLASH_LOAN_HELPER_ABI = [
       { name: 'targetLeverage', type: 'uint256' },
       { name: 'userDeposit', type: 'uint256' },
       { name: 'maxSlippageBps', type: 'uint256' },
+      { name: 'minCollateralOut', type: 'uint256' },
     ],
     name: 'executeLeverage',
     outputs: [],
@@ -97,6 +210,62 @@ export const MORPHO_FLASH_LOAN_HELPER_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'targetLeverage', type: 'uint256' },
+      { name: 'extraDeposit', type: 'uint256' },
+    ],
+    name: 'simulateLeverUp',
+    outputs: [
+      { name: 'flashWethAmount', type: 'uint256' },
+      { name: 'totalCollateralWsteth', type: 'uint256' },
+      { name: 'totalDebtWeth', type: 'uint256' },
+      { name: 'estimatedHealthFactor', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'targetLeverage', type: 'uint256' },
+      { name: 'extraDeposit', type: 'uint256' },
+      { name: 'maxSlippageBps', type: 'uint256' },
+      { name: 'minCollateralOut', type: 'uint256' },
+    ],
+    name: 'executeLeverUp',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'repayAssets', type: 'uint256' },
+      { name: 'collateralToWithdraw', type: 'uint256' },
+    ],
+    name: 'simulatePartialDeleverage',
+    outputs: [
+      { name: 'wstethToSwap', type: 'uint256' },
+      { name: 'wstethReturned', type: 'uint256' },
+      { name: 'remainingCollateral', type: 'uint256' },
+      { name: 'remainingDebt', type: 'uint256' },
+      { name: 'estimatedHealthFactor', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'repayAssets', type: 'uint256' },
+      { name: 'collateralToWithdraw', type: 'uint256' },
+      { name: 'maxSlippageBps', type: 'uint256' },
+    ],
+    name: 'executePartialDeleverage',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     inputs: [{ name: 'user', type: 'address' }],
     name: 'hasAuthorization',
@@ -115,6 +284,105 @@ export const MORPHO_FLASH_LOAN_HELPER_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'UNI_POOL',
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: '', type: 'address' }],
+    name: 'swapRouters',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'userDeposit', type: 'uint256' },
+      { name: 'flashAmount', type: 'uint256' },
+      { name: 'minCollateralOut', type: 'uint256' },
+      { name: 'swapData', type: 'bytes' },
+    ],
+    name: 'executeLeverageWithSwap',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'collateralToSwap', type: 'uint256' },
+      { name: 'minWethOut', type: 'uint256' },
+      { name: 'swapData', type: 'bytes' },
+    ],
+    name: 'executeDeleverageWithSwap',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
+// Uniswap V3 pool ABI (minimal) — swap depth and quoting
+export const UNISWAP_V3_POOL_ABI = [
+  {
+    inputs: [],
+    name: 'slot0',
+    outputs: [
+      { name: 'sqrtPriceX96', type: 'uint160' },
+      { name: 'tick', type: 'int24' },
+      { name: 'observationIndex', type: 'uint16' },
+      { name: 'observationCardinality', type: 'uint16' },
+      { name: 'observationCardinalityNext', type: 'uint16' },
+      { name: 'feeProtocol', type: 'uint8' },
+      { name: 'unlocked', type: 'bool' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'liquidity',
+    outputs: [{ name: '', type: 'uint128' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'token0',
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'fee',
+    outputs: [{ name: '', type: 'uint24' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+// Morpho oracle ABI (IOracle.price)
+export const MORPHO_ORACLE_ABI = [
+  {
+    inputs: [],
+    name: 'price',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+// Morpho AdaptiveCurveIrm ABI (minimal)
+export const ADAPTIVE_CURVE_IRM_ABI = [
+  {
+    inputs: [{ name: 'id', type: 'bytes32' }],
+    name: 'rateAtTarget',
+    outputs: [{ name: '', type: 'int256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
 ] as const;
 
 // Aerodrome Pool ABI (minimal)
@@ -142,6 +410,47 @@ export const AERODROME_POOL_ABI = [
   },
 ] as const;
 
+// Aerodrome PoolFactory ABI (minimal) — resolves the stable/volatile pool for a pair
+export const AERODROME_FACTORY_ABI = [
+  {
+    inputs: [
+      { name: 'tokenA', type: 'address' },
+      { name: 'tokenB', type: 'address' },
+      { name: 'stable', type: 'bool' },
+    ],
+    name: 'getPool',
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
+
+// Aerodrome Router ABI (minimal)
+export const AERODROME_ROUTER_ABI = [
+  {
+    inputs: [
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'amountOutMin', type: 'uint256' },
+      {
+        components: [
+          { name: 'from', type: 'address' },
+          { name: 'to', type: 'address' },
+          { name: 'stable', type: 'bool' },
+          { name: 'factory', type: 'address' },
+        ],
+        name: 'routes',
+        type: 'tuple[]',
+      },
+      { name: 'to', type: 'address' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+    name: 'swapExactTokensForTokens',
+    outputs: [{ name: 'amounts', type: 'uint256[]' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
 // Morpho Blue Core ABI (minimal)
 export const MORPHO_ABI = [
   {
@@ -183,6 +492,20 @@ export const MORPHO_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [
+      { name: 'id', type: 'bytes32' },
+      { name: 'user', type: 'address' },
+    ],
+    name: 'position',
+    outputs: [
+      { name: 'supplyShares', type: 'uint256' },
+      { name: 'borrowShares', type: 'uint128' },
+      { name: 'collateral', type: 'uint128' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [{ name: 'id', type: 'bytes32' }],
     name: 'market',
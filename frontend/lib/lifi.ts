@@ -26,6 +26,7 @@ export interface LiFiQuote {
     fromAmount: string;
     toAmount: string;
     toAmountMin: string;
+    toAmountUSD?: string;
     approvalAddress: string;
     gasCosts: {
       type: string;
@@ -51,58 +52,63 @@ export interface LiFiQuote {
   toolDetails: any;
 }
 
-// Generate LiFi swap data for WETH -> wstETH swap (leverage)
-export async function getLiFiSwapDataLeverage(params: LiFiSwapParams): Promise<string> {
-  try {
-    // LiFi might not support Contract.dev fork chains
-    // Map fork chain IDs to real chain IDs for LiFi API
-    const realChainId = params.chainId === 18133 ? 8453 : params.chainId === 13957 ? 1 : params.chainId;
+// LiFi might not support Contract.dev fork chains
+// Map fork chain IDs to real chain IDs for LiFi API
+function lifiChainId(chainId: number): number {
+  return chainId === 18133 ? 8453 : chainId === 13957 ? 1 : chainId;
+}
 
-    // Build query parameters for GET request
-    const queryParams = new URLSearchParams({
-      fromChain: realChainId.toString(),
-      toChain: realChainId.toString(),
-      fromToken: params.fromToken,
-      toToken: params.toToken,
-      fromAmount: params.fromAmount,
-      fromAddress: params.fromAddress,
-      slippage: (params.slippage || 0.005).toString(),
-    });
+// Fetch a same-chain LiFi quote; fromAddress/toAddress is whoever executes and receives the swap
+export async function fetchLiFiQuote(params: LiFiSwapParams): Promise<LiFiQuote> {
+  const realChainId = lifiChainId(params.chainId);
+
+  const queryParams = new URLSearchParams({
+    fromChain: realChainId.toString(),
+    toChain: realChainId.toString(),
+    fromToken: params.fromToken,
+    toToken: params.toToken,
+    fromAmount: params.fromAmount,
+    fromAddress: params.fromAddress,
+    toAddress: params.toAddress,
+    slippage: (params.slippage || 0.005).toString(),
+  });
+
+  const response = await fetch(`${LIFI_API_URL}/quote?${queryParams.toString()}`, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+    },
+  });
+
+  const responseText = await response.text();
+
+  if (!response.ok) {
+    let errorMessage = `LiFi API error (${response.status})`;
+    try {
+      const errorData = JSON.parse(responseText);
+      errorMessage = errorData.message || errorMessage;
+    } catch {
+      errorMessage = responseText || errorMessage;
+    }
+    throw new Error(errorMessage);
+  }
 
-    const url = `${LIFI_API_URL}/quote?${queryParams.toString()}`;
+  return JSON.parse(responseText);
+}
 
+// Generate LiFi swap data for WETH -> wstETH swap (leverage)
+export async function getLiFiSwapDataLeverage(params: LiFiSwapParams): Promise<string> {
+  try {
     console.log('━━━ LiFi Swap Request ━━━');
     console.log('Original Chain ID:', params.chainId);
-    console.log('LiFi Chain ID:', realChainId);
+    console.log('LiFi Chain ID:', lifiChainId(params.chainId));
     console.log('From Token:', params.fromToken);
     console.log('To Token:', params.toToken);
     console.log('Amount:', params.fromAmount);
     console.log('Slippage:', params.slippage || 0.005);
-    console.log('URL:', url);
     console.log('━━━━━━━━━━━━━━━━━━━━━━━━');
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    const responseText = await response.text();
-
-    if (!response.ok) {
-      console.error('❌ LiFi API Error Response:', responseText);
-      let errorMessage = `LiFi API error (${response.status})`;
-      try {
-        const errorData = JSON.parse(responseText);
-        errorMessage = errorData.message || errorMessage;
-      } catch (e) {
-        errorMessage = responseText || errorMessage;
-      }
-      throw new Error(errorMessage);
-    }
-
-    const quote: LiFiQuote = JSON.parse(responseText);
+    const quote = await fetchLiFiQuote(params);
 
     console.log('✅ LiFi swap route generated successfully');
     console.log('Route Tool:', quote.tool || 'unknown');
@@ -150,7 +156,7 @@ export async function estimateLiFiSwap(params: Omit<LiFiSwapParams, 'fromAddress
   gasCosts: string;
 }> {
   try {
-    const realChainId = params.chainId === 18133 ? 8453 : params.chainId === 13957 ? 1 : params.chainId;
+    const realChainId = lifiChainId(params.chainId);
 
     const queryParams = new URLSearchParams({
       fromChain: realChainId.toString(),
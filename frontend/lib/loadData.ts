@@ -8,13 +8,42 @@ import { join } from 'path';
 import { supabase } from './supabase';
 import type { RawMarket, RawTokenRate, RawLeverageAnalysis } from './types';
 
+export type DataSource = 'supabase' | 'fallback';
+
+export interface KeyFreshness {
+  source: DataSource;
+  /** morpho_data.updated_at; null for the static JSON fallback */
+  updatedAt: string | null;
+}
+
+export interface DataFreshness {
+  /** 'mixed' when some keys came from Supabase and others from JSON */
+  source: DataSource | 'mixed';
+  /** Oldest updated_at across the Supabase-served keys */
+  updatedAt: string | null;
+  /** Seconds since updatedAt, measured when the data was loaded */
+  ageSeconds: number | null;
+  keys: Record<MorphoDataKey, KeyFreshness>;
+}
+
 export interface RawDataBundle {
   marketsRaw: Record<string, RawMarket[]>;
   ratesRaw: { rates: RawTokenRate[] };
   ethAnalysis: Record<string, RawLeverageAnalysis[]>;
   stableAnalysis: Record<string, RawLeverageAnalysis[]>;
+  freshness: DataFreshness;
 }
 
+/** morpho_data keys and the static JSON each one falls back to */
+export const MORPHO_DATA_KEYS = {
+  markets_all_chains: 'morpho_markets_all_chains.json',
+  token_rates: 'token_rates_onchain.json',
+  eth_pairs_analysis: 'eth_pairs_analysis.json',
+  stable_pairs_analysis: 'stable_pairs_analysis.json',
+} as const;
+
+export type MorphoDataKey = keyof typeof MORPHO_DATA_KEYS;
+
 const DATA_DIR = join(process.cwd(), 'public', 'data');
 
 /**
@@ -22,37 +51,58 @@ const DATA_DIR = join(process.cwd(), 'public', 'data');
  * Falls back to static JSON files only if Supabase is unavailable.
  */
 export async function loadData(): Promise<RawDataBundle> {
-  const [marketsRaw, ratesRaw, ethAnalysis, stableAnalysis] = await Promise.all([
-    loadFromSupabase('markets_all_chains', 'morpho_markets_all_chains.json'),
-    loadFromSupabase('token_rates', 'token_rates_onchain.json'),
-    loadFromSupabase('eth_pairs_analysis', 'eth_pairs_analysis.json'),
-    loadFromSupabase('stable_pairs_analysis', 'stable_pairs_analysis.json'),
+  const [markets, rates, eth, stable] = await Promise.all([
+    loadFromSupabase('markets_all_chains'),
+    loadFromSupabase('token_rates'),
+    loadFromSupabase('eth_pairs_analysis'),
+    loadFromSupabase('stable_pairs_analysis'),
   ]);
 
   return {
-    marketsRaw: marketsRaw as Record<string, RawMarket[]>,
-    ratesRaw: ratesRaw as { rates: RawTokenRate[] },
-    ethAnalysis: ethAnalysis as Record<string, RawLeverageAnalysis[]>,
-    stableAnalysis: stableAnalysis as Record<string, RawLeverageAnalysis[]>,
+    marketsRaw: markets.data as Record<string, RawMarket[]>,
+    ratesRaw: rates.data as { rates: RawTokenRate[] },
+    ethAnalysis: eth.data as Record<string, RawLeverageAnalysis[]>,
+    stableAnalysis: stable.data as Record<string, RawLeverageAnalysis[]>,
+    freshness: summarizeFreshness({
+      markets_all_chains: markets.meta,
+      token_rates: rates.meta,
+      eth_pairs_analysis: eth.meta,
+      stable_pairs_analysis: stable.meta,
+    }),
   };
 }
 
-async function loadFromSupabase(key: string, fallbackFile: string): Promise<unknown> {
+export function summarizeFreshness(keys: Record<MorphoDataKey, KeyFreshness>): DataFreshness {
+  const metas = Object.values(keys);
+  const fromSupabase = metas.filter(m => m.source === 'supabase');
+  const source = fromSupabase.length === metas.length ? 'supabase' : fromSupabase.length === 0 ? 'fallback' : 'mixed';
+
+  let updatedAt: string | null = null;
+  for (const m of fromSupabase) {
+    if (m.updatedAt && (!updatedAt || m.updatedAt < updatedAt)) updatedAt = m.updatedAt;
+  }
+
+  const ageSeconds = updatedAt ? Math.round((Date.now() - Date.parse(updatedAt)) / 1000) : null;
+  return { source, updatedAt, ageSeconds, keys };
+}
+
+async function loadFromSupabase(key: MorphoDataKey): Promise<{ data: unknown; meta: KeyFreshness }> {
   try {
     const { data, error } = await supabase
       .from('morpho_data')
-      .select('data')
+      .select('data, updated_at')
       .eq('key', key)
       .single();
 
     if (!error && data?.data) {
-      return data.data;
+      return { data: data.data, meta: { source: 'supabase', updatedAt: data.updated_at ?? null } };
     }
   } catch {
     // Supabase unavailable, fall through to JSON
   }
 
-  return readJsonFile(fallbackFile);
+  console.warn(`[loadData] ${key}: serving static fallback ${MORPHO_DATA_KEYS[key]}`);
+  return { data: await readJsonFile(MORPHO_DATA_KEYS[key]), meta: { source: 'fallback', updatedAt: null } };
 }
 
 async function readJsonFile(filename: string): Promise<unknown> {
@@ -26,10 +26,13 @@ interface MorphoMarketData {
  * Fetch market data from Morpho Blue API
  * Note: Using markets query with filter instead of marketByUniqueKey since the latter requires chain context
  */
-export async function fetchMorphoMarketData(marketId: string = MORPHO_MARKET_ID): Promise<MorphoMarketData | null> {
+export async function fetchMorphoMarketData(
+  marketId: string = MORPHO_MARKET_ID,
+  chainId: number = 8453
+): Promise<MorphoMarketData | null> {
   const query = `
-    query GetMarket($marketId: [String!]!) {
-      markets(where: { uniqueKey_in: $marketId, chainId_in: [8453] }) {
+    query GetMarket($marketId: [String!]!, $chainId: Int!) {
+      markets(where: { uniqueKey_in: $marketId, chainId_in: [$chainId] }) {
         items {
           uniqueKey
           lltv
@@ -55,7 +58,7 @@ export async function fetchMorphoMarketData(marketId: string = MORPHO_MARKET_ID)
       },
       body: JSON.stringify({
         query,
-        variables: { marketId: [marketId] },
+        variables: { marketId: [marketId], chainId },
       }),
     });
 
@@ -95,12 +98,12 @@ export async function fetchMorphoMarketData(marketId: string = MORPHO_MARKET_ID)
 /**
  * Get borrow and supply APY for Morpho Blue market
  */
-export async function getMorphoAPY(marketId: string = MORPHO_MARKET_ID): Promise<{
+export async function getMorphoAPY(marketId: string = MORPHO_MARKET_ID, chainId: number = 8453): Promise<{
   borrowAPY: number;
   supplyAPY: number;
   utilization: number;
 }> {
-  const marketData = await fetchMorphoMarketData(marketId);
+  const marketData = await fetchMorphoMarketData(marketId, chainId);
 
   if (!marketData) {
     // Fallback to estimated values
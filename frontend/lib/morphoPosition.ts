@@ -0,0 +1,90 @@
+/**
+ * morphoPosition.ts
+ *
+ * Reads Morpho Blue positions straight from Morpho — `position`, `market`
+ * and the oracle, batched through Multicall3 — so they don't depend on a leverage
+ * helper being deployed for the market. Debt is converted from borrow
+ * shares with SharesMathLib's virtual-shares math at the market's last
+ * accrual, and health factor comes from the oracle via positionMath.
+ */
+
+import type { Address, PublicClient } from 'viem';
+import { MORPHO_ABI, MORPHO_ORACLE_ABI, oraclePriceToRate, type TradeMarket } from './leverageContract';
+import { computePositionRisk, type PositionRisk } from './positionMath';
+
+export interface MorphoPosition {
+  address: Address;
+  /** Collateral-token base units */
+  collateral: bigint;
+  borrowShares: bigint;
+  /** Loan-token base units */
+  debt: bigint;
+  risk: PositionRisk;
+}
+
+// Morpho's SharesMathLib virtual shares and assets
+const VIRTUAL_SHARES = 1_000_000n;
+const VIRTUAL_ASSETS = 1n;
+
+/** SharesMathLib.toAssetsUp — debt owed for `shares`, rounded against the borrower */
+export function borrowSharesToAssets(shares: bigint, totalBorrowAssets: bigint, totalBorrowShares: bigint): bigint {
+  const num = shares * (totalBorrowAssets + VIRTUAL_ASSETS);
+  const den = totalBorrowShares + VIRTUAL_SHARES;
+  return (num + den - 1n) / den;
+}
+
+/** Every account's position on `market`; the market and oracle are read once for all of them */
+export async function readMorphoPositions(
+  client: PublicClient,
+  { morphoBlue, market, accounts }: { morphoBlue: Address; market: TradeMarket; accounts: Address[] },
+): Promise<MorphoPosition[]> {
+  if (accounts.length === 0) return [];
+
+  const oracle = market.oracle ?? (await client.readContract({
+    address: morphoBlue,
+    abi: MORPHO_ABI,
+    functionName: 'idToMarketParams',
+    args: [market.marketId],
+  })).oracle;
+
+  // Market state and oracle in one multicall, every account's position in another
+  const [[state, price], positions] = await Promise.all([
+    client.multicall({
+      allowFailure: false,
+      contracts: [
+        { address: morphoBlue, abi: MORPHO_ABI, functionName: 'market', args: [market.marketId] },
+        { address: oracle, abi: MORPHO_ORACLE_ABI, functionName: 'price' },
+      ],
+    }),
+    client.multicall({
+      allowFailure: false,
+      contracts: accounts.map(account => ({
+        address: morphoBlue,
+        abi: MORPHO_ABI,
+        functionName: 'position',
+        args: [market.marketId, account],
+      }) as const),
+    }),
+  ]);
+  const [, , totalBorrowAssets, totalBorrowShares] = state;
+  const oraclePrice = oraclePriceToRate(price, market.collateralDecimals, market.loanDecimals);
+
+  return accounts.map((address, i) => {
+    const [, borrowShares, collateral] = positions[i];
+    const debt = borrowSharesToAssets(borrowShares, totalBorrowAssets, totalBorrowShares);
+    return {
+      address,
+      collateral,
+      borrowShares,
+      debt,
+      risk: computePositionRisk({
+        collateral,
+        debt,
+        collateralDecimals: market.collateralDecimals,
+        loanDecimals: market.loanDecimals,
+        lltv: market.lltv / 100,
+        oraclePrice,
+      }),
+    };
+  });
+}
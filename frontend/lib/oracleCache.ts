@@ -1,7 +1,7 @@
 /**
  * oracleCache.ts
  *
- * Client-side cache for oracle round data from Dune Analytics.
+ * Client-side cache for wstETH oracle rounds indexed on-chain (oracle_rounds).
  * Caches in localStorage with a 6-hour TTL to avoid redundant API calls.
  */
 
@@ -59,7 +59,7 @@ export async function getOracleData(forceRefresh = false): Promise<OracleData> {
     };
   }
 
-  // Fetch from API (Dune Analytics — server-cached, bypass with ?refresh=1)
+  // Fetch from API (served from oracle_rounds; ?refresh=1 skips the CDN copy)
   try {
     const url = forceRefresh ? '/api/oracle-logs?refresh=1' : '/api/oracle-logs';
     const res = await fetch(url, { cache: 'no-store' });
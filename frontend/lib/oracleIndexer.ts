@@ -0,0 +1,355 @@
+/**
+ * oracleIndexer.ts
+ *
+ * Incremental indexer for Chainlink AnswerUpdated rounds. Each feed in
+ * INDEXED_FEEDS is a proxy; its rounds are emitted by the aggregators it
+ * has pointed at over its phases, so logs are read from all of them and
+ * stored under the proxy address in `oracle_rounds`. Progress is
+ * checkpointed per feed in `oracle_index_checkpoints` after every chunk.
+ *
+ * Only blocks CONFIRMATIONS deep are indexed, so a reorg can never leave a
+ * stale round behind. A feed's first run backfills BACKFILL_DAYS; a run
+ * that hits its time budget stops at the last checkpoint and the next run
+ * carries on from there.
+ *
+ * Called by /api/cron/index-oracles
+ */
+
+import { parseAbi, parseAbiItem, zeroAddress, type Address, type Chain, type PublicClient, type Transport } from 'viem';
+import { supabase } from './supabase';
+import { createRpcPool, type RpcChain, type RpcPool, type RpcProviderUsage } from './rpcPool';
+import { createBlockResolver } from './blockResolver';
+import { INDEXED_FEEDS, type OracleConfig } from './oracleMap';
+
+type Client = PublicClient<Transport, Chain>;
+
+// ── Config ───────────────────────────────────────────────────
+
+/** Blocks behind the head before a round is indexed: a few minutes on L2s, past finality on L1 */
+const CONFIRMATIONS: Record<RpcChain, bigint> = {
+  ethereum: 64n,
+  base: 150n,
+  arbitrum: 1_200n,
+  polygon: 256n,
+  optimism: 150n,
+};
+
+const BACKFILL_DAYS = 365;
+
+/** getLogs range per request; halved on provider errors down to MIN_LOG_CHUNK, doubled back after each success */
+const LOG_CHUNK = 50_000n;
+const MIN_LOG_CHUNK = 1_000n;
+
+/** Leave room for the response before the route's maxDuration */
+const DEFAULT_BUDGET_MS = 240_000;
+
+const ANSWER_UPDATED_EVENT = parseAbiItem(
+  'event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt)',
+);
+
+const PROXY_ABI = parseAbi([
+  'function decimals() view returns (uint8)',
+  'function aggregator() view returns (address)',
+  'function phaseId() view returns (uint16)',
+  'function phaseAggregators(uint16) view returns (address)',
+]);
+
+// ── Types ────────────────────────────────────────────────────
+
+export interface OracleRoundRow {
+  /** Lowercase proxy address */
+  feed: string;
+  chain: RpcChain;
+  aggregator: string;
+  /** Proxy phase the aggregator served; 0 when the feed has no phases */
+  phase_id: number;
+  /** Aggregator round — restarts with each phase */
+  round_id: number;
+  /** Raw int256 answer */
+  answer: string;
+  /** Answer scaled by the feed's decimals */
+  rate: number;
+  /** updatedAt from the event, unix seconds */
+  timestamp: number;
+  block: number;
+  tx_hash: string;
+  log_index: number;
+}
+
+export interface FeedIndexResult {
+  feed: Address;
+  pair: string;
+  chain: RpcChain;
+  fromBlock: number | null;
+  toBlock: number | null;
+  rounds: number;
+  /** False when the run stopped on its time budget before the confirmed head */
+  caughtUp: boolean;
+  error?: string;
+}
+
+export interface OracleRoundPoint {
+  roundId: number;
+  rate: number;
+  timestamp: number;
+  block: number;
+  txHash?: string;
+}
+
+// ── Chain reads ──────────────────────────────────────────────
+
+/** Aggregators behind a proxy, keyed by phase; a bare aggregator is its own phase 0 */
+async function resolveAggregators(client: Client, feed: Address): Promise<Map<string, number>> {
+  const aggregators = new Map<string, number>();
+
+  const phaseId = await client.readContract({ address: feed, abi: PROXY_ABI, functionName: 'phaseId' }).catch(() => null);
+  if (phaseId !== null && phaseId > 0) {
+    const phases = Array.from({ length: phaseId }, (_, i) => i + 1);
+    const results = await client.multicall({
+      contracts: phases.map(p => ({ address: feed, abi: PROXY_ABI, functionName: 'phaseAggregators', args: [p] }) as const),
+    });
+    results.forEach((r, i) => {
+      if (r.status === 'success' && r.result !== zeroAddress) aggregators.set(r.result.toLowerCase(), phases[i]);
+    });
+    if (aggregators.size > 0) return aggregators;
+  }
+
+  const current = await client.readContract({ address: feed, abi: PROXY_ABI, functionName: 'aggregator' }).catch(() => null);
+  aggregators.set((current && current !== zeroAddress ? current : feed).toLowerCase(), 0);
+  return aggregators;
+}
+
+async function fetchRounds(
+  client: Client,
+  feed: OracleConfig,
+  aggregators: Map<string, number>,
+  scale: number,
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<OracleRoundRow[]> {
+  const logs = await client.getLogs({
+    address: [...aggregators.keys()] as Address[],
+    event: ANSWER_UPDATED_EVENT,
+    fromBlock,
+    toBlock,
+  });
+
+  return logs.flatMap((log): OracleRoundRow[] => {
+    const { current, roundId, updatedAt } = log.args;
+    if (current === undefined || roundId === undefined || updatedAt === undefined || log.blockNumber === null) return [];
+    const aggregator = log.address.toLowerCase();
+    return [{
+      feed: feed.address.toLowerCase(),
+      chain: feed.chain,
+      aggregator,
+      phase_id: aggregators.get(aggregator) ?? 0,
+      round_id: Number(roundId),
+      answer: current.toString(),
+      rate: Number(current) / scale,
+      timestamp: Number(updatedAt),
+      block: Number(log.blockNumber),
+      tx_hash: log.transactionHash ?? '',
+      log_index: log.logIndex ?? 0,
+    }];
+  });
+}
+
+// ── Persistence ──────────────────────────────────────────────
+
+async function readCheckpoint(feed: Address): Promise<bigint | null> {
+  const { data, error } = await supabase
+    .from('oracle_index_checkpoints')
+    .select('last_block')
+    .eq('feed', feed.toLowerCase())
+    .maybeSingle();
+  if (error) throw new Error(`oracle_index_checkpoints: ${error.message}`);
+  return data ? BigInt(data.last_block) : null;
+}
+
+async function writeCheckpoint(feed: OracleConfig, lastBlock: bigint): Promise<void> {
+  const { error } = await supabase
+    .from('oracle_index_checkpoints')
+    .upsert({
+      feed: feed.address.toLowerCase(),
+      chain: feed.chain,
+      last_block: Number(lastBlock),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'feed' });
+  if (error) throw new Error(`oracle_index_checkpoints: ${error.message}`);
+}
+
+async function upsertRounds(rows: OracleRoundRow[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += 500) {
+    const { error } = await supabase
+      .from('oracle_rounds')
+      .upsert(rows.slice(i, i + 500), { onConflict: 'feed,phase_id,round_id' });
+    if (error) throw new Error(`oracle_rounds: ${error.message}`);
+  }
+}
+
+/** Every indexed round of a feed, oldest first */
+export async function readOracleRounds(feed: Address): Promise<OracleRoundPoint[]> {
+  const PAGE = 1000;
+  const points: OracleRoundPoint[] = [];
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabase
+      .from('oracle_rounds')
+      .select('round_id, rate, timestamp, block, tx_hash')
+      .eq('feed', feed.toLowerCase())
+      .order('timestamp', { ascending: true })
+      .order('round_id', { ascending: true })
+      .range(from, from + PAGE - 1);
+    if (error) throw new Error(`oracle_rounds: ${error.message}`);
+    for (const row of data ?? []) {
+      points.push({ roundId: row.round_id, rate: row.rate, timestamp: row.timestamp, block: row.block, txHash: row.tx_hash || undefined });
+    }
+    if (!data || data.length < PAGE) return points;
+  }
+}
+
+export interface FeedCoverage {
+  feed: Address;
+  pair: string;
+  chain: RpcChain;
+  rounds: number;
+  firstTimestamp: number | null;
+  lastTimestamp: number | null;
+  /** Last block indexed; null before the first run */
+  checkpointBlock: number | null;
+  checkpointAt: string | null;
+}
+
+/** What the index holds for every feed, from oracle_rounds and the checkpoints */
+export async function readIndexCoverage(): Promise<FeedCoverage[]> {
+  return Promise.all(INDEXED_FEEDS.map(async (f): Promise<FeedCoverage> => {
+    const feed = f.address.toLowerCase();
+    const [count, first, last, checkpoint] = await Promise.all([
+      supabase.from('oracle_rounds').select('*', { count: 'exact', head: true }).eq('feed', feed),
+      supabase.from('oracle_rounds').select('timestamp').eq('feed', feed).order('timestamp', { ascending: true }).limit(1).maybeSingle(),
+      supabase.from('oracle_rounds').select('timestamp').eq('feed', feed).order('timestamp', { ascending: false }).limit(1).maybeSingle(),
+      supabase.from('oracle_index_checkpoints').select('last_block, updated_at').eq('feed', feed).maybeSingle(),
+    ]);
+    const error = count.error ?? first.error ?? last.error ?? checkpoint.error;
+    if (error) throw new Error(`${f.pair}: ${error.message}`);
+
+    return {
+      feed: f.address,
+      pair: f.pair,
+      chain: f.chain,
+      rounds: count.count ?? 0,
+      firstTimestamp: first.data?.timestamp ?? null,
+      lastTimestamp: last.data?.timestamp ?? null,
+      checkpointBlock: checkpoint.data?.last_block ?? null,
+      checkpointAt: checkpoint.data?.updated_at ?? null,
+    };
+  }));
+}
+
+// ── Indexing ─────────────────────────────────────────────────
+
+async function indexFeed(
+  feed: OracleConfig,
+  pool: RpcPool,
+  confirmedHead: bigint,
+  backfillFrom: () => Promise<bigint>,
+  deadline: number,
+): Promise<FeedIndexResult> {
+  const client = pool.client;
+  const result: FeedIndexResult = { feed: feed.address, pair: feed.pair, chain: feed.chain, fromBlock: null, toBlock: null, rounds: 0, caughtUp: false };
+
+  const checkpoint = await readCheckpoint(feed.address);
+  let next = checkpoint !== null ? checkpoint + 1n : await backfillFrom();
+  result.fromBlock = Number(next);
+  if (next > confirmedHead) {
+    result.caughtUp = true;
+    return result;
+  }
+
+  const [aggregators, decimals] = await Promise.all([
+    resolveAggregators(client, feed.address),
+    client.readContract({ address: feed.address, abi: PROXY_ABI, functionName: 'decimals' }),
+  ]);
+  const scale = 10 ** decimals;
+
+  let chunk = LOG_CHUNK;
+  while (next <= confirmedHead) {
+    if (Date.now() > deadline) return result;
+
+    const end = next + chunk - 1n > confirmedHead ? confirmedHead : next + chunk - 1n;
+    let rows: OracleRoundRow[];
+    try {
+      rows = await fetchRounds(client, feed, aggregators, scale, next, end);
+    } catch (err) {
+      // Most providers cap getLogs by range or result size — retry smaller
+      if (chunk > MIN_LOG_CHUNK) {
+        chunk /= 2n;
+        continue;
+      }
+      throw err;
+    }
+
+    await upsertRounds(rows);
+    await writeCheckpoint(feed, end);
+    result.rounds += rows.length;
+    result.toBlock = Number(end);
+    next = end + 1n;
+    // Grow back after a success, so one dense range doesn't slow the rest of the run
+    if (chunk < LOG_CHUNK) chunk = chunk * 2n > LOG_CHUNK ? LOG_CHUNK : chunk * 2n;
+  }
+
+  result.caughtUp = true;
+  return result;
+}
+
+/**
+ * Bring every indexed feed up to its chain's confirmed head, or as far as
+ * `budgetMs` allows. One feed failing doesn't stop the others.
+ */
+export async function indexOracleFeeds({ budgetMs = DEFAULT_BUDGET_MS }: { budgetMs?: number } = {}): Promise<{
+  feeds: FeedIndexResult[];
+  /** RPC providers that served the run, per chain */
+  providers: RpcProviderUsage[];
+}> {
+  const deadline = Date.now() + budgetMs;
+  const chains = [...new Set(INDEXED_FEEDS.map(f => f.chain))];
+  const pools = new Map(chains.map(chain => [chain, createRpcPool(chain, { multicall: true })]));
+  const feeds: FeedIndexResult[] = [];
+
+  for (const chain of chains) {
+    const pool = pools.get(chain)!;
+    const chainFeeds = INDEXED_FEEDS.filter(f => f.chain === chain);
+
+    let confirmedHead: bigint;
+    try {
+      const head = await pool.client.getBlockNumber();
+      confirmedHead = head - CONFIRMATIONS[chain];
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      for (const f of chainFeeds) {
+        feeds.push({ feed: f.address, pair: f.pair, chain, fromBlock: null, toBlock: null, rounds: 0, caughtUp: false, error });
+      }
+      continue;
+    }
+
+    // Resolved once per chain, and only if some feed has no checkpoint yet
+    let backfillBlock: Promise<bigint> | null = null;
+    const backfillFrom = () => (backfillBlock ??= createBlockResolver(chain, pool.client)
+      .blockAt(Math.floor(Date.now() / 1000) - BACKFILL_DAYS * 86400)
+      .then(b => b.number)
+      .catch(err => { backfillBlock = null; throw err; }));
+
+    for (const f of chainFeeds) {
+      try {
+        const r = await indexFeed(f, pool, confirmedHead, backfillFrom, deadline);
+        console.log(`[oracleIndexer] ${f.pair} (${chain}): ${r.rounds} rounds to block ${r.toBlock ?? '-'}${r.caughtUp ? '' : ', budget reached'}`);
+        feeds.push(r);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        console.error(`[oracleIndexer] ${f.pair} (${chain}) failed:`, error.substring(0, 160));
+        feeds.push({ feed: f.address, pair: f.pair, chain, fromBlock: null, toBlock: null, rounds: 0, caughtUp: false, error });
+      }
+    }
+  }
+
+  return { feeds, providers: [...pools.values()].flatMap(p => p.usage()) };
+}
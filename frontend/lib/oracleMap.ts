@@ -1,29 +1,56 @@
+import type { Address } from 'viem';
+import type { RpcChain } from './rpcPool';
+
 /**
- * Maps collateral token symbols to their oracle data source.
- * - type 'chainlink': uses Dune query 6811071 with oracle_address parameter
- * - type 'custom': uses a dedicated Dune query (queryId) with no parameters
+ * Oracle feeds behind the rate charts. Chainlink-style feeds have their
+ * AnswerUpdated rounds indexed into oracle_rounds (see oracleIndexer.ts):
+ * `address` is the feed proxy and the indexer follows it to every
+ * aggregator it has pointed at. Custom oracles that emit no AnswerUpdated
+ * set `vault` instead and are charted from the vault's share price
+ * (see vaultRateHistory.ts).
  */
 export interface OracleConfig {
-  address: string;  // Key used for caching and API routing
+  address: Address; // Key used for caching, API routing and oracle_rounds.feed
   pair: string;
-  type: 'chainlink' | 'custom';
-  queryId?: number; // Only for custom oracles
-  decimals?: number; // Price decimals (default 18 for chainlink, 6 for yoETH)
+  chain: RpcChain;
+  /** ERC4626 vault whose convertToAssets is sampled instead of indexing rounds */
+  vault?: Address;
 }
 
 export const COLLATERAL_ORACLE_MAP: Record<string, OracleConfig> = {
-  wstETH: { address: '0x04030d2F38Bc799aF9B0AaB5757ADC98000D7DeD', pair: 'wstETH/stETH', type: 'chainlink' },
-  weETH:  { address: '0x19e6821Ee47a4c23E5971fEBeE29f78C2e514DC8', pair: 'weETH/eETH', type: 'chainlink' },
-  cbETH:  { address: '0x16f542BC40723DfE8976A334564eF0c3CfD602Fd', pair: 'cbETH/ETH', type: 'chainlink' },
-  wrsETH: { address: '0x222d25e4dEacAb0eE03E0cb282Ab3F602dED6EF2', pair: 'wrsETH/ETH', type: 'chainlink' },
-  rETH:   { address: '0x484Cc23Fee336291E3c8803cF27e16B9BEe68744', pair: 'rETH/ETH', type: 'chainlink' },
-  yoETH:  { address: '0x6E879d0CcC85085A709eBf5539224f53d0D396B0', pair: 'yoETH/ETH', type: 'custom', queryId: 6811220, decimals: 6 },
-  wsuperOETHb: { address: '0x7FcD174E80f264448ebeE8c88a7C4476AAF58Ea6', pair: 'wsuperOETHb/ETH', type: 'custom', queryId: 6811262, decimals: 18 },
+  wstETH: { address: '0x04030d2F38Bc799aF9B0AaB5757ADC98000D7DeD', pair: 'wstETH/stETH', chain: 'base' },
+  weETH:  { address: '0x19e6821Ee47a4c23E5971fEBeE29f78C2e514DC8', pair: 'weETH/eETH', chain: 'base' },
+  cbETH:  { address: '0x16f542BC40723DfE8976A334564eF0c3CfD602Fd', pair: 'cbETH/ETH', chain: 'base' },
+  wrsETH: { address: '0x222d25e4dEacAb0eE03E0cb282Ab3F602dED6EF2', pair: 'wrsETH/ETH', chain: 'base' },
+  rETH:   { address: '0x484Cc23Fee336291E3c8803cF27e16B9BEe68744', pair: 'rETH/ETH', chain: 'base' },
+  yoETH:  { address: '0x6E879d0CcC85085A709eBf5539224f53d0D396B0', pair: 'yoETH/ETH', chain: 'base', vault: '0x3A43AEC53490CB9Fa922847385D82fe25d0E9De7' },
+  wsuperOETHb: { address: '0x7FcD174E80f264448ebeE8c88a7C4476AAF58Ea6', pair: 'wsuperOETHb/ETH', chain: 'base', vault: '0x7FcD174E80f264448ebeE8c88a7C4476AAF58Ea6' },
+};
+
+/** wstETH/stETH redemption rate — served by /api/oracle-logs */
+export const WSTETH_RATE_FEED = COLLATERAL_ORACLE_MAP.wstETH;
+
+/** Chainlink stETH/ETH market price on Ethereum — served by /api/steth-logs */
+export const STETH_ETH_FEED: OracleConfig = {
+  address: '0x86392dC19c0b719886221c78AB11eb8Cf5c52812',
+  pair: 'stETH/ETH',
+  chain: 'ethereum',
 };
 
+const ORACLE_FEEDS: OracleConfig[] = [...Object.values(COLLATERAL_ORACLE_MAP), STETH_ETH_FEED];
+
+/** Every feed the indexer keeps up to date */
+export const INDEXED_FEEDS: OracleConfig[] = ORACLE_FEEDS.filter(f => !f.vault);
+
 /**
  * Get oracle config for a given collateral symbol.
  */
 export function getOracleForCollateral(symbol: string): OracleConfig | null {
   return COLLATERAL_ORACLE_MAP[symbol] || null;
 }
+
+/** Feed by address, indexed or vault-sampled, case-insensitive */
+export function findOracleFeed(address: string): OracleConfig | null {
+  const lower = address.toLowerCase();
+  return ORACLE_FEEDS.find(c => c.address.toLowerCase() === lower) ?? null;
+}
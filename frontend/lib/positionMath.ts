@@ -0,0 +1,127 @@
+/**
+ * positionMath.ts
+ *
+ * Liquidation math for a Morpho Blue position. Morpho liquidates once
+ * debt > collateral × oraclePrice × LLTV, so everything here is derived
+ * from that single inequality.
+ */
+
+import { formatUnits } from 'viem';
+
+export interface PositionInput {
+  collateral: bigint;
+  debt: bigint;
+  collateralDecimals: number;
+  loanDecimals: number;
+  /** Liquidation LTV as a fraction, e.g. 0.945 */
+  lltv: number;
+  /** Oracle price in loan-token per collateral-token */
+  oraclePrice: number;
+}
+
+export interface PositionRisk {
+  /** collateral × price × LLTV / debt; Infinity with no debt */
+  healthFactor: number;
+  /** Current debt / collateral value, as a fraction */
+  ltv: number;
+  /** Oracle price at which the position becomes liquidatable; null with no debt */
+  liquidationPrice: number | null;
+  /** % the oracle price can fall before liquidation (0 if already liquidatable) */
+  dropToLiquidationPct: number | null;
+  /** Loan tokens that can still be borrowed before hitting LLTV */
+  maxAdditionalBorrow: number;
+}
+
+export function computePositionRisk({
+  collateral, debt, collateralDecimals, loanDecimals, lltv, oraclePrice,
+}: PositionInput): PositionRisk {
+  const coll = Number(formatUnits(collateral, collateralDecimals));
+  const owed = Number(formatUnits(debt, loanDecimals));
+  const borrowLimit = coll * oraclePrice * lltv;
+
+  if (owed <= 0) {
+    return { healthFactor: Infinity, ltv: 0, liquidationPrice: null, dropToLiquidationPct: null, maxAdditionalBorrow: borrowLimit };
+  }
+
+  const collateralValue = coll * oraclePrice;
+  const liquidationPrice = coll > 0 && lltv > 0 ? owed / (coll * lltv) : Infinity;
+  const dropToLiquidationPct = oraclePrice > 0
+    ? Math.max(0, (1 - liquidationPrice / oraclePrice) * 100)
+    : 0;
+
+  return {
+    healthFactor: borrowLimit / owed,
+    ltv: collateralValue > 0 ? owed / collateralValue : Infinity,
+    liquidationPrice: Number.isFinite(liquidationPrice) ? liquidationPrice : null,
+    dropToLiquidationPct,
+    maxAdditionalBorrow: Math.max(0, borrowLimit - owed),
+  };
+}
+
+/**
+ * % oracle drop a freshly opened position at `leverage` can absorb.
+ * Same inequality as above with LTV = (L − 1) / L.
+ */
+export function maxDepegAtLeverage(leverage: number, lltv: number): number {
+  if (leverage <= 1) return 100;
+  const initialLtv = (leverage - 1) / leverage;
+  return (1 - initialLtv / lltv) * 100;
+}
+
+// ── Partial deleverage ──────────────────────────────────────
+
+/** Matches the 2% over-swap buffer the helper applies when selling collateral */
+export const DELEVERAGE_SWAP_BUFFER = 0.02;
+
+export type DeleverageTarget =
+  | { kind: 'leverage'; leverage: number }
+  | { kind: 'healthFactor'; healthFactor: number }
+  | { kind: 'withdrawPct'; pct: number };
+
+export interface DeleverageInput {
+  /** Collateral and debt in token units */
+  collateral: number;
+  debt: number;
+  lltv: number;
+  oraclePrice: number;
+  /** Swap rate, loan-token received per collateral-token sold */
+  poolPrice: number;
+}
+
+/**
+ * Debt to repay and collateral to withdraw to reach `target` with the
+ * position still open. Returns null if the target needs no change or
+ * would repay the whole debt (use the full close instead).
+ *
+ * Target modes sell only what repays the debt, so equity stays in the
+ * position: with R repaid and R·(1+b)/p withdrawn, solve D − R = k·(C − R·(1+b)/p)
+ * where k = P·(1 − 1/L) for a leverage target or P·LLTV/HF for an HF target.
+ */
+export function planPartialDeleverage(
+  { collateral, debt, lltv, oraclePrice, poolPrice }: DeleverageInput,
+  target: DeleverageTarget,
+): { repay: number; withdraw: number } | null {
+  if (collateral <= 0 || debt <= 0 || oraclePrice <= 0 || poolPrice <= 0) return null;
+
+  if (target.kind === 'withdrawPct') {
+    // Shrink proportionally: leverage and HF stay where they are
+    const f = target.pct / 100;
+    if (f <= 0 || f >= 1) return null;
+    return { repay: debt * f, withdraw: collateral * f };
+  }
+
+  const k = target.kind === 'leverage'
+    ? (target.leverage > 1 ? oraclePrice * (1 - 1 / target.leverage) : 0)
+    : (target.healthFactor > 0 ? (oraclePrice * lltv) / target.healthFactor : 0);
+  if (k <= 0) return null;
+
+  const sellPerRepay = (1 + DELEVERAGE_SWAP_BUFFER) / poolPrice;
+  const denom = 1 - k * sellPerRepay;
+  if (denom <= 0) return null;
+
+  const repay = (debt - collateral * k) / denom;
+  if (repay <= 0 || repay >= debt) return null;
+  // 0.1% slack: the pool can move between preview and execution, and the helper
+  // reverts if the swap needs more than was withdrawn. Any excess is returned.
+  return { repay, withdraw: repay * sellPerRepay * 1.001 };
+}
@@ -0,0 +1,51 @@
+/**
+ * positionSize.ts
+ *
+ * How large a looped position a market can take. Opening at leverage L
+ * borrows equity × (L − 1) from the market and swaps the same amount
+ * through the DEX, so the size is capped by whichever of the market's
+ * utilization headroom or the swap's depth runs out first. Free liquidity
+ * needs no cap of its own: the utilization ceiling always sits below it.
+ */
+
+/**
+ * Borrows past this utilization are treated as out of reach: the
+ * AdaptiveCurveIrm is at its steepest there and suppliers can barely exit.
+ */
+export const UTILIZATION_CEILING = 0.95;
+
+export type SizeConstraint = 'utilization' | 'swap';
+
+export interface SizeLimits {
+  /** Loan-token units */
+  totalSupply: number;
+  totalBorrow: number;
+  /** Largest loan-token swap within the price-impact budget; omit when the DEX isn't known */
+  maxSwapIn?: number | null;
+}
+
+export interface DeployableSize {
+  /** Largest additional borrow, in loan tokens */
+  maxBorrow: number;
+  /** Largest equity (deposit value) in loan tokens at the given leverage; null when nothing is borrowed */
+  maxEquity: number | null;
+  binding: SizeConstraint;
+}
+
+export function maxDeployableSize(leverage: number, { totalSupply, totalBorrow, maxSwapIn }: SizeLimits): DeployableSize {
+  const caps: [SizeConstraint, number][] = [['utilization', totalSupply * UTILIZATION_CEILING - totalBorrow]];
+  if (maxSwapIn != null) caps.push(['swap', maxSwapIn]);
+
+  const [binding, cap] = caps.reduce((min, c) => (c[1] < min[1] ? c : min));
+  const maxBorrow = Math.max(0, cap);
+  return {
+    maxBorrow,
+    maxEquity: leverage > 1 ? maxBorrow / (leverage - 1) : null,
+    binding,
+  };
+}
+
+export const SIZE_CONSTRAINT_LABELS: Record<SizeConstraint, string> = {
+  utilization: `${UTILIZATION_CEILING * 100}% utilization ceiling`,
+  swap: 'swap price impact',
+};
@@ -0,0 +1,98 @@
+/**
+ * rateHistory.ts
+ *
+ * Reads the per-market supply/borrow APY and utilization samples that
+ * refreshAllMarkets stores in the market_rate_history table, and averages
+ * them over the windows the yield components show.
+ */
+
+import { supabase } from './supabase';
+import type { RateHistoryRow } from './refreshMarkets';
+
+const PAGE_SIZE = 1000; // Supabase default max rows per request
+const DAY_MS = 86_400_000;
+
+export const RATE_WINDOWS = [7, 30, 90] as const;
+export type RateWindow = typeof RATE_WINDOWS[number];
+
+export interface RateAverage {
+  days: RateWindow;
+  supplyApy: number;
+  borrowApy: number;
+  utilization: number;
+  /** Samples inside the window; a window shorter than its label means the history is still filling */
+  samples: number;
+  coveredDays: number;
+}
+
+/** Payload of GET /api/markets/[marketId]/rates */
+export interface RateHistory {
+  points: RateHistoryRow[];
+  averages: RateAverage[];
+}
+
+/** Load the samples for a market since `sinceMs`, oldest first, paginating past one page */
+export async function fetchRateHistory(marketId: string, chain?: string, sinceMs = 0): Promise<RateHistoryRow[]> {
+  const rows: RateHistoryRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('market_rate_history')
+      .select('market_id, chain, timestamp_ms, supply_apy, borrow_apy, utilization')
+      .eq('market_id', marketId)
+      .gte('timestamp_ms', sinceMs);
+    if (chain) query = query.eq('chain', chain);
+
+    const { data, error } = await query
+      .order('timestamp_ms', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`market_rate_history: ${error.message}`);
+    if (!data || data.length === 0) break;
+    rows.push(...(data as RateHistoryRow[]));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Time-weighted average over the last `days`. Each sample holds until the
+ * next one, so a gap in the cron schedule doesn't over-weight the samples
+ * around it. Null when the window has no samples.
+ */
+export function averageRates(rows: RateHistoryRow[], days: RateWindow, now: number = Date.now()): RateAverage | null {
+  const start = now - days * DAY_MS;
+  const inWindow = rows.filter(r => r.timestamp_ms >= start && r.timestamp_ms <= now);
+  if (inWindow.length === 0) return null;
+
+  let weight = 0;
+  let supply = 0;
+  let borrow = 0;
+  let utilization = 0;
+  for (let i = 0; i < inWindow.length; i++) {
+    const r = inWindow[i];
+    const until = i + 1 < inWindow.length ? inWindow[i + 1].timestamp_ms : now;
+    // The latest sample gets at least a nominal weight so a single-sample window still averages
+    const w = Math.max(until - r.timestamp_ms, 1);
+    weight += w;
+    supply += r.supply_apy * w;
+    borrow += r.borrow_apy * w;
+    utilization += r.utilization * w;
+  }
+
+  return {
+    days,
+    supplyApy: supply / weight,
+    borrowApy: borrow / weight,
+    utilization: utilization / weight,
+    samples: inWindow.length,
+    coveredDays: (now - inWindow[0].timestamp_ms) / DAY_MS,
+  };
+}
+
+export function summarizeRates(rows: RateHistoryRow[], now: number = Date.now()): RateAverage[] {
+  return RATE_WINDOWS
+    .map(days => averageRates(rows, days, now))
+    .filter((a): a is RateAverage => a !== null);
+}
@@ -19,10 +19,12 @@
  * Called by /api/cron/refresh-analysis
  */
 
-import { createPublicClient, http, type Address } from 'viem';
-import { mainnet, base, arbitrum, polygon } from 'viem/chains';
+import type { Address } from 'viem';
 import { supabase } from './supabase';
-import { getRate, TOKENS, type TokenCfg } from './refreshTokenRates';
+import { getRate } from './refreshTokenRates';
+import { loadTokenRegistry, type TokenCfg, type TokenRegistry } from './tokenRegistry';
+import { createRpcPool, type RpcPool, type RpcProviderUsage } from './rpcPool';
+import { alignTimestamp, createBlockResolver, type BlockResolver } from './blockResolver';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 type AnyClient = any;
@@ -31,18 +33,11 @@ type AnyClient = any;
 
 type ChainSlug = 'ethereum' | 'base' | 'arbitrum' | 'polygon';
 
-const CHAIN_META: Record<ChainSlug, { chainId: number; viemChain: any; blocksPerDay: number }> = {
-  ethereum: { chainId: 1,     viemChain: mainnet,   blocksPerDay: 7_200 },
-  base:     { chainId: 8453,  viemChain: base,      blocksPerDay: 43_200 },
-  arbitrum: { chainId: 42161, viemChain: arbitrum,   blocksPerDay: 345_600 },
-  polygon:  { chainId: 137,   viemChain: polygon,    blocksPerDay: 43_200 },
-};
-
-const FALLBACK_RPCS: Record<ChainSlug, string> = {
-  ethereum: 'https://eth.llamarpc.com',
-  base:     'https://mainnet.base.org',
-  arbitrum: 'https://arb1.arbitrum.io/rpc',
-  polygon:  'https://polygon-rpc.com',
+const CHAIN_META: Record<ChainSlug, { chainId: number }> = {
+  ethereum: { chainId: 1 },
+  base:     { chainId: 8453 },
+  arbitrum: { chainId: 42161 },
+  polygon:  { chainId: 137 },
 };
 
 const ORACLE_ABI = [{
@@ -91,10 +86,6 @@ const WETH_ADDRESSES: Record<string, Set<string>> = {
   arbitrum: new Set(['0x82af49447d8a07e3bd95bd0d56f35241523fbab1']),
 };
 
-/** Reverse lookup: lowercase address → TokenCfg for chained intrinsic */
-const TOKEN_BY_ADDRESS = new Map<string, TokenCfg>();
-for (const t of TOKENS) TOKEN_BY_ADDRESS.set(t.address.toLowerCase(), t);
-
 /** Max days of history on first run (backfill). */
 const SAMPLE_DAYS = 180;
 
@@ -102,20 +93,6 @@ const SAMPLE_DAYS = 180;
 const SAMPLES_PER_DAY = 12; // every 2 hours
 const SAMPLE_INTERVAL_SECS = 86400 / SAMPLES_PER_DAY;
 
-/** Build a lookup from token symbol → TokenCfg for intrinsic rate fetching */
-const TOKEN_BY_SYMBOL = new Map<string, TokenCfg>();
-for (const t of TOKENS) TOKEN_BY_SYMBOL.set(t.symbol, t);
-if (TOKEN_BY_SYMBOL.has('superOETHb') && !TOKEN_BY_SYMBOL.has('wsuperOETHb')) {
-  TOKEN_BY_SYMBOL.set('wsuperOETHb', TOKEN_BY_SYMBOL.get('superOETHb')!);
-}
-
-const ETH_TOKENS = new Set([
-  'ETH', 'WETH', 'stETH', 'wstETH', 'rETH', 'cbETH', 'weETH',
-  'ezETH', 'rsETH', 'pufETH', 'wrsETH', 'ynETHx', 'hgETH',
-  'OETH', 'superOETHb', 'LsETH', 'ETH+', 'savETH', 'wbrETH',
-  'ETH0', 'yoETH', 'bsdETH', 'agETH', 'rswETH', 'wsuperOETHb',
-]);
-
 // ── Types ────────────────────────────────────────────────────
 
 interface MarketEntry {
@@ -175,12 +152,27 @@ interface DualSample {
 
 // ── Helpers ──────────────────────────────────────────────────
 
-function timestampToBlock(targetTs: number, headTs: number, headBlock: bigint, blocksPerDay: number): bigint {
-  const secondsPerBlock = 86400 / blocksPerDay;
-  const diff = headTs - targetTs;
-  const blockDiff = Math.floor(diff / secondsPerBlock);
-  const result = headBlock - BigInt(blockDiff);
-  return result > 0n ? result : 1n;
+/** Blocks at `timestamps` on an intrinsic-rate chain, or null when they can't be resolved */
+async function resolveBlocks(blocks: BlockResolver | null | undefined, timestamps: number[]): Promise<bigint[] | null> {
+  if (!blocks) return null;
+  try {
+    return (await blocks.blocksAt(timestamps)).map(b => b.number);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Which analysis a pair belongs in, by the registry denomination of both
+ * legs. A leg the registry doesn't know takes the other leg's (markets are
+ * same-asset); a pair with neither known counts as stablecoins, as it always
+ * has. POL pairs and mixed denominations belong in neither.
+ */
+function pairBucket(registry: TokenRegistry, marketName: string): 'eth' | 'stable' | null {
+  const [collateral, loan] = marketName.split('/').map(s => registry.assetOf(s));
+  const asset = collateral ?? loan ?? 'USD';
+  if ((loan ?? asset) !== asset) return null;
+  return asset === 'ETH' ? 'eth' : asset === 'USD' ? 'stable' : null;
 }
 
 function parseLltv(lltv: number | string): number {
@@ -188,18 +180,20 @@ function parseLltv(lltv: number | string): number {
   try { return Number(BigInt(lltv)) / 1e18; } catch { return 0; }
 }
 
+/**
+ * The rate is always read on the token's canonical chain, including for
+ * markets on a chain it is bridged to. A chain analysis has no client for
+ * (optimism) leaves the intrinsic side unread.
+ */
 function resolveIntrinsicChain(
   tokenCfg: TokenCfg,
   clients: Partial<Record<ChainSlug, AnyClient>>,
-  heads: Partial<Record<ChainSlug, bigint>>,
-  headTimestamps: Partial<Record<ChainSlug, number>>,
+  resolvers: Partial<Record<ChainSlug, BlockResolver>>,
 ) {
-  const chainSlug: ChainSlug = tokenCfg.chain === 'optimism' ? 'ethereum' : tokenCfg.chain as ChainSlug;
+  const chainSlug = tokenCfg.chain in CHAIN_META ? tokenCfg.chain as ChainSlug : null;
   return {
-    client: clients[chainSlug] || null,
-    headBlock: heads[chainSlug] || null,
-    headTs: headTimestamps[chainSlug] || null,
-    bpd: CHAIN_META[chainSlug]?.blocksPerDay || null,
+    client: chainSlug ? clients[chainSlug] || null : null,
+    blocks: chainSlug ? resolvers[chainSlug] || null : null,
   };
 }
 
@@ -245,6 +239,7 @@ async function detectIntermediateToken(
   client: AnyClient,
   collateralAddr: Address,
   chainSlug: ChainSlug,
+  registry: TokenRegistry,
 ): Promise<TokenCfg | null> {
   try {
     const underlyingAsset: Address = await client.readContract({
@@ -259,8 +254,7 @@ async function detectIntermediateToken(
     }
 
     // Look up the intermediate token
-    const cfg = TOKEN_BY_ADDRESS.get(underlyingAsset.toLowerCase());
-    return cfg || null;
+    return registry.byAddress(underlyingAsset);
   } catch {
     // Not an ERC4626 token or doesn't have asset() — no chaining
     return null;
@@ -339,30 +333,30 @@ async function sampleAtSpecificBlocks(
   feedUpdates: FeedUpdate[],
   collateralCfg: TokenCfg | null,
   collateralClient: AnyClient | null,
-  collateralHead: bigint | null,
-  collateralHeadTs: number | null,
-  collateralBpd: number | null,
+  collateralBlocks: BlockResolver | null,
   loanCfg: TokenCfg | null,
   loanClient: AnyClient | null,
-  loanHead: bigint | null,
-  loanHeadTs: number | null,
-  loanBpd: number | null,
+  loanBlocks: BlockResolver | null,
   intermediateTokenCfg?: TokenCfg | null,
   intermediateClient?: AnyClient | null,
-  intermediateHead?: bigint | null,
-  intermediateHeadTs?: number | null,
-  intermediateBpd?: number | null,
+  intermediateBlocks?: BlockResolver | null,
   collateralAddr?: Address,
 ): Promise<DualSample[]> {
   const samples: DualSample[] = [];
   const BATCH = 50;
 
-  const hasCollateralIntrinsic = collateralCfg && collateralClient && collateralHead && collateralHeadTs && collateralBpd;
-  const hasLoanIntrinsic = loanCfg && loanClient && loanHead && loanHeadTs && loanBpd;
-  const hasIntermediate = intermediateTokenCfg && intermediateClient && intermediateHead && intermediateHeadTs && intermediateBpd && collateralAddr;
+  const hasCollateralIntrinsic = collateralCfg && collateralClient && collateralBlocks;
+  const hasLoanIntrinsic = loanCfg && loanClient && loanBlocks;
+  const hasIntermediate = intermediateTokenCfg && intermediateClient && intermediateBlocks && collateralAddr;
 
   for (let start = 0; start < feedUpdates.length; start += BATCH) {
     const batch = feedUpdates.slice(start, start + BATCH);
+    const timestamps = batch.map(fu => fu.timestamp);
+    const [cBlocks, lBlocks, iBlocks] = await Promise.all([
+      resolveBlocks(hasCollateralIntrinsic || hasIntermediate ? collateralBlocks : null, timestamps),
+      resolveBlocks(hasLoanIntrinsic ? loanBlocks : null, timestamps),
+      resolveBlocks(hasIntermediate ? intermediateBlocks : null, timestamps),
+    ]);
 
     const oraclePricePromises = batch.map(fu =>
       oracleClient.readContract({
@@ -372,38 +366,30 @@ async function sampleAtSpecificBlocks(
     );
 
     let collateralPromises: Promise<number | null>[];
-    if (hasIntermediate) {
-      collateralPromises = batch.map(async (fu) => {
+    if (hasIntermediate && cBlocks && iBlocks) {
+      collateralPromises = batch.map(async (_, i) => {
         try {
-          const cBlock = timestampToBlock(fu.timestamp, collateralHeadTs!, collateralHead!, collateralBpd!);
           const rawAssets = await collateralClient!.readContract({
             address: collateralAddr!,
             abi: CONVERT_TO_ASSETS_ABI,
             functionName: 'convertToAssets',
             args: [BigInt(1e18)],
-            blockNumber: cBlock,
+            blockNumber: cBlocks[i],
           }) as bigint;
           const directRate = Number(rawAssets) / 1e18;
-          const iBlock = timestampToBlock(fu.timestamp, intermediateHeadTs!, intermediateHead!, intermediateBpd!);
-          const intermediateRate = await getRate(intermediateTokenCfg!, intermediateClient!, iBlock);
+          const intermediateRate = await getRate(intermediateTokenCfg!, intermediateClient!, iBlocks[i]);
           if (!intermediateRate) return directRate;
           return directRate * intermediateRate;
         } catch { return null; }
       });
-    } else if (hasCollateralIntrinsic) {
-      collateralPromises = batch.map(fu => {
-        const block = timestampToBlock(fu.timestamp, collateralHeadTs!, collateralHead!, collateralBpd!);
-        return getRate(collateralCfg!, collateralClient!, block).catch(() => null);
-      });
+    } else if (hasCollateralIntrinsic && cBlocks) {
+      collateralPromises = batch.map((_, i) => getRate(collateralCfg!, collateralClient!, cBlocks[i]).catch(() => null));
     } else {
       collateralPromises = batch.map(() => Promise.resolve(null));
     }
 
-    const loanPromises = hasLoanIntrinsic
-      ? batch.map(fu => {
-          const block = timestampToBlock(fu.timestamp, loanHeadTs!, loanHead!, loanBpd!);
-          return getRate(loanCfg!, loanClient!, block).catch(() => null);
-        })
+    const loanPromises = hasLoanIntrinsic && lBlocks
+      ? batch.map((_, i) => getRate(loanCfg!, loanClient!, lBlocks[i]).catch(() => null))
       : batch.map(() => Promise.resolve(null));
 
     const [oraclePrices, collateralRates, loanRates] = await Promise.all([
@@ -430,35 +416,27 @@ async function sampleAtSpecificBlocks(
 }
 
 // ── RPC client creation ──────────────────────────────────────
-// Use viem's built-in retry (retryCount + retryDelay) so individual
-// readContract / getBlock calls auto-retry on 429 / transient errors
-// instead of silently returning null.
+// Every chain reads through the shared provider pool, so a single
+// rate-limited endpoint fails over instead of dropping the chain.
 
-async function createClientWithRetry(
+async function createChainClient(
   slug: ChainSlug,
-): Promise<{ client: AnyClient; headBlock: bigint; headTs: number } | null> {
-  const envKey = `${slug.toUpperCase()}_RPC_URL`;
-  const rpcUrl = process.env[envKey] || FALLBACK_RPCS[slug];
+): Promise<{ pool: RpcPool; headBlock: bigint; headTs: number } | { pool: RpcPool; error: string }> {
+  const pool = createRpcPool(slug, {
+    timeout: 30_000,
+    batch: { batchSize: 50, wait: 20 },  // JSON-RPC batching: 50 calls per HTTP request
+    multicall: true,
+  });
 
   try {
-    const c = createPublicClient({
-      chain: CHAIN_META[slug].viemChain,
-      transport: http(rpcUrl, {
-        retryCount: 5,
-        retryDelay: 2000,
-        timeout: 30_000,
-        batch: { batchSize: 50, wait: 20 },  // JSON-RPC batching: 50 calls per HTTP request
-      }),
-      batch: { multicall: true },
-    });
-    const blockNum = await c.getBlockNumber();
-    const block = await c.getBlock({ blockNumber: blockNum });
-    const source = process.env[envKey] ? 'Alchemy' : 'fallback';
-    console.log(`[refreshAnalysis] ${slug}: head block ${blockNum} via ${source}`);
-    return { client: c, headBlock: blockNum, headTs: Number(block.timestamp) };
+    const blockNum = await pool.client.getBlockNumber();
+    const block = await pool.client.getBlock({ blockNumber: blockNum });
+    console.log(`[refreshAnalysis] ${slug}: head block ${blockNum} via ${pool.primary()}`);
+    return { pool, headBlock: blockNum, headTs: Number(block.timestamp) };
   } catch (err) {
-    console.error(`[refreshAnalysis] ${slug}: RPC failed:`, (err as Error).message?.substring(0, 120));
-    return null;
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[refreshAnalysis] ${slug}: every RPC failed:`, message.substring(0, 120));
+    return { pool, error: message };
   }
 }
 
@@ -531,49 +509,44 @@ function computeDaysToFetch(
 async function sampleOracleAndIntrinsic(
   oracleClient: AnyClient,
   oracleAddr: Address,
-  oracleHeadBlock: bigint,
+  oracleBlockResolver: BlockResolver,
   oracleHeadTs: number,
-  oracleBpd: number,
   collateralCfg: TokenCfg | null,
   collateralClient: AnyClient | null,
-  collateralHead: bigint | null,
-  collateralHeadTs: number | null,
-  collateralBpd: number | null,
+  collateralBlocks: BlockResolver | null,
   loanCfg: TokenCfg | null,
   loanClient: AnyClient | null,
-  loanHead: bigint | null,
-  loanHeadTs: number | null,
-  loanBpd: number | null,
+  loanBlocks: BlockResolver | null,
   daysToFetch: number,
   intermediateTokenCfg?: TokenCfg | null,
   intermediateClient?: AnyClient | null,
-  intermediateHead?: bigint | null,
-  intermediateHeadTs?: number | null,
-  intermediateBpd?: number | null,
+  intermediateBlocks?: BlockResolver | null,
   collateralAddr?: Address,
 ): Promise<DualSample[]> {
   const samples: DualSample[] = [];
   const BATCH = 50;
 
-  const hasCollateralIntrinsic = collateralCfg && collateralClient && collateralHead && collateralHeadTs && collateralBpd;
-  const hasLoanIntrinsic = loanCfg && loanClient && loanHead && loanHeadTs && loanBpd;
-  const hasIntermediate = intermediateTokenCfg && intermediateClient && intermediateHead && intermediateHeadTs && intermediateBpd && collateralAddr;
+  const hasCollateralIntrinsic = collateralCfg && collateralClient && collateralBlocks;
+  const hasLoanIntrinsic = loanCfg && loanClient && loanBlocks;
+  const hasIntermediate = intermediateTokenCfg && intermediateClient && intermediateBlocks && collateralAddr;
 
-  // Total sample points: SAMPLES_PER_DAY per day
+  // Total sample points: SAMPLES_PER_DAY per day, on a fixed grid so block lookups hit the cache
   const totalSamples = daysToFetch * SAMPLES_PER_DAY;
-  const blocksPerInterval = oracleBpd / SAMPLES_PER_DAY;
+  const gridHeadTs = alignTimestamp(oracleHeadTs, SAMPLE_INTERVAL_SECS);
 
   for (let start = 0; start < totalSamples; start += BATCH) {
     const end = Math.min(start + BATCH, totalSamples);
     const sampleOffsets: number[] = [];
     for (let s = start; s < end; s++) sampleOffsets.push(s);
 
-    // Estimate timestamps from block math — avoids costly getBlock RPC calls
-    const targetTimestamps = sampleOffsets.map(s => oracleHeadTs - s * SAMPLE_INTERVAL_SECS);
-    const oracleBlocks = sampleOffsets.map(s => {
-      const b = oracleHeadBlock - BigInt(Math.round(blocksPerInterval * s));
-      return b > 0n ? b : 1n;
-    });
+    // Every chain is read at the block that was current at each grid timestamp
+    const targetTimestamps = sampleOffsets.map(s => gridHeadTs - s * SAMPLE_INTERVAL_SECS);
+    const [oracleBlocks, cBlocks, lBlocks, iBlocks] = await Promise.all([
+      oracleBlockResolver.blocksAt(targetTimestamps).then(bs => bs.map(b => b.number)),
+      resolveBlocks(hasCollateralIntrinsic || hasIntermediate ? collateralBlocks : null, targetTimestamps),
+      resolveBlocks(hasLoanIntrinsic ? loanBlocks : null, targetTimestamps),
+      resolveBlocks(hasIntermediate ? intermediateBlocks : null, targetTimestamps),
+    ]);
 
     const oraclePricePromises = oracleBlocks.map(b =>
       oracleClient.readContract({
@@ -583,22 +556,20 @@ async function sampleOracleAndIntrinsic(
 
     // Collateral intrinsic rates
     let collateralPromises: Promise<number | null>[];
-    if (hasIntermediate) {
+    if (hasIntermediate && cBlocks && iBlocks) {
       // Chained intrinsic: convertToAssets(1e18) * getRate(intermediate)
-      collateralPromises = targetTimestamps.map(async (ts) => {
+      collateralPromises = targetTimestamps.map(async (_, i) => {
         try {
-          const cBlock = timestampToBlock(ts, collateralHeadTs!, collateralHead!, collateralBpd!);
           const rawAssets = await collateralClient!.readContract({
             address: collateralAddr!,
             abi: CONVERT_TO_ASSETS_ABI,
             functionName: 'convertToAssets',
             args: [BigInt(1e18)],
-            blockNumber: cBlock,
+            blockNumber: cBlocks[i],
           }) as bigint;
           const directRate = Number(rawAssets) / 1e18;
 
-          const iBlock = timestampToBlock(ts, intermediateHeadTs!, intermediateHead!, intermediateBpd!);
-          const intermediateRate = await getRate(intermediateTokenCfg!, intermediateClient!, iBlock);
+          const intermediateRate = await getRate(intermediateTokenCfg!, intermediateClient!, iBlocks[i]);
           if (!intermediateRate) return directRate;
 
           return directRate * intermediateRate;
@@ -606,20 +577,14 @@ async function sampleOracleAndIntrinsic(
           return null;
         }
       });
-    } else if (hasCollateralIntrinsic) {
-      collateralPromises = targetTimestamps.map(ts => {
-        const block = timestampToBlock(ts, collateralHeadTs!, collateralHead!, collateralBpd!);
-        return getRate(collateralCfg!, collateralClient!, block).catch(() => null);
-      });
+    } else if (hasCollateralIntrinsic && cBlocks) {
+      collateralPromises = targetTimestamps.map((_, i) => getRate(collateralCfg!, collateralClient!, cBlocks[i]).catch(() => null));
     } else {
       collateralPromises = sampleOffsets.map(() => Promise.resolve(null));
     }
 
-    const loanPromises = hasLoanIntrinsic
-      ? targetTimestamps.map(ts => {
-          const block = timestampToBlock(ts, loanHeadTs!, loanHead!, loanBpd!);
-          return getRate(loanCfg!, loanClient!, block).catch(() => null);
-        })
+    const loanPromises = hasLoanIntrinsic && lBlocks
+      ? targetTimestamps.map((_, i) => getRate(loanCfg!, loanClient!, lBlocks[i]).catch(() => null))
       : sampleOffsets.map(() => Promise.resolve(null));
 
     const [oraclePrices, collateralRates, loanRates] = await Promise.all([
@@ -636,7 +601,7 @@ async function sampleOracleAndIntrinsic(
           oraclePrice: price,
           collateralIntrinsic: collateralRates[i],
           loanIntrinsic: loanRates[i],
-          timestamp: Math.round(targetTimestamps[i]),
+          timestamp: targetTimestamps[i],
         });
       }
     }
@@ -803,6 +768,12 @@ export async function refreshAllAnalysis(): Promise<{
   stableAnalysis: Record<string, AnalysisSummary[]>;
   depegRows: DepegHistoryRow[];
   summary: { chain: string; ethPairs: number; stablePairs: number }[];
+  /** Oracle groups skipped because their history is already up to date */
+  skipped: number;
+  /** Chains whose RPC was unreachable and oracle groups that failed to sample */
+  failures: { chain: string; error: string }[];
+  /** RPC providers that served the run, per chain */
+  providers: RpcProviderUsage[];
 }> {
   // 1. Load current markets from Supabase
   const { data: row } = await supabase
@@ -817,22 +788,33 @@ export async function refreshAllAnalysis(): Promise<{
 
   const marketsByChain = row.data as Record<string, MarketEntry[]>;
 
+  const registry = await loadTokenRegistry();
+
   // 2. Check existing data to determine incremental range
   const existingTimestamps = await getExistingLatestTimestamps();
   const isIncremental = existingTimestamps.size > 0;
   console.log(`[refreshAnalysis] Mode: ${isIncremental ? `incremental (${existingTimestamps.size} markets have data)` : `full backfill (${SAMPLE_DAYS} days)`}`);
 
-  // 3. Create RPC clients with retry
+  // 3. Create pooled RPC clients
+  const pools: RpcPool[] = [];
   const clients: Partial<Record<ChainSlug, AnyClient>> = {};
+  const resolvers: Partial<Record<ChainSlug, BlockResolver>> = {};
   const heads: Partial<Record<ChainSlug, bigint>> = {};
   const headTimestamps: Partial<Record<ChainSlug, number>> = {};
+  const failures: { chain: string; error: string }[] = [];
 
   for (const slug of Object.keys(CHAIN_META) as ChainSlug[]) {
-    const result = await createClientWithRetry(slug);
-    if (result) {
-      clients[slug] = result.client;
+    const result = await createChainClient(slug);
+    pools.push(result.pool);
+    if ('headBlock' in result) {
+      clients[slug] = result.pool.client;
       heads[slug] = result.headBlock;
       headTimestamps[slug] = result.headTs;
+      resolvers[slug] = createBlockResolver(slug, result.pool.client, {
+        head: { number: result.headBlock, timestamp: result.headTs },
+      });
+    } else if (marketsByChain[slug]?.length) {
+      failures.push({ chain: slug, error: `RPC unavailable: ${result.error.substring(0, 120)}` });
     }
   }
 
@@ -865,6 +847,7 @@ export async function refreshAllAnalysis(): Promise<{
 
   let processedOracles = 0;
   let skippedOracles = 0;
+  let unbucketed = 0;
 
   // Process oracle groups in parallel (6 at a time — JSON-RPC batching reduces HTTP load)
   const PARALLEL_GROUPS = 6;
@@ -874,9 +857,9 @@ export async function refreshAllAnalysis(): Promise<{
     const oracleClient = clients[group.chain];
     const oracleHead = heads[group.chain];
     const oracleHeadTs = headTimestamps[group.chain];
-    if (!oracleClient || !oracleHead || !oracleHeadTs) return null;
+    const oracleBlocks = resolvers[group.chain];
+    if (!oracleClient || !oracleHead || !oracleHeadTs || !oracleBlocks) return null;
 
-    const oracleBpd = CHAIN_META[group.chain].blocksPerDay;
     const firstMarket = group.markets[0];
     const marketIds = group.markets.map(m => m.marketId);
     const collateralSymbol = firstMarket.collateralTokenSymbol;
@@ -917,7 +900,7 @@ export async function refreshAllAnalysis(): Promise<{
       if (daysToFetch <= 0) { skippedOracles++; return null; }
 
       const fromTimestamp = oracleHeadTs - daysToFetch * 86400;
-      const fromBlock = oracleHead - BigInt(daysToFetch) * BigInt(oracleBpd);
+      const fromBlock = (await oracleBlocks.blockAt(fromTimestamp)).number;
 
       // Fetch Chainlink AnswerUpdated events via getLogs (works on all chains)
       let feedUpdates: FeedUpdate[] = [];
@@ -949,16 +932,16 @@ export async function refreshAllAnalysis(): Promise<{
         if (useEventDriven) {
           samples = await sampleAtSpecificBlocks(
             oracleClient, group.oracle, feedUpdates,
-            null, null, null, null, null,
-            null, null, null, null, null,
+            null, null, null,
+            null, null, null,
           );
           depegResult = computeMaxDrawdown(samples, collateralDec, loanDec);
           methodLabel = `event-driven max-drawdown (${oracleType.category}, ${feedUpdates.length} updates, ${samples.length} pts)`;
         } else {
           samples = await sampleOracleAndIntrinsic(
-            oracleClient, group.oracle, oracleHead, oracleHeadTs, oracleBpd,
-            null, null, null, null, null,
-            null, null, null, null, null,
+            oracleClient, group.oracle, oracleBlocks, oracleHeadTs,
+            null, null, null,
+            null, null, null,
             daysToFetch,
           );
           depegResult = computeMaxDrawdown(samples, collateralDec, loanDec);
@@ -967,30 +950,30 @@ export async function refreshAllAnalysis(): Promise<{
 
       } else {
         // ── MARKET_PRICE: oracle vs chained intrinsic rate ──
-        const collateralCfg = TOKEN_BY_SYMBOL.get(collateralSymbol) || null;
-        let cClient: AnyClient | null = null, cHead: bigint | null = null, cHeadTs: number | null = null, cBpd: number | null = null;
+        const collateralCfg = registry.bySymbol(collateralSymbol);
+        let cClient: AnyClient | null = null, cBlocks: BlockResolver | null = null;
         if (collateralCfg) {
-          const r = resolveIntrinsicChain(collateralCfg, clients, heads, headTimestamps);
-          cClient = r.client; cHead = r.headBlock; cHeadTs = r.headTs; cBpd = r.bpd;
+          const r = resolveIntrinsicChain(collateralCfg, clients, resolvers);
+          cClient = r.client; cBlocks = r.blocks;
         }
 
-        const loanCfg = TOKEN_BY_SYMBOL.get(loanSymbol) || null;
-        let lClient: AnyClient | null = null, lHead: bigint | null = null, lHeadTs: number | null = null, lBpd: number | null = null;
+        const loanCfg = registry.bySymbol(loanSymbol);
+        let lClient: AnyClient | null = null, lBlocks: BlockResolver | null = null;
         if (loanCfg) {
-          const r = resolveIntrinsicChain(loanCfg, clients, heads, headTimestamps);
-          lClient = r.client; lHead = r.headBlock; lHeadTs = r.headTs; lBpd = r.bpd;
+          const r = resolveIntrinsicChain(loanCfg, clients, resolvers);
+          lClient = r.client; lBlocks = r.blocks;
         }
 
         let intermediateTokenCfg: TokenCfg | null = null;
-        let iClient: AnyClient | null = null, iHead: bigint | null = null, iHeadTs: number | null = null, iBpd: number | null = null;
+        let iClient: AnyClient | null = null, iBlocks: BlockResolver | null = null;
         let collTokenAddr: Address | undefined;
 
         if (collateralCfg && cClient) {
           collTokenAddr = collateralCfg.address;
-          intermediateTokenCfg = await detectIntermediateToken(cClient, collateralCfg.address, collateralCfg.chain as ChainSlug);
+          intermediateTokenCfg = await detectIntermediateToken(cClient, collateralCfg.address, collateralCfg.chain as ChainSlug, registry);
           if (intermediateTokenCfg) {
-            const r = resolveIntrinsicChain(intermediateTokenCfg, clients, heads, headTimestamps);
-            iClient = r.client; iHead = r.headBlock; iHeadTs = r.headTs; iBpd = r.bpd;
+            const r = resolveIntrinsicChain(intermediateTokenCfg, clients, resolvers);
+            iClient = r.client; iBlocks = r.blocks;
             console.log(`    → chained intrinsic: ${collateralSymbol} → ${intermediateTokenCfg.symbol}`);
           }
         }
@@ -998,9 +981,9 @@ export async function refreshAllAnalysis(): Promise<{
         if (useEventDriven) {
           samples = await sampleAtSpecificBlocks(
             oracleClient, group.oracle, feedUpdates,
-            collateralCfg, cClient, cHead, cHeadTs, cBpd,
-            loanCfg, lClient, lHead, lHeadTs, lBpd,
-            intermediateTokenCfg, iClient, iHead, iHeadTs, iBpd,
+            collateralCfg, cClient, cBlocks,
+            loanCfg, lClient, lBlocks,
+            intermediateTokenCfg, iClient, iBlocks,
             collTokenAddr,
           );
           depegResult = computeMarketPriceDepeg(samples, collateralDec, loanDec);
@@ -1009,11 +992,11 @@ export async function refreshAllAnalysis(): Promise<{
           methodLabel = `event-driven market-price (${chainLabel}, c=${cHits}/${samples.length}, ${feedUpdates.length} updates)`;
         } else {
           samples = await sampleOracleAndIntrinsic(
-            oracleClient, group.oracle, oracleHead, oracleHeadTs, oracleBpd,
-            collateralCfg, cClient, cHead, cHeadTs, cBpd,
-            loanCfg, lClient, lHead, lHeadTs, lBpd,
+            oracleClient, group.oracle, oracleBlocks, oracleHeadTs,
+            collateralCfg, cClient, cBlocks,
+            loanCfg, lClient, lBlocks,
             daysToFetch,
-            intermediateTokenCfg, iClient, iHead, iHeadTs, iBpd,
+            intermediateTokenCfg, iClient, iBlocks,
             collTokenAddr,
           );
           depegResult = computeMarketPriceDepeg(samples, collateralDec, loanDec);
@@ -1078,6 +1061,7 @@ export async function refreshAllAnalysis(): Promise<{
       return { groupNewRows, results, chain: group.chain, firstMarket };
     } catch (err) {
       console.warn(`  [${key}] oracle sampling failed:`, err);
+      failures.push({ chain: group.chain, error: `${key}: ${err instanceof Error ? err.message : String(err)}` });
       return null;
     }
   }
@@ -1094,8 +1078,12 @@ export async function refreshAllAnalysis(): Promise<{
       processedOracles++;
       newDepegRows.push(...res.groupNewRows);
       for (const r of res.results) {
-        const isEth = ETH_TOKENS.has(r.market_name.split('/')[0]) && ETH_TOKENS.has(r.market_name.split('/')[1]);
-        const target = isEth ? ethAnalysis : stableAnalysis;
+        const bucket = pairBucket(registry, r.market_name);
+        if (!bucket) {
+          unbucketed++;
+          continue;
+        }
+        const target = bucket === 'eth' ? ethAnalysis : stableAnalysis;
         if (!target[r.chain]) target[r.chain] = [];
         target[r.chain].push(r);
       }
@@ -1103,6 +1091,7 @@ export async function refreshAllAnalysis(): Promise<{
   }
 
   console.log(`[refreshAnalysis] Processed ${processedOracles}/${oracleGroups.size} oracle groups (${skippedOracles} skipped, up to date)`);
+  if (unbucketed > 0) console.log(`[refreshAnalysis] ${unbucketed} markets are neither ETH nor stablecoin pairs, left out of the analysis`);
 
   const allChains = new Set([...Object.keys(ethAnalysis), ...Object.keys(stableAnalysis)]);
   const summary = Array.from(allChains).map(c => ({
@@ -1111,5 +1100,6 @@ export async function refreshAllAnalysis(): Promise<{
     stablePairs: stableAnalysis[c]?.length ?? 0,
   }));
 
-  return { ethAnalysis, stableAnalysis, depegRows: newDepegRows, summary };
+  const providers = pools.flatMap(p => p.usage());
+  return { ethAnalysis, stableAnalysis, depegRows: newDepegRows, summary, skipped: skippedOracles, failures, providers };
 }
@@ -1,10 +1,14 @@
 /**
  * Fetch Morpho Blue markets from the GraphQL API, filter for same-asset
- * markets with >$100k TVL, and return the result grouped by chain.
+ * markets with >$100k TVL, and return the result grouped by chain, along
+ * with one supply/borrow/utilization sample per market for the
+ * market_rate_history table.
  *
  * Called by /api/cron/refresh-markets
  */
 
+import { loadTokenRegistry, type TokenRegistry } from './tokenRegistry';
+
 const MORPHO_API = 'https://blue-api.morpho.org/graphql';
 
 const SUPPORTED_CHAINS = [
@@ -20,16 +24,6 @@ const UNWANTED_TOKENS = [
   'AA_FALCONXUSDC', 'USD0', 'mHyperETH',
 ];
 
-const ETH_TOKENS = new Set([
-  'ETH', 'WETH', 'stETH', 'wstETH', 'rETH', 'cbETH', 'weETH',
-  'ezETH', 'rsETH', 'pufETH', 'wrsETH', 'ynETHx', 'hgETH',
-]);
-
-const STABLECOINS = new Set([
-  'USDC', 'USDT', 'DAI', 'sDAI', 'sUSDe', 'USDe', 'FRAX', 'LUSD',
-  'crvUSD', 'GHO', 'USDS', 'USDbC', 'USDf', 'sUSDf', 'USDM', 'PYUSD',
-]);
-
 // ── GraphQL query ───────────────────────────────────────────
 
 const MARKETS_QUERY = `
@@ -45,7 +39,7 @@ const MARKETS_QUERY = `
         state {
           supplyAssets borrowAssets supplyShares borrowShares
           fee timestamp supplyApy borrowApy
-          netSupplyApy netBorrowApy
+          netSupplyApy netBorrowApy rateAtTarget
         }
       }
     }
@@ -67,9 +61,24 @@ interface ApiMarket {
     fee: string; timestamp: number;
     supplyApy: number; borrowApy: number;
     netSupplyApy?: number; netBorrowApy?: number;
+    /** AdaptiveCurveIrm rate at target, per second, WAD-scaled; null for other IRMs */
+    rateAtTarget?: string | number | null;
   };
 }
 
+/** Row in the market_rate_history table; APYs and utilization in % */
+export interface RateHistoryRow {
+  market_id: string;
+  chain: string;
+  timestamp_ms: number;
+  supply_apy: number;
+  borrow_apy: number;
+  utilization: number;
+}
+
+// Samples are bucketed to the hour so a re-run overwrites instead of piling up
+const SAMPLE_BUCKET_MS = 3_600_000;
+
 // ── Core logic ──────────────────────────────────────────────
 
 async function fetchChainMarkets(chainId: number): Promise<ApiMarket[]> {
@@ -126,6 +135,7 @@ function formatMarket(m: ApiMarket) {
     oracleType: m.oracle?.type || 'Unknown Oracle',
     oraclePrice: 1,
     availableLiquidity: fmt(supplyAssets - borrowAssets),
+    rateAtTarget: m.state.rateAtTarget != null ? Number(m.state.rateAtTarget) / 1e18 : null,
   };
 }
 
@@ -138,6 +148,8 @@ function isUnwanted(symbol: string): boolean {
 function isSameAsset(col: string, loan: string): boolean {
   const extract = (t: string) => {
     let b = t.replace(/^w/, '').toLowerCase();
+    // Polygon renamed MATIC to POL; MaticX/WPOL is still a same-asset pair
+    if (b === 'pol') b = 'matic';
     if (b.startsWith('pt-')) {
       const parts = b.split('-');
       if (parts.length >= 3) return parts[1];
@@ -149,32 +161,52 @@ function isSameAsset(col: string, loan: string): boolean {
   return c === l || c.includes(l) || l.includes(c);
 }
 
-function isEthToken(symbol: string): boolean {
-  return ETH_TOKENS.has(symbol) || symbol.toUpperCase().includes('ETH');
+function isEthToken(registry: TokenRegistry, symbol: string): boolean {
+  return registry.isEth(symbol) || symbol.toUpperCase().includes('ETH');
 }
 
-async function getEthPrice(): Promise<number> {
+/** USD prices for the non-USD denominations; ETH falls back to 2000, POL to null (unpriceable) */
+async function getUsdPrices(): Promise<{ ETH: number; POL: number | null }> {
   try {
     const res = await fetch(
-      'https://coins.llama.fi/prices/current/coingecko:ethereum',
+      'https://coins.llama.fi/prices/current/coingecko:ethereum,coingecko:polygon-ecosystem-token',
       { headers: { Accept: 'application/json' } },
     );
     const data = await res.json();
-    return data.coins?.['coingecko:ethereum']?.price ?? 2000;
+    return {
+      ETH: data.coins?.['coingecko:ethereum']?.price ?? 2000,
+      POL: data.coins?.['coingecko:polygon-ecosystem-token']?.price ?? null,
+    };
   } catch {
-    return 2000;
+    return { ETH: 2000, POL: null };
   }
 }
 
+/**
+ * Market size in USD, priced by the loan token's denomination. Loan tokens
+ * the registry doesn't know and that aren't ETH-named count as dollars.
+ * Null for a POL market when POL can't be priced.
+ */
+function tvlUsd(registry: TokenRegistry, prices: { ETH: number; POL: number | null }, loanSymbol: string, tvl: number): number | null {
+  const asset = registry.assetOf(loanSymbol);
+  if (asset === 'USD') return tvl;
+  if (asset === 'POL') return prices.POL === null ? null : tvl * prices.POL;
+  if (isEthToken(registry, loanSymbol)) return tvl * prices.ETH;
+  return tvl;
+}
+
 // ── Public API ──────────────────────────────────────────────
 
 export async function refreshAllMarkets(): Promise<{
   data: Record<string, ReturnType<typeof formatMarket>[]>;
-  summary: { chain: string; count: number }[];
+  rateRows: RateHistoryRow[];
+  summary: { chain: string; count: number; error?: string }[];
 }> {
-  const ethPrice = await getEthPrice();
+  const [prices, registry] = await Promise.all([getUsdPrices(), loadTokenRegistry()]);
   const result: Record<string, ReturnType<typeof formatMarket>[]> = {};
-  const summary: { chain: string; count: number }[] = [];
+  const rateRows: RateHistoryRow[] = [];
+  const summary: { chain: string; count: number; error?: string }[] = [];
+  const sampledAt = Math.floor(Date.now() / SAMPLE_BUCKET_MS) * SAMPLE_BUCKET_MS;
 
   for (const chain of SUPPORTED_CHAINS) {
     try {
@@ -197,19 +229,28 @@ export async function refreshAllMarkets(): Promise<{
       // TVL >= $100k
       markets = markets.filter(m => {
         const tvl = parseFloat(m.availableLiquidity) + parseFloat(m.totalBorrowAssets);
-        if (STABLECOINS.has(m.loanTokenSymbol)) return tvl >= 100_000;
-        if (isEthToken(m.loanTokenSymbol)) return tvl * ethPrice >= 100_000;
-        return tvl >= 100_000;
+        const usd = tvlUsd(registry, prices, m.loanTokenSymbol, tvl);
+        return usd !== null && usd >= 100_000;
       });
 
       result[chain.name] = markets;
+      for (const m of markets) {
+        rateRows.push({
+          market_id: m.marketId,
+          chain: chain.name,
+          timestamp_ms: sampledAt,
+          supply_apy: m.supplyAPY,
+          borrow_apy: m.borrowAPY,
+          utilization: m.utilizationRate,
+        });
+      }
       summary.push({ chain: chain.name, count: markets.length });
     } catch (err) {
       console.error(`refreshMarkets: ${chain.name} failed`, err);
       result[chain.name] = [];
-      summary.push({ chain: chain.name, count: 0 });
+      summary.push({ chain: chain.name, count: 0, error: err instanceof Error ? err.message : String(err) });
     }
   }
 
-  return { data: result, summary };
+  return { data: result, rateRows, summary };
 }
@@ -3,11 +3,12 @@
  * Fetches exchange rates at current block and N days ago,
  * annualizes the growth into 7d and 30d APY.
  *
- * Called by /api/cron/refresh-rates
+ * Called by /api/cron/refresh-token-rates
  */
 
-import { createPublicClient, http, type Address } from 'viem';
-import { mainnet, base, optimism } from 'viem/chains';
+import { createRpcPool, type RpcPool, type RpcProviderUsage } from './rpcPool';
+import { alignTimestamp, createBlockResolver, type BlockResolver, type ResolvedBlock } from './blockResolver';
+import { HELPER_METHODS, RATE_CHAINS, loadTokenRegistry, type RateChain, type RateMethod, type TokenCfg } from './tokenRegistry';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // Using `any` for AnyClient because viem generates different types per chain,
@@ -16,21 +17,6 @@ type AnyClient = any;
 
 // ── Types ───────────────────────────────────────────────────
 
-export type RateMethod = 'wstETH' | 'cbETH' | 'rETH' | 'weETH' | 'rsETH' | 'ezETH' | 'erc4626' | 'rebasing' | 'lsETH';
-export type RateChain = 'ethereum' | 'base' | 'optimism';
-
-export interface TokenCfg {
-  symbol: string;
-  address: Address;
-  method: RateMethod;
-  helper?: Address;
-  type: string;
-  source: string;
-  chain: RateChain;
-  fallback: number;
-  max: number;
-}
-
 export interface TokenRateResult {
   token: string;
   apy_7d: number;
@@ -58,56 +44,20 @@ export const tokenAbi = {
     { inputs: [], name: 'totalUnderlyingSupply', outputs: [{ type: 'uint256' }], stateMutability: 'view', type: 'function' },
     { inputs: [], name: 'totalSupply', outputs: [{ type: 'uint256' }], stateMutability: 'view', type: 'function' },
   ] as const,
+  stMATIC: [{ inputs: [{ type: 'uint256' }], name: 'convertStMaticToMatic', outputs: [{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }], stateMutability: 'view', type: 'function' }] as const,
+  MaticX: [{ inputs: [{ type: 'uint256' }], name: 'convertMaticXToMatic', outputs: [{ type: 'uint256' }, { type: 'uint256' }, { type: 'uint256' }], stateMutability: 'view', type: 'function' }] as const,
   totalSupply: [{ inputs: [], name: 'totalSupply', outputs: [{ type: 'uint256' }], stateMutability: 'view', type: 'function' }] as const,
   calculateTVLs: [{ inputs: [], name: 'calculateTVLs', outputs: [{ type: 'uint256[][]' }, { type: 'uint256[]' }, { type: 'uint256' }], stateMutability: 'view', type: 'function' }] as const,
 };
 
-// ── Token Registry ──────────────────────────────────────────
-
-export const TOKENS: TokenCfg[] = [
-  // LSTs
-  { symbol: 'wstETH', address: '0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0', method: 'wstETH', type: 'Liquid Staking', source: 'Lido', chain: 'ethereum', fallback: 3.0, max: 10 },
-  { symbol: 'cbETH', address: '0xBe9895146f7AF43049ca1c1AE358B0541Ea49704', method: 'cbETH', type: 'Liquid Staking', source: 'Coinbase', chain: 'ethereum', fallback: 2.8, max: 10 },
-  { symbol: 'rETH', address: '0xae78736Cd615f374D3085123A210448E74Fc6393', method: 'rETH', type: 'Liquid Staking', source: 'RocketPool', chain: 'ethereum', fallback: 3.0, max: 10 },
-  { symbol: 'LsETH', address: '0x8c1BEd5b9a0928467c9B1341Da1D7BD5e10b6549', method: 'lsETH', type: 'Liquid Staking', source: 'Liquid Collective', chain: 'ethereum', fallback: 3.0, max: 10 },
-  // LRTs
-  { symbol: 'weETH', address: '0xCd5fE23C85820F7B72D0926FC9b05b43E359b7ee', method: 'weETH', type: 'Liquid Restaking', source: 'EtherFi', chain: 'ethereum', fallback: 3.5, max: 10 },
-  { symbol: 'ezETH', address: '0xbf5495Efe5DB9ce00f80364C8B423567e58d2110', method: 'ezETH', helper: '0x74a09653A083691711cF8215a6ab074BB4e99ef5', type: 'Liquid Restaking', source: 'Renzo', chain: 'ethereum', fallback: 3.2, max: 10 },
-  { symbol: 'rsETH', address: '0xA1290d69c65A6Fe4DF752f95823fae25cB99e5A7', method: 'rsETH', helper: '0x349A73444b1a310BAe67ef67973022020d70020d', type: 'Liquid Restaking', source: 'Kelp DAO', chain: 'ethereum', fallback: 3.3, max: 10 },
-  { symbol: 'pufETH', address: '0xD9A442856C234a39a81a089C06451EBAa4306a72', method: 'erc4626', type: 'Liquid Restaking', source: 'Puffer Finance', chain: 'ethereum', fallback: 3.0, max: 15 },
-  { symbol: 'rswETH', address: '0xfae103dc9cf190ed75350761e95403b7b8afa6c0', method: 'erc4626', type: 'Liquid Restaking', source: 'Swell', chain: 'ethereum', fallback: 3.2, max: 10 },
-  { symbol: 'agETH', address: '0xe1B4d34E8754600962Cd944B535180Bd758E6c2e', method: 'erc4626', type: 'Liquid Restaking', source: 'Kelp DAO', chain: 'ethereum', fallback: 3.3, max: 10 },
-  // Yield ETH
-  { symbol: 'OETH', address: '0x856c4Efb76C1D1AE02e20CEB03A2A6a08b0b8dC3', method: 'rebasing', type: 'Yield ETH', source: 'Origin Protocol', chain: 'ethereum', fallback: 3.5, max: 15 },
-  { symbol: 'ynETHx', address: '0x657d9ABA1DBb59e53f9F3eCAA878447dCfC96dCb', method: 'erc4626', type: 'Liquid Restaking', source: 'YieldNest', chain: 'ethereum', fallback: 3.5, max: 15 },
-  { symbol: 'hgETH', address: '0xc824a08db624942c5e5f330d56530cd1598859fd', method: 'erc4626', type: 'Yield ETH', source: 'High Growth ETH', chain: 'ethereum', fallback: 3.5, max: 15 },
-  { symbol: 'ETH+', address: '0xe72b141df173b999ae7c1adcbf60cc9833ce56a8', method: 'erc4626', type: 'Yield ETH', source: 'Reserve Protocol', chain: 'ethereum', fallback: 3.0, max: 10 },
-  { symbol: 'savETH', address: '0xDA06eE2dACF9245Aa80072a4407deBDea0D7e341', method: 'erc4626', type: 'Yield ETH', source: 'Stakehouse', chain: 'ethereum', fallback: 3.0, max: 10 },
-  { symbol: 'wbrETH', address: '0x91094D333e018f81874D62E27522479BEC131b5f', method: 'erc4626', type: 'Yield ETH', source: 'Bracket Finance', chain: 'ethereum', fallback: 3.0, max: 10 },
-  { symbol: 'ETH0', address: '0x734eec7930bc84ec5732022b9eb949a81fb89abe', method: 'rebasing', type: 'Yield ETH', source: 'Infrared / Usual', chain: 'ethereum', fallback: 3.0, max: 15 },
-  // Stablecoins
-  { symbol: 'sUSDe', address: '0x9D39A5DE30e57443BfF2A8307A4256c8797A3497', method: 'erc4626', type: 'Staked Stablecoin', source: 'Ethena', chain: 'ethereum', fallback: 15.0, max: 30 },
-  { symbol: 'sDAI', address: '0x83F20F44975D03b1b09e64809B757c47f942BEeA', method: 'erc4626', type: 'Savings Token', source: 'MakerDAO', chain: 'ethereum', fallback: 5.0, max: 15 },
-  { symbol: 'sUSDS', address: '0xa3931d71877C0E7a3148CB7Eb4463524FEc27fbD', method: 'erc4626', type: 'Savings Token', source: 'Sky (MakerDAO)', chain: 'ethereum', fallback: 4.5, max: 10 },
-  { symbol: 'sUSDf', address: '0xc8CF6D7991f15525488b2A83Df53468D682Ba4B0', method: 'erc4626', type: 'Staked Stablecoin', source: 'Falcon Finance', chain: 'ethereum', fallback: 8.0, max: 25 },
-  { symbol: 'wstUSR', address: '0x1202F5C7b4B9E47a1A484E8B270be34dbbC75055', method: 'erc4626', type: 'Staked Stablecoin', source: 'Resolv', chain: 'ethereum', fallback: 4.0, max: 15 },
-  { symbol: 'wsrUSD', address: '0xd3fD63209FA2D55B07A0f6db36C2f43900be3094', method: 'erc4626', type: 'Staked Stablecoin', source: 'Resolv', chain: 'ethereum', fallback: 4.0, max: 15 },
-  { symbol: 'syrupUSDC', address: '0x80ac24aa929eaf5013f6436cda2a7ba190f5cc0b', method: 'erc4626', type: 'Lending Vault', source: 'Maple Finance', chain: 'ethereum', fallback: 8.0, max: 20 },
-  // Base chain
-  { symbol: 'superOETHb', address: '0xDBFeFD2e8460a6Ee4955A68582F85708BAEA60A3', method: 'rebasing', type: 'Yield ETH', source: 'Origin Protocol', chain: 'base', fallback: 3.8, max: 20 },
-  { symbol: 'yoETH', address: '0x3A43AEC53490CB9Fa922847385D82fe25d0E9De7', method: 'erc4626', type: 'Yield ETH', source: 'YO Protocol', chain: 'base', fallback: 4.0, max: 25 },
-  { symbol: 'bsdETH', address: '0xCb327b99fF831bF8223cCEd12B1338FF3aA322Ff', method: 'erc4626', type: 'Yield ETH', source: 'Based ETH', chain: 'base', fallback: 3.5, max: 15 },
-];
-
-export const RATE_BLOCKS_PER_DAY: Record<RateChain, number> = { ethereum: 7200, base: 43200, optimism: 43200 };
-
-const DEFAULT_RPCS: Record<RateChain, string> = {
-  ethereum: 'https://eth.llamarpc.com',
-  base: 'https://mainnet.base.org',
-  optimism: 'https://mainnet.optimism.io',
-};
+// Look-back targets are snapped to the hour so daily runs share cached blocks
+const LOOKBACK_GRID_SECS = 3600;
 
-const VIEM_CHAINS = { ethereum: mainnet, base, optimism } as const;
+/** Token-specific getters first, so the generic share-price reads only win when nothing else answers */
+const PROBE_ORDER: RateMethod[] = ['wstETH', 'cbETH', 'rETH', 'weETH', 'rsETH', 'ezETH', 'lsETH', 'stMATIC', 'MaticX', 'rebasing', 'erc4626'];
+/** A rate outside this band is a price in some other unit or a decimals mismatch, not an exchange rate */
+const SANE_RATE_MIN = 0.5;
+const SANE_RATE_MAX = 10;
 
 // ── Rate fetching ───────────────────────────────────────────
 
@@ -140,6 +90,15 @@ export async function getRate(t: TokenCfg, c: AnyClient, block: bigint): Promise
         const credits = await c.readContract({ address: t.address, abi: tokenAbi.rebasing, functionName: 'rebasingCreditsPerToken', blockNumber: block });
         return credits === 0n ? null : 1e18 / Number(credits);
       }
+      // MATIC staking pools quote the POL value of 1 token as the first of three outputs
+      case 'stMATIC': {
+        const [matic] = await c.readContract({ address: t.address, abi: tokenAbi.stMATIC, functionName: 'convertStMaticToMatic', args: [10n ** 18n], blockNumber: block });
+        return Number(matic) / 1e18;
+      }
+      case 'MaticX': {
+        const [matic] = await c.readContract({ address: t.address, abi: tokenAbi.MaticX, functionName: 'convertMaticXToMatic', args: [10n ** 18n], blockNumber: block });
+        return Number(matic) / 1e18;
+      }
       case 'lsETH': {
         const [underlying, supply] = await Promise.all([
           c.readContract({ address: t.address, abi: tokenAbi.lsETH, functionName: 'totalUnderlyingSupply', blockNumber: block }),
@@ -151,17 +110,20 @@ export async function getRate(t: TokenCfg, c: AnyClient, block: bigint): Promise
   } catch { return null; }
 }
 
-async function calcApy(t: TokenCfg, c: AnyClient, curBlock: bigint, curRate: number, days: number): Promise<number | null> {
+async function calcApy(
+  t: TokenCfg,
+  c: AnyClient,
+  blocks: BlockResolver,
+  cur: ResolvedBlock,
+  curRate: number,
+  days: number,
+): Promise<number | null> {
   try {
-    const pastBlock = curBlock - BigInt(RATE_BLOCKS_PER_DAY[t.chain] * days);
-    if (pastBlock <= 0n) return null;
-    const pastRate = await getRate(t, c, pastBlock);
+    const past = await blocks.blockAt(alignTimestamp(cur.timestamp, LOOKBACK_GRID_SECS) - days * 86400);
+    if (past.number <= 0n) return null;
+    const pastRate = await getRate(t, c, past.number);
     if (!pastRate || pastRate <= 0) return null;
-    const [curB, pastB] = await Promise.all([
-      c.getBlock({ blockNumber: curBlock }),
-      c.getBlock({ blockNumber: pastBlock }),
-    ]);
-    const actualDays = Number(curB.timestamp - pastB.timestamp) / 86400;
+    const actualDays = (cur.timestamp - past.timestamp) / 86400;
     if (actualDays <= 0) return null;
     const apy = (Math.pow(curRate / pastRate, 365.25 / actualDays) - 1) * 100;
     return apy >= 0 && apy <= t.max ? apy : null;
@@ -170,39 +132,94 @@ async function calcApy(t: TokenCfg, c: AnyClient, curBlock: bigint, curRate: num
 
 // ── Public API ──────────────────────────────────────────────
 
+/** APY over the last `days` read live from one client, or null when the rate can't be read */
+export async function liveTokenApy(t: TokenCfg, c: AnyClient, days = 7): Promise<number | null> {
+  const head = await c.getBlock();
+  const cur: ResolvedBlock = { number: head.number, timestamp: Number(head.timestamp) };
+  const curRate = await getRate(t, c, cur.number);
+  if (!curRate || curRate <= 0) return null;
+  // Browser callers have no business writing the shared block cache
+  return calcApy(t, c, createBlockResolver(t.chain, c, { head: cur, cache: false }), cur, curRate, days);
+}
+
+export interface RateProbe {
+  method: RateMethod;
+  /** Current rate, or null when the method reverted */
+  rate: number | null;
+  apy7d: number | null;
+  /** The rate is in band and grew at a believable APY over the last week */
+  sane: boolean;
+}
+
+/**
+ * Tries every rate method against a token, in PROBE_ORDER. Helper methods
+ * are only tried when a helper is given. The first sane probe is the one to
+ * register.
+ */
+export async function probeRateMethods(
+  t: Pick<TokenCfg, 'address' | 'chain' | 'helper' | 'max'>,
+  c: AnyClient,
+): Promise<RateProbe[]> {
+  const head = await c.getBlock();
+  const cur: ResolvedBlock = { number: head.number, timestamp: Number(head.timestamp) };
+  const blocks = createBlockResolver(t.chain, c, { head: cur });
+  const methods = PROBE_ORDER.filter(m => t.helper || !HELPER_METHODS.includes(m));
+
+  return Promise.all(methods.map(async (method): Promise<RateProbe> => {
+    const cfg: TokenCfg = { ...t, method, symbol: method, asset: 'ETH', type: '', source: '', fallback: 0 };
+    const rate = await getRate(cfg, c, cur.number);
+    if (!rate || rate < SANE_RATE_MIN || rate > SANE_RATE_MAX) return { method, rate, apy7d: null, sane: false };
+    const apy7d = await calcApy(cfg, c, blocks, cur, rate, 7);
+    return { method, rate, apy7d, sane: apy7d !== null };
+  }));
+}
+
 export async function refreshAllTokenRates(): Promise<{
   timestamp: string;
   rates: TokenRateResult[];
+  /** Tokens that fell back to their static APY, and why */
+  failures: { chain: RateChain; token: string; error: string }[];
+  /** RPC providers that served the run, per chain */
+  providers: RpcProviderUsage[];
 }> {
-  // Create clients
+  const registry = await loadTokenRegistry();
+
+  // One pooled client per chain that has tokens
+  const pools: RpcPool[] = [];
   const clients: Partial<Record<RateChain, AnyClient>> = {};
-  for (const chain of ['ethereum', 'base', 'optimism'] as RateChain[]) {
-    const rpc = process.env[`${chain.toUpperCase()}_RPC_URL`] || DEFAULT_RPCS[chain];
-    try {
-      clients[chain] = createPublicClient({ chain: VIEM_CHAINS[chain], transport: http(rpc) });
-    } catch { /* skip chain */ }
+  const resolvers: Partial<Record<RateChain, BlockResolver>> = {};
+  for (const chain of RATE_CHAINS.filter(c => registry.tokens.some(t => t.chain === c))) {
+    const pool = createRpcPool(chain);
+    pools.push(pool);
+    clients[chain] = pool.client;
+    resolvers[chain] = createBlockResolver(chain, pool.client);
   }
 
   const rates: TokenRateResult[] = [];
+  const failures: { chain: RateChain; token: string; error: string }[] = [];
 
-  for (const token of TOKENS) {
+  for (const token of registry.tokens) {
     const client = clients[token.chain];
     if (!client) {
+      failures.push({ chain: token.chain, token: token.symbol, error: 'No RPC client' });
       rates.push({ token: token.symbol, apy_7d: token.fallback, apy_30d: token.fallback, type: token.type, source: token.source });
       continue;
     }
 
     try {
-      const block = await client.getBlockNumber();
-      const curRate = await getRate(token, client, block);
+      const head = await client.getBlock();
+      const cur: ResolvedBlock = { number: head.number, timestamp: Number(head.timestamp) };
+      const curRate = await getRate(token, client, cur.number);
 
       if (!curRate || curRate <= 0) {
+        failures.push({ chain: token.chain, token: token.symbol, error: 'Rate read failed' });
         rates.push({ token: token.symbol, apy_7d: token.fallback, apy_30d: token.fallback, type: token.type, source: token.source });
         continue;
       }
 
-      const apy7 = await calcApy(token, client, block, curRate, 7);
-      const apy30 = await calcApy(token, client, block, curRate, 30);
+      const blocks = resolvers[token.chain]!;
+      const apy7 = await calcApy(token, client, blocks, cur, curRate, 7);
+      const apy30 = await calcApy(token, client, blocks, cur, curRate, 30);
 
       const clamp = (v: number | null, fb: number, mx: number) =>
         Math.round(Math.max(0, Math.min(mx, v ?? fb)) * 100) / 100;
@@ -218,10 +235,11 @@ export async function refreshAllTokenRates(): Promise<{
       if (token.chain !== 'ethereum') result.chain = token.chain;
 
       rates.push(result);
-    } catch {
+    } catch (err) {
+      failures.push({ chain: token.chain, token: token.symbol, error: err instanceof Error ? err.message : String(err) });
       rates.push({ token: token.symbol, apy_7d: token.fallback, apy_30d: token.fallback, type: token.type, source: token.source });
     }
   }
 
-  return { timestamp: new Date().toISOString(), rates };
+  return { timestamp: new Date().toISOString(), rates, failures, providers: pools.flatMap(p => p.usage()) };
 }
@@ -0,0 +1,236 @@
+/**
+ * rpcPool.ts
+ *
+ * Server-side RPC provider pool shared by the refreshers. Each chain gets
+ * every configured endpoint — `<CHAIN>_RPC_URLS` (comma-separated), the
+ * legacy `<CHAIN>_RPC_URL`, then the public endpoints — and every request
+ * goes to the best-scoring one, failing over to the next on error. A 429
+ * parks the provider until its Retry-After (or an exponential backoff)
+ * expires. Health is kept per URL for the life of the process, so a slow
+ * or rate-limited endpoint stays demoted across runs; usage is counted per
+ * pool, so each refresher run can report which providers served it.
+ */
+
+import {
+  createPublicClient, createTransport, http, shouldThrow, HttpRequestError, RpcRequestError,
+  type Chain, type EIP1193Parameters, type EIP1193RequestFn, type HttpTransportConfig, type PublicClient, type Transport,
+} from 'viem';
+import { mainnet, base, arbitrum, polygon, optimism } from 'viem/chains';
+import { CHAIN_CONFIG } from './chains';
+
+export type RpcChain = 'ethereum' | 'base' | 'arbitrum' | 'polygon' | 'optimism';
+
+const VIEM_CHAINS: Record<RpcChain, Chain> = { ethereum: mainnet, base, arbitrum, polygon, optimism };
+
+const PUBLIC_RPCS: Record<RpcChain, string[]> = {
+  ethereum: CHAIN_CONFIG.ethereum.rpcUrls,
+  base: CHAIN_CONFIG.base.rpcUrls,
+  arbitrum: CHAIN_CONFIG.arbitrum.rpcUrls,
+  polygon: CHAIN_CONFIG.polygon.rpcUrls,
+  optimism: ['https://mainnet.optimism.io', 'https://optimism-rpc.publicnode.com'],
+};
+
+// Scoring: EWMA latency, inflated by the EWMA error rate
+const EWMA_ALPHA = 0.2;
+const UNTRIED_LATENCY_MS = 500;
+const ERROR_PENALTY = 10;
+
+// 429 backoff when the provider sends no Retry-After
+const BACKOFF_BASE_MS = 2_000;
+const BACKOFF_MAX_MS = 60_000;
+/** Longest a request waits for a rate-limited provider when every provider is parked */
+const MAX_WAIT_MS = 30_000;
+/** Extra passes over the whole list when every provider failed a request */
+const POOL_RETRIES = 2;
+const POOL_RETRY_DELAY_MS = 1_000;
+
+interface ProviderHealth {
+  latencyMs: number | null;
+  /** 0 = every recent request succeeded, 1 = every one failed */
+  errorRate: number;
+  /** Unix ms until which the provider is parked after a 429 */
+  cooldownUntil: number;
+  /** Consecutive 429s, for the exponential backoff */
+  rateLimitStrikes: number;
+}
+
+export interface RpcProviderUsage {
+  chain: RpcChain;
+  /** Host only — URLs carry API keys */
+  provider: string;
+  /** Requests this provider answered */
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  avgLatencyMs: number | null;
+}
+
+export interface RpcPool {
+  chain: RpcChain;
+  client: PublicClient<Transport, Chain>;
+  /** Best-scoring provider right now */
+  primary(): string;
+  /** Per-provider usage since the pool was created, busiest first */
+  usage(): RpcProviderUsage[];
+}
+
+export interface RpcPoolOptions {
+  /** JSON-RPC batching per provider */
+  batch?: HttpTransportConfig['batch'];
+  /** Per-attempt timeout in ms */
+  timeout?: number;
+  /** Aggregate eth_calls through Multicall3 */
+  multicall?: boolean;
+}
+
+const HEALTH = new Map<string, ProviderHealth>();
+
+function healthOf(url: string): ProviderHealth {
+  let h = HEALTH.get(url);
+  if (!h) {
+    h = { latencyMs: null, errorRate: 0, cooldownUntil: 0, rateLimitStrikes: 0 };
+    HEALTH.set(url, h);
+  }
+  return h;
+}
+
+function providerLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+/** Configured endpoints first, then the public ones; duplicates dropped */
+export function rpcUrls(chain: RpcChain): string[] {
+  const env = chain.toUpperCase();
+  const configured = [
+    ...(process.env[`${env}_RPC_URLS`] ?? '').split(','),
+    process.env[`${env}_RPC_URL`] ?? '',
+  ].map(u => u.trim()).filter(Boolean);
+  return [...new Set([...configured, ...PUBLIC_RPCS[chain]])];
+}
+
+function score(h: ProviderHealth): number {
+  return (h.latencyMs ?? UNTRIED_LATENCY_MS) * (1 + ERROR_PENALTY * h.errorRate);
+}
+
+/** Available providers by score, then parked ones by when they free up; ties keep config order */
+function rank(urls: string[], now: number): string[] {
+  const available = urls.filter(u => healthOf(u).cooldownUntil <= now);
+  const parked = urls.filter(u => healthOf(u).cooldownUntil > now);
+  available.sort((a, b) => score(healthOf(a)) - score(healthOf(b)));
+  parked.sort((a, b) => healthOf(a).cooldownUntil - healthOf(b).cooldownUntil);
+  return [...available, ...parked];
+}
+
+function isRateLimit(err: unknown): boolean {
+  if (err instanceof HttpRequestError) return err.status === 429;
+  // -32005: "limit exceeded" on most node providers
+  if (err instanceof RpcRequestError) return err.code === -32005 || /rate.?limit|too many requests/i.test(err.message);
+  return false;
+}
+
+function retryAfterMs(err: unknown): number | null {
+  const header = err instanceof HttpRequestError ? err.headers?.get('Retry-After') : null;
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Client over every endpoint configured for `chain`. Reverts are thrown
+ * straight through — every provider would return the same one; anything
+ * else fails over to the next provider.
+ */
+export function createRpcPool(chain: RpcChain, { batch, timeout = 30_000, multicall = false }: RpcPoolOptions = {}): RpcPool {
+  const urls = rpcUrls(chain);
+  const viemChain = VIEM_CHAINS[chain];
+  const counts = new Map(urls.map(u => [u, { requests: 0, failures: 0, rateLimited: 0, latencyTotal: 0 }]));
+  const providers = new Map(urls.map(u => [u, http(u, { batch, timeout, retryCount: 0 })({ chain: viemChain, retryCount: 0 })]));
+
+  const request = (async (args: EIP1193Parameters) => {
+    if (urls.length === 0) throw new Error(`No RPC configured for ${chain}`);
+
+    let lastError: unknown = null;
+    // Providers skipped because their cooldown outlasts MAX_WAIT_MS
+    const parked: { url: string; wait: number }[] = [];
+
+    for (const url of rank(urls, Date.now())) {
+      const health = healthOf(url);
+      const count = counts.get(url)!;
+
+      const wait = health.cooldownUntil - Date.now();
+      if (wait > MAX_WAIT_MS) {
+        parked.push({ url, wait });
+        continue;
+      }
+      if (wait > 0) await sleep(wait);
+
+      const started = Date.now();
+      try {
+        const result = await providers.get(url)!.request(args);
+        const latency = Date.now() - started;
+        health.latencyMs = health.latencyMs === null ? latency : health.latencyMs + EWMA_ALPHA * (latency - health.latencyMs);
+        health.errorRate *= 1 - EWMA_ALPHA;
+        health.rateLimitStrikes = 0;
+        count.requests++;
+        count.latencyTotal += latency;
+        return result;
+      } catch (err) {
+        // The provider answered; the call itself is bad
+        if (shouldThrow(err as Error)) throw err;
+
+        lastError = err;
+        health.errorRate += EWMA_ALPHA * (1 - health.errorRate);
+        count.failures++;
+        if (isRateLimit(err)) {
+          health.rateLimitStrikes++;
+          count.rateLimited++;
+          const backoff = retryAfterMs(err) ?? Math.min(BACKOFF_BASE_MS * 2 ** (health.rateLimitStrikes - 1), BACKOFF_MAX_MS);
+          health.cooldownUntil = Date.now() + backoff;
+        }
+      }
+    }
+    if (lastError === null) {
+      const cooldowns = parked.map(p => `${providerLabel(p.url)} (${Math.ceil(p.wait / 1000)}s)`).join(', ');
+      throw new Error(`Every ${chain} RPC is rate-limited — cooling down: ${cooldowns}`);
+    }
+    throw lastError;
+  }) as EIP1193RequestFn;
+
+  const transport: Transport = () => createTransport({
+    key: 'rpcPool',
+    name: `RPC Pool (${chain})`,
+    type: 'rpcPool',
+    request,
+    retryCount: POOL_RETRIES,
+    retryDelay: POOL_RETRY_DELAY_MS,
+    timeout,
+  });
+
+  return {
+    chain,
+    client: createPublicClient({ chain: viemChain, transport, batch: { multicall } }),
+    primary: () => providerLabel(rank(urls, Date.now())[0]),
+    usage: () => urls
+      .map((u): RpcProviderUsage => {
+        const c = counts.get(u)!;
+        return {
+          chain,
+          provider: providerLabel(u),
+          requests: c.requests,
+          failures: c.failures,
+          rateLimited: c.rateLimited,
+          avgLatencyMs: c.requests > 0 ? Math.round(c.latencyTotal / c.requests) : null,
+        };
+      })
+      .filter(u => u.requests + u.failures > 0)
+      .sort((a, b) => b.requests - a.requests),
+  };
+}
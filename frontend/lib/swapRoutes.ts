@@ -0,0 +1,262 @@
+/**
+ * swapRoutes.ts
+ *
+ * Quotes the leverage helper's swap on every venue it can route through and
+ * picks the best output net of gas. Uniswap V3 is the helper's built-in
+ * path; Aerodrome and LiFi run through executeLeverageWithSwap /
+ * executeDeleverageWithSwap with the calldata built here, and only count
+ * when their router is on the helper's allow-list. Gas is priced in the
+ * output token through the chain's wrapped native token, or LiFi's USD
+ * prices when neither leg is it. Aerodrome is quoted on
+ * Base only. Its calldata carries a router deadline, so callers re-quote
+ * right before signing rather than sending a comparison they held on to.
+ */
+
+import { encodeAbiParameters, encodeFunctionData, zeroAddress, type Address, type Hex, type PublicClient } from 'viem';
+import {
+  MORPHO_ADDRESSES, MORPHO_FLASH_LOAN_HELPER_ABI, AERODROME_FACTORY_ABI, AERODROME_POOL_ABI, AERODROME_ROUTER_ABI,
+} from './leverageContract';
+import { CHAIN_CONFIG } from './chains';
+import { CHAIN_CONTRACTS } from './contracts';
+import { fetchLiFiQuote, type LiFiQuote } from './lifi';
+import { minAmountOut, quoteExactInputSingle, type UniswapV3PoolState } from './uniswapV3';
+import type { ChainSlug } from './types';
+
+export type SwapVenue = 'uniswapV3' | 'aerodrome' | 'lifi';
+
+export const SWAP_VENUE_LABELS: Record<SwapVenue, string> = {
+  uniswapV3: 'Uniswap V3',
+  aerodrome: 'Aerodrome',
+  lifi: 'LiFi',
+};
+
+// Typical swap gas per venue, for netting out execution cost; LiFi reports its own
+const VENUE_GAS: Record<Exclude<SwapVenue, 'lifi'>, bigint> = {
+  uniswapV3: 130_000n,
+  aerodrome: 160_000n,
+};
+
+// Aerodrome router deadline, counted from the quote
+const DEADLINE_SEC = 20 * 60;
+
+export interface RouterCall {
+  router: Address;
+  data: Hex;
+}
+
+export interface RouteQuote {
+  venue: SwapVenue;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Swap gas, in tokenOut units; 0 when the comparison couldn't price gas */
+  gasCost: bigint;
+  netAmountOut: bigint;
+  /** Router call for the *WithSwap entry points; null for the helper's built-in Uniswap V3 path */
+  call: RouterCall | null;
+  /** Router is on the helper's allow-list (always true for the built-in path) */
+  allowed: boolean;
+  /** Pool or aggregator tool behind the quote */
+  detail: string;
+}
+
+export interface RouteComparison {
+  amountIn: bigint;
+  /** Best net output first */
+  quotes: RouteQuote[];
+  failures: { venue: SwapVenue; error: string }[];
+  /** Best allowed quote; null when every venue failed */
+  best: RouteQuote | null;
+  /** False when gas couldn't be priced in tokenOut: quotes are then ranked by gross output */
+  gasPriced: boolean;
+}
+
+// A venue's quote before gas is priced in tokenOut
+interface VenueQuote {
+  venue: SwapVenue;
+  amountOut: bigint;
+  /** Swap gas, in native-token wei */
+  gasWei: bigint;
+  call: RouterCall | null;
+  allowed: boolean;
+  detail: string;
+  /** LiFi's raw quote, whose USD prices can price gas for the other venues too */
+  lifi?: LiFiQuote;
+}
+
+// Gas in tokenOut units for a quote's gas (wei) and output
+type GasPricer = (gasWei: bigint, amountOut: bigint) => bigint;
+
+export interface RouteRequest {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  /** Executes and receives the swap — the leverage helper */
+  recipient: Address;
+  chainId: number;
+  /** Fraction, e.g. 0.005 */
+  slippage: number;
+  /** The helper's Uniswap V3 pool, oriented tokenIn → tokenOut */
+  uniswapPool: UniswapV3PoolState;
+  gasPrice: bigint;
+  nowSec?: number;
+}
+
+/** Calldata the helper's *WithSwap entry points decode: abi.encode(address router, bytes data) */
+export function encodeSwapData({ router, data }: RouterCall): Hex {
+  return encodeAbiParameters([{ name: 'router', type: 'address' }, { name: 'data', type: 'bytes' }], [router, data]);
+}
+
+function wrappedNative(chainId: number): string | null {
+  const slug = (Object.keys(CHAIN_CONFIG) as ChainSlug[]).find(s => CHAIN_CONFIG[s].chainId === chainId);
+  return slug ? CHAIN_CONTRACTS[slug].wrappedNative.toLowerCase() : null;
+}
+
+// Gas is paid in the native token, which its wrapped form tracks 1:1; a wrapped-native input
+// prices it at the quote's own rate. Otherwise LiFi's USD values for its gas and output give
+// the rate. Null when none of these applies.
+function gasPricer(req: RouteRequest, lifi: LiFiQuote | null): GasPricer | null {
+  const native = wrappedNative(req.chainId);
+  if (req.tokenOut.toLowerCase() === native) return (gasWei) => gasWei;
+  if (req.tokenIn.toLowerCase() === native && req.amountIn > 0n) return (gasWei, amountOut) => (gasWei * amountOut) / req.amountIn;
+  if (!lifi) return null;
+
+  const gas = lifi.estimate.gasCosts[0];
+  const usdPerWei = gas ? Number(gas.amountUSD) / Number(gas.amount) : NaN;
+  const outPerUsd = Number(lifi.estimate.toAmount) / Number(lifi.estimate.toAmountUSD);
+  const outPerWei = usdPerWei * outPerUsd;
+  if (!Number.isFinite(outPerWei) || outPerWei <= 0) return null;
+  return (gasWei) => BigInt(Math.floor(Number(gasWei) * outPerWei));
+}
+
+function toRouteQuote(req: RouteRequest, quote: VenueQuote, pricer: GasPricer | null): RouteQuote {
+  const { venue, amountOut, gasWei, call, allowed, detail } = quote;
+  const gasCost = pricer ? pricer(gasWei, amountOut) : 0n;
+  return { venue, amountIn: req.amountIn, amountOut, gasCost, netAmountOut: amountOut - gasCost, call, allowed, detail };
+}
+
+function isRouterAllowed(client: PublicClient, helper: Address, router: Address): Promise<boolean> {
+  return client.readContract({
+    address: helper,
+    abi: MORPHO_FLASH_LOAN_HELPER_ABI,
+    functionName: 'swapRouters',
+    args: [router],
+  });
+}
+
+async function quoteUniswapV3(client: PublicClient, req: RouteRequest): Promise<VenueQuote> {
+  const quote = await quoteExactInputSingle(client, req.uniswapPool, req);
+  const detail = quote.source === 'quoter' ? `${req.uniswapPool.fee / 10_000}% pool` : 'in-range estimate';
+  return { venue: 'uniswapV3', amountOut: quote.amountOut, gasWei: VENUE_GAS.uniswapV3 * req.gasPrice, call: null, allowed: true, detail };
+}
+
+// Better of the pair's stable and volatile pools
+async function quoteAerodrome(client: PublicClient, req: RouteRequest): Promise<VenueQuote> {
+  const factory = MORPHO_ADDRESSES.AERODROME_POOL_FACTORY;
+  const router = MORPHO_ADDRESSES.AERODROME_ROUTER;
+
+  const candidates = await Promise.all([true, false].map(async (stable) => {
+    const pool = await client.readContract({
+      address: factory,
+      abi: AERODROME_FACTORY_ABI,
+      functionName: 'getPool',
+      args: [req.tokenIn, req.tokenOut, stable],
+    });
+    if (pool === zeroAddress) return null;
+    const amountOut = await client.readContract({
+      address: pool,
+      abi: AERODROME_POOL_ABI,
+      functionName: 'getAmountOut',
+      args: [req.amountIn, req.tokenIn],
+    });
+    return { stable, amountOut };
+  }));
+  const best = candidates
+    .filter((c): c is { stable: boolean; amountOut: bigint } => c !== null)
+    .sort((a, b) => (b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : 0))[0];
+  if (!best) throw new Error('No Aerodrome pool for this pair');
+
+  const nowSec = req.nowSec ?? Math.floor(Date.now() / 1000);
+  const data = encodeFunctionData({
+    abi: AERODROME_ROUTER_ABI,
+    functionName: 'swapExactTokensForTokens',
+    args: [
+      req.amountIn,
+      minAmountOut(best.amountOut, req.slippage),
+      [{ from: req.tokenIn, to: req.tokenOut, stable: best.stable, factory }],
+      req.recipient,
+      BigInt(nowSec + DEADLINE_SEC),
+    ],
+  });
+  const allowed = await isRouterAllowed(client, req.recipient, router);
+  return {
+    venue: 'aerodrome',
+    amountOut: best.amountOut,
+    gasWei: VENUE_GAS.aerodrome * req.gasPrice,
+    call: { router, data },
+    allowed,
+    detail: best.stable ? 'stable pool' : 'volatile pool',
+  };
+}
+
+async function quoteLiFi(client: PublicClient, req: RouteRequest): Promise<VenueQuote> {
+  const quote = await fetchLiFiQuote({
+    fromToken: req.tokenIn,
+    toToken: req.tokenOut,
+    fromAmount: req.amountIn.toString(),
+    fromAddress: req.recipient,
+    toAddress: req.recipient,
+    chainId: req.chainId,
+    slippage: req.slippage,
+  });
+  const router = quote.transactionRequest.to as Address;
+  // The helper approves the router it calls, so LiFi must pull from that same address
+  if (quote.estimate.approvalAddress.toLowerCase() !== router.toLowerCase()) {
+    throw new Error('LiFi approval target differs from its router');
+  }
+  const gasWei = quote.estimate.gasCosts.reduce((sum, g) => sum + BigInt(g.amount), 0n);
+  const allowed = await isRouterAllowed(client, req.recipient, router);
+  return {
+    venue: 'lifi',
+    amountOut: BigInt(quote.estimate.toAmount),
+    gasWei,
+    call: { router, data: quote.transactionRequest.data as Hex },
+    allowed,
+    detail: quote.tool,
+    lifi: quote,
+  };
+}
+
+const QUOTERS: Record<SwapVenue, (client: PublicClient, req: RouteRequest) => Promise<VenueQuote>> = {
+  uniswapV3: quoteUniswapV3,
+  aerodrome: quoteAerodrome,
+  lifi: quoteLiFi,
+};
+
+// The Aerodrome router and factory in MORPHO_ADDRESSES are Base deployments
+function venuesFor(chainId: number): SwapVenue[] {
+  return (Object.keys(QUOTERS) as SwapVenue[]).filter(v => v !== 'aerodrome' || chainId === CHAIN_CONFIG.base.chainId);
+}
+
+/**
+ * Quote every venue for the same input and rank by output net of gas.
+ * A venue that errors is reported in `failures` rather than failing the
+ * comparison; `best` skips routers the helper won't call. If gas can't be
+ * priced in tokenOut, every quote is ranked gross and `gasPriced` is false.
+ */
+export async function compareSwapRoutes(client: PublicClient, req: RouteRequest): Promise<RouteComparison> {
+  const venues = venuesFor(req.chainId);
+  const settled = await Promise.allSettled(venues.map(venue => QUOTERS[venue](client, req)));
+
+  const raw: VenueQuote[] = [];
+  const failures: RouteComparison['failures'] = [];
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') raw.push(result.value);
+    else failures.push({ venue: venues[i], error: result.reason instanceof Error ? result.reason.message : String(result.reason) });
+  });
+
+  const pricer = gasPricer(req, raw.find(q => q.lifi)?.lifi ?? null);
+  const quotes = raw.map(q => toRouteQuote(req, q, pricer));
+  quotes.sort((a, b) => (b.netAmountOut > a.netAmountOut ? 1 : b.netAmountOut < a.netAmountOut ? -1 : 0));
+
+  return { amountIn: req.amountIn, quotes, failures, best: quotes.find(q => q.allowed) ?? null, gasPriced: pricer !== null };
+}
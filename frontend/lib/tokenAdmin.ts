@@ -0,0 +1,130 @@
+/**
+ * tokenAdmin.ts
+ *
+ * Adds a token to the registry by address: reads its symbol, probes every
+ * rate method against it, and stores the first one that returns a sane
+ * rate in `token_registry`. The next token-rate and analysis runs pick it up.
+ *
+ * Called by /api/admin/tokens
+ */
+
+import { erc20Abi, isAddress, type Address } from 'viem';
+import { createRpcPool } from './rpcPool';
+import { probeRateMethods, type RateProbe } from './refreshTokenRates';
+import {
+  RATE_CHAINS, RATE_METHODS, assertRegistrable, loadTokenRegistry, parseTokenCfg, upsertRegistryToken,
+  type RateChain, type RateMethod, type TokenCfg,
+} from './tokenRegistry';
+
+/** Ceiling for the probe when the caller gives no max; matches most seed entries */
+const DEFAULT_MAX_APY = 15;
+
+export interface RegisterTokenInput {
+  address: Address;
+  chain: RateChain;
+  /** Read from the token when omitted */
+  symbol?: string;
+  helper?: Address;
+  /** Skip detection and only check this method */
+  method?: RateMethod;
+  asset: string;
+  type: string;
+  source: string;
+  /** Defaults to the probed 7d APY */
+  fallback?: number;
+  max?: number;
+  aliases?: string[];
+  /** Bridged deployments, by chain */
+  bridged?: Record<string, string>;
+  /** Probe and validate without writing */
+  dryRun?: boolean;
+}
+
+export interface RegisterTokenResult {
+  /** The entry as stored, or as it would be on a dry run; null when no method was sane or the entry is invalid */
+  token: TokenCfg | null;
+  probes: RateProbe[];
+  saved: boolean;
+  error?: string;
+}
+
+/** Request body → input; throws on anything malformed */
+export function parseRegisterInput(body: unknown): RegisterTokenInput {
+  if (typeof body !== 'object' || body === null) throw new Error('Body must be a JSON object');
+  const b = body as Record<string, unknown>;
+  const str = (key: string) => (typeof b[key] === 'string' && b[key] !== '' ? b[key] as string : undefined);
+  const num = (key: string) => {
+    if (b[key] === undefined) return undefined;
+    if (typeof b[key] !== 'number') throw new Error(`${key} must be a number`);
+    return b[key] as number;
+  };
+
+  const address = str('address');
+  if (!address || !isAddress(address, { strict: false })) throw new Error('address must be an address');
+  const chain = str('chain');
+  if (!chain || !(RATE_CHAINS as readonly string[]).includes(chain)) throw new Error(`chain must be one of ${RATE_CHAINS.join(', ')}`);
+  const helper = str('helper');
+  if (helper && !isAddress(helper, { strict: false })) throw new Error('helper must be an address');
+  const method = str('method');
+  if (method && !(RATE_METHODS as readonly string[]).includes(method)) throw new Error(`method must be one of ${RATE_METHODS.join(', ')}`);
+  if (b.aliases !== undefined && (!Array.isArray(b.aliases) || b.aliases.some(a => typeof a !== 'string'))) {
+    throw new Error('aliases must be a list of symbols');
+  }
+
+  return {
+    address: address as Address,
+    chain: chain as RateChain,
+    symbol: str('symbol'),
+    helper: helper as Address | undefined,
+    method: method as RateMethod | undefined,
+    asset: str('asset') ?? '',
+    type: str('type') ?? '',
+    source: str('source') ?? '',
+    fallback: num('fallback'),
+    max: num('max'),
+    aliases: b.aliases as string[] | undefined,
+    bridged: b.bridged as Record<string, string> | undefined,
+    dryRun: b.dryRun === true,
+  };
+}
+
+export async function registerToken(input: RegisterTokenInput): Promise<RegisterTokenResult> {
+  const { client } = createRpcPool(input.chain);
+  const max = input.max ?? DEFAULT_MAX_APY;
+
+  const symbol = input.symbol ?? await client.readContract({ address: input.address, abi: erc20Abi, functionName: 'symbol' });
+  const probes = await probeRateMethods({ address: input.address, chain: input.chain, helper: input.helper, max }, client);
+
+  const chosen = input.method ? probes.find(p => p.method === input.method) : probes.find(p => p.sane);
+  if (!chosen?.sane) {
+    const error = input.method
+      ? `${input.method} did not return a sane rate for ${symbol}`
+      : `No rate method returned a sane rate for ${symbol}`;
+    return { token: null, probes, saved: false, error };
+  }
+
+  // Same validation as tokens.json and token_registry rows
+  let token: TokenCfg;
+  try {
+    token = parseTokenCfg({
+      symbol,
+      address: input.address,
+      chain: input.chain,
+      method: chosen.method,
+      helper: input.helper,
+      asset: input.asset,
+      type: input.type,
+      source: input.source,
+      fallback: input.fallback ?? Math.round(chosen.apy7d! * 100) / 100,
+      max,
+      aliases: input.aliases,
+      bridged: input.bridged,
+    }, 'new token');
+    assertRegistrable(await loadTokenRegistry(), token);
+  } catch (err) {
+    return { token: null, probes, saved: false, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  if (!input.dryRun) await upsertRegistryToken(token);
+  return { token, probes, saved: !input.dryRun };
+}
@@ -0,0 +1,277 @@
+/**
+ * tokenRegistry.ts
+ *
+ * The yield-bearing tokens the refreshers know how to price, plus the plain
+ * ETH and USD symbols used to classify markets. The seed lives in
+ * tokens.json and ships with the app; on the server, rows in the Supabase
+ * `token_registry` table replace seed entries with the same symbol or add
+ * new ones (see /api/admin/tokens). Every entry is validated when it is
+ * loaded — a bad seed fails the build, a bad row is skipped with a warning.
+ */
+
+import { isAddress, type Address } from 'viem';
+import { supabase } from './supabase';
+import seed from './tokens.json';
+
+// ── Types ───────────────────────────────────────────────────
+
+export const RATE_METHODS = ['wstETH', 'cbETH', 'rETH', 'weETH', 'rsETH', 'ezETH', 'erc4626', 'rebasing', 'lsETH', 'stMATIC', 'MaticX'] as const;
+export type RateMethod = typeof RATE_METHODS[number];
+
+/** Methods that read a separate oracle/manager contract instead of the token */
+export const HELPER_METHODS: readonly RateMethod[] = ['rsETH', 'ezETH'];
+
+export const RATE_CHAINS = ['ethereum', 'base', 'arbitrum', 'polygon', 'optimism'] as const;
+export type RateChain = typeof RATE_CHAINS[number];
+
+export const TOKEN_ASSETS = ['ETH', 'USD', 'POL'] as const;
+/** What the token is denominated in */
+export type TokenAsset = typeof TOKEN_ASSETS[number];
+
+export interface TokenCfg {
+  symbol: string;
+  address: Address;
+  method: RateMethod;
+  helper?: Address;
+  asset: TokenAsset;
+  type: string;
+  source: string;
+  chain: RateChain;
+  /** APY reported when the rate can't be read */
+  fallback: number;
+  /** Highest believable APY; anything above is treated as a misread */
+  max: number;
+  /** Other market symbols priced by this token, e.g. a wrapper */
+  aliases?: string[];
+  /** The same token bridged to other chains; markets there use this entry's rate */
+  bridged?: Partial<Record<RateChain, Address>>;
+}
+
+export interface TokenRegistry {
+  tokens: TokenCfg[];
+  /** Token by symbol or alias */
+  bySymbol(symbol: string): TokenCfg | null;
+  /** Token by contract address on any chain, bridged deployments included */
+  byAddress(address: string): TokenCfg | null;
+  /** Denomination of a plain symbol, token or alias; null when the registry doesn't know it */
+  assetOf(symbol: string): TokenAsset | null;
+  /** ETH-denominated: a plain ETH symbol, an ETH token or one of its aliases */
+  isEth(symbol: string): boolean;
+  /** USD-denominated: a plain stablecoin, a USD token or one of its aliases */
+  isStable(symbol: string): boolean;
+}
+
+interface RegistrySource {
+  tokens: TokenCfg[];
+  /** Symbols with no rate of their own, by denomination */
+  symbols: Record<TokenAsset, string[]>;
+}
+
+// ── Validation ──────────────────────────────────────────────
+
+function fail(where: string, message: string): never {
+  throw new Error(`${where}: ${message}`);
+}
+
+// Supabase returns NULL columns as null; treat them as absent
+function field(raw: Record<string, unknown>, key: string): unknown {
+  const value = raw[key];
+  return value === null ? undefined : value;
+}
+
+function requireString(raw: Record<string, unknown>, key: string, where: string): string {
+  const value = field(raw, key);
+  if (typeof value !== 'string' || value.trim() === '') fail(where, `${key} must be a non-empty string`);
+  return value.trim();
+}
+
+function requireNumber(raw: Record<string, unknown>, key: string, where: string): number {
+  const value = field(raw, key);
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(where, `${key} must be a number`);
+  return value;
+}
+
+function requireOneOf<T extends string>(raw: Record<string, unknown>, key: string, options: readonly T[], where: string): T {
+  const value = field(raw, key);
+  if (typeof value !== 'string' || !(options as readonly string[]).includes(value)) {
+    fail(where, `${key} must be one of ${options.join(', ')}`);
+  }
+  return value as T;
+}
+
+function optionalAddress(raw: Record<string, unknown>, key: string, where: string): Address | undefined {
+  const value = field(raw, key);
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !isAddress(value, { strict: false })) fail(where, `${key} must be an address`);
+  return value as Address;
+}
+
+/** One registry entry, from tokens.json or a token_registry row */
+export function parseTokenCfg(raw: unknown, where = 'token'): TokenCfg {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) fail(where, 'must be an object');
+  const r = raw as Record<string, unknown>;
+
+  const symbol = requireString(r, 'symbol', where);
+  where = `${where} ${symbol}`;
+
+  const address = optionalAddress(r, 'address', where);
+  if (!address) fail(where, 'address is required');
+  const method = requireOneOf(r, 'method', RATE_METHODS, where);
+  const helper = optionalAddress(r, 'helper', where);
+  if (HELPER_METHODS.includes(method) && !helper) fail(where, `method ${method} needs a helper address`);
+
+  const fallback = requireNumber(r, 'fallback', where);
+  const max = requireNumber(r, 'max', where);
+  if (max <= 0 || max > 100) fail(where, 'max must be in (0, 100]');
+  if (fallback < 0 || fallback > max) fail(where, 'fallback must be between 0 and max');
+
+  const aliasesRaw = field(r, 'aliases');
+  if (aliasesRaw !== undefined && (!Array.isArray(aliasesRaw) || aliasesRaw.some(a => typeof a !== 'string' || a === ''))) {
+    fail(where, 'aliases must be a list of symbols');
+  }
+  const aliases = aliasesRaw as string[] | undefined;
+
+  const bridgedRaw = field(r, 'bridged');
+  let bridged: Partial<Record<RateChain, Address>> | undefined;
+  if (bridgedRaw !== undefined) {
+    if (typeof bridgedRaw !== 'object' || Array.isArray(bridgedRaw)) fail(where, 'bridged must map chains to addresses');
+    bridged = {};
+    for (const [chain, address] of Object.entries(bridgedRaw as Record<string, unknown>)) {
+      if (!(RATE_CHAINS as readonly string[]).includes(chain)) fail(where, `bridged.${chain} is not a rate chain`);
+      if (typeof address !== 'string' || !isAddress(address, { strict: false })) fail(where, `bridged.${chain} must be an address`);
+      bridged[chain as RateChain] = address as Address;
+    }
+  }
+
+  const cfg: TokenCfg = {
+    symbol,
+    address,
+    method,
+    asset: requireOneOf(r, 'asset', TOKEN_ASSETS, where),
+    type: requireString(r, 'type', where),
+    source: requireString(r, 'source', where),
+    chain: requireOneOf(r, 'chain', RATE_CHAINS, where),
+    fallback,
+    max,
+  };
+  if (helper) cfg.helper = helper;
+  if (aliases?.length) cfg.aliases = aliases;
+  if (bridged) {
+    if (bridged[cfg.chain]) fail(where, `bridged.${cfg.chain} is the token's own chain`);
+    if (Object.keys(bridged).length) cfg.bridged = bridged;
+  }
+  return cfg;
+}
+
+/** Symbols and aliases must be unique, and so must every chain + address, bridged ones included */
+function buildRegistry({ tokens, symbols }: RegistrySource): TokenRegistry {
+  const bySymbol = new Map<string, TokenCfg>();
+  const byAddress = new Map<string, TokenCfg>();
+  const seenContracts = new Set<string>();
+
+  for (const t of tokens) {
+    for (const s of [t.symbol, ...(t.aliases ?? [])]) {
+      const taken = bySymbol.get(s);
+      if (taken) fail(`token ${t.symbol}`, `symbol ${s} is already used by ${taken.symbol}`);
+      bySymbol.set(s, t);
+    }
+    for (const [chain, address] of [[t.chain, t.address], ...Object.entries(t.bridged ?? {})]) {
+      const contract = `${chain}:${address.toLowerCase()}`;
+      if (seenContracts.has(contract)) fail(`token ${t.symbol}`, `${contract} is already registered`);
+      seenContracts.add(contract);
+      if (!byAddress.has(address.toLowerCase())) byAddress.set(address.toLowerCase(), t);
+    }
+  }
+
+  const assets = new Map<string, TokenAsset>();
+  for (const asset of TOKEN_ASSETS) for (const s of symbols[asset]) assets.set(s, asset);
+  for (const [s, t] of bySymbol) assets.set(s, t.asset);
+
+  return {
+    tokens,
+    bySymbol: (symbol) => bySymbol.get(symbol) ?? null,
+    byAddress: (address) => byAddress.get(address.toLowerCase()) ?? null,
+    assetOf: (symbol) => assets.get(symbol) ?? null,
+    isEth: (symbol) => assets.get(symbol) === 'ETH',
+    isStable: (symbol) => assets.get(symbol) === 'USD',
+  };
+}
+
+function parseSeed(raw: unknown): RegistrySource {
+  const where = 'tokens.json';
+  if (typeof raw !== 'object' || raw === null) fail(where, 'must be an object');
+  const { tokens, symbols } = raw as { tokens?: unknown; symbols?: Record<string, unknown> };
+  if (!Array.isArray(tokens)) fail(where, 'tokens must be a list');
+
+  const plain = {} as Record<TokenAsset, string[]>;
+  for (const asset of TOKEN_ASSETS) {
+    const list = symbols?.[asset];
+    if (!Array.isArray(list) || list.some(s => typeof s !== 'string')) fail(where, `symbols.${asset} must be a list of symbols`);
+    plain[asset] = list as string[];
+  }
+
+  return { tokens: tokens.map((t, i) => parseTokenCfg(t, `${where} tokens[${i}]`)), symbols: plain };
+}
+
+// ── Loading ─────────────────────────────────────────────────
+
+const SEED = parseSeed(seed);
+
+/** The bundled registry — all the browser ever sees */
+export const DEFAULT_TOKEN_REGISTRY = buildRegistry(SEED);
+
+/** Seed merged with token_registry rows; falls back to the seed if Supabase is unavailable */
+export async function loadTokenRegistry(): Promise<TokenRegistry> {
+  const { data, error } = await supabase.from('token_registry').select('*');
+  if (error) {
+    console.warn('[tokenRegistry] token_registry read failed, using tokens.json:', error.message);
+    return DEFAULT_TOKEN_REGISTRY;
+  }
+  if (!data?.length) return DEFAULT_TOKEN_REGISTRY;
+
+  const merged = new Map(SEED.tokens.map(t => [t.symbol, t]));
+  for (const row of data as Record<string, unknown>[]) {
+    try {
+      const t = parseTokenCfg(row, 'token_registry');
+      merged.set(t.symbol, t);
+    } catch (err) {
+      console.warn('[tokenRegistry] Skipping row:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  try {
+    return buildRegistry({ tokens: [...merged.values()], symbols: SEED.symbols });
+  } catch (err) {
+    console.warn('[tokenRegistry] token_registry conflicts with tokens.json, using tokens.json:', err instanceof Error ? err.message : err);
+    return DEFAULT_TOKEN_REGISTRY;
+  }
+}
+
+/** Throws if `token` can't join `registry` (symbol, alias or contract already taken by another entry) */
+export function assertRegistrable(registry: TokenRegistry, token: TokenCfg): void {
+  buildRegistry({
+    tokens: [...registry.tokens.filter(t => t.symbol !== token.symbol), token],
+    symbols: SEED.symbols,
+  });
+}
+
+export async function upsertRegistryToken(token: TokenCfg): Promise<void> {
+  const { error } = await supabase
+    .from('token_registry')
+    .upsert({
+      symbol: token.symbol,
+      address: token.address,
+      chain: token.chain,
+      method: token.method,
+      helper: token.helper ?? null,
+      asset: token.asset,
+      type: token.type,
+      source: token.source,
+      fallback: token.fallback,
+      max: token.max,
+      aliases: token.aliases ?? null,
+      bridged: token.bridged ?? null,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'symbol' });
+  if (error) throw new Error(`token_registry: ${error.message}`);
+}
@@ -0,0 +1,148 @@
+/**
+ * txFlow.ts
+ *
+ * Multi-step transaction flows (approve → authorize → execute) and the
+ * receipt tracking behind them. Flows are plain JSON so useTxStore can
+ * persist them to localStorage and pick up pending receipts after a reload.
+ */
+
+import { WaitForTransactionReceiptTimeoutError } from 'viem';
+import type { Address, Hash, PublicClient, TransactionReceipt } from 'viem';
+import { CHAIN_CONFIG } from './chains';
+
+export type TxFlowKind = 'leverage' | 'leverUp' | 'deleverage' | 'partialDeleverage';
+export type TxStepKind = 'approve' | 'authorize' | 'execute';
+
+export type TxStepStatus =
+  | 'queued'
+  | 'skipped'    // allowance / authorization already in place
+  | 'signing'    // waiting on the wallet
+  | 'pending'    // submitted, no receipt yet
+  | 'confirmed'
+  | 'reverted'
+  | 'replaced'   // same nonce mined by a different tx (cancel or speed-up with new calldata)
+  | 'dropped'    // gone from the mempool and the nonce is still unused
+  | 'failed';    // rejected in the wallet or the RPC errored
+
+export type TxFlowStatus = 'running' | 'success' | 'failed';
+
+export interface TxStep {
+  kind: TxStepKind;
+  label: string;
+  status: TxStepStatus;
+  hash?: Hash;
+  /** Sender nonce, used to tell replaced from dropped once the hash disappears */
+  nonce?: number;
+  /** Hash that was actually mined when the wallet repriced or replaced this tx */
+  replacedBy?: Hash;
+  error?: string;
+}
+
+export interface TxFlow {
+  id: string;
+  kind: TxFlowKind;
+  label: string;
+  chainId: number;
+  account: Address;
+  marketId: string;
+  status: TxFlowStatus;
+  steps: TxStep[];
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+const FLOW_STEPS: Record<TxFlowKind, TxStepKind[]> = {
+  leverage: ['approve', 'authorize', 'execute'],
+  leverUp: ['approve', 'authorize', 'execute'],
+  deleverage: ['authorize', 'execute'],
+  partialDeleverage: ['authorize', 'execute'],
+};
+
+const FLOW_LABELS: Record<TxFlowKind, string> = {
+  leverage: 'Open position',
+  leverUp: 'Lever up',
+  deleverage: 'Close position',
+  partialDeleverage: 'Reduce position',
+};
+
+export function createTxFlow(
+  kind: TxFlowKind,
+  { chainId, account, marketId, collateralSymbol }: { chainId: number; account: Address; marketId: string; collateralSymbol: string },
+): TxFlow {
+  const now = Date.now();
+  const stepLabel = (step: TxStepKind) =>
+    step === 'approve' ? `Approve ${collateralSymbol}` : step === 'authorize' ? 'Authorize Morpho' : FLOW_LABELS[kind];
+
+  return {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    label: FLOW_LABELS[kind],
+    chainId,
+    account,
+    marketId,
+    status: 'running',
+    steps: FLOW_STEPS[kind].map(step => ({ kind: step, label: stepLabel(step), status: 'queued' })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** The step a running flow is currently on, for button labels */
+export function activeTxStep(flow: TxFlow): TxStep | undefined {
+  return flow.steps.find(s => s.status === 'signing' || s.status === 'pending');
+}
+
+export function explorerTxUrl(chainId: number, hash: Hash): string | null {
+  const chain = Object.values(CHAIN_CONFIG).find(c => c.chainId === chainId);
+  return chain ? `${chain.blockExplorer}/tx/${hash}` : null;
+}
+
+/** Thrown when a receipt didn't arrive in time but the tx is still in the mempool */
+export class TxStillPendingError extends Error {
+  constructor(public readonly hash: Hash) {
+    super('Transaction still pending — it will keep being tracked');
+    this.name = 'TxStillPendingError';
+  }
+}
+
+export type TrackResult =
+  | { status: 'confirmed' | 'reverted'; receipt: TransactionReceipt; replacedBy?: Hash }
+  | { status: 'replaced'; replacedBy?: Hash }
+  | { status: 'dropped' }
+  | { status: 'pending' };
+
+/**
+ * Wait for `hash` to be mined. viem reports replacements it sees while
+ * polling; a repriced tx (same call, higher gas) still counts as confirmed.
+ * If the wait times out and the hash is no longer known to the node, the
+ * sender's mined nonce decides: past `nonce` means another tx took the slot
+ * (replaced), otherwise the tx was dropped.
+ */
+export async function trackTransaction(
+  client: PublicClient,
+  hash: Hash,
+  { account, nonce, timeout }: { account: Address; nonce?: number; timeout?: number },
+): Promise<TrackResult> {
+  let replacement: { reason: string; hash: Hash } | undefined;
+  try {
+    const receipt = await client.waitForTransactionReceipt({
+      hash,
+      timeout,
+      onReplaced: r => { replacement = { reason: r.reason, hash: r.transaction.hash }; },
+    });
+    if (replacement && replacement.reason !== 'repriced') {
+      return { status: 'replaced', replacedBy: replacement.hash };
+    }
+    return { status: receipt.status === 'success' ? 'confirmed' : 'reverted', receipt, replacedBy: replacement?.hash };
+  } catch (err) {
+    if (!(err instanceof WaitForTransactionReceiptTimeoutError)) throw err;
+  }
+
+  const known = await client.getTransaction({ hash }).then(() => true, () => false);
+  if (known) return { status: 'pending' };
+  if (nonce === undefined) return { status: 'dropped' };
+
+  const mined = await client.getTransactionCount({ address: account, blockTag: 'latest' });
+  return mined > nonce ? { status: 'replaced' } : { status: 'dropped' };
+}
@@ -18,7 +18,8 @@ export interface ChainMeta {
   name: string;
   chainId: number;
   color: string;
-  rpcUrl: string;
+  /** Public endpoints, most preferred first */
+  rpcUrls: string[];
   blockExplorer: string;
 }
 
@@ -45,6 +46,8 @@ export interface RawMarket {
   lltvPercentage: string;
   oracleType: string;
   availableLiquidity: string;
+  /** AdaptiveCurveIrm rate at target, per second; absent in older snapshots */
+  rateAtTarget?: number | null;
 }
 
 /** Raw token rate from token_rates_onchain.json */
@@ -77,6 +80,14 @@ export interface RawLeverageAnalysis {
   depeg_method?: string;
 }
 
+export interface TierMetrics {
+  leverage: number;
+  roe: number;
+  healthFactor: number;
+  /** Largest deposit, in loan-token value, the market's liquidity allows at this leverage */
+  maxDeposit: number | null;
+}
+
 /** Enriched market after merging all data sources */
 export interface EnrichedMarket {
   marketId: string;
@@ -87,6 +98,8 @@ export interface EnrichedMarket {
   loanSymbol: string;
   collateralAddress: string;
   loanAddress: string;
+  collateralDecimals: number;
+  loanDecimals: number;
   oracleAddress: string;
   oracleType: string;
   oracleCategory: OracleCategory;
@@ -102,11 +115,15 @@ export interface EnrichedMarket {
   totalBorrow: string;
   utilization: number;
   availableLiquidity: string;
+  /** Per-second AdaptiveCurveIrm rate at target, null when not indexed */
+  rateAtTarget: number | null;
   maxDepeg: number;
+  /** Largest additional borrow the market can absorb, in loan tokens (see positionSize.ts) */
+  maxBorrowable: number;
   roe: {
-    conservative: { leverage: number; roe: number; healthFactor: number };
-    moderate: { leverage: number; roe: number; healthFactor: number };
-    aggressive: { leverage: number; roe: number; healthFactor: number };
+    conservative: TierMetrics;
+    moderate: TierMetrics;
+    aggressive: TierMetrics;
   };
 }
 
@@ -128,5 +145,6 @@ export interface LeverageTier {
   leverage: number;
   roe: number;
   healthFactor: number;
+  maxDeposit: number | null;
   color: string;
 }
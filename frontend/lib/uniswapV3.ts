@@ -3,11 +3,14 @@
  * Constructs swap calldata for WETH ↔ wstETH swaps on Base
  */
 
-import { encodeFunctionData, Address } from 'viem';
+import { encodeFunctionData, Address, type PublicClient } from 'viem';
 
 // Uniswap V3 Router on Base
 export const UNISWAP_V3_ROUTER = '0x2626664c2603336E57B271c5C0b26F421741e481' as Address;
 
+// Uniswap V3 QuoterV2 on Base
+export const UNISWAP_V3_QUOTER_V2 = '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a' as Address;
+
 // Uniswap V3 SwapRouter ABI - exactInputSingle function
 const SWAP_ROUTER_ABI = [
   {
@@ -34,6 +37,34 @@ const SWAP_ROUTER_ABI = [
   },
 ] as const;
 
+// QuoterV2 ABI - quoteExactInputSingle (nonpayable, called via eth_call)
+const QUOTER_V2_ABI = [
+  {
+    inputs: [
+      {
+        components: [
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'amountIn', type: 'uint256' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+        name: 'params',
+        type: 'tuple',
+      },
+    ],
+    name: 'quoteExactInputSingle',
+    outputs: [
+      { name: 'amountOut', type: 'uint256' },
+      { name: 'sqrtPriceX96After', type: 'uint160' },
+      { name: 'initializedTicksCrossed', type: 'uint32' },
+      { name: 'gasEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
+
 export interface UniswapV3SwapParams {
   tokenIn: Address;
   tokenOut: Address;
@@ -106,3 +137,123 @@ export function generateUniswapV3SwapData(params: UniswapV3SwapParams): string {
   // Remove function selector (first 4 bytes / 8 hex chars after 0x) to get just the encoded params
   return encoded.substring(10);
 }
+
+// ── Depth ─────────────────────────────────────────────────────
+
+export interface UniswapV3PoolState {
+  sqrtPriceX96: bigint;
+  /** Active in-range liquidity */
+  liquidity: bigint;
+  /** True when the token being sold is the pool's token0 */
+  zeroForOne: boolean;
+  /** Fee tier in hundredths of a bip, e.g. 100 = 0.01% */
+  fee: number;
+}
+
+/**
+ * Largest input (raw token units) that moves the pool price by at most
+ * `maxImpact` (e.g. 0.005). Treats the active liquidity as constant across
+ * ticks, which holds for a tightly pegged pair trading inside its range.
+ */
+export function maxAmountInForImpact({ sqrtPriceX96, liquidity, zeroForOne }: UniswapV3PoolState, maxImpact: number): number {
+  if (liquidity === 0n || sqrtPriceX96 === 0n || maxImpact <= 0) return 0;
+  const sqrtP = Number(sqrtPriceX96) / 2 ** 96;
+  const L = Number(liquidity);
+  const growth = 1 / Math.sqrt(1 - Math.min(maxImpact, 0.99)) - 1;
+  // token0 in: Δx = L·(1/√P' − 1/√P); token1 in: Δy = L·(√P' − √P)
+  return zeroForOne ? (L / sqrtP) * growth : L * sqrtP * growth;
+}
+
+// ── Quoting ───────────────────────────────────────────────────
+
+export interface SwapQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Output at the pre-trade spot price, net of the pool fee */
+  spotAmountOut: bigint;
+  /** Shortfall vs spot in %, excluding the pool fee */
+  priceImpactPct: number;
+  sqrtPriceX96After: bigint | null;
+  /** 'quoter' walks the real ticks; 'inRange' is the constant-liquidity estimate */
+  source: 'quoter' | 'inRange';
+}
+
+/** amountOut less `slippage` (decimal), rounded down */
+export function minAmountOut(amountOut: bigint, slippage: number): bigint {
+  return (amountOut * BigInt(Math.floor((1 - slippage) * 10_000))) / 10_000n;
+}
+
+/** Raw-unit output at the spot price after the pool fee */
+function spotOut(pool: UniswapV3PoolState, amountIn: bigint): number {
+  const price = (Number(pool.sqrtPriceX96) / 2 ** 96) ** 2; // token1 per token0
+  const gross = pool.zeroForOne ? Number(amountIn) * price : Number(amountIn) / price;
+  return gross * (1 - pool.fee / 1e6);
+}
+
+function toQuote(
+  pool: UniswapV3PoolState,
+  amountIn: bigint,
+  amountOut: bigint,
+  sqrtPriceX96After: bigint | null,
+  source: SwapQuote['source'],
+): SwapQuote {
+  const spot = spotOut(pool, amountIn);
+  return {
+    amountIn,
+    amountOut,
+    spotAmountOut: BigInt(Math.floor(spot)),
+    priceImpactPct: spot > 0 ? Math.max(0, (1 - Number(amountOut) / spot) * 100) : 0,
+    sqrtPriceX96After,
+    source,
+  };
+}
+
+/**
+ * Swap output if the active liquidity held across every tick — the same
+ * approximation as maxAmountInForImpact. Used when QuoterV2 isn't reachable
+ * (e.g. on a fork without it).
+ */
+export function simulateSwapInRange(pool: UniswapV3PoolState, amountIn: bigint): SwapQuote {
+  const L = Number(pool.liquidity);
+  const sqrtP = Number(pool.sqrtPriceX96) / 2 ** 96;
+  const net = Number(amountIn) * (1 - pool.fee / 1e6);
+  let out = 0;
+  let sqrtAfter = sqrtP;
+  if (L > 0 && sqrtP > 0) {
+    if (pool.zeroForOne) {
+      // 1/√P' = 1/√P + Δx/L; Δy = L·(√P − √P')
+      sqrtAfter = 1 / (1 / sqrtP + net / L);
+      out = L * (sqrtP - sqrtAfter);
+    } else {
+      // √P' = √P + Δy/L; Δx = L·(1/√P − 1/√P')
+      sqrtAfter = sqrtP + net / L;
+      out = L * (1 / sqrtP - 1 / sqrtAfter);
+    }
+  }
+  return toQuote(pool, amountIn, BigInt(Math.floor(out)), BigInt(Math.floor(sqrtAfter * 2 ** 96)), 'inRange');
+}
+
+/**
+ * Quote an exact-input swap through QuoterV2, falling back to the in-range
+ * estimate if the quoter call fails.
+ */
+export async function quoteExactInputSingle(
+  client: PublicClient,
+  pool: UniswapV3PoolState,
+  { tokenIn, tokenOut, amountIn }: { tokenIn: Address; tokenOut: Address; amountIn: bigint },
+): Promise<SwapQuote> {
+  if (amountIn === 0n) return toQuote(pool, 0n, 0n, pool.sqrtPriceX96, 'quoter');
+  try {
+    const { result } = await client.simulateContract({
+      address: UNISWAP_V3_QUOTER_V2,
+      abi: QUOTER_V2_ABI,
+      functionName: 'quoteExactInputSingle',
+      args: [{ tokenIn, tokenOut, amountIn, fee: pool.fee, sqrtPriceLimitX96: 0n }],
+    });
+    const [amountOut, sqrtPriceX96After] = result;
+    return toQuote(pool, amountIn, amountOut, sqrtPriceX96After, 'quoter');
+  } catch (err) {
+    console.warn('QuoterV2 unavailable, using in-range estimate:', err);
+    return simulateSwapInRange(pool, amountIn);
+  }
+}
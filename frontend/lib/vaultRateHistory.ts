@@ -0,0 +1,63 @@
+/**
+ * vaultRateHistory.ts
+ *
+ * Rate history for oracles that emit no AnswerUpdated (an OracleConfig with
+ * a `vault`): the vault's convertToAssets for one share, read at blocks on a
+ * fixed time grid. The grid keeps block lookups on the block_timestamps
+ * cache after the first call, so only the reads themselves hit the RPC.
+ *
+ * Called by /api/oracle-data/[address]
+ */
+
+import { parseAbi } from 'viem';
+import { createRpcPool } from './rpcPool';
+import { alignTimestamp, createBlockResolver } from './blockResolver';
+import type { OracleConfig } from './oracleMap';
+import type { OracleRoundPoint } from './oracleIndexer';
+
+const HISTORY_DAYS = 180;
+const SAMPLE_INTERVAL_SECS = 12 * 3600;
+/** Historical reads in flight at once */
+const READ_CONCURRENCY = 20;
+
+const VAULT_ABI = parseAbi([
+  'function decimals() view returns (uint8)',
+  'function asset() view returns (address)',
+  'function convertToAssets(uint256 shares) view returns (uint256)',
+]);
+
+/** Share price every SAMPLE_INTERVAL_SECS over HISTORY_DAYS, oldest first; samples before the vault existed are skipped */
+export async function readVaultRateHistory(feed: OracleConfig): Promise<OracleRoundPoint[]> {
+  const vault = feed.vault;
+  if (!vault) throw new Error(`${feed.pair} has no vault to sample`);
+
+  const { client } = createRpcPool(feed.chain, { batch: true });
+  const [shareDecimals, asset] = await Promise.all([
+    client.readContract({ address: vault, abi: VAULT_ABI, functionName: 'decimals' }),
+    client.readContract({ address: vault, abi: VAULT_ABI, functionName: 'asset' }),
+  ]);
+  const assetDecimals = await client.readContract({ address: asset, abi: VAULT_ABI, functionName: 'decimals' });
+  const oneShare = 10n ** BigInt(shareDecimals);
+  const assetScale = 10 ** assetDecimals;
+
+  const end = alignTimestamp(Math.floor(Date.now() / 1000), SAMPLE_INTERVAL_SECS);
+  const count = (HISTORY_DAYS * 86400) / SAMPLE_INTERVAL_SECS;
+  const timestamps = Array.from({ length: count + 1 }, (_, i) => end - (count - i) * SAMPLE_INTERVAL_SECS);
+  const blocks = await createBlockResolver(feed.chain, client).blocksAt(timestamps);
+
+  const points: OracleRoundPoint[] = [];
+  for (let i = 0; i < blocks.length; i += READ_CONCURRENCY) {
+    const batch = blocks.slice(i, i + READ_CONCURRENCY);
+    const assets = await Promise.all(batch.map(b =>
+      client.readContract({ address: vault, abi: VAULT_ABI, functionName: 'convertToAssets', args: [oneShare], blockNumber: b.number })
+        .catch(() => null),
+    ));
+    batch.forEach((b, j) => {
+      const a = assets[j];
+      if (a === null || a === 0n) return;
+      if (points.length > 0 && points[points.length - 1].block === Number(b.number)) return;
+      points.push({ roundId: i + j, rate: Number(a) / assetScale, timestamp: b.timestamp, block: Number(b.number) });
+    });
+  }
+  return points;
+}
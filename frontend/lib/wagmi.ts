@@ -1,7 +1,10 @@
-import { createConfig, http } from 'wagmi';
-import { defineChain } from 'viem';
+import { createConfig, fallback, http } from 'wagmi';
+import { defineChain, type Chain } from 'viem';
+import { mainnet, base, arbitrum, polygon } from 'viem/chains';
 import { getDefaultConfig } from 'connectkit';
-import { BASE_RPC_URL } from './types';
+import { BASE_RPC_URL, type ChainSlug } from './types';
+import { CHAIN_CONFIG, CHAIN_SLUGS } from './chains';
+import { CHAIN_CONTRACTS } from './contracts';
 
 export const contractDevBase = defineChain({
   id: 18133,
@@ -13,20 +16,44 @@ export const contractDevBase = defineChain({
   blockExplorers: {
     default: { name: 'Contract.dev', url: 'https://contract.dev' },
   },
+  // Forked from Base, so Base's Multicall3 deployment is there too
+  contracts: {
+    multicall3: { address: '0xcA11bde05977b3631167028862bE2a173976CA11' },
+  },
 });
 
+const VIEM_CHAINS: Record<ChainSlug, Chain> = { ethereum: mainnet, base, arbitrum, polygon };
+
+// Every chain in CHAIN_CONFIG on its public RPCs, plus the fork the Base helper lives on
+export const WALLET_CHAINS: readonly [Chain, ...Chain[]] = [
+  contractDevBase,
+  ...CHAIN_SLUGS.map((slug): Chain => ({
+    ...VIEM_CHAINS[slug],
+    rpcUrls: { default: { http: CHAIN_CONFIG[slug].rpcUrls } },
+  })),
+];
+
+/** Wallet chain by ID; undefined for chains the app isn't configured for */
+export function walletChain(chainId: number): Chain | undefined {
+  return WALLET_CHAINS.find(c => c.id === chainId);
+}
+
+/** Chain a market's transactions are signed and read on — the fork for Base */
+export function executionChain(slug: ChainSlug): Chain {
+  return walletChain(CHAIN_CONTRACTS[slug].executionChainId) ?? contractDevBase;
+}
+
+/** Fails over across the chain's RPCs in order; a single-URL chain is plain http */
+export function chainTransport(chain: Chain) {
+  return fallback(chain.rpcUrls.default.http.map(url => http(url, { retryCount: 3, retryDelay: 1000 })));
+}
+
 export const config = createConfig({
   ...getDefaultConfig({
     appName: 'VOLT Protocol',
     walletConnectProjectId: (process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID || '').trim(),
-    chains: [contractDevBase],
-    transports: {
-      [contractDevBase.id]: http(BASE_RPC_URL, {
-        retryCount: 3,
-        retryDelay: 1000,
-      }),
-    },
+    chains: WALLET_CHAINS,
+    transports: Object.fromEntries(WALLET_CHAINS.map(chain => [chain.id, chainTransport(chain)])),
   }),
-  syncConnectedChain: false,
   ssr: true,
 });
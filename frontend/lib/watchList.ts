@@ -0,0 +1,7 @@
+import type { Address } from 'viem';
+
+/** A saved address whose positions are monitored without a wallet */
+export interface WatchEntry {
+  address: Address;
+  label: string;
+}
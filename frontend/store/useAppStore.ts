@@ -1,13 +1,19 @@
 import { create } from 'zustand';
-import type { ReserveInfo } from '@/lib/types';
+import type { ReserveInfo, EnrichedMarket, ChainSlug } from '@/lib/types';
 
 interface AppState {
+  // ── Market selection ───────────────────────────────────────────────────────
+  selectedChain: ChainSlug;
+  markets: EnrichedMarket[];
+  selectedMarket: EnrichedMarket | null;
+
   // ── On-chain data ──────────────────────────────────────────────────────────
   collateralBalance: bigint;
   debtBalance: bigint;
   healthFactor: number;
   reserveInfo: ReserveInfo | null;
-  exchangeRate: number;
+  /** Oracle price of one collateral token in loan tokens; null when the oracle couldn't be read */
+  exchangeRate: number | null;
   walletBalance: bigint;
 
   // ── UI ─────────────────────────────────────────────────────────────────────
@@ -19,7 +25,10 @@ interface AppState {
   isPositionLoading: boolean;
 
   // ── Actions ────────────────────────────────────────────────────────────────
-  setMarketData: (data: { reserveInfo: ReserveInfo | null; exchangeRate: number }) => void;
+  selectChain: (chain: ChainSlug) => void;
+  setMarkets: (markets: EnrichedMarket[]) => void;
+  selectMarket: (market: EnrichedMarket) => void;
+  setMarketData: (data: { reserveInfo: ReserveInfo | null; exchangeRate: number | null }) => void;
   setPositionData: (data: {
     collateralBalance: bigint;
     debtBalance: bigint;
@@ -33,11 +42,15 @@ interface AppState {
 }
 
 export const useAppStore = create<AppState>()((set) => ({
+  selectedChain: 'base',
+  markets: [],
+  selectedMarket: null,
+
   collateralBalance: 0n,
   debtBalance: 0n,
   healthFactor: 0,
   reserveInfo: null,
-  exchangeRate: 1.228,
+  exchangeRate: null,
   walletBalance: 0n,
   activeTab: 'leverage',
 
@@ -45,6 +58,36 @@ export const useAppStore = create<AppState>()((set) => ({
   isMarketLoading: true,
   isPositionLoading: true,
 
+  // The market list is per chain, so a new chain drops the old list and selection
+  selectChain: (chain) =>
+    set({
+      selectedChain: chain,
+      markets: [],
+      selectedMarket: null,
+      collateralBalance: 0n,
+      debtBalance: 0n,
+      healthFactor: 0,
+      reserveInfo: null,
+      walletBalance: 0n,
+      isMarketLoading: true,
+      isPositionLoading: true,
+    }),
+
+  setMarkets: (markets) => set({ markets }),
+
+  // Switching markets invalidates everything read for the previous one
+  selectMarket: (market) =>
+    set({
+      selectedMarket: market,
+      collateralBalance: 0n,
+      debtBalance: 0n,
+      healthFactor: 0,
+      reserveInfo: null,
+      walletBalance: 0n,
+      isMarketLoading: true,
+      isPositionLoading: true,
+    }),
+
   setMarketData: ({ reserveInfo, exchangeRate }) =>
     set({ reserveInfo, exchangeRate, isMarketLoading: false }),
 
@@ -0,0 +1,56 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { TxFlow, TxFlowStatus, TxStep, TxStepKind } from '@/lib/txFlow';
+
+/** Finished flows kept for the tracker; running ones are never trimmed */
+const MAX_FLOWS = 10;
+
+interface TxState {
+  flows: TxFlow[];
+
+  startFlow: (flow: TxFlow) => void;
+  updateStep: (flowId: string, kind: TxStepKind, patch: Partial<TxStep>) => void;
+  finishFlow: (flowId: string, status: Exclude<TxFlowStatus, 'running'>, error?: string) => void;
+  dismissFlow: (flowId: string) => void;
+}
+
+// Persisted so pending hashes survive a reload. Hydration is skipped on the
+// server and triggered by resumeTxFlows() once the page has mounted.
+export const useTxStore = create<TxState>()(
+  persist(
+    (set) => ({
+      flows: [],
+
+      startFlow: (flow) =>
+        set((s) => {
+          const flows = [flow, ...s.flows];
+          const finished = flows.filter((f) => f.status !== 'running');
+          const drop = new Set(finished.slice(MAX_FLOWS).map((f) => f.id));
+          return { flows: flows.filter((f) => !drop.has(f.id)) };
+        }),
+
+      updateStep: (flowId, kind, patch) =>
+        set((s) => ({
+          flows: s.flows.map((f) =>
+            f.id !== flowId ? f : {
+              ...f,
+              updatedAt: Date.now(),
+              steps: f.steps.map((step) => (step.kind === kind ? { ...step, ...patch } : step)),
+            }),
+        })),
+
+      finishFlow: (flowId, status, error) =>
+        set((s) => ({
+          flows: s.flows.map((f) => (f.id === flowId ? { ...f, status, error, updatedAt: Date.now() } : f)),
+        })),
+
+      dismissFlow: (flowId) => set((s) => ({ flows: s.flows.filter((f) => f.id !== flowId) })),
+    }),
+    {
+      name: 'volt-tx-flows',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (s) => ({ flows: s.flows }),
+      skipHydration: true,
+    },
+  ),
+);
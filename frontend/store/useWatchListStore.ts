@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { Address } from 'viem';
+import type { WatchEntry } from '@/lib/watchList';
+
+interface WatchListState {
+  entries: WatchEntry[];
+
+  addEntry: (address: Address, label: string) => void;
+  removeEntry: (address: Address) => void;
+}
+
+const sameAddress = (a: Address, b: Address) => a.toLowerCase() === b.toLowerCase();
+
+// Persisted per browser. Hydration is skipped on the server and triggered by
+// the WatchList panel once it has mounted.
+export const useWatchListStore = create<WatchListState>()(
+  persist(
+    (set) => ({
+      entries: [],
+
+      // Re-adding an address updates its label in place
+      addEntry: (address, label) =>
+        set((s) => s.entries.some((e) => sameAddress(e.address, address))
+          ? { entries: s.entries.map((e) => (sameAddress(e.address, address) ? { ...e, label } : e)) }
+          : { entries: [...s.entries, { address, label }] }),
+
+      removeEntry: (address) =>
+        set((s) => ({ entries: s.entries.filter((e) => !sameAddress(e.address, address)) })),
+    }),
+    {
+      name: 'volt-watch-list',
+      storage: createJSONStorage(() => localStorage),
+      skipHydration: true,
+    },
+  ),
+);
@@ -0,0 +1,74 @@
+-- Oracle round index (lib/oracleIndexer.ts).
+--
+-- oracle_rounds used to hold the wstETH/stETH rounds seeded from Dune, keyed
+-- on round_id alone. It now holds every indexed feed, keyed per feed and
+-- proxy phase. Legacy rows inside the indexer's backfill window are dropped
+-- (the first index run re-reads them from chain with full metadata); older
+-- ones are kept as the wstETH feed's history.
+
+create table if not exists oracle_rounds (
+  round_id numeric not null,
+  rate double precision not null,
+  timestamp bigint not null,
+  block bigint not null,
+  tx_hash text
+);
+
+alter table oracle_rounds
+  add column if not exists feed text,
+  add column if not exists chain text,
+  add column if not exists aggregator text,
+  add column if not exists phase_id integer,
+  add column if not exists answer text,
+  add column if not exists log_index integer;
+
+-- BACKFILL_DAYS in oracleIndexer.ts
+delete from oracle_rounds
+where feed is null
+  and timestamp >= extract(epoch from now() - interval '365 days');
+
+-- WSTETH_RATE_FEED in oracleMap.ts
+update oracle_rounds
+set feed = '0x04030d2f38bc799af9b0aab5757adc98000d7ded',
+    chain = 'base',
+    phase_id = 0
+where feed is null;
+
+alter table oracle_rounds
+  alter column feed set not null,
+  alter column chain set not null,
+  alter column phase_id set not null;
+
+-- Drop whatever made round_id unique on its own: a primary key, a unique
+-- constraint or a bare unique index
+do $$
+declare
+  round_col int2 := (select attnum from pg_attribute where attrelid = 'oracle_rounds'::regclass and attname = 'round_id');
+  c record;
+begin
+  for c in
+    select conname from pg_constraint
+    where conrelid = 'oracle_rounds'::regclass and contype in ('p', 'u') and conkey = array[round_col]
+  loop
+    execute format('alter table oracle_rounds drop constraint %I', c.conname);
+  end loop;
+
+  for c in
+    select indexrelid::regclass as idx from pg_index
+    where indrelid = 'oracle_rounds'::regclass and indisunique and indkey::int2[] = array[round_col]
+  loop
+    execute format('drop index %s', c.idx);
+  end loop;
+end $$;
+
+alter table oracle_rounds
+  add constraint oracle_rounds_feed_phase_round_key unique (feed, phase_id, round_id);
+
+create index if not exists oracle_rounds_feed_timestamp_idx on oracle_rounds (feed, timestamp);
+
+create table if not exists oracle_index_checkpoints (
+  feed text primary key,
+  chain text not null,
+  last_block bigint not null,
+  updated_at timestamptz not null default now()
+);